@@ -0,0 +1,15 @@
+-- Migration 009: Order Status Events
+-- Records every order status transition (timeline) with actor and optional reason
+
+CREATE TABLE order_status_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status order_status NULL, -- NULL for the initial status set at creation
+  to_status order_status NOT NULL,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('CUSTOMER', 'ADMIN', 'SYSTEM')),
+  actor_id TEXT NULL,
+  reason TEXT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_status_events_order_created ON order_status_events(order_id, created_at);
@@ -0,0 +1,16 @@
+-- Migration 010: Customer Order Cancellation
+-- Per-restaurant policy for customer-initiated cancellation and refund tracking
+
+-- Statuses in which the customer may still cancel the order
+-- (TEXT[] rather than order_status[] so node-postgres parses it as an array)
+ALTER TABLE restaurants
+ADD COLUMN customer_cancellable_statuses TEXT[] NOT NULL DEFAULT ARRAY['CREATED', 'ACCEPTED'],
+ADD CONSTRAINT restaurants_customer_cancellable_statuses_check
+  CHECK (customer_cancellable_statuses <@ ARRAY['CREATED', 'PAID', 'ACCEPTED', 'PREPARING', 'READY']);
+
+-- Set when a PAID ONLINE order is cancelled and the payment must be refunded
+ALTER TABLE orders
+ADD COLUMN refund_due BOOLEAN NOT NULL DEFAULT false;
+
+-- Index for the refund queue
+CREATE INDEX idx_orders_refund_due ON orders(refund_due) WHERE refund_due = true;
@@ -0,0 +1,29 @@
+-- Migration 011: Payments
+-- Payment attempts with provider references, plus processed webhook events (idempotency)
+
+CREATE TABLE payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_ref TEXT NULL, -- NULL if the intent could not be created
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (
+    status IN ('PENDING', 'AUTHORIZED', 'SUCCEEDED', 'FAILED', 'EXPIRED', 'REFUND_PENDING', 'REFUNDED')
+  ),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  failure_reason TEXT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, provider_ref)
+);
+
+CREATE INDEX idx_payments_order_created ON payments(order_id, created_at DESC);
+
+CREATE TABLE payment_webhook_events (
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  payment_id UUID NULL REFERENCES payments(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  received_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider, event_id)
+);
@@ -0,0 +1,9 @@
+-- Migration 012: Order Cancellation Reason
+-- Why an order was cancelled (customer, admin or automatic payment timeout)
+
+ALTER TABLE orders
+ADD COLUMN cancellation_reason TEXT NULL;
+
+-- Index for the unpaid orders sweeper
+CREATE INDEX idx_orders_unpaid_online ON orders(created_at)
+  WHERE payment_method = 'ONLINE' AND status = 'CREATED' AND payment_status = 'PENDING';
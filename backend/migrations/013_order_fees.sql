@@ -0,0 +1,11 @@
+-- Migration 013: Order Fees
+-- Delivery fee rules (free delivery threshold, distance bands) and fee breakdown on orders
+
+ALTER TABLE restaurant_delivery_rules
+ADD COLUMN free_delivery_threshold_cents INT NULL CHECK (free_delivery_threshold_cents >= 0),
+-- [{ "up_to_m": 2000, "fee_cents": 150 }, { "up_to_m": 5000, "fee_cents": 300 }]
+ADD COLUMN distance_bands JSONB NOT NULL DEFAULT '[]';
+
+-- Breakdown computed by the fee engine when the order was placed
+ALTER TABLE orders
+ADD COLUMN fee_breakdown JSONB NULL;
@@ -0,0 +1,9 @@
+-- Migration 014: Scheduled Orders
+-- Pre-orders for a future delivery slot (NULL = as soon as possible)
+
+ALTER TABLE orders
+ADD COLUMN scheduled_for TIMESTAMPTZ NULL;
+
+-- Index for the admin list of upcoming scheduled orders
+CREATE INDEX idx_orders_scheduled_for ON orders(restaurant_id, scheduled_for)
+  WHERE scheduled_for IS NOT NULL;
@@ -0,0 +1,23 @@
+-- Migration 015: Restaurant Capacity
+-- Max orders / items per 15-minute delivery slot, optionally per day of week
+
+CREATE TABLE IF NOT EXISTS restaurant_capacity_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NULL CHECK (day_of_week BETWEEN 0 AND 6), -- NULL = every day
+  max_orders INT NULL CHECK (max_orders > 0),
+  max_items INT NULL CHECK (max_items > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (max_orders IS NOT NULL OR max_items IS NOT NULL)
+);
+
+-- One rule per day (and one default rule) per restaurant
+CREATE UNIQUE INDEX idx_restaurant_capacity_rules_day
+  ON restaurant_capacity_rules(restaurant_id, COALESCE(day_of_week, -1));
+
+-- Delivery slot each order takes up: scheduled_for, or the first slot after the ETA for ASAP orders
+ALTER TABLE orders
+ADD COLUMN delivery_slot_start TIMESTAMPTZ NULL;
+
+CREATE INDEX idx_orders_delivery_slot ON orders(restaurant_id, delivery_slot_start)
+  WHERE delivery_slot_start IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Migration 016: Pickup Fulfilment
+-- Orders can be delivered or collected at the restaurant (takeaway)
+
+CREATE TYPE fulfilment_type AS ENUM ('DELIVERY', 'PICKUP');
+
+-- Final status of pickup orders (READY -> COLLECTED)
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'COLLECTED' AFTER 'DELIVERED';
+
+ALTER TABLE orders
+ADD COLUMN fulfilment_type fulfilment_type NOT NULL DEFAULT 'DELIVERY';
+
+-- Pickup orders have no delivery address
+ALTER TABLE orders
+ALTER COLUMN address_json DROP NOT NULL;
+
+ALTER TABLE orders
+ADD CONSTRAINT orders_delivery_address_check
+  CHECK (fulfilment_type = 'PICKUP' OR address_json IS NOT NULL);
+
+-- Modes offered by each restaurant
+ALTER TABLE restaurants
+ADD COLUMN offers_delivery BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN offers_pickup BOOLEAN NOT NULL DEFAULT false,
+ADD CONSTRAINT restaurants_fulfilment_check CHECK (offers_delivery OR offers_pickup);
@@ -0,0 +1,27 @@
+-- Migration 017: Delivery Zones
+-- Areas a restaurant delivers to (radius around the restaurant or GeoJSON polygon),
+-- with optional fee / minimum order overrides, and an offline geocoding table
+
+CREATE TABLE IF NOT EXISTS restaurant_delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  radius_m INT NULL CHECK (radius_m > 0), -- around restaurants.lat/lng
+  polygon JSONB NULL, -- GeoJSON Polygon or MultiPolygon geometry, [lng, lat] coordinates
+  delivery_fee_cents INT NULL CHECK (delivery_fee_cents >= 0), -- NULL = restaurant delivery rules
+  min_order_cents INT NULL CHECK (min_order_cents >= 0), -- NULL = restaurant delivery rules
+  sort_order INT NOT NULL DEFAULT 0, -- first matching zone wins
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((radius_m IS NULL) <> (polygon IS NULL))
+);
+
+CREATE INDEX idx_restaurant_delivery_zones_restaurant
+  ON restaurant_delivery_zones(restaurant_id, sort_order);
+
+-- Known addresses for the table-backed geocoder (offline, used in development and tests)
+CREATE TABLE IF NOT EXISTS geocoded_addresses (
+  address_key TEXT PRIMARY KEY, -- normalized "street, postal_code city"
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,21 @@
+-- Migration 018: Full-Text Search
+-- Search restaurants, categories and dishes with the Italian dictionary, ignoring accents
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Italian stemming on unaccented words ("perché" matches "perche")
+CREATE TEXT SEARCH CONFIGURATION italian_unaccent (COPY = italian);
+
+ALTER TEXT SEARCH CONFIGURATION italian_unaccent
+  ALTER MAPPING FOR hword, hword_part, word
+  WITH unaccent, italian_stem;
+
+-- Expression indexes: queries must use the same expressions to hit them
+CREATE INDEX idx_restaurants_search ON restaurants
+  USING GIN (to_tsvector('italian_unaccent', name || ' ' || COALESCE(description, '')));
+
+CREATE INDEX idx_menu_categories_search ON menu_categories
+  USING GIN (to_tsvector('italian_unaccent', name));
+
+CREATE INDEX idx_menu_products_search ON menu_products
+  USING GIN (to_tsvector('italian_unaccent', name || ' ' || COALESCE(description, '')));
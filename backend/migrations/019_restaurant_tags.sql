@@ -0,0 +1,19 @@
+-- Migration 019: Restaurant Tags
+-- Cuisine taxonomy (pizzeria, sushi, gelateria, ...) to categorize and filter restaurants
+
+CREATE TABLE tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE restaurant_tags (
+  restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (restaurant_id, tag_id)
+);
+
+-- Filtering restaurants by tag
+CREATE INDEX idx_restaurant_tags_tag ON restaurant_tags(tag_id);
@@ -0,0 +1,9 @@
+-- Migration 020: Timed kill switch
+-- force_closed with force_closed_until pauses the restaurant until that time;
+-- NULL keeps the manual kill switch (closed until an admin reopens it)
+
+ALTER TABLE restaurants ADD COLUMN force_closed_until TIMESTAMPTZ;
+
+-- Expiry job: paused restaurants to reopen
+CREATE INDEX idx_restaurants_force_closed_until ON restaurants(force_closed_until)
+  WHERE force_closed_until IS NOT NULL;
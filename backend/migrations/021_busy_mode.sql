@@ -0,0 +1,13 @@
+-- Migration 021: Busy mode and promised delivery window
+-- While busy_until is in the future the restaurant ETA is multiplied by
+-- busy_eta_multiplier, then busy_extra_minutes are added
+
+ALTER TABLE restaurants
+  ADD COLUMN busy_until TIMESTAMPTZ,
+  ADD COLUMN busy_extra_minutes INT NOT NULL DEFAULT 0 CHECK (busy_extra_minutes >= 0),
+  ADD COLUMN busy_eta_multiplier DOUBLE PRECISION NOT NULL DEFAULT 1 CHECK (busy_eta_multiplier >= 1);
+
+-- Delivery (or pickup) window promised when the order was placed, to measure lateness
+ALTER TABLE orders
+  ADD COLUMN promised_from TIMESTAMPTZ,
+  ADD COLUMN promised_to TIMESTAMPTZ;
@@ -0,0 +1,28 @@
+-- Migration 022: Couriers
+-- Courier accounts (users with the courier role) and the courier assigned to each delivery
+
+ALTER TABLE users
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'customer' CHECK (role IN ('customer', 'courier'));
+
+CREATE TABLE couriers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  phone TEXT NULL, -- contact number shown to the restaurant, not used to log in
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE orders
+  ADD COLUMN courier_id UUID NULL REFERENCES couriers(id) ON DELETE SET NULL,
+  ADD COLUMN courier_assigned_at TIMESTAMPTZ NULL;
+
+-- Orders of a courier
+CREATE INDEX idx_orders_courier ON orders(courier_id) WHERE courier_id IS NOT NULL;
+
+-- Couriers move delivery orders along the timeline
+ALTER TABLE order_status_events
+  DROP CONSTRAINT order_status_events_actor_type_check,
+  ADD CONSTRAINT order_status_events_actor_type_check
+    CHECK (actor_type IN ('CUSTOMER', 'ADMIN', 'SYSTEM', 'COURIER'));
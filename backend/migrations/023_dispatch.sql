@@ -0,0 +1,24 @@
+-- Migration 023: Dispatch
+-- Courier roster (on-duty state, last known position) and delivery offers sent by the dispatcher
+
+ALTER TABLE couriers
+  ADD COLUMN is_on_duty BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN on_duty_until TIMESTAMPTZ NULL, -- end of the shift, NULL = until going off duty
+  ADD COLUMN last_lat DOUBLE PRECISION NULL,
+  ADD COLUMN last_lng DOUBLE PRECISION NULL,
+  ADD COLUMN last_position_at TIMESTAMPTZ NULL;
+
+CREATE TABLE delivery_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  courier_id UUID NOT NULL REFERENCES couriers(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'PENDING'
+    CHECK (status IN ('PENDING', 'ACCEPTED', 'REJECTED', 'EXPIRED', 'CANCELLED')),
+  offered_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ NULL
+);
+
+-- At most one open offer per order
+CREATE UNIQUE INDEX idx_delivery_offers_pending_order ON delivery_offers(order_id) WHERE status = 'PENDING';
+CREATE INDEX idx_delivery_offers_courier_status ON delivery_offers(courier_id, status);
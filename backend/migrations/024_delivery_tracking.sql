@@ -0,0 +1,19 @@
+-- Migration 024: Delivery Tracking
+-- Live position pushed by the delivering courier's phone, shown to the customer with an ETA
+
+CREATE TABLE delivery_locations (
+  order_id UUID PRIMARY KEY REFERENCES orders(id) ON DELETE CASCADE,
+  courier_id UUID NOT NULL REFERENCES couriers(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL, -- sha256 of the bearer token used to push positions
+  destination_lat DOUBLE PRECISION NULL, -- delivery address, located when the token is issued
+  destination_lng DOUBLE PRECISION NULL,
+  lat DOUBLE PRECISION NULL, -- latest position received
+  lng DOUBLE PRECISION NULL,
+  recorded_at TIMESTAMPTZ NULL,
+  shared_lat DOUBLE PRECISION NULL, -- throttled position shown to the customer
+  shared_lng DOUBLE PRECISION NULL,
+  shared_at TIMESTAMPTZ NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_delivery_locations_token ON delivery_locations(token_hash);
@@ -0,0 +1,18 @@
+-- Migration 025: Proof of Delivery
+-- 4-digit handover code per order (shown to the customer, asked by the courier at the door)
+-- and the evidence recorded when the courier confirms the delivery
+
+ALTER TABLE orders
+  ADD COLUMN handover_code TEXT NOT NULL DEFAULT lpad(floor(random() * 10000)::int::text, 4, '0'),
+  ADD COLUMN handover_attempts INT NOT NULL DEFAULT 0; -- wrong codes entered by the courier
+
+CREATE TABLE delivery_proofs (
+  order_id UUID PRIMARY KEY REFERENCES orders(id) ON DELETE CASCADE,
+  courier_id UUID NULL REFERENCES couriers(id) ON DELETE SET NULL,
+  method TEXT NOT NULL CHECK (method IN ('CODE', 'PHOTO')), -- how the handover was proven
+  photo_key TEXT NULL, -- file storage key of the photo, when one was taken
+  photo_content_type TEXT NULL,
+  cash_collected_cents INT NULL CHECK (cash_collected_cents >= 0), -- CASH orders only
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (method <> 'PHOTO' OR photo_key IS NOT NULL)
+);
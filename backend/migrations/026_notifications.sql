@@ -0,0 +1,25 @@
+-- Migration 026: Notifications
+-- Customer channel preferences and the log of transactional messages sent on order status changes
+
+ALTER TABLE users
+  ADD COLUMN notify_by_email BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN notify_by_sms BOOLEAN NOT NULL DEFAULT true;
+
+-- Queued in the transaction of the status change, sent by the notifications sweeper
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  order_id UUID NULL REFERENCES orders(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('EMAIL', 'SMS')),
+  template TEXT NOT NULL, -- e.g. order.accepted
+  recipient TEXT NOT NULL, -- email address or E.164 phone number
+  subject TEXT NULL, -- email only
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'SENDING', 'SENT', 'FAILED')),
+  error TEXT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ NULL
+);
+
+CREATE INDEX idx_notifications_pending ON notifications(created_at) WHERE status = 'PENDING';
+CREATE INDEX idx_notifications_order ON notifications(order_id);
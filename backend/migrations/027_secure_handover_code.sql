@@ -0,0 +1,6 @@
+-- Migration 027: Secure handover code default
+-- createOrder generates the code with a cryptographic RNG; this default only covers
+-- orders inserted directly (seeds, tests) and no longer relies on random()
+
+ALTER TABLE orders
+  ALTER COLUMN handover_code SET DEFAULT lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint % 10000))::text, 4, '0');
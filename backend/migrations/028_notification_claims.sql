@@ -0,0 +1,7 @@
+-- Migration 028: Notification claims
+-- When a sweeper took a notification for sending, so sends interrupted by a crash can be closed
+
+ALTER TABLE notifications
+  ADD COLUMN claimed_at TIMESTAMPTZ NULL;
+
+CREATE INDEX idx_notifications_sending ON notifications(claimed_at) WHERE status = 'SENDING';
@@ -0,0 +1,5 @@
+-- Migration 029: Payment client secret
+-- Keep the provider client secret, so a retried pay request can resume the attempt in progress
+
+ALTER TABLE payments
+  ADD COLUMN client_secret TEXT NULL;
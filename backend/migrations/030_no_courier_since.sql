@@ -0,0 +1,5 @@
+-- Migration 030: Orders without an available courier
+-- When dispatch last found nobody to offer the order to, shown on the admin board
+
+ALTER TABLE orders
+  ADD COLUMN no_courier_since TIMESTAMPTZ NULL;
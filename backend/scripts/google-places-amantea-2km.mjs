@@ -78,7 +78,7 @@ async function getPlaceDetails(placeName) {
         'X-Goog-FieldMask':
           'name,displayName,formattedAddress,location,' +
           'internationalPhoneNumber,nationalPhoneNumber,' +
-          'websiteUri,regularOpeningHours',
+          'websiteUri,regularOpeningHours,types',
       },
     });
 
@@ -142,6 +142,7 @@ async function main() {
       phone: place.internationalPhoneNumber || place.nationalPhoneNumber || null,
       website: place.websiteUri || null,
       opening_hours: place.regularOpeningHours || null,
+      types: place.types || [],
     }));
 
     // Deduplicate by name + formatted_address (case-insensitive)
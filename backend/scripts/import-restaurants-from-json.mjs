@@ -22,6 +22,49 @@ if (!ADMIN_API_KEY) {
   process.exit(1);
 }
 
+/**
+ * Google Places types mapped to ToHome tags (slug -> name)
+ * See https://developers.google.com/maps/documentation/places/web-service/place-types
+ */
+const GOOGLE_TYPE_TAGS = {
+  pizza_restaurant: { slug: 'pizzeria', name: 'Pizzeria' },
+  italian_restaurant: { slug: 'italiana', name: 'Cucina italiana' },
+  seafood_restaurant: { slug: 'pesce', name: 'Pesce' },
+  sushi_restaurant: { slug: 'sushi', name: 'Sushi' },
+  japanese_restaurant: { slug: 'giapponese', name: 'Giapponese' },
+  chinese_restaurant: { slug: 'cinese', name: 'Cinese' },
+  indian_restaurant: { slug: 'indiana', name: 'Indiana' },
+  mexican_restaurant: { slug: 'messicana', name: 'Messicana' },
+  hamburger_restaurant: { slug: 'hamburger', name: 'Hamburger' },
+  fast_food_restaurant: { slug: 'fast-food', name: 'Fast food' },
+  steak_house: { slug: 'carne', name: 'Carne' },
+  barbecue_restaurant: { slug: 'carne', name: 'Carne' },
+  kebab_shop: { slug: 'kebab', name: 'Kebab' },
+  sandwich_shop: { slug: 'panini', name: 'Panini' },
+  vegetarian_restaurant: { slug: 'vegetariana', name: 'Vegetariana' },
+  vegan_restaurant: { slug: 'vegana', name: 'Vegana' },
+  ice_cream_shop: { slug: 'gelateria', name: 'Gelateria' },
+  dessert_shop: { slug: 'dolci', name: 'Dolci' },
+  bakery: { slug: 'panetteria', name: 'Panetteria' },
+  cafe: { slug: 'bar', name: 'Bar' },
+  coffee_shop: { slug: 'bar', name: 'Bar' },
+  bar: { slug: 'bar', name: 'Bar' },
+};
+
+/**
+ * Map Google Places types to tags (deduplicated)
+ */
+function tagsForTypes(types = []) {
+  const tags = new Map();
+  for (const type of types) {
+    const tag = GOOGLE_TYPE_TAGS[type];
+    if (tag) {
+      tags.set(tag.slug, tag);
+    }
+  }
+  return Array.from(tags.values());
+}
+
 /**
  * Slugify a string
  */
@@ -79,6 +122,58 @@ async function createRestaurant(restaurant) {
   return await response.json();
 }
 
+/**
+ * Create the tags that do not exist yet via Admin API
+ */
+async function ensureTags(tags) {
+  const response = await fetch(`${API_URL}/admin/tags`, {
+    headers: { 'X-Admin-Key': ADMIN_API_KEY },
+  });
+
+  if (!response.ok) {
+    throw new Error(`API error ${response.status}: ${await response.text()}`);
+  }
+
+  const existing = new Set((await response.json()).data.map(tag => tag.slug));
+
+  for (const tag of tags) {
+    if (existing.has(tag.slug)) continue;
+
+    const created = await fetch(`${API_URL}/admin/tags`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Admin-Key': ADMIN_API_KEY,
+      },
+      body: JSON.stringify(tag),
+    });
+
+    if (!created.ok) {
+      throw new Error(`API error ${created.status}: ${await created.text()}`);
+    }
+    existing.add(tag.slug);
+  }
+}
+
+/**
+ * Assign tags to a restaurant via Admin API
+ */
+async function setRestaurantTags(restaurantId, tagSlugs) {
+  const response = await fetch(`${API_URL}/admin/restaurants/${restaurantId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Admin-Key': ADMIN_API_KEY,
+    },
+    body: JSON.stringify({ tags: tagSlugs }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`API error ${response.status}: ${error}`);
+  }
+}
+
 /**
  * Main function
  */
@@ -100,6 +195,19 @@ async function main() {
 
   console.log(`✅ Found ${items.length} restaurants in JSON\n`);
 
+  // Step 1b: Create the tags the place types map to
+  const allTags = tagsForTypes(items.flatMap(item => item.types || []));
+  if (allTags.length > 0) {
+    console.log(`🏷️  Ensuring ${allTags.length} tags: ${allTags.map(t => t.slug).join(', ')}`);
+    try {
+      await ensureTags(allTags);
+    } catch (error) {
+      console.error('❌ Error creating tags:', error.message);
+      process.exit(1);
+    }
+    console.log('');
+  }
+
   // Step 2: Get existing restaurants
   console.log('📋 Fetching existing restaurants from API...');
   const existingRestaurants = await getExistingRestaurants();
@@ -169,12 +277,25 @@ async function main() {
     // Create restaurant
     try {
       const created = await createRestaurant(restaurant);
+      const restaurantId = created.data?.id || created.id || created.restaurant?.id || null;
       console.log(`  ✅ CREATED - slug: ${slug}`);
 
+      // Tags from Google place types (only on creation: existing tags are curated by admins)
+      const tagSlugs = tagsForTypes(item.types).map(tag => tag.slug);
+      if (restaurantId && tagSlugs.length > 0) {
+        try {
+          await setRestaurantTags(restaurantId, tagSlugs);
+          console.log(`  🏷️  TAGS - ${tagSlugs.join(', ')}`);
+        } catch (error) {
+          console.log(`  ⚠️  TAGS_FAILED - ${error.message}`);
+        }
+      }
+
       results.created.push({
         name: item.name,
         slug: slug,
-        id: created.id || created.restaurant?.id || null,
+        id: restaurantId,
+        tags: tagSlugs,
       });
 
       // Check if hours present
@@ -2,7 +2,7 @@ import { EmailProvider } from './EmailProvider';
 
 /**
  * Mock Email Provider for testing
- * Does not send actual emails, just logs to console and stores last message in memory
+ * Does not send actual emails, just logs to console and keeps the sent messages in memory
  */
 
 interface MockEmailMessage {
@@ -13,16 +13,16 @@ interface MockEmailMessage {
 }
 
 export class MockEmailProvider implements EmailProvider {
-  private lastMessage: MockEmailMessage | null = null;
+  private messages: MockEmailMessage[] = [];
 
   async send(to: string, subject: string, text: string): Promise<void> {
-    // Store last message in memory for debugging
-    this.lastMessage = {
+    // Store the message in memory for debugging/testing
+    this.messages.push({
       to,
       subject,
       text,
       created_at: new Date(),
-    };
+    });
 
     // Log in simple format
     console.log(`MOCK_EMAIL_SENT to=${to}`);
@@ -32,6 +32,20 @@ export class MockEmailProvider implements EmailProvider {
    * Get the last sent message (useful for debugging/testing)
    */
   getLastMessage(): MockEmailMessage | null {
-    return this.lastMessage;
+    return this.messages[this.messages.length - 1] || null;
+  }
+
+  /**
+   * Get every message sent so far, oldest first
+   */
+  getSentMessages(): MockEmailMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Forget the sent messages
+   */
+  clear(): void {
+    this.messages = [];
   }
 }
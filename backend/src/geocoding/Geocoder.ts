@@ -0,0 +1,19 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeocodeAddress {
+  street: string;
+  city: string;
+  postal_code: string;
+}
+
+export interface Geocoder {
+  readonly name: string;
+  /**
+   * Resolve a delivery address to coordinates
+   * @returns null if the address is unknown
+   */
+  geocode(address: GeocodeAddress): Promise<GeoPoint | null>;
+}
@@ -0,0 +1,51 @@
+import { query } from '../db';
+import { GeoPoint, GeocodeAddress, Geocoder } from './Geocoder';
+
+/**
+ * Normalized lookup key: "via roma 1, 87032 amantea"
+ * (lowercase, no accents, single spaces)
+ */
+export function normalizeAddressKey(address: GeocodeAddress): string {
+  const normalize = (text: string) =>
+    text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+
+  return `${normalize(address.street)}, ${normalize(address.postal_code)} ${normalize(address.city)}`;
+}
+
+/**
+ * Offline geocoder backed by the geocoded_addresses table.
+ * Used in development and tests: only addresses stored in the table are found.
+ */
+export class TableGeocoder implements Geocoder {
+  readonly name = 'table';
+
+  async geocode(address: GeocodeAddress): Promise<GeoPoint | null> {
+    const result = await query<{ lat: number; lng: number }>(
+      'SELECT lat, lng FROM geocoded_addresses WHERE address_key = $1',
+      [normalizeAddressKey(address)]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return { lat: Number(result.rows[0].lat), lng: Number(result.rows[0].lng) };
+  }
+
+  /**
+   * Store the coordinates of an address (seed scripts and tests)
+   */
+  async save(address: GeocodeAddress, point: GeoPoint): Promise<void> {
+    await query(
+      `INSERT INTO geocoded_addresses (address_key, lat, lng)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (address_key) DO UPDATE SET lat = EXCLUDED.lat, lng = EXCLUDED.lng`,
+      [normalizeAddressKey(address), point.lat, point.lng]
+    );
+  }
+}
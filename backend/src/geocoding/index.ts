@@ -0,0 +1,29 @@
+import { Geocoder } from './Geocoder';
+import { TableGeocoder } from './TableGeocoder';
+
+// One instance per provider, shared by order creation, quotes and restaurant search
+const geocoders = new Map<string, Geocoder>();
+
+function createGeocoder(name: string): Geocoder {
+  if (name === 'table') {
+    return new TableGeocoder();
+  }
+
+  throw new Error(`Unknown geocoder: ${name}`);
+}
+
+/**
+ * Get a geocoder by name (defaults to GEOCODER_PROVIDER)
+ * @throws Error if the geocoder is unknown
+ */
+export function getGeocoder(name?: string): Geocoder {
+  const geocoderName = name || process.env.GEOCODER_PROVIDER || 'table';
+
+  let geocoder = geocoders.get(geocoderName);
+  if (!geocoder) {
+    geocoder = createGeocoder(geocoderName);
+    geocoders.set(geocoderName, geocoder);
+  }
+
+  return geocoder;
+}
@@ -7,9 +7,24 @@ import { authRoutes } from './routes/auth';
 import { meRoutes } from './routes/me';
 import { registerRestaurantsRoutes } from './routes/restaurants';
 import { ordersRoutes } from './routes/orders';
+import { cartRoutes } from './routes/cart';
+import { geocodingRoutes } from './routes/geocoding';
+import { searchRoutes } from './routes/search';
+import { paymentsRoutes } from './routes/payments';
+import { courierRoutes } from './routes/courier';
+import { deliveriesRoutes } from './routes/deliveries';
 import { registerAdminRestaurantsRoutes } from './routes/admin/restaurants';
 import { registerAdminMenuRoutes } from './routes/admin/menu';
 import { registerAdminOrdersRoutes } from './routes/admin/orders';
+import { registerAdminTagsRoutes } from './routes/admin/tags';
+import { registerAdminCouriersRoutes } from './routes/admin/couriers';
+import { createEmailProvider } from './email';
+import { startUnpaidOrdersSweeper } from './jobs/unpaidOrdersSweeper';
+import { startPausedRestaurantsSweeper } from './jobs/pausedRestaurantsSweeper';
+import { startDispatchSweeper } from './jobs/dispatchSweeper';
+import { startNotificationsSweeper } from './jobs/notificationsSweeper';
+import { createNotificationService } from './notifications';
+import { getOnlinePaymentsUnavailableReason } from './payments';
 
 dotenv.config();
 
@@ -26,6 +41,28 @@ const envSchema = z.object({
   SKEBBY_MESSAGE_TYPE: z.enum(['GP', 'TI', 'SI']).optional(),
   SKEBBY_SENDER: z.string().optional(),
   ADMIN_API_KEY: z.string().min(32).optional(),
+  PAYMENT_PROVIDER: z.enum(['fake']).default('fake'),
+  FAKE_PAYMENT_WEBHOOK_SECRET: z.string().optional(),
+  FAKE_PAYMENT_WEBHOOK_URL: z.string().optional(),
+  FAKE_PAYMENT_WEBHOOK_DELAY_MS: z.string().optional(),
+  UNPAID_ORDER_TIMEOUT_MINUTES: z.string().default('15'),
+  UNPAID_ORDER_SWEEP_INTERVAL_SECONDS: z.string().default('60'),
+  PAUSE_SWEEP_INTERVAL_SECONDS: z.string().default('30'),
+  SERVICE_FEE_TYPE: z.enum(['none', 'flat', 'percent']).default('none'),
+  SERVICE_FEE_VALUE: z.string().optional(),
+  SERVICE_FEE_MIN_CENTS: z.string().optional(),
+  SERVICE_FEE_MAX_CENTS: z.string().optional(),
+  GEOCODER_PROVIDER: z.enum(['table']).default('table'),
+  DISPATCH_OFFER_TIMEOUT_SECONDS: z.string().default('60'),
+  DISPATCH_MAX_ACTIVE_ORDERS: z.string().default('2'),
+  DISPATCH_LEAD_MINUTES: z.string().default('10'),
+  DISPATCH_SWEEP_INTERVAL_SECONDS: z.string().default('15'),
+  DISPATCH_DECLINE_COOLDOWN_MINUTES: z.string().default('5'),
+  TRACKING_SHARE_INTERVAL_SECONDS: z.string().default('30'),
+  FILE_STORAGE_PROVIDER: z.enum(['local']).default('local'),
+  FILE_STORAGE_DIR: z.string().default('./uploads'),
+  NOTIFICATION_STATUSES: z.string().default('ACCEPTED,READY,DELIVERING,CANCELLED'),
+  NOTIFICATION_SWEEP_INTERVAL_SECONDS: z.string().default('5'),
 });
 
 const env = envSchema.parse(process.env);
@@ -48,9 +85,17 @@ async function start() {
     await server.register(meRoutes);
     await server.register(registerRestaurantsRoutes);
     await server.register(ordersRoutes);
+    await server.register(cartRoutes);
+    await server.register(geocodingRoutes);
+    await server.register(searchRoutes);
+    await server.register(paymentsRoutes);
+    await server.register(courierRoutes);
+    await server.register(deliveriesRoutes);
     await server.register(registerAdminRestaurantsRoutes);
     await server.register(registerAdminMenuRoutes);
     await server.register(registerAdminOrdersRoutes);
+    await server.register(registerAdminTagsRoutes);
+    await server.register(registerAdminCouriersRoutes);
 
     server.get('/health', async (request, reply) => {
       return { ok: true };
@@ -59,6 +104,29 @@ async function start() {
     const port = parseInt(env.PORT, 10);
     await server.listen({ port, host: '0.0.0.0' });
     console.log(`Server listening on http://localhost:${port}`);
+
+    // Without a usable provider the app still serves CASH orders
+    const paymentsUnavailable = getOnlinePaymentsUnavailableReason();
+    if (paymentsUnavailable) {
+      server.log.warn(`ONLINE payments disabled: ${paymentsUnavailable}`);
+    }
+
+    // Background jobs
+    startUnpaidOrdersSweeper({
+      emailProvider: createEmailProvider(),
+      timeoutMinutes: parseInt(env.UNPAID_ORDER_TIMEOUT_MINUTES, 10),
+      intervalMs: parseInt(env.UNPAID_ORDER_SWEEP_INTERVAL_SECONDS, 10) * 1000,
+    });
+    startPausedRestaurantsSweeper({
+      intervalMs: parseInt(env.PAUSE_SWEEP_INTERVAL_SECONDS, 10) * 1000,
+    });
+    startDispatchSweeper({
+      intervalMs: parseInt(env.DISPATCH_SWEEP_INTERVAL_SECONDS, 10) * 1000,
+    });
+    startNotificationsSweeper({
+      service: createNotificationService(),
+      intervalMs: parseInt(env.NOTIFICATION_SWEEP_INTERVAL_SECONDS, 10) * 1000,
+    });
   } catch (err) {
     server.log.error(err);
     process.exit(1);
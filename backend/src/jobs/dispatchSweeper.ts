@@ -0,0 +1,67 @@
+import * as dispatchRepo from '../repos/dispatchRepo';
+import { DispatchConfig, getDispatchConfig } from '../utils/dispatch';
+
+/**
+ * Background job dispatching delivery orders to couriers. Each sweep closes
+ * expired or obsolete offers, then offers every order still waiting for a
+ * courier (READY, or close to its promised window) to the best available one.
+ */
+
+export interface DispatchSweeperOptions {
+  config?: DispatchConfig;
+  intervalMs?: number;
+}
+
+/**
+ * Run one sweep
+ * @returns offers made
+ */
+export async function sweepDispatch(
+  config: DispatchConfig = getDispatchConfig(),
+  now: Date = new Date()
+): Promise<dispatchRepo.DeliveryOffer[]> {
+  await dispatchRepo.closeStaleOffers(now);
+
+  const offers: dispatchRepo.DeliveryOffer[] = [];
+  for (const orderId of await dispatchRepo.listOrdersToDispatch(config.lead_minutes, now)) {
+    // One failing order must not hold back the others
+    try {
+      const offer = await dispatchRepo.offerOrder(orderId, config, now);
+      if (offer) {
+        console.log('Delivery offered:', {
+          orderId,
+          courierId: offer.courier_id,
+          expiresAt: offer.expires_at,
+        });
+        offers.push(offer);
+      }
+    } catch (error) {
+      console.error('Dispatch failed for order:', { orderId, error });
+    }
+  }
+
+  return offers;
+}
+
+/**
+ * Start sweeping on an interval
+ * @returns stop function
+ */
+export function startDispatchSweeper(options: DispatchSweeperOptions = {}): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick if the previous sweep is still running
+    if (running) return;
+    running = true;
+    try {
+      await sweepDispatch(options.config);
+    } catch (error) {
+      console.error('Dispatch sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  }, options.intervalMs ?? 15000);
+
+  return () => clearInterval(timer);
+}
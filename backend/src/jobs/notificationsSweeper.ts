@@ -0,0 +1,73 @@
+import * as notificationsRepo from '../repos/notificationsRepo';
+import { NotificationService } from '../notifications/NotificationService';
+
+/**
+ * Background job sending the notifications queued by order status changes.
+ * A failed send is logged on the notification (FAILED) and not retried,
+ * as are sends left unfinished by a sweeper that stopped.
+ */
+
+// Notifications sent per sweep
+const BATCH_SIZE = 50;
+
+// A notification still SENDING after this long belongs to a sweeper that stopped
+const SENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface NotificationsSweeperOptions {
+  service: NotificationService;
+  intervalMs?: number;
+}
+
+/**
+ * Run one sweep
+ * @returns the notifications handled, with their final status
+ */
+export async function sweepNotifications(
+  service: NotificationService,
+  now: Date = new Date()
+): Promise<notificationsRepo.Notification[]> {
+  const handled: notificationsRepo.Notification[] = [];
+
+  const interrupted = await notificationsRepo.failStaleNotifications(new Date(now.getTime() - SENDING_TIMEOUT_MS));
+  if (interrupted > 0) {
+    console.error(`Marked ${interrupted} interrupted notification send(s) as FAILED`);
+  }
+
+  for (const notification of await notificationsRepo.claimPendingNotifications(BATCH_SIZE, now)) {
+    try {
+      await service.send(notification);
+      await notificationsRepo.markNotificationSent(notification.id, now);
+      handled.push({ ...notification, status: 'SENT', sent_at: now });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Notification send failed:', { notificationId: notification.id, error: message });
+      await notificationsRepo.markNotificationFailed(notification.id, message);
+      handled.push({ ...notification, status: 'FAILED', error: message });
+    }
+  }
+
+  return handled;
+}
+
+/**
+ * Start sweeping on an interval
+ * @returns stop function
+ */
+export function startNotificationsSweeper(options: NotificationsSweeperOptions): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick if the previous sweep is still running
+    if (running) return;
+    running = true;
+    try {
+      await sweepNotifications(options.service);
+    } catch (error) {
+      console.error('Notifications sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  }, options.intervalMs ?? 5000);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,52 @@
+import * as restaurantsRepo from '../repos/restaurantsRepo';
+
+/**
+ * Background job reopening restaurants whose timed pause (force_closed_until)
+ * has expired. Open-now checks already ignore expired pauses: this clears the
+ * flag so admin pages and exports see the restaurant open again.
+ */
+
+export interface PausedRestaurantsSweeperOptions {
+  intervalMs?: number;
+}
+
+/**
+ * Run one sweep
+ * @returns ids of the reopened restaurants
+ */
+export async function sweepExpiredPauses(): Promise<string[]> {
+  const reopened = await restaurantsRepo.reopenExpiredPauses();
+
+  for (const restaurant of reopened) {
+    console.log('Restaurant reopened after pause:', {
+      restaurantId: restaurant.id,
+      slug: restaurant.slug,
+      pausedUntil: restaurant.force_closed_until,
+    });
+  }
+
+  return reopened.map((restaurant) => restaurant.id);
+}
+
+/**
+ * Start sweeping on an interval
+ * @returns stop function
+ */
+export function startPausedRestaurantsSweeper(options: PausedRestaurantsSweeperOptions = {}): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick if the previous sweep is still running
+    if (running) return;
+    running = true;
+    try {
+      await sweepExpiredPauses();
+    } catch (error) {
+      console.error('Paused restaurants sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  }, options.intervalMs ?? 30000);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,87 @@
+import * as ordersRepo from '../repos/ordersRepo';
+import { EmailProvider } from '../email/EmailProvider';
+
+/**
+ * Background job cancelling ONLINE orders whose payment was never completed.
+ * Safe to run on every backend instance: each sweep takes an advisory lock.
+ */
+
+export const UNPAID_ORDER_CANCELLATION_REASON = 'PAYMENT_TIMEOUT';
+
+export interface UnpaidOrdersSweeperOptions {
+  emailProvider: EmailProvider;
+  timeoutMinutes: number;
+  intervalMs?: number;
+}
+
+// A payment still in flight can be captured after the cancellation: it is then
+// flagged refund_due (see markPaidAfterCancellation), so no charge is ruled out here
+function buildCancellationEmail(order: ordersRepo.CancelledUnpaidOrder, timeoutMinutes: number) {
+  const subject = 'Ordine ToHome annullato';
+  const text = `Ciao,
+
+il tuo ordine #${order.id.substring(0, 8)} è stato annullato perché il pagamento non è stato completato entro ${timeoutMinutes} minuti.
+
+Se il pagamento dovesse comunque risultare addebitato, ti verrà rimborsato. Se vuoi, puoi effettuare un nuovo ordine dall'app.
+
+--
+ToHome`;
+
+  return { subject, text };
+}
+
+/**
+ * Run one sweep
+ * @returns ids of the cancelled orders
+ */
+export async function sweepUnpaidOrders(
+  options: Pick<UnpaidOrdersSweeperOptions, 'emailProvider' | 'timeoutMinutes'>
+): Promise<string[]> {
+  const cancelled = await ordersRepo.cancelUnpaidOnlineOrders(
+    options.timeoutMinutes,
+    UNPAID_ORDER_CANCELLATION_REASON
+  );
+
+  // Emails are sent after commit: a failure must not resurrect the order
+  for (const order of cancelled) {
+    if (!order.customer_email) {
+      continue;
+    }
+
+    const { subject, text } = buildCancellationEmail(order, options.timeoutMinutes);
+    try {
+      await options.emailProvider.send(order.customer_email, subject, text);
+    } catch (error) {
+      console.error('Unpaid order cancellation email failed:', { orderId: order.id, error });
+    }
+  }
+
+  if (cancelled.length > 0) {
+    console.log(`Cancelled ${cancelled.length} unpaid ONLINE order(s)`);
+  }
+
+  return cancelled.map((order) => order.id);
+}
+
+/**
+ * Start sweeping on an interval
+ * @returns stop function
+ */
+export function startUnpaidOrdersSweeper(options: UnpaidOrdersSweeperOptions): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick if the previous sweep is still running
+    if (running) return;
+    running = true;
+    try {
+      await sweepUnpaidOrders(options);
+    } catch (error) {
+      console.error('Unpaid orders sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  }, options.intervalMs ?? 60000);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,33 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { authenticate } from './auth';
+import { Courier, getActiveCourierByUserId } from '../repos/couriersRepo';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    courier?: Courier;
+  }
+}
+
+/**
+ * Require a logged-in user with an active courier account.
+ * The courier role is read from the database, so disabling a courier
+ * takes effect without waiting for the access token to expire.
+ */
+export async function courierOnly(request: FastifyRequest, reply: FastifyReply) {
+  await authenticate(request, reply);
+  if (reply.sent || !request.user) {
+    return;
+  }
+
+  const courier = await getActiveCourierByUserId(request.user.userId);
+
+  if (!courier) {
+    return reply.status(403).send({
+      ok: false,
+      error: 'FORBIDDEN',
+      message: 'Courier account required',
+    });
+  }
+
+  request.courier = courier;
+}
@@ -0,0 +1,36 @@
+import { EmailProvider } from '../email/EmailProvider';
+import { SmsProvider } from '../sms/SmsProvider';
+
+export type NotificationChannel = 'EMAIL' | 'SMS';
+
+/**
+ * A message ready to go out on one channel
+ */
+export interface OutgoingNotification {
+  channel: NotificationChannel;
+  recipient: string; // email address or E.164 phone number
+  subject: string | null; // email only
+  body: string;
+}
+
+/**
+ * Sends notifications through the configured email and SMS providers
+ */
+export class NotificationService {
+  constructor(
+    private emailProvider: EmailProvider,
+    private smsProvider: SmsProvider
+  ) {}
+
+  /**
+   * @throws the provider error if the message could not be sent
+   */
+  async send(notification: OutgoingNotification): Promise<void> {
+    if (notification.channel === 'EMAIL') {
+      await this.emailProvider.send(notification.recipient, notification.subject || 'ToHome', notification.body);
+      return;
+    }
+
+    await this.smsProvider.send(notification.recipient, notification.body);
+  }
+}
@@ -0,0 +1,29 @@
+import { OrderStatus } from '../repos/ordersRepo';
+import { createEmailProvider } from '../email';
+import { createSmsProvider } from '../sms';
+import { NotificationService } from './NotificationService';
+
+export interface NotificationConfig {
+  statuses: OrderStatus[]; // order statuses the customer is notified of
+}
+
+const DEFAULT_NOTIFICATION_STATUSES = 'ACCEPTED,READY,DELIVERING,CANCELLED';
+
+/**
+ * Notification settings, configured through environment variables (NOTIFICATION_STATUSES)
+ */
+export function getNotificationConfig(): NotificationConfig {
+  const statuses = (process.env.NOTIFICATION_STATUSES ?? DEFAULT_NOTIFICATION_STATUSES)
+    .split(',')
+    .map((status) => status.trim())
+    .filter(Boolean) as OrderStatus[];
+
+  return { statuses };
+}
+
+/**
+ * Notification service on the providers selected by EMAIL_PROVIDER and SMS_PROVIDER
+ */
+export function createNotificationService(): NotificationService {
+  return new NotificationService(createEmailProvider(), createSmsProvider());
+}
@@ -0,0 +1,123 @@
+import { DateTime } from 'luxon';
+import { FulfilmentType, OrderStatus, PaymentMethod, PaymentStatus } from '../repos/ordersRepo';
+
+/**
+ * Texts of the transactional messages sent to customers when their order
+ * changes status. Pure functions: the repo loads the order, the sweeper sends.
+ */
+
+export interface OrderNotificationContext {
+  order_id: string;
+  customer_name: string;
+  restaurant_name: string;
+  fulfilment_type: FulfilmentType;
+  promised_to: Date | null;
+  handover_code: string;
+  cancellation_reason: string | null;
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
+  refund_due: boolean;
+}
+
+export interface RenderedNotification {
+  template: string; // e.g. order.accepted
+  subject: string; // email subject
+  email_text: string;
+  sms_text: string;
+}
+
+type TemplateBody = { subject: string; text: string; sms: string };
+
+function formatTime(date: Date): string {
+  return DateTime.fromJSDate(date).setZone('Europe/Rome').toFormat('HH:mm');
+}
+
+function shortId(orderId: string): string {
+  return orderId.substring(0, 8);
+}
+
+const TEMPLATES: Partial<Record<OrderStatus, (ctx: OrderNotificationContext) => TemplateBody | null>> = {
+  ACCEPTED: (ctx) => {
+    const isPickup = ctx.fulfilment_type === 'PICKUP';
+    const eta = ctx.promised_to
+      ? isPickup
+        ? ` Sarà pronto entro le ${formatTime(ctx.promised_to)}.`
+        : ` Consegna prevista entro le ${formatTime(ctx.promised_to)}.`
+      : '';
+    return {
+      subject: 'Ordine ToHome accettato',
+      text: `${ctx.restaurant_name} ha accettato il tuo ordine #${shortId(ctx.order_id)}.${eta}`,
+      sms: `ToHome: ${ctx.restaurant_name} ha accettato l'ordine #${shortId(ctx.order_id)}.${eta}`,
+    };
+  },
+
+  // Delivery customers are told when the rider leaves instead
+  READY: (ctx) =>
+    ctx.fulfilment_type === 'PICKUP'
+      ? {
+          subject: 'Ordine ToHome pronto da ritirare',
+          text: `Il tuo ordine #${shortId(ctx.order_id)} è pronto: puoi ritirarlo da ${ctx.restaurant_name}.`,
+          sms: `ToHome: l'ordine #${shortId(ctx.order_id)} è pronto da ritirare da ${ctx.restaurant_name}.`,
+        }
+      : null,
+
+  DELIVERING: (ctx) => ({
+    subject: 'Ordine ToHome in consegna',
+    text: `Il tuo ordine #${shortId(ctx.order_id)} è in consegna.
+
+Comunica al rider il codice di consegna ${ctx.handover_code} solo quando ricevi l'ordine.`,
+    sms: `ToHome: l'ordine #${shortId(ctx.order_id)} è in consegna. Codice per il rider: ${ctx.handover_code}`,
+  }),
+
+  DELIVERED: (ctx) => ({
+    subject: 'Ordine ToHome consegnato',
+    text: `Il tuo ordine #${shortId(ctx.order_id)} è stato consegnato. Buon appetito!`,
+    sms: `ToHome: l'ordine #${shortId(ctx.order_id)} è stato consegnato. Buon appetito!`,
+  }),
+
+  COLLECTED: (ctx) => ({
+    subject: 'Ordine ToHome ritirato',
+    text: `Hai ritirato il tuo ordine #${shortId(ctx.order_id)} da ${ctx.restaurant_name}. Buon appetito!`,
+    sms: `ToHome: ordine #${shortId(ctx.order_id)} ritirato. Buon appetito!`,
+  }),
+
+  CANCELLED: (ctx) => {
+    const reason = ctx.cancellation_reason ? ` Motivo: ${ctx.cancellation_reason}.` : '';
+    // Only a payment that went through is refunded
+    const refund =
+      ctx.payment_method === 'ONLINE' && (ctx.payment_status === 'PAID' || ctx.refund_due)
+        ? '\n\nIl pagamento online ti verrà rimborsato.'
+        : '';
+    return {
+      subject: 'Ordine ToHome annullato',
+      text: `Il tuo ordine #${shortId(ctx.order_id)} da ${ctx.restaurant_name} è stato annullato.${reason}${refund}`,
+      sms: `ToHome: l'ordine #${shortId(ctx.order_id)} è stato annullato.${reason}`,
+    };
+  },
+};
+
+/**
+ * Message for an order entering the given status
+ * @returns null if customers are not notified of this status
+ */
+export function renderOrderNotification(
+  status: OrderStatus,
+  ctx: OrderNotificationContext
+): RenderedNotification | null {
+  const body = TEMPLATES[status]?.(ctx);
+  if (!body) {
+    return null;
+  }
+
+  return {
+    template: `order.${status.toLowerCase()}`,
+    subject: body.subject,
+    email_text: `Ciao ${ctx.customer_name},
+
+${body.text}
+
+--
+ToHome`,
+    sms_text: body.sms,
+  };
+}
@@ -0,0 +1,197 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { generateRandomToken } from '../utils/crypto';
+import {
+  CreatePaymentIntentInput,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+} from './PaymentProvider';
+
+/**
+ * Fake Payment Provider for local development and tests
+ * Keeps intents in memory and signs webhooks with HMAC-SHA256, like a real provider.
+ * When webhookUrl is set, every intent is confirmed automatically by posting
+ * a signed payment.authorized webhook back to the backend.
+ */
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+type FakeOperation = 'createIntent' | 'capture' | 'refund';
+
+interface FakePaymentConfig {
+  webhookSecret: string;
+  webhookUrl?: string | null;
+  webhookDelayMs?: number;
+}
+
+interface FakeIntent {
+  orderId: string;
+  amountCents: number;
+  captured: boolean;
+  refundedCents: number;
+}
+
+export interface SignedWebhook {
+  body: string;
+  headers: Record<string, string>;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private config: FakePaymentConfig;
+  private intents = new Map<string, FakeIntent>();
+  private failures = new Map<FakeOperation, string>();
+
+  constructor(config: FakePaymentConfig) {
+    this.config = config;
+  }
+
+  async createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent> {
+    this.throwIfFailing('createIntent');
+
+    const providerRef = `fake_pi_${generateRandomToken(12)}`;
+    this.intents.set(providerRef, {
+      orderId: input.orderId,
+      amountCents: input.amountCents,
+      captured: false,
+      refundedCents: 0,
+    });
+
+    if (this.config.webhookUrl) {
+      this.scheduleWebhook('payment.authorized', providerRef);
+    }
+
+    return {
+      providerRef,
+      status: 'PENDING',
+      clientSecret: `${providerRef}_secret`,
+    };
+  }
+
+  async capture(providerRef: string): Promise<void> {
+    this.throwIfFailing('capture');
+
+    const intent = this.getIntent(providerRef);
+    intent.captured = true;
+  }
+
+  async refund(providerRef: string, amountCents: number): Promise<void> {
+    this.throwIfFailing('refund');
+
+    const intent = this.getIntent(providerRef);
+    if (!intent.captured || intent.refundedCents + amountCents > intent.amountCents) {
+      throw new PaymentProviderError('REFUND_NOT_ALLOWED');
+    }
+    intent.refundedCents += amountCents;
+
+    if (this.config.webhookUrl) {
+      this.scheduleWebhook('refund.succeeded', providerRef);
+    }
+  }
+
+  verifyWebhook(rawBody: string, headers: IncomingHttpHeaders): PaymentWebhookEvent {
+    const header = headers[FAKE_SIGNATURE_HEADER];
+    if (typeof header !== 'string') {
+      throw new Error('INVALID_SIGNATURE');
+    }
+
+    // Format: t=<unix seconds>,v1=<hex hmac>
+    const parts = Object.fromEntries(header.split(',').map((part) => part.split('=')));
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isFinite(timestamp)) {
+      throw new Error('INVALID_SIGNATURE');
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new Error('INVALID_SIGNATURE');
+    }
+
+    const expected = Buffer.from(this.sign(timestamp, rawBody), 'hex');
+    const received = Buffer.from(parts.v1, 'hex');
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new Error('INVALID_SIGNATURE');
+    }
+
+    const payload = JSON.parse(rawBody);
+    return {
+      id: payload.id,
+      type: payload.type,
+      providerRef: payload.provider_ref,
+      failureReason: payload.failure_reason || null,
+    };
+  }
+
+  /**
+   * Build a signed webhook as the provider would send it (useful for testing)
+   */
+  buildWebhook(
+    type: PaymentWebhookEventType,
+    providerRef: string,
+    options: { failureReason?: string; timestamp?: number } = {}
+  ): SignedWebhook {
+    const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({
+      id: `fake_evt_${generateRandomToken(12)}`,
+      type,
+      provider_ref: providerRef,
+      failure_reason: options.failureReason || null,
+    });
+
+    return {
+      body,
+      headers: {
+        'content-type': 'application/json',
+        [FAKE_SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(timestamp, body)}`,
+      },
+    };
+  }
+
+  /**
+   * Make the next call to the given operation fail with the given code
+   * (e.g. 'DECLINED', 'TIMEOUT')
+   */
+  failNext(operation: FakeOperation, code: string): void {
+    this.failures.set(operation, code);
+  }
+
+  private throwIfFailing(operation: FakeOperation) {
+    const code = this.failures.get(operation);
+    if (code) {
+      this.failures.delete(operation);
+      throw new PaymentProviderError(code);
+    }
+  }
+
+  private getIntent(providerRef: string): FakeIntent {
+    const intent = this.intents.get(providerRef);
+    if (!intent) {
+      throw new PaymentProviderError('UNKNOWN_INTENT');
+    }
+    return intent;
+  }
+
+  private sign(timestamp: number, body: string): string {
+    return createHmac('sha256', this.config.webhookSecret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+
+  private scheduleWebhook(type: PaymentWebhookEventType, providerRef: string) {
+    const webhook = this.buildWebhook(type, providerRef);
+
+    const timer = setTimeout(() => {
+      fetch(this.config.webhookUrl!, {
+        method: 'POST',
+        headers: webhook.headers,
+        body: webhook.body,
+      }).catch((error) => {
+        console.error('Fake payment webhook delivery failed', { providerRef, error });
+      });
+    }, this.config.webhookDelayMs ?? 1000);
+    timer.unref();
+  }
+}
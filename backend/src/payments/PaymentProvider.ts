@@ -0,0 +1,54 @@
+import { IncomingHttpHeaders } from 'http';
+
+export type PaymentIntentStatus = 'PENDING' | 'AUTHORIZED' | 'SUCCEEDED';
+
+export interface CreatePaymentIntentInput {
+  orderId: string;
+  amountCents: number;
+  currency: string;
+}
+
+export interface PaymentIntent {
+  providerRef: string;
+  status: PaymentIntentStatus;
+  clientSecret: string | null; // passed to the client-side SDK, if any
+}
+
+export type PaymentWebhookEventType =
+  | 'payment.authorized' // funds reserved, must be captured
+  | 'payment.succeeded' // funds captured by the provider
+  | 'payment.failed'
+  | 'payment.expired' // customer never completed the payment
+  | 'refund.succeeded';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  providerRef: string;
+  failureReason: string | null;
+}
+
+/**
+ * Error raised by a provider call (declined, timeout, network...)
+ */
+export class PaymentProviderError extends Error {
+  constructor(
+    public code: string,
+    message?: string
+  ) {
+    super(message || `PAYMENT_PROVIDER_ERROR:${code}`);
+    this.name = 'PaymentProviderError';
+  }
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent>;
+  capture(providerRef: string): Promise<void>;
+  refund(providerRef: string, amountCents: number): Promise<void>;
+  /**
+   * Verify the webhook signature and parse the event
+   * @throws Error('INVALID_SIGNATURE') if the payload cannot be trusted
+   */
+  verifyWebhook(rawBody: string, headers: IncomingHttpHeaders): PaymentWebhookEvent;
+}
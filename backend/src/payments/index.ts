@@ -0,0 +1,58 @@
+import { PaymentProvider } from './PaymentProvider';
+import { FakePaymentProvider } from './FakePaymentProvider';
+
+// One instance per provider, shared by the pay and webhook routes
+const providers = new Map<string, PaymentProvider>();
+
+function createPaymentProvider(name: string): PaymentProvider {
+  if (name === 'fake') {
+    // Anyone able to sign fake webhooks could mark orders as paid
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The fake payment provider cannot be used in production');
+    }
+    const webhookSecret = process.env.FAKE_PAYMENT_WEBHOOK_SECRET;
+    if (!webhookSecret || webhookSecret.length < 32) {
+      throw new Error(
+        'FAKE_PAYMENT_WEBHOOK_SECRET (at least 32 characters) is required by the fake payment provider'
+      );
+    }
+
+    console.log('Using Fake payment provider (development/testing only)');
+    return new FakePaymentProvider({
+      webhookSecret,
+      webhookUrl: process.env.FAKE_PAYMENT_WEBHOOK_URL || null,
+      webhookDelayMs: parseInt(process.env.FAKE_PAYMENT_WEBHOOK_DELAY_MS || '1000'),
+    });
+  }
+
+  throw new Error(`Unknown payment provider: ${name}`);
+}
+
+/**
+ * Get a payment provider by name (defaults to PAYMENT_PROVIDER)
+ * @throws Error if the provider is unknown or not usable in this environment
+ */
+export function getPaymentProvider(name?: string): PaymentProvider {
+  const providerName = name || process.env.PAYMENT_PROVIDER || 'fake';
+
+  let provider = providers.get(providerName);
+  if (!provider) {
+    provider = createPaymentProvider(providerName);
+    providers.set(providerName, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Why ONLINE payments cannot be taken with the configured provider
+ * @returns null when the provider is usable
+ */
+export function getOnlinePaymentsUnavailableReason(): string | null {
+  try {
+    getPaymentProvider();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Payment provider not available';
+  }
+}
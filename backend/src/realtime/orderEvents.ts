@@ -0,0 +1,151 @@
+import { EventEmitter } from 'events';
+import { PoolClient } from 'pg';
+import { getClient } from '../db';
+
+/**
+ * Order events fan-out across backend instances.
+ * Publishers call pg_notify inside their transaction (delivered on COMMIT);
+ * every instance LISTENs on the same channel and re-emits to local SSE subscribers.
+ */
+
+const CHANNEL = 'order_events';
+const RECONNECT_DELAY_MS = 3000;
+
+export type OrderEventType =
+  | 'order.created'
+  | 'order.status_changed'
+  | 'order.payment_changed'
+  | 'order.courier_assigned';
+
+export interface OrderEvent {
+  type: OrderEventType;
+  order_id: string;
+  restaurant_id: string;
+  user_id: string;
+  status: string;
+  from_status: string | null;
+  payment_status: string;
+  at: string;
+}
+
+export interface OrderEventFilter {
+  order_id?: string;
+  restaurant_id?: string;
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+let listenerClient: PoolClient | null = null;
+let connecting: Promise<void> | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let stopped = false;
+
+/**
+ * Publish an order event. Pass the transaction client so the notification
+ * is only delivered if the transaction commits.
+ */
+export async function publishOrderEvent(
+  client: Pick<PoolClient, 'query'>,
+  event: Omit<OrderEvent, 'at'>
+): Promise<void> {
+  const payload: OrderEvent = { ...event, at: new Date().toISOString() };
+  await client.query('SELECT pg_notify($1, $2)', [CHANNEL, JSON.stringify(payload)]);
+}
+
+async function connectListener(): Promise<void> {
+  const client = await getClient();
+
+  client.on('notification', (msg) => {
+    if (msg.channel !== CHANNEL || !msg.payload) return;
+    try {
+      emitter.emit('event', JSON.parse(msg.payload) as OrderEvent);
+    } catch (error) {
+      console.error('Invalid order event payload', { payload: msg.payload, error });
+    }
+  });
+
+  client.on('error', (error) => {
+    console.error('Order events listener error', error);
+    client.release(true);
+    listenerClient = null;
+    scheduleReconnect();
+  });
+
+  await client.query(`LISTEN ${CHANNEL}`);
+  listenerClient = client;
+}
+
+function scheduleReconnect() {
+  if (stopped || reconnectTimer || emitter.listenerCount('event') === 0) return;
+
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    ensureListener().catch((error) => {
+      console.error('Order events listener reconnect failed', error);
+      scheduleReconnect();
+    });
+  }, RECONNECT_DELAY_MS);
+}
+
+async function ensureListener(): Promise<void> {
+  stopped = false;
+  if (listenerClient) return;
+  if (!connecting) {
+    connecting = connectListener().finally(() => {
+      connecting = null;
+    });
+  }
+  return connecting;
+}
+
+/**
+ * Subscribe to order events matching the filter.
+ * Starts the shared LISTEN connection on first use.
+ * @returns unsubscribe function
+ */
+export async function subscribeToOrderEvents(
+  filter: OrderEventFilter,
+  handler: (event: OrderEvent) => void
+): Promise<() => void> {
+  const listener = (event: OrderEvent) => {
+    if (filter.order_id && event.order_id !== filter.order_id) return;
+    if (filter.restaurant_id && event.restaurant_id !== filter.restaurant_id) return;
+    handler(event);
+  };
+
+  emitter.on('event', listener);
+  try {
+    await ensureListener();
+  } catch (error) {
+    emitter.off('event', listener);
+    throw error;
+  }
+
+  return () => {
+    emitter.off('event', listener);
+  };
+}
+
+/**
+ * Stop listening and release the connection (graceful shutdown / tests)
+ */
+export async function stopOrderEventsListener(): Promise<void> {
+  stopped = true;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (connecting) {
+    await connecting.catch(() => undefined);
+  }
+  if (listenerClient) {
+    const client = listenerClient;
+    listenerClient = null;
+    try {
+      await client.query(`UNLISTEN ${CHANNEL}`);
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { query, transaction } from '../db';
+
+// ============================================================================
+// Types and Interfaces
+// ============================================================================
+
+export interface Courier {
+  id: string;
+  user_id: string;
+  name: string;
+  phone: string | null;
+  email: string; // login email of the courier account
+  is_active: boolean;
+  is_on_duty: boolean;
+  on_duty_until: Date | null; // end of the shift, null = until going off duty
+  last_lat: number | null;
+  last_lng: number | null;
+  last_position_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CourierWithLoad extends Courier {
+  active_order_count: number; // assigned orders not yet delivered
+}
+
+export interface CreateCourierData {
+  email: string;
+  name: string;
+  phone?: string | null;
+  promote_existing_user?: boolean; // give the courier role to the user already using this email
+}
+
+export interface UpdateCourierData {
+  name?: string;
+  phone?: string | null;
+  is_active?: boolean;
+}
+
+const COURIER_COLUMNS = `c.id, c.user_id, c.name, c.phone, u.email, c.is_active,
+  c.is_on_duty, c.on_duty_until, c.last_lat, c.last_lng, c.last_position_at,
+  c.created_at, c.updated_at`;
+
+// ============================================================================
+// Couriers
+// ============================================================================
+
+/**
+ * List all couriers with the number of orders they are carrying
+ */
+export async function listCouriers(): Promise<CourierWithLoad[]> {
+  const result = await query<CourierWithLoad>(
+    `SELECT ${COURIER_COLUMNS},
+            COUNT(o.id) FILTER (WHERE o.status NOT IN ('DELIVERED', 'CANCELLED'))::int as active_order_count
+     FROM couriers c
+     JOIN users u ON u.id = c.user_id
+     LEFT JOIN orders o ON o.courier_id = c.id
+     GROUP BY c.id, u.email
+     ORDER BY c.is_active DESC, c.name ASC`
+  );
+  return result.rows;
+}
+
+export async function getCourierById(id: string): Promise<Courier | null> {
+  const result = await query<Courier>(
+    `SELECT ${COURIER_COLUMNS}
+     FROM couriers c
+     JOIN users u ON u.id = c.user_id
+     WHERE c.id = $1`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get the active courier profile of a logged-in user
+ * @returns null if the user is not a courier or the courier is disabled
+ */
+export async function getActiveCourierByUserId(userId: string): Promise<Courier | null> {
+  const result = await query<Courier>(
+    `SELECT ${COURIER_COLUMNS}
+     FROM couriers c
+     JOIN users u ON u.id = c.user_id
+     WHERE c.user_id = $1 AND c.is_active = true AND u.role = 'courier'`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Create a courier account. The courier logs in with the email OTP flow.
+ * A new user is created; an existing user with that email only gets the
+ * courier role when promote_existing_user is set.
+ * @throws Error('COURIER_EXISTS') if the email already belongs to a courier
+ * @throws Error('EMAIL_IN_USE') if the email belongs to another user and promote_existing_user is not set
+ */
+export async function createCourier(data: CreateCourierData): Promise<Courier> {
+  return transaction(async (client) => {
+    const insertResult = await client.query<{ id: string }>(
+      `INSERT INTO users (email, name, status, role)
+       VALUES ($1, $2, 'active', 'courier')
+       ON CONFLICT (email) DO NOTHING
+       RETURNING id`,
+      [data.email, data.name]
+    );
+
+    let userId: string;
+    if (insertResult.rows.length > 0) {
+      userId = insertResult.rows[0].id;
+    } else {
+      const userResult = await client.query<{ id: string }>(
+        'SELECT id FROM users WHERE email = $1 FOR UPDATE',
+        [data.email]
+      );
+      userId = userResult.rows[0].id;
+
+      const existing = await client.query('SELECT id FROM couriers WHERE user_id = $1', [userId]);
+      if (existing.rows.length > 0) {
+        throw new Error('COURIER_EXISTS');
+      }
+      if (!data.promote_existing_user) {
+        throw new Error('EMAIL_IN_USE');
+      }
+
+      await client.query(`UPDATE users SET role = 'courier' WHERE id = $1`, [userId]);
+    }
+
+    const result = await client.query<Omit<Courier, 'email'>>(
+      `INSERT INTO couriers (user_id, name, phone)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [userId, data.name, data.phone ?? null]
+    );
+
+    return { ...result.rows[0], email: data.email };
+  });
+}
+
+/**
+ * Update a courier (partial update). Disabled couriers can no longer
+ * use the courier routes or be assigned to orders.
+ */
+export async function updateCourier(id: string, patch: UpdateCourierData): Promise<Courier | null> {
+  const result = await query(
+    `UPDATE couriers
+     SET name = COALESCE($2, name),
+         phone = CASE WHEN $3::boolean THEN $4 ELSE phone END,
+         is_active = COALESCE($5, is_active),
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING id`,
+    [id, patch.name ?? null, patch.phone !== undefined, patch.phone ?? null, patch.is_active ?? null]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return getCourierById(id);
+}
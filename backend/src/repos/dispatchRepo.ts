@@ -0,0 +1,391 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../db';
+import * as ordersRepo from './ordersRepo';
+import { DispatchCandidate, DispatchConfig, rankCouriers } from '../utils/dispatch';
+
+/**
+ * Courier roster and delivery offers.
+ * Every function takes the current time from the caller (default: now)
+ * instead of the database clock, so dispatch runs on a fake clock in tests.
+ */
+
+// ============================================================================
+// Types and Interfaces
+// ============================================================================
+
+export type DeliveryOfferStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED' | 'CANCELLED';
+
+export interface DeliveryOffer {
+  id: string;
+  order_id: string;
+  courier_id: string;
+  status: DeliveryOfferStatus;
+  offered_at: Date;
+  expires_at: Date;
+  responded_at: Date | null;
+}
+
+/**
+ * Open offer as shown to the courier
+ */
+export interface CourierOffer extends DeliveryOffer {
+  restaurant: {
+    name: string;
+    address: string;
+    city: string;
+  };
+  address_json: any;
+  total_cents: number;
+  payment_status: ordersRepo.PaymentStatus;
+  promised_to: Date | null;
+}
+
+export interface CourierRoster {
+  is_on_duty: boolean;
+  on_duty_until: Date | null;
+  last_lat: number | null;
+  last_lng: number | null;
+  last_position_at: Date | null;
+}
+
+// Offers after which a courier is not asked again for the same order
+// until the decline cooldown has passed
+const DECLINED_OFFER_STATUSES: DeliveryOfferStatus[] = ['REJECTED', 'EXPIRED'];
+
+// ============================================================================
+// Roster
+// ============================================================================
+
+/**
+ * Go on or off duty. shiftMinutes sets the end of the shift (null: open-ended).
+ * Going off duty withdraws the courier's open offers.
+ * @returns null if the courier does not exist
+ */
+export async function setCourierDuty(
+  courierId: string,
+  onDuty: boolean,
+  shiftMinutes: number | null = null,
+  now: Date = new Date()
+): Promise<CourierRoster | null> {
+  return transaction(async (client) => {
+    const onDutyUntil = onDuty && shiftMinutes ? new Date(now.getTime() + shiftMinutes * 60 * 1000) : null;
+
+    const result = await client.query<CourierRoster>(
+      `UPDATE couriers
+       SET is_on_duty = $2, on_duty_until = $3, updated_at = $4
+       WHERE id = $1
+       RETURNING is_on_duty, on_duty_until, last_lat, last_lng, last_position_at`,
+      [courierId, onDuty, onDutyUntil, now]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    if (!onDuty) {
+      await client.query(
+        `UPDATE delivery_offers
+         SET status = 'CANCELLED', responded_at = $2
+         WHERE courier_id = $1 AND status = 'PENDING'`,
+        [courierId, now]
+      );
+    }
+
+    return result.rows[0];
+  });
+}
+
+/**
+ * Record the last known position of a courier
+ * @returns null if the courier does not exist
+ */
+export async function setCourierPosition(
+  courierId: string,
+  lat: number,
+  lng: number,
+  now: Date = new Date()
+): Promise<CourierRoster | null> {
+  const result = await query<CourierRoster>(
+    `UPDATE couriers
+     SET last_lat = $2, last_lng = $3, last_position_at = $4
+     WHERE id = $1
+     RETURNING is_on_duty, on_duty_until, last_lat, last_lng, last_position_at`,
+    [courierId, lat, lng, now]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Active on-duty couriers with their load (assigned open orders plus open offers)
+ */
+async function listDispatchCandidates(
+  client: PoolClient,
+  excludeCourierIds: string[]
+): Promise<DispatchCandidate[]> {
+  const result = await client.query<DispatchCandidate>(
+    `SELECT c.id, c.on_duty_until, c.last_lat, c.last_lng, c.last_position_at,
+            ((SELECT COUNT(*) FROM orders o
+              WHERE o.courier_id = c.id AND o.status NOT IN ('DELIVERED', 'CANCELLED'))
+             + (SELECT COUNT(*) FROM delivery_offers d
+                WHERE d.courier_id = c.id AND d.status = 'PENDING'))::int as active_orders
+     FROM couriers c
+     WHERE c.is_active = true
+       AND c.is_on_duty = true
+       AND c.id <> ALL($1::uuid[])`,
+    [excludeCourierIds]
+  );
+
+  return result.rows;
+}
+
+// ============================================================================
+// Offers
+// ============================================================================
+
+/**
+ * Close the offers nobody can act on anymore: past their deadline (EXPIRED),
+ * or for orders that got a courier, were cancelled or delivered (CANCELLED)
+ * @returns number of closed offers
+ */
+export async function closeStaleOffers(now: Date = new Date()): Promise<number> {
+  const expired = await query(
+    `UPDATE delivery_offers
+     SET status = 'EXPIRED', responded_at = $1
+     WHERE status = 'PENDING' AND expires_at <= $1`,
+    [now]
+  );
+
+  const cancelled = await query(
+    `UPDATE delivery_offers d
+     SET status = 'CANCELLED', responded_at = $1
+     FROM orders o
+     WHERE o.id = d.order_id
+       AND d.status = 'PENDING'
+       AND (o.courier_id IS NOT NULL OR o.status IN ('DELIVERED', 'CANCELLED'))`,
+    [now]
+  );
+
+  return (expired.rowCount ?? 0) + (cancelled.rowCount ?? 0);
+}
+
+/**
+ * Delivery orders waiting for a courier without an open offer: READY ones,
+ * and those still in the kitchen whose promised window starts within the lead time.
+ * Oldest promise first.
+ */
+export async function listOrdersToDispatch(
+  leadMinutes: number,
+  now: Date = new Date()
+): Promise<string[]> {
+  const result = await query<{ id: string }>(
+    `SELECT o.id
+     FROM orders o
+     WHERE o.fulfilment_type = 'DELIVERY'
+       AND o.courier_id IS NULL
+       AND (
+         o.status = 'READY'
+         OR (o.status IN ('ACCEPTED', 'PREPARING')
+             AND o.promised_from IS NOT NULL
+             AND o.promised_from - make_interval(mins => $1) <= $2)
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM delivery_offers d WHERE d.order_id = o.id AND d.status = 'PENDING'
+       )
+     ORDER BY COALESCE(o.promised_from, o.created_at) ASC, o.id ASC`,
+    [leadMinutes, now]
+  );
+
+  return result.rows.map((row) => row.id);
+}
+
+/**
+ * Offer an order to the best available courier, skipping those who rejected
+ * it or let an offer for it expire within the decline cooldown.
+ * When nobody is available the order is flagged no_courier_since for the admin board.
+ * @returns the new offer, or null if the order needs no courier or nobody is available
+ */
+export async function offerOrder(
+  orderId: string,
+  config: DispatchConfig,
+  now: Date = new Date()
+): Promise<DeliveryOffer | null> {
+  return transaction(async (client) => {
+    const orderResult = await client.query<{ restaurant_lat: number | null; restaurant_lng: number | null }>(
+      `SELECT r.lat as restaurant_lat, r.lng as restaurant_lng
+       FROM orders o
+       JOIN restaurants r ON r.id = o.restaurant_id
+       WHERE o.id = $1
+         AND o.fulfilment_type = 'DELIVERY'
+         AND o.courier_id IS NULL
+         AND o.status NOT IN ('DELIVERED', 'CANCELLED')
+       FOR UPDATE OF o`,
+      [orderId]
+    );
+
+    const order = orderResult.rows[0];
+    if (!order) {
+      return null;
+    }
+
+    const previousResult = await client.query<{
+      courier_id: string;
+      status: DeliveryOfferStatus;
+      responded_at: Date | null;
+    }>('SELECT courier_id, status, responded_at FROM delivery_offers WHERE order_id = $1', [orderId]);
+    if (previousResult.rows.some((offer) => offer.status === 'PENDING')) {
+      return null;
+    }
+
+    const cooldownStart = now.getTime() - config.decline_cooldown_minutes * 60 * 1000;
+    const declined = previousResult.rows
+      .filter(
+        (offer) =>
+          DECLINED_OFFER_STATUSES.includes(offer.status) &&
+          offer.responded_at !== null &&
+          offer.responded_at.getTime() > cooldownStart
+      )
+      .map((offer) => offer.courier_id);
+
+    const restaurant =
+      order.restaurant_lat !== null && order.restaurant_lng !== null
+        ? { lat: order.restaurant_lat, lng: order.restaurant_lng }
+        : null;
+    const [best] = rankCouriers(await listDispatchCandidates(client, declined), restaurant, now, config);
+    if (!best) {
+      await client.query(
+        'UPDATE orders SET no_courier_since = COALESCE(no_courier_since, $2) WHERE id = $1',
+        [orderId, now]
+      );
+      return null;
+    }
+
+    const result = await client.query<DeliveryOffer>(
+      `INSERT INTO delivery_offers (order_id, courier_id, offered_at, expires_at)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [orderId, best.id, now, new Date(now.getTime() + config.offer_timeout_seconds * 1000)]
+    );
+    await client.query('UPDATE orders SET no_courier_since = NULL WHERE id = $1', [orderId]);
+
+    return result.rows[0];
+  });
+}
+
+/**
+ * Open offers of a courier, oldest first
+ */
+export async function listCourierOffers(
+  courierId: string,
+  now: Date = new Date()
+): Promise<CourierOffer[]> {
+  const result = await query<CourierOffer>(
+    `SELECT d.*,
+            json_build_object('name', r.name, 'address', r.address, 'city', r.city) as restaurant,
+            o.address_json, o.total_cents, o.payment_status, o.promised_to
+     FROM delivery_offers d
+     JOIN orders o ON o.id = d.order_id
+     JOIN restaurants r ON r.id = o.restaurant_id
+     WHERE d.courier_id = $1
+       AND d.status = 'PENDING'
+       AND d.expires_at > $2
+       AND o.courier_id IS NULL
+     ORDER BY d.offered_at ASC, d.id ASC`,
+    [courierId, now]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Lock an open offer of the courier
+ * @throws Error('OFFER_CLOSED') if it was already answered, withdrawn or has expired
+ */
+async function lockOpenOffer(
+  client: PoolClient,
+  offerId: string,
+  courierId: string,
+  now: Date
+): Promise<DeliveryOffer | null> {
+  const result = await client.query<DeliveryOffer>(
+    'SELECT * FROM delivery_offers WHERE id = $1 AND courier_id = $2 FOR UPDATE',
+    [offerId, courierId]
+  );
+
+  const offer = result.rows[0];
+  if (!offer) {
+    return null;
+  }
+
+  if (offer.status !== 'PENDING' || offer.expires_at.getTime() <= now.getTime()) {
+    throw new Error('OFFER_CLOSED');
+  }
+
+  return offer;
+}
+
+/**
+ * Accept an offer: the courier is assigned to the order
+ * @returns null if the offer does not exist or belongs to another courier
+ * @throws Error('OFFER_CLOSED') if the offer can no longer be accepted
+ */
+export async function acceptOffer(
+  offerId: string,
+  courierId: string,
+  now: Date = new Date()
+): Promise<ordersRepo.Order | null> {
+  return transaction(async (client) => {
+    const offer = await lockOpenOffer(client, offerId, courierId, now);
+    if (!offer) {
+      return null;
+    }
+
+    // The order may have been assigned by hand in the meantime
+    const orderResult = await client.query<{ courier_id: string | null }>(
+      'SELECT courier_id FROM orders WHERE id = $1 FOR UPDATE',
+      [offer.order_id]
+    );
+    if (orderResult.rows[0].courier_id) {
+      throw new Error('OFFER_CLOSED');
+    }
+
+    await client.query(
+      `UPDATE delivery_offers SET status = 'ACCEPTED', responded_at = $2 WHERE id = $1`,
+      [offerId, now]
+    );
+
+    try {
+      return await ordersRepo.assignCourier(offer.order_id, courierId, client);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'ORDER_CLOSED') {
+        throw new Error('OFFER_CLOSED');
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Reject an offer. The caller dispatches the order again.
+ * @returns null if the offer does not exist or belongs to another courier
+ * @throws Error('OFFER_CLOSED') if the offer was already answered or has expired
+ */
+export async function rejectOffer(
+  offerId: string,
+  courierId: string,
+  now: Date = new Date()
+): Promise<DeliveryOffer | null> {
+  return transaction(async (client) => {
+    const offer = await lockOpenOffer(client, offerId, courierId, now);
+    if (!offer) {
+      return null;
+    }
+
+    const result = await client.query<DeliveryOffer>(
+      `UPDATE delivery_offers SET status = 'REJECTED', responded_at = $2 WHERE id = $1 RETURNING *`,
+      [offerId, now]
+    );
+
+    return result.rows[0];
+  });
+}
@@ -0,0 +1,199 @@
+import { PoolClient } from 'pg';
+import { query } from '../db';
+import { OrderStatus } from './ordersRepo';
+import { getNotificationConfig } from '../notifications';
+import { NotificationChannel } from '../notifications/NotificationService';
+import { renderOrderNotification } from '../notifications/templates';
+
+/**
+ * Transactional notifications. Status changes queue them in their own
+ * transaction (nothing goes out if it rolls back); the notifications
+ * sweeper sends them after commit. The table doubles as the send log.
+ */
+
+// ============================================================================
+// Types and Interfaces
+// ============================================================================
+
+export type NotificationStatus = 'PENDING' | 'SENDING' | 'SENT' | 'FAILED';
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  order_id: string | null;
+  channel: NotificationChannel;
+  template: string;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  status: NotificationStatus;
+  error: string | null;
+  created_at: Date;
+  claimed_at: Date | null; // taken by a sweeper for sending
+  sent_at: Date | null;
+}
+
+export interface NotificationPreferences {
+  email: boolean;
+  sms: boolean;
+}
+
+// ============================================================================
+// Preferences
+// ============================================================================
+
+/**
+ * Channels the user wants to be notified on
+ * @returns null if the user does not exist
+ */
+export async function getPreferences(userId: string): Promise<NotificationPreferences | null> {
+  const result = await query<NotificationPreferences>(
+    'SELECT notify_by_email as email, notify_by_sms as sms FROM users WHERE id = $1',
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Update the channel preferences (partial update)
+ * @returns null if the user does not exist
+ */
+export async function updatePreferences(
+  userId: string,
+  patch: Partial<NotificationPreferences>
+): Promise<NotificationPreferences | null> {
+  const result = await query<NotificationPreferences>(
+    `UPDATE users
+     SET notify_by_email = COALESCE($2, notify_by_email),
+         notify_by_sms = COALESCE($3, notify_by_sms)
+     WHERE id = $1
+     RETURNING notify_by_email as email, notify_by_sms as sms`,
+    [userId, patch.email ?? null, patch.sms ?? null]
+  );
+  return result.rows[0] || null;
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * Queue the customer notifications for an order entering a status, one per
+ * channel the customer has a contact for and has not turned off.
+ * Call inside the transaction of the status change.
+ * @returns number of queued notifications
+ */
+export async function enqueueOrderNotifications(
+  client: PoolClient,
+  orderId: string,
+  status: OrderStatus
+): Promise<number> {
+  if (!getNotificationConfig().statuses.includes(status)) {
+    return 0;
+  }
+
+  const result = await client.query(
+    `SELECT o.id as order_id, o.user_id, o.fulfilment_type, o.promised_to, o.handover_code,
+            o.cancellation_reason, o.payment_method, o.payment_status, o.refund_due,
+            r.name as restaurant_name,
+            u.name as customer_name, u.email, u.phone_e164, u.notify_by_email, u.notify_by_sms
+     FROM orders o
+     JOIN restaurants r ON r.id = o.restaurant_id
+     JOIN users u ON u.id = o.user_id
+     WHERE o.id = $1`,
+    [orderId]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return 0;
+  }
+
+  const rendered = renderOrderNotification(status, row);
+  if (!rendered) {
+    return 0;
+  }
+
+  const outgoing: Array<{ channel: NotificationChannel; recipient: string; subject: string | null; body: string }> = [];
+  if (row.email && row.notify_by_email) {
+    outgoing.push({ channel: 'EMAIL', recipient: row.email, subject: rendered.subject, body: rendered.email_text });
+  }
+  if (row.phone_e164 && row.notify_by_sms) {
+    outgoing.push({ channel: 'SMS', recipient: row.phone_e164, subject: null, body: rendered.sms_text });
+  }
+
+  for (const notification of outgoing) {
+    // clock_timestamp keeps the order of several transitions made in one transaction
+    await client.query(
+      `INSERT INTO notifications (user_id, order_id, channel, template, recipient, subject, body, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, clock_timestamp())`,
+      [
+        row.user_id,
+        orderId,
+        notification.channel,
+        rendered.template,
+        notification.recipient,
+        notification.subject,
+        notification.body,
+      ]
+    );
+  }
+
+  return outgoing.length;
+}
+
+/**
+ * Take the oldest pending notifications for sending, oldest first.
+ * Claimed rows move to SENDING, so concurrent sweepers never send twice.
+ */
+export async function claimPendingNotifications(limit: number, now: Date = new Date()): Promise<Notification[]> {
+  const result = await query<Notification>(
+    `UPDATE notifications
+     SET status = 'SENDING', claimed_at = $2
+     WHERE id IN (
+       SELECT id FROM notifications
+       WHERE status = 'PENDING'
+       ORDER BY created_at ASC, id ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [limit, now]
+  );
+
+  return result.rows.sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+}
+
+/**
+ * Close the notifications left SENDING by a sweeper that stopped mid-send
+ * (crash, restart). They are marked FAILED, not retried: the message may have gone out.
+ * @returns number of notifications closed
+ */
+export async function failStaleNotifications(claimedBefore: Date): Promise<number> {
+  const result = await query(
+    `UPDATE notifications
+     SET status = 'FAILED', error = 'Send interrupted'
+     WHERE status = 'SENDING' AND claimed_at < $1`,
+    [claimedBefore]
+  );
+  return result.rowCount ?? 0;
+}
+
+export async function markNotificationSent(id: string, now: Date = new Date()): Promise<void> {
+  await query(`UPDATE notifications SET status = 'SENT', sent_at = $2, error = NULL WHERE id = $1`, [id, now]);
+}
+
+export async function markNotificationFailed(id: string, error: string): Promise<void> {
+  await query(`UPDATE notifications SET status = 'FAILED', error = $2 WHERE id = $1`, [id, error]);
+}
+
+/**
+ * Notifications of an order, oldest first
+ */
+export async function listOrderNotifications(orderId: string): Promise<Notification[]> {
+  const result = await query<Notification>(
+    'SELECT * FROM notifications WHERE order_id = $1 ORDER BY created_at ASC, id ASC',
+    [orderId]
+  );
+  return result.rows;
+}
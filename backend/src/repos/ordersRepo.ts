@@ -1,7 +1,27 @@
 import { Pool, PoolClient } from 'pg';
-import { pool, query } from '../db';
+import { pool, query, transaction } from '../db';
 import * as restaurantsRepo from './restaurantsRepo';
 import * as menuRepo from './menuRepo';
+import { publishOrderEvent } from '../realtime/orderEvents';
+import { DateTime } from 'luxon';
+import { z } from 'zod';
+import { getNextOpenAt, getOpeningStatus, isForceClosed, isRestaurantOpenNow } from '../utils/openNow';
+import { computeDeliverySlots, getAsapSlotStart, isAvailableSlot, SLOT_INTERVAL_MINUTES } from '../utils/slots';
+import { getCapacityRuleForSlot, hasCapacity, SlotUsage } from '../utils/capacity';
+import {
+  calculateFees,
+  DeliveryFeeRules,
+  FeeBreakdown,
+  getServiceFeeConfig,
+  haversineDistanceMeters,
+} from '../utils/fees';
+import { DeliveryZone, findDeliveryZone } from '../utils/zones';
+import { getGeocoder } from '../geocoding';
+import { GeoPoint } from '../geocoding/Geocoder';
+import { getFileStorage } from '../storage';
+import { enqueueOrderNotifications } from './notificationsRepo';
+import { StoredFile } from '../storage/FileStorage';
+import { generateHandoverCode } from '../utils/crypto';
 
 // ============================================================================
 // Types and Interfaces
@@ -16,9 +36,11 @@ export type OrderStatus =
   | 'PICKED_UP'
   | 'DELIVERING'
   | 'DELIVERED'
+  | 'COLLECTED'
   | 'CANCELLED';
 
 export type PaymentMethod = 'ONLINE' | 'CASH';
+export type FulfilmentType = 'DELIVERY' | 'PICKUP';
 export type PaymentStatus = 'PENDING' | 'PAID';
 
 export interface Order {
@@ -28,12 +50,25 @@ export interface Order {
   status: OrderStatus;
   payment_method: PaymentMethod;
   payment_status: PaymentStatus;
+  fulfilment_type: FulfilmentType;
   subtotal_cents: number;
   delivery_fee_cents: number;
   service_fee_cents: number;
   total_cents: number;
-  address_json: any;
+  address_json: any; // null for pickup orders
   notes: string | null;
+  refund_due: boolean;
+  cancellation_reason: string | null;
+  fee_breakdown: FeeBreakdown | null;
+  scheduled_for: Date | null;
+  delivery_slot_start: Date | null;
+  promised_from: Date | null; // window promised at creation, to measure lateness
+  promised_to: Date | null;
+  courier_id: string | null; // delivery orders only
+  courier_assigned_at: Date | null;
+  no_courier_since: Date | null; // dispatch found no available courier
+  handover_code: string; // shown to the customer, asked by the courier at the door
+  handover_attempts: number; // wrong codes entered by the courier
   created_at: Date;
   updated_at: Date;
 }
@@ -72,215 +107,949 @@ export interface DeliveryAddress {
   city: string;
   postal_code: string;
   notes?: string;
+  lat?: number;
+  lng?: number;
 }
 
 export interface CreateOrderInput {
   user_id: string;
   restaurant_id: string;
   payment_method: PaymentMethod;
-  delivery_address: DeliveryAddress;
+  fulfilment_type?: FulfilmentType; // default DELIVERY
+  delivery_address?: DeliveryAddress; // required for DELIVERY, ignored for PICKUP
   items: CartItem[];
   notes?: string;
+  scheduled_for?: string | null; // ISO 8601 slot start, omitted for ASAP
+}
+
+export interface QuoteOrderInput {
+  restaurant_id: string;
+  items: CartItem[];
+  fulfilment_type?: FulfilmentType;
+  delivery_address?: DeliveryAddress;
+  scheduled_for?: string | null;
+}
+
+export interface QuotedItem {
+  product_id: string;
+  name: string;
+  unit_price_cents: number;
+  qty: number;
+  total_cents: number;
+  options: Array<{
+    group_name: string;
+    item_name: string;
+    price_delta_cents: number;
+  }>;
+}
+
+export interface OrderQuote {
+  items: QuotedItem[];
+  subtotal_cents: number;
+  delivery_fee_cents: number;
+  service_fee_cents: number;
+  total_cents: number;
+  fee_breakdown: FeeBreakdown;
+}
+
+/**
+ * A reason the cart cannot be ordered as is.
+ * line_index points into the submitted items; null for cart-level problems.
+ */
+export interface QuoteProblem {
+  line_index: number | null;
+  code: string;
+  detail: string | null;
+  next_open_at?: string | null; // only for RESTAURANT_CLOSED
+  next_slot_at?: string | null; // only for SLOT_FULL
+}
+
+export interface CartQuote extends OrderQuote {
+  items: Array<QuotedItem & { line_index: number }>;
+  min_order_cents: number;
+  eta_min: number | null; // busy mode included; null when the restaurant cannot take the order
+  eta_max: number | null;
+  is_busy: boolean;
+  problems: QuoteProblem[];
+  can_order: boolean;
 }
 
 export interface OrderItemWithOptions extends OrderItem {
   options: OrderItemOption[];
 }
 
+export type OrderActorType = 'CUSTOMER' | 'ADMIN' | 'SYSTEM' | 'COURIER';
+
+export interface OrderActor {
+  type: OrderActorType;
+  id?: string | null;
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  actor_type: OrderActorType;
+  actor_id: string | null;
+  reason: string | null;
+  created_at: Date;
+}
+
 export interface FullOrder extends Order {
   items: OrderItemWithOptions[];
+  status_events: OrderStatusEvent[];
+  can_cancel: boolean; // customer cancellation allowed by the restaurant policy
+}
+
+export interface AdminOrderFilters {
+  restaurant_id?: string;
+  statuses?: OrderStatus[];
+  payment_method?: PaymentMethod;
+  payment_status?: PaymentStatus;
+  fulfilment_type?: FulfilmentType;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  customer_email?: string;
+  q?: string; // free text on notes and delivery address
+  scheduled?: 'upcoming' | 'due'; // upcoming = scheduled and not yet due in the kitchen
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AdminOrdersPage {
+  orders: FullOrder[];
+  next_cursor: string | null;
+  totals: {
+    count: number;
+    total_cents: number;
+  };
+}
+
+export interface UpdateOrderStatusOptions {
+  actor?: OrderActor;
+  reason?: string | null;
+}
+
+export type CourierAction = 'PICKED_UP' | 'DELIVERED';
+
+export type DeliveryProofMethod = 'CODE' | 'PHOTO';
+
+/**
+ * What the courier provides to confirm a delivery: the handover code or a photo
+ */
+export interface DeliveryProofInput {
+  handover_code?: string;
+  photo?: StoredFile;
+  cash_collected_cents?: number; // CASH orders only
+}
+
+export interface DeliveryProof {
+  order_id: string;
+  courier_id: string | null;
+  method: DeliveryProofMethod;
+  photo_key: string | null;
+  photo_content_type: string | null;
+  cash_collected_cents: number | null;
+  created_at: Date;
+}
+
+/**
+ * Order as seen by the courier carrying it
+ */
+export interface CourierOrder {
+  id: string;
+  status: OrderStatus;
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
+  total_cents: number; // amount to collect when payment_status is PENDING
+  address_json: any;
+  notes: string | null;
+  scheduled_for: Date | null;
+  promised_from: Date | null;
+  promised_to: Date | null;
+  courier_assigned_at: Date;
+  restaurant: {
+    id: string;
+    name: string;
+    address: string;
+    city: string;
+    phone: string | null;
+  };
+  customer: {
+    name: string;
+    phone: string | null;
+  };
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown when a status change is not allowed by the order state machine
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public from: OrderStatus,
+    public to: OrderStatus,
+    public allowed: OrderStatus[]
+  ) {
+    super(`INVALID_STATUS_TRANSITION:${from} -> ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+export type RestaurantClosedReason = 'FORCE_CLOSED' | 'OUTSIDE_HOURS';
+
+/**
+ * Thrown when an order is placed while the restaurant is not accepting orders.
+ * nextOpenAt is null when the reopening time is unknown (kill switch, no upcoming hours).
+ */
+export class RestaurantClosedError extends Error {
+  constructor(
+    public reason: RestaurantClosedReason,
+    public nextOpenAt: string | null,
+    public note: string | null = null
+  ) {
+    super('RESTAURANT_CLOSED');
+    this.name = 'RestaurantClosedError';
+  }
+}
+
+/**
+ * Thrown when the delivery slot has no capacity left for the order.
+ * nextSlotAt is the first later slot that can take it, null if none in the schedule window.
+ */
+export class SlotFullError extends Error {
+  constructor(
+    public slotStart: string,
+    public nextSlotAt: string | null
+  ) {
+    super('SLOT_FULL');
+    this.name = 'SlotFullError';
+  }
+}
+
+// ============================================================================
+// Status State Machine
+// ============================================================================
+
+type StatusTransitions = Partial<Record<OrderStatus, OrderStatus[]>>;
+
+/**
+ * Allowed status transitions per fulfilment type and payment method.
+ * ONLINE orders start as CREATED and reach ACCEPTED once paid;
+ * CASH orders are auto-accepted at creation, so they start as ACCEPTED.
+ * Delivery orders end as DELIVERED, pickup orders as COLLECTED (READY -> COLLECTED).
+ * DELIVERED, COLLECTED and CANCELLED are terminal.
+ */
+const ONLINE_PAYMENT_TRANSITIONS: StatusTransitions = {
+  CREATED: ['PAID', 'ACCEPTED', 'CANCELLED'],
+  PAID: ['ACCEPTED', 'CANCELLED'],
+};
+
+const DELIVERY_TRANSITIONS: StatusTransitions = {
+  ACCEPTED: ['PREPARING', 'CANCELLED'],
+  PREPARING: ['READY', 'CANCELLED'],
+  READY: ['PICKED_UP', 'CANCELLED'],
+  PICKED_UP: ['DELIVERING'],
+  DELIVERING: ['DELIVERED'],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+const PICKUP_TRANSITIONS: StatusTransitions = {
+  ACCEPTED: ['PREPARING', 'CANCELLED'],
+  PREPARING: ['READY', 'CANCELLED'],
+  READY: ['COLLECTED', 'CANCELLED'],
+  COLLECTED: [],
+  CANCELLED: [],
+};
+
+export const ORDER_STATUS_TRANSITIONS: Record<
+  FulfilmentType,
+  Record<PaymentMethod, StatusTransitions>
+> = {
+  DELIVERY: {
+    ONLINE: { ...ONLINE_PAYMENT_TRANSITIONS, ...DELIVERY_TRANSITIONS },
+    CASH: { ...DELIVERY_TRANSITIONS },
+  },
+  PICKUP: {
+    ONLINE: { ...ONLINE_PAYMENT_TRANSITIONS, ...PICKUP_TRANSITIONS },
+    CASH: { ...PICKUP_TRANSITIONS },
+  },
+};
+
+/**
+ * Get the statuses an order can move to from its current status
+ */
+export function getAllowedTransitions(
+  paymentMethod: PaymentMethod,
+  from: OrderStatus,
+  fulfilmentType: FulfilmentType = 'DELIVERY'
+): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[fulfilmentType][paymentMethod][from] || [];
+}
+
+export function canTransition(
+  paymentMethod: PaymentMethod,
+  from: OrderStatus,
+  to: OrderStatus,
+  fulfilmentType: FulfilmentType = 'DELIVERY'
+): boolean {
+  return getAllowedTransitions(paymentMethod, from, fulfilmentType).includes(to);
+}
+
+/**
+ * Whether the customer may cancel the order, given the restaurant's
+ * configured cancellable statuses
+ */
+export function isCustomerCancellable(
+  order: Pick<Order, 'status' | 'payment_method' | 'fulfilment_type'>,
+  cancellableStatuses: OrderStatus[]
+): boolean {
+  return (
+    cancellableStatuses.includes(order.status) &&
+    canTransition(order.payment_method, order.status, 'CANCELLED', order.fulfilment_type)
+  );
 }
 
 // ============================================================================
 // Validation and Helper Functions
 // ============================================================================
 
+/**
+ * Check the restaurant can take the order: active, not force closed, and either
+ * open now (weekly hours and today's override) or, for scheduled orders,
+ * the requested time is one of the available delivery slots
+ * @throws Error('RESTAURANT_NOT_FOUND' | 'RESTAURANT_NOT_ACTIVE' | 'SLOT_NOT_AVAILABLE') or RestaurantClosedError
+ */
 async function validateRestaurantOpenAndActive(
   restaurantId: string,
-  client: PoolClient
-): Promise<void> {
-  // Check if restaurant exists and is active
-  const restaurantResult = await client.query(
-    'SELECT id, is_active FROM restaurants WHERE id = $1',
-    [restaurantId]
-  );
+  client: Pool | PoolClient,
+  scheduledFor?: DateTime | null
+): Promise<restaurantsRepo.RestaurantSchedule> {
+  const schedule = await restaurantsRepo.getRestaurantSchedule(restaurantId, client);
 
-  if (restaurantResult.rows.length === 0) {
+  if (!schedule) {
     throw new Error('RESTAURANT_NOT_FOUND');
   }
 
-  if (!restaurantResult.rows[0].is_active) {
+  if (!schedule.is_active) {
     throw new Error('RESTAURANT_NOT_ACTIVE');
   }
 
-  // Check if restaurant is open now
-  // TODO: Implement proper open/closed check using restaurant hours
-  // For now, we'll assume restaurants are always open if they have hours
-  const hoursResult = await client.query(
-    'SELECT COUNT(*) as count FROM restaurant_hours WHERE restaurant_id = $1',
-    [restaurantId]
-  );
-  const hasHours = parseInt(hoursResult.rows[0].count) > 0;
-  if (!hasHours) {
-    throw new Error('RESTAURANT_CLOSED');
+  const now = DateTime.now().setZone('Europe/Rome');
+
+  // Kill switch takes priority over hours; a timed pause reports when it reopens
+  if (isForceClosed(schedule.force_closed, schedule.force_closed_until, now)) {
+    const status = getOpeningStatus(
+      schedule.hours,
+      schedule.overrides,
+      true,
+      schedule.force_closed_until,
+      now
+    );
+    throw new RestaurantClosedError('FORCE_CLOSED', status.next_open_at, schedule.force_closed_note);
   }
+
+  if (scheduledFor) {
+    const slots = computeDeliverySlots(schedule, now);
+    if (!isAvailableSlot(slots, scheduledFor)) {
+      throw new Error(
+        `SLOT_NOT_AVAILABLE:${scheduledFor.toISO()} is not an available delivery slot`
+      );
+    }
+    return schedule;
+  }
+
+  const todayOverride =
+    schedule.overrides.find((o) => o.date === now.toFormat('yyyy-MM-dd')) || null;
+
+  if (!isRestaurantOpenNow(schedule.hours, todayOverride, now)) {
+    const nextOpenAt = getNextOpenAt(schedule.hours, schedule.overrides, now);
+    throw new RestaurantClosedError('OUTSIDE_HOURS', nextOpenAt ? nextOpenAt.toISO() : null);
+  }
+
+  return schedule;
 }
 
-async function validateAndCalculateOrder(
-  input: CreateOrderInput,
-  client: PoolClient
-): Promise<{
-  subtotal_cents: number;
-  items: Array<{
-    product_id: string;
-    name: string;
-    unit_price_cents: number;
-    qty: number;
-    total_cents: number;
-    options: Array<{
-      group_name: string;
-      item_name: string;
-      price_delta_cents: number;
-    }>;
-  }>;
-}> {
-  if (input.items.length === 0) {
-    throw new Error('CART_EMPTY');
+/**
+ * Check the restaurant offers the requested fulfilment (delivery or pickup)
+ * @throws Error('FULFILMENT_NOT_AVAILABLE')
+ */
+function validateFulfilment(
+  schedule: restaurantsRepo.RestaurantSchedule,
+  fulfilmentType: FulfilmentType
+): void {
+  const offered = fulfilmentType === 'PICKUP' ? schedule.offers_pickup : schedule.offers_delivery;
+  if (!offered) {
+    throw new Error(`FULFILMENT_NOT_AVAILABLE:${fulfilmentType} is not offered by this restaurant`);
   }
+}
 
-  const itemsWithSnapshots: Array<{
-    product_id: string;
-    name: string;
-    unit_price_cents: number;
-    qty: number;
-    total_cents: number;
-    options: Array<{
-      group_name: string;
-      item_name: string;
-      price_delta_cents: number;
-    }>;
-  }> = [];
+/**
+ * Check that the delivery slot can take one more order with the given items.
+ * Call with a transaction client after locking the restaurant row so that
+ * concurrent orders cannot overbook the slot.
+ * @throws SlotFullError with the next slot that has room
+ */
+async function validateSlotCapacity(
+  schedule: restaurantsRepo.RestaurantSchedule,
+  slotStart: DateTime,
+  items: number,
+  client: Pool | PoolClient
+): Promise<void> {
+  if (schedule.capacity_rules.length === 0) {
+    return;
+  }
+
+  const fits = (start: DateTime, usage: Map<number, SlotUsage>) =>
+    hasCapacity(getCapacityRuleForSlot(schedule.capacity_rules, start), usage.get(start.toMillis()), items);
 
-  let subtotal = 0;
+  const usage = await restaurantsRepo.getSlotUsage(schedule.id, slotStart, slotStart, client);
+  if (fits(slotStart, usage)) {
+    return;
+  }
 
-  for (const cartItem of input.items) {
-    // Get product details
-    const productResult = await client.query(
-      `SELECT id, name, base_price_cents, is_active, category_id
-       FROM menu_products
-       WHERE id = $1 AND restaurant_id = $2`,
-      [cartItem.product_id, input.restaurant_id]
+  const laterSlots = computeDeliverySlots(schedule)
+    .map((slot) => DateTime.fromISO(slot.start, { setZone: true }))
+    .filter((start) => start > slotStart);
+
+  let nextSlot: DateTime | null = null;
+  if (laterSlots.length > 0) {
+    const laterUsage = await restaurantsRepo.getSlotUsage(
+      schedule.id,
+      laterSlots[0],
+      laterSlots[laterSlots.length - 1],
+      client
     );
+    nextSlot = laterSlots.find((start) => fits(start, laterUsage)) || null;
+  }
+
+  throw new SlotFullError(slotStart.toISO()!, nextSlot ? nextSlot.toISO() : null);
+}
+
+const LINE_PROBLEM_CODES = [
+  'PRODUCT_NOT_FOUND',
+  'PRODUCT_NOT_ACTIVE',
+  'OPTION_MIN_NOT_MET',
+  'OPTION_MAX_EXCEEDED',
+  'OPTION_NOT_FOUND',
+  'OPTION_NOT_ACTIVE',
+];
+
+function parseProblem(error: Error, lineIndex: number | null): QuoteProblem {
+  const separator = error.message.indexOf(':');
+  return {
+    line_index: lineIndex,
+    code: separator === -1 ? error.message : error.message.slice(0, separator),
+    detail: separator === -1 ? null : error.message.slice(separator + 1),
+  };
+}
+
+function problemToError(problem: QuoteProblem): Error {
+  return new Error(problem.detail ? `${problem.code}:${problem.detail}` : problem.code);
+}
+
+/**
+ * Validate one cart line against the current menu and snapshot its price
+ * @throws Error('PRODUCT_NOT_FOUND' | 'PRODUCT_NOT_ACTIVE' | 'OPTION_*')
+ */
+async function priceCartLine(
+  restaurantId: string,
+  cartItem: CartItem,
+  client: Pool | PoolClient
+): Promise<QuotedItem> {
+  // Get product details
+  const productResult = await client.query(
+    `SELECT id, name, base_price_cents, is_active, category_id
+     FROM menu_products
+     WHERE id = $1 AND restaurant_id = $2`,
+    [cartItem.product_id, restaurantId]
+  );
+
+  if (productResult.rows.length === 0) {
+    throw new Error(`PRODUCT_NOT_FOUND:${cartItem.product_id}`);
+  }
 
-    if (productResult.rows.length === 0) {
-      throw new Error(`PRODUCT_NOT_FOUND:${cartItem.product_id}`);
+  const product = productResult.rows[0];
+  if (!product.is_active) {
+    throw new Error(`PRODUCT_NOT_ACTIVE:${product.name}`);
+  }
+
+  // Get option groups for this product
+  const groupsResult = await client.query(
+    `SELECT id, name, min_select, max_select
+     FROM product_option_groups
+     WHERE product_id = $1
+     ORDER BY sort_order ASC`,
+    [cartItem.product_id]
+  );
+
+  const optionGroups = groupsResult.rows;
+
+  // Validate option selections
+  const selectedOptionsByGroup = new Map<string, CartItemOption[]>();
+  for (const opt of cartItem.options) {
+    if (!selectedOptionsByGroup.has(opt.group_id)) {
+      selectedOptionsByGroup.set(opt.group_id, []);
     }
+    selectedOptionsByGroup.get(opt.group_id)!.push(opt);
+  }
 
-    const product = productResult.rows[0];
-    if (!product.is_active) {
-      throw new Error(`PRODUCT_NOT_ACTIVE:${product.name}`);
+  // Check min/max constraints
+  for (const group of optionGroups) {
+    const selectedCount = selectedOptionsByGroup.get(group.id)?.length || 0;
+    if (selectedCount < group.min_select) {
+      throw new Error(
+        `OPTION_MIN_NOT_MET:${group.name} requires at least ${group.min_select} selection(s)`
+      );
+    }
+    if (selectedCount > group.max_select) {
+      throw new Error(
+        `OPTION_MAX_EXCEEDED:${group.name} allows at most ${group.max_select} selection(s)`
+      );
     }
+  }
+
+  // Calculate item price with options
+  let itemPrice = product.base_price_cents;
+  const optionSnapshots: Array<{
+    group_name: string;
+    item_name: string;
+    price_delta_cents: number;
+  }> = [];
 
-    // Get option groups for this product
-    const groupsResult = await client.query(
-      `SELECT id, name, min_select, max_select
-       FROM product_option_groups
-       WHERE product_id = $1
-       ORDER BY sort_order ASC`,
-      [cartItem.product_id]
+  for (const opt of cartItem.options) {
+    const optionResult = await client.query(
+      `SELECT poi.id, poi.name, poi.price_delta_cents, poi.is_active, pog.name as group_name
+       FROM product_option_items poi
+       JOIN product_option_groups pog ON poi.group_id = pog.id
+       WHERE poi.id = $1 AND poi.group_id = $2 AND poi.restaurant_id = $3`,
+      [opt.item_id, opt.group_id, restaurantId]
     );
 
-    const optionGroups = groupsResult.rows;
+    if (optionResult.rows.length === 0) {
+      throw new Error(`OPTION_NOT_FOUND:${opt.item_id}`);
+    }
 
-    // Validate option selections
-    const selectedOptionsByGroup = new Map<string, CartItemOption[]>();
-    for (const opt of cartItem.options) {
-      if (!selectedOptionsByGroup.has(opt.group_id)) {
-        selectedOptionsByGroup.set(opt.group_id, []);
-      }
-      selectedOptionsByGroup.get(opt.group_id)!.push(opt);
+    const option = optionResult.rows[0];
+    if (!option.is_active) {
+      throw new Error(`OPTION_NOT_ACTIVE:${option.name}`);
     }
 
-    // Check min/max constraints
-    for (const group of optionGroups) {
-      const selectedCount = selectedOptionsByGroup.get(group.id)?.length || 0;
-      if (selectedCount < group.min_select) {
-        throw new Error(
-          `OPTION_MIN_NOT_MET:${group.name} requires at least ${group.min_select} selection(s)`
-        );
+    itemPrice += option.price_delta_cents;
+    optionSnapshots.push({
+      group_name: option.group_name,
+      item_name: option.name,
+      price_delta_cents: option.price_delta_cents,
+    });
+  }
+
+  return {
+    product_id: cartItem.product_id,
+    name: product.name,
+    unit_price_cents: itemPrice,
+    qty: cartItem.qty,
+    total_cents: itemPrice * cartItem.qty,
+    options: optionSnapshots,
+  };
+}
+
+/**
+ * Where a placed order is delivered: the coordinates stored with the order
+ * (the geocoded address, see storedDeliveryAddress), otherwise the geocoder
+ * result (null if the address is unknown)
+ */
+export async function resolveDeliveryPoint(address: DeliveryAddress): Promise<GeoPoint | null> {
+  if (address.lat !== undefined && address.lng !== undefined) {
+    return { lat: address.lat, lng: address.lng };
+  }
+  return getGeocoder().geocode(address);
+}
+
+// How far the client coordinates may be from the geocoded address
+const DELIVERY_PIN_TOLERANCE_M = 300;
+
+/**
+ * Position of a new delivery address, always from the geocoder: client
+ * coordinates are only accepted when they agree with it
+ * @returns null if the address is unknown
+ * @throws Error('DELIVERY_LOCATION_MISMATCH') if the coordinates are farther
+ * than DELIVERY_PIN_TOLERANCE_M from the address
+ */
+async function locateDeliveryAddress(address: DeliveryAddress): Promise<GeoPoint | null> {
+  const point = await getGeocoder().geocode(address);
+
+  if (
+    point &&
+    address.lat !== undefined &&
+    address.lng !== undefined &&
+    haversineDistanceMeters(point.lat, point.lng, address.lat, address.lng) > DELIVERY_PIN_TOLERANCE_M
+  ) {
+    throw new Error('DELIVERY_LOCATION_MISMATCH:Delivery coordinates do not match the address');
+  }
+
+  return point;
+}
+
+type OrderDeliveryRules = DeliveryFeeRules & { min_order_cents: number };
+
+interface DeliveryArea {
+  point: GeoPoint | null; // geocoded address, null when unknown
+  distance_m: number | null; // null when either position is unknown
+  zone: DeliveryZone | null;
+}
+
+/**
+ * Check the delivery address against the restaurant delivery zones and
+ * measure its distance for the distance bands, both from the geocoded address. Restaurants without zones
+ * deliver everywhere (distance bands still apply).
+ * @throws Error('ADDRESS_NOT_FOUND' | 'DELIVERY_LOCATION_MISMATCH' | 'DELIVERY_OUT_OF_AREA')
+ */
+async function getDeliveryArea(
+  restaurantId: string,
+  address: DeliveryAddress | undefined,
+  client: Pool | PoolClient
+): Promise<DeliveryArea> {
+  if (!address) {
+    return { point: null, distance_m: null, zone: null };
+  }
+
+  const zones = await restaurantsRepo.getDeliveryZones(restaurantId, client);
+  const point = await locateDeliveryAddress(address);
+
+  const result = await client.query(
+    'SELECT lat, lng FROM restaurants WHERE id = $1',
+    [restaurantId]
+  );
+  const restaurant = result.rows[0];
+  const restaurantPoint =
+    restaurant && restaurant.lat !== null && restaurant.lng !== null
+      ? { lat: Number(restaurant.lat), lng: Number(restaurant.lng) }
+      : null;
+
+  if (zones.length > 0 && !point) {
+    throw new Error('ADDRESS_NOT_FOUND:Delivery address could not be located');
+  }
+
+  const zone = point && zones.length > 0 ? findDeliveryZone(zones, point, restaurantPoint) : null;
+  if (zones.length > 0 && !zone) {
+    throw new Error('DELIVERY_OUT_OF_AREA:Delivery address is outside the delivery zones');
+  }
+
+  const distance_m =
+    point && restaurantPoint
+      ? haversineDistanceMeters(restaurantPoint.lat, restaurantPoint.lng, point.lat, point.lng)
+      : null;
+
+  return { point, distance_m, zone };
+}
+
+/**
+ * Delivery address as stored on the order: the client coordinates are
+ * replaced by the geocoded position, and dropped when the geocoder does not
+ * know the address, so later readers (tracking ETA) never trust a client pin
+ */
+function storedDeliveryAddress(address: DeliveryAddress, point: GeoPoint | null): DeliveryAddress {
+  const { lat, lng, ...rest } = address;
+  return point ? { ...rest, lat: point.lat, lng: point.lng } : rest;
+}
+
+/**
+ * Restaurant delivery rules with the overrides of the zone the address falls in
+ */
+function applyZoneOverrides(
+  rules: OrderDeliveryRules | null,
+  zone: DeliveryZone | null
+): OrderDeliveryRules | null {
+  if (!zone || (zone.delivery_fee_cents === null && zone.min_order_cents === null)) {
+    return rules;
+  }
+
+  const base = rules || {
+    min_order_cents: 0,
+    delivery_fee_cents: 0,
+    free_delivery_threshold_cents: null,
+    distance_bands: [],
+  };
+
+  return {
+    ...base,
+    min_order_cents: zone.min_order_cents ?? base.min_order_cents,
+    // A zone fee replaces the distance bands
+    ...(zone.delivery_fee_cents !== null && {
+      delivery_fee_cents: zone.delivery_fee_cents,
+      distance_bands: [],
+    }),
+  };
+}
+
+/**
+ * Price a cart against the current menu and fee rules without writing anything.
+ * Stale lines are reported as problems and left out of the subtotal.
+ * The delivery zone of the address can override the fee and minimum order.
+ * Pickup orders skip the delivery fee, minimum order and delivery area.
+ */
+async function priceCart(
+  input: QuoteOrderInput,
+  client: Pool | PoolClient
+): Promise<
+  Omit<CartQuote, 'can_order' | 'eta_min' | 'eta_max' | 'is_busy'> & { delivery_point: GeoPoint | null }
+> {
+  const problems: QuoteProblem[] = [];
+  const items: CartQuote['items'] = [];
+
+  if (input.items.length === 0) {
+    problems.push({ line_index: null, code: 'CART_EMPTY', detail: null });
+  }
+
+  for (const [lineIndex, cartItem] of input.items.entries()) {
+    try {
+      const item = await priceCartLine(input.restaurant_id, cartItem, client);
+      items.push({ ...item, line_index: lineIndex });
+    } catch (error) {
+      if (error instanceof Error && LINE_PROBLEM_CODES.some((code) => error.message.startsWith(code))) {
+        problems.push(parseProblem(error, lineIndex));
+        continue;
       }
-      if (selectedCount > group.max_select) {
-        throw new Error(
-          `OPTION_MAX_EXCEEDED:${group.name} allows at most ${group.max_select} selection(s)`
+      throw error;
+    }
+  }
+
+  const subtotal_cents = items.reduce((sum, item) => sum + item.total_cents, 0);
+
+  const rulesResult = await client.query<OrderDeliveryRules>(
+    `SELECT min_order_cents, delivery_fee_cents, free_delivery_threshold_cents, distance_bands
+     FROM restaurant_delivery_rules
+     WHERE restaurant_id = $1`,
+    [input.restaurant_id]
+  );
+  const isPickup = input.fulfilment_type === 'PICKUP';
+
+  let area: DeliveryArea = { point: null, distance_m: null, zone: null };
+  if (!isPickup) {
+    try {
+      area = await getDeliveryArea(input.restaurant_id, input.delivery_address, client);
+    } catch (error) {
+      const isAreaProblem =
+        error instanceof Error &&
+        ['ADDRESS_NOT_FOUND', 'DELIVERY_LOCATION_MISMATCH', 'DELIVERY_OUT_OF_AREA'].some((code) =>
+          error.message.startsWith(code)
         );
+      if (!isAreaProblem) {
+        throw error;
       }
+      problems.push(parseProblem(error, null));
     }
+  }
 
-    // Calculate item price with options
-    let itemPrice = product.base_price_cents;
-    const optionSnapshots: Array<{
-      group_name: string;
-      item_name: string;
-      price_delta_cents: number;
-    }> = [];
-
-    for (const opt of cartItem.options) {
-      const optionResult = await client.query(
-        `SELECT poi.id, poi.name, poi.price_delta_cents, poi.is_active, pog.name as group_name
-         FROM product_option_items poi
-         JOIN product_option_groups pog ON poi.group_id = pog.id
-         WHERE poi.id = $1 AND poi.group_id = $2 AND poi.restaurant_id = $3`,
-        [opt.item_id, opt.group_id, input.restaurant_id]
-      );
+  const rules = isPickup ? null : applyZoneOverrides(rulesResult.rows[0] || null, area.zone);
 
-      if (optionResult.rows.length === 0) {
-        throw new Error(`OPTION_NOT_FOUND:${opt.item_id}`);
-      }
+  const min_order_cents = rules?.min_order_cents || 0;
+  if (items.length > 0 && subtotal_cents < min_order_cents) {
+    problems.push({
+      line_index: null,
+      code: 'MIN_ORDER_NOT_MET',
+      detail: `Minimum order is ${min_order_cents} cents`,
+    });
+  }
 
-      const option = optionResult.rows[0];
-      if (!option.is_active) {
-        throw new Error(`OPTION_NOT_ACTIVE:${option.name}`);
-      }
+  const distance_m = area.distance_m;
+  const serviceFee = getServiceFeeConfig();
 
-      itemPrice += option.price_delta_cents;
-      optionSnapshots.push({
-        group_name: option.group_name,
-        item_name: option.name,
-        price_delta_cents: option.price_delta_cents,
-      });
+  let fee_breakdown: FeeBreakdown;
+  try {
+    fee_breakdown = calculateFees({ subtotal_cents, distance_m, delivery_rules: rules, service_fee: serviceFee });
+  } catch (error) {
+    if (!(error instanceof Error && error.message.startsWith('DELIVERY_OUT_OF_RANGE'))) {
+      throw error;
     }
+    problems.push(parseProblem(error, null));
+    // Still show the base fees so the cart can render a total
+    fee_breakdown = calculateFees({ subtotal_cents, distance_m: null, delivery_rules: rules, service_fee: serviceFee });
+  }
 
-    const itemTotal = itemPrice * cartItem.qty;
-    subtotal += itemTotal;
+  return {
+    items,
+    subtotal_cents,
+    delivery_fee_cents: fee_breakdown.delivery.fee_cents,
+    service_fee_cents: fee_breakdown.service.fee_cents,
+    total_cents: fee_breakdown.total_cents,
+    fee_breakdown,
+    min_order_cents,
+    problems,
+    delivery_point: area.point,
+  };
+}
 
-    itemsWithSnapshots.push({
-      product_id: cartItem.product_id,
-      name: product.name,
-      unit_price_cents: itemPrice,
-      qty: cartItem.qty,
-      total_cents: itemTotal,
-      options: optionSnapshots,
-    });
+/**
+ * Price a cart for order creation: item snapshots, subtotal, delivery and service fees.
+ * Shares priceCart with quoteCart, so quotes and orders always agree.
+ * @throws Error with the first problem found (CART_EMPTY, PRODUCT_NOT_FOUND, MIN_ORDER_NOT_MET, DELIVERY_OUT_OF_AREA...)
+ */
+export async function calculateOrderQuote(
+  input: QuoteOrderInput,
+  client: Pool | PoolClient = pool
+): Promise<OrderQuote & { delivery_point: GeoPoint | null }> {
+  const { problems, ...quote } = await priceCart(input, client);
+  if (problems.length > 0) {
+    throw problemToError(problems[0]);
   }
 
-  // Check minimum order amount
-  const deliveryRulesResult = await client.query(
-    `SELECT min_order_cents FROM restaurant_delivery_rules WHERE restaurant_id = $1`,
-    [input.restaurant_id]
-  );
-  if (deliveryRulesResult.rows.length > 0) {
-    const minOrderCents = deliveryRulesResult.rows[0].min_order_cents;
-    if (minOrderCents && subtotal < minOrderCents) {
-      throw new Error(`MIN_ORDER_NOT_MET:Minimum order is ${minOrderCents} cents`);
+  return quote;
+}
+
+/**
+ * Quote a cart with the same checks as createOrder (restaurant open, fulfilment offered,
+ * products, options, minimum order, delivery area and range), collecting every problem instead of failing
+ * @throws Error('RESTAURANT_NOT_FOUND')
+ */
+export async function quoteCart(input: QuoteOrderInput): Promise<CartQuote> {
+  const restaurantProblems: QuoteProblem[] = [];
+  const scheduledFor = parseScheduledFor(input.scheduled_for);
+  let schedule: restaurantsRepo.RestaurantSchedule | null = null;
+  try {
+    schedule = await validateRestaurantOpenAndActive(input.restaurant_id, pool, scheduledFor);
+    validateFulfilment(schedule, input.fulfilment_type || 'DELIVERY');
+  } catch (error) {
+    if (error instanceof RestaurantClosedError) {
+      restaurantProblems.push({
+        line_index: null,
+        code: 'RESTAURANT_CLOSED',
+        detail: error.reason,
+        next_open_at: error.nextOpenAt,
+      });
+    } else if (
+      error instanceof Error &&
+      (error.message === 'RESTAURANT_NOT_ACTIVE' ||
+        error.message.startsWith('SLOT_NOT_AVAILABLE') ||
+        error.message.startsWith('FULFILMENT_NOT_AVAILABLE'))
+    ) {
+      restaurantProblems.push(parseProblem(error, null));
+    } else {
+      throw error;
     }
   }
 
+  // The geocoded position only matters when the order is stored
+  const { delivery_point: _deliveryPoint, ...quote } = await priceCart(input, pool);
+
+  // Capacity only matters once the restaurant can take the order at all
+  if (schedule && quote.items.length > 0) {
+    try {
+      await validateSlotCapacity(
+        schedule,
+        scheduledFor || getAsapSlotStart(schedule.eta_max),
+        countItems(quote.items),
+        pool
+      );
+    } catch (error) {
+      if (!(error instanceof SlotFullError)) {
+        throw error;
+      }
+      restaurantProblems.push({
+        line_index: null,
+        code: 'SLOT_FULL',
+        detail: error.slotStart,
+        next_slot_at: error.nextSlotAt,
+      });
+    }
+  }
+
+  const problems = [...restaurantProblems, ...quote.problems];
+
   return {
-    subtotal_cents: subtotal,
-    items: itemsWithSnapshots,
+    ...quote,
+    eta_min: schedule ? schedule.eta_min : null,
+    eta_max: schedule ? schedule.eta_max : null,
+    is_busy: schedule ? schedule.is_busy : false,
+    problems,
+    can_order: problems.length === 0,
   };
 }
 
+/**
+ * Window promised to the customer: the booked slot for scheduled orders,
+ * now + ETA (busy mode included) for the others
+ */
+function getPromisedWindow(
+  schedule: Pick<restaurantsRepo.RestaurantSchedule, 'eta_min' | 'eta_max'>,
+  scheduledFor: DateTime | null,
+  now: DateTime = DateTime.now()
+): { from: DateTime; to: DateTime } {
+  if (scheduledFor) {
+    return { from: scheduledFor, to: scheduledFor.plus({ minutes: SLOT_INTERVAL_MINUTES }) };
+  }
+  return { from: now.plus({ minutes: schedule.eta_min }), to: now.plus({ minutes: schedule.eta_max }) };
+}
+
+function parseScheduledFor(scheduledFor?: string | null): DateTime | null {
+  return scheduledFor ? DateTime.fromISO(scheduledFor).setZone('Europe/Rome') : null;
+}
+
+function countItems(items: Array<{ qty: number }>): number {
+  return items.reduce((sum, item) => sum + item.qty, 0);
+}
+
+/**
+ * Record a transition in the timeline and queue the customer notifications.
+ * Pass notify = false when the caller messages the customer itself.
+ */
+async function insertStatusEvent(
+  client: PoolClient,
+  orderId: string,
+  fromStatus: OrderStatus | null,
+  toStatus: OrderStatus,
+  actor: OrderActor,
+  reason?: string | null,
+  notify = true
+): Promise<void> {
+  // clock_timestamp keeps the order of several transitions made in one transaction
+  await client.query(
+    `INSERT INTO order_status_events (
+      order_id, from_status, to_status, actor_type, actor_id, reason, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, clock_timestamp())`,
+    [orderId, fromStatus, toStatus, actor.type, actor.id || null, reason || null]
+  );
+
+  if (notify) {
+    await enqueueOrderNotifications(client, orderId, toStatus);
+  }
+}
+
+/**
+ * Lock the order row, validate the transition and record it in the timeline.
+ * Returns the locked order, or null if it does not exist.
+ */
+async function lockOrderForTransition(
+  client: PoolClient,
+  orderId: string,
+  newStatus: OrderStatus
+): Promise<Order | null> {
+  const result = await client.query<Order>(
+    'SELECT * FROM orders WHERE id = $1 FOR UPDATE',
+    [orderId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const order = result.rows[0];
+  if (!canTransition(order.payment_method, order.status, newStatus, order.fulfilment_type)) {
+    throw new InvalidStatusTransitionError(
+      order.status,
+      newStatus,
+      getAllowedTransitions(order.payment_method, order.status, order.fulfilment_type)
+    );
+  }
+
+  return order;
+}
+
 // ============================================================================
 // Repository Functions
 // ============================================================================
@@ -290,16 +1059,22 @@ export async function createOrder(input: CreateOrderInput): Promise<FullOrder> {
   try {
     await client.query('BEGIN');
 
-    // Validate restaurant is open and active
-    await validateRestaurantOpenAndActive(input.restaurant_id, client);
-
-    // Validate items and calculate totals
-    const { subtotal_cents, items } = await validateAndCalculateOrder(input, client);
-
-    // Calculate fees (can be extended with actual logic)
-    const delivery_fee_cents = 0; // TODO: Implement delivery fee calculation
-    const service_fee_cents = 0; // TODO: Implement service fee calculation
-    const total_cents = subtotal_cents + delivery_fee_cents + service_fee_cents;
+    // Validate restaurant is open and active (or the scheduled slot is available)
+    const scheduledFor = parseScheduledFor(input.scheduled_for);
+    const schedule = await validateRestaurantOpenAndActive(input.restaurant_id, client, scheduledFor);
+    const fulfilmentType = input.fulfilment_type || 'DELIVERY';
+    validateFulfilment(schedule, fulfilmentType);
+
+    // Validate items and calculate totals and fees
+    const quote = await calculateOrderQuote(input, client);
+    const { subtotal_cents, items, delivery_fee_cents, service_fee_cents, total_cents } = quote;
+
+    // Book the delivery slot; the restaurant row lock serializes concurrent orders
+    const slotStart = scheduledFor || getAsapSlotStart(schedule.eta_max);
+    if (schedule.capacity_rules.length > 0) {
+      await client.query('SELECT id FROM restaurants WHERE id = $1 FOR UPDATE', [input.restaurant_id]);
+      await validateSlotCapacity(schedule, slotStart, countItems(items), client);
+    }
 
     // Determine initial status and payment_status based on payment method
     let status: OrderStatus = 'CREATED';
@@ -311,13 +1086,16 @@ export async function createOrder(input: CreateOrderInput): Promise<FullOrder> {
       payment_status = 'PAID';
     }
 
+    const promised = getPromisedWindow(schedule, scheduledFor);
+
     // Create order
     const orderResult = await client.query(
       `INSERT INTO orders (
         user_id, restaurant_id, status, payment_method, payment_status,
         subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents,
-        address_json, notes
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        address_json, notes, fee_breakdown, scheduled_for, delivery_slot_start,
+        fulfilment_type, promised_from, promised_to, handover_code
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
       RETURNING *`,
       [
         input.user_id,
@@ -329,13 +1107,37 @@ export async function createOrder(input: CreateOrderInput): Promise<FullOrder> {
         delivery_fee_cents,
         service_fee_cents,
         total_cents,
-        JSON.stringify(input.delivery_address),
+        fulfilmentType === 'PICKUP' || !input.delivery_address
+          ? null
+          : JSON.stringify(storedDeliveryAddress(input.delivery_address, quote.delivery_point)),
         input.notes || null,
+        JSON.stringify(quote.fee_breakdown),
+        scheduledFor ? scheduledFor.toJSDate() : null,
+        slotStart.toJSDate(),
+        fulfilmentType,
+        promised.from.toJSDate(),
+        promised.to.toJSDate(),
+        generateHandoverCode(),
       ]
     );
 
     const order = orderResult.rows[0];
 
+    await insertStatusEvent(client, order.id, null, status, {
+      type: 'CUSTOMER',
+      id: input.user_id,
+    });
+
+    await publishOrderEvent(client, {
+      type: 'order.created',
+      order_id: order.id,
+      restaurant_id: order.restaurant_id,
+      user_id: order.user_id,
+      status: order.status,
+      from_status: null,
+      payment_status: order.payment_status,
+    });
+
     // Create order items
     const orderItems: OrderItemWithOptions[] = [];
     for (const item of items) {
@@ -368,11 +1170,23 @@ export async function createOrder(input: CreateOrderInput): Promise<FullOrder> {
       });
     }
 
+    const eventsResult = await client.query<OrderStatusEvent>(
+      'SELECT * FROM order_status_events WHERE order_id = $1 ORDER BY created_at ASC',
+      [order.id]
+    );
+
+    const policyResult = await client.query<{ customer_cancellable_statuses: OrderStatus[] }>(
+      'SELECT customer_cancellable_statuses FROM restaurants WHERE id = $1',
+      [order.restaurant_id]
+    );
+
     await client.query('COMMIT');
 
     return {
       ...order,
       items: orderItems,
+      status_events: eventsResult.rows,
+      can_cancel: isCustomerCancellable(order, policyResult.rows[0].customer_cancellable_statuses),
     };
   } catch (error) {
     await client.query('ROLLBACK');
@@ -386,45 +1200,77 @@ export async function getOrderById(
   orderId: string,
   userId?: string
 ): Promise<FullOrder | null> {
-  const orderResult = await query(
-    'SELECT * FROM orders WHERE id = $1',
-    [orderId]
-  );
+  const [order] = await getOrdersByIds([orderId]);
 
-  if (orderResult.rows.length === 0) {
+  // If userId is provided, check ownership
+  if (!order || (userId && order.user_id !== userId)) {
     return null;
   }
 
-  const order = orderResult.rows[0];
+  return order;
+}
 
-  // If userId is provided, check ownership
-  if (userId && order.user_id !== userId) {
-    return null;
+/**
+ * Load full orders (items, options and timeline) with one query per table.
+ * Orders are returned in the order of the given ids; unknown ids are skipped.
+ */
+async function getOrdersByIds(orderIds: string[]): Promise<FullOrder[]> {
+  if (orderIds.length === 0) {
+    return [];
   }
 
-  // Get order items
+  const ordersResult = await query(
+    `SELECT o.*, r.customer_cancellable_statuses
+     FROM orders o
+     JOIN restaurants r ON r.id = o.restaurant_id
+     WHERE o.id = ANY($1::uuid[])`,
+    [orderIds]
+  );
+
   const itemsResult = await query(
-    'SELECT * FROM order_items WHERE order_id = $1 ORDER BY id',
-    [orderId]
+    'SELECT * FROM order_items WHERE order_id = ANY($1::uuid[]) ORDER BY id',
+    [orderIds]
+  );
+
+  const optionsResult = await query(
+    'SELECT * FROM order_item_options WHERE order_item_id = ANY($1::uuid[]) ORDER BY id',
+    [itemsResult.rows.map((item) => item.id)]
   );
 
-  const items: OrderItemWithOptions[] = [];
+  const eventsResult = await query<OrderStatusEvent>(
+    'SELECT * FROM order_status_events WHERE order_id = ANY($1::uuid[]) ORDER BY created_at ASC',
+    [orderIds]
+  );
+
+  const optionsByItem = new Map<string, any[]>();
+  for (const option of optionsResult.rows) {
+    optionsByItem.set(option.order_item_id, [...(optionsByItem.get(option.order_item_id) || []), option]);
+  }
+
+  const itemsByOrder = new Map<string, OrderItemWithOptions[]>();
   for (const item of itemsResult.rows) {
-    const optionsResult = await query(
-      'SELECT * FROM order_item_options WHERE order_item_id = $1 ORDER BY id',
-      [item.id]
-    );
+    itemsByOrder.set(item.order_id, [
+      ...(itemsByOrder.get(item.order_id) || []),
+      { ...item, options: optionsByItem.get(item.id) || [] },
+    ]);
+  }
+
+  const eventsByOrder = new Map<string, OrderStatusEvent[]>();
+  for (const event of eventsResult.rows) {
+    eventsByOrder.set(event.order_id, [...(eventsByOrder.get(event.order_id) || []), event]);
+  }
 
-    items.push({
-      ...item,
-      options: optionsResult.rows,
+  const ordersById = new Map<string, FullOrder>();
+  for (const { customer_cancellable_statuses, ...order } of ordersResult.rows) {
+    ordersById.set(order.id, {
+      ...order,
+      items: itemsByOrder.get(order.id) || [],
+      status_events: eventsByOrder.get(order.id) || [],
+      can_cancel: isCustomerCancellable(order, customer_cancellable_statuses),
     });
   }
 
-  return {
-    ...order,
-    items,
-  };
+  return orderIds.flatMap((id) => ordersById.get(id) || []);
 }
 
 export async function listOrdersByUser(
@@ -440,39 +1286,238 @@ export async function listOrdersByUser(
     [userId, limit, offset]
   );
 
-  const orders: FullOrder[] = [];
-  for (const order of ordersResult.rows) {
-    const fullOrder = await getOrderById(order.id);
-    if (fullOrder) {
-      orders.push(fullOrder);
-    }
+  return getOrdersByIds(ordersResult.rows.map((order) => order.id));
+}
+
+function encodeCursor(createdAt: string, id: string): string {
+  return Buffer.from(JSON.stringify({ c: createdAt, id })).toString('base64url');
+}
+
+// created_at is encoded without offset, as the column is a plain timestamp
+const cursorSchema = z.object({
+  c: z.string().datetime({ local: true }),
+  id: z.string().uuid(),
+});
+
+function decodeCursor(cursor: string): { c: string; id: string } {
+  try {
+    return cursorSchema.parse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+  } catch {
+    throw new Error('INVALID_CURSOR');
   }
+}
 
-  return orders;
+/**
+ * List orders across restaurants for the admin queue.
+ * Results are ordered by created_at DESC (served by idx_orders_restaurant_created
+ * when filtering by restaurant) and paginated with an opaque keyset cursor.
+ * Totals are computed over the whole filtered set, ignoring the cursor.
+ */
+export async function listOrdersAdmin(
+  filters: AdminOrderFilters = {}
+): Promise<AdminOrdersPage> {
+  const limit = filters.limit || 50;
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.restaurant_id) {
+    params.push(filters.restaurant_id);
+    conditions.push(`o.restaurant_id = $${params.length}`);
+  }
+  if (filters.statuses && filters.statuses.length > 0) {
+    params.push(filters.statuses);
+    conditions.push(`o.status = ANY($${params.length}::order_status[])`);
+  }
+  if (filters.payment_method) {
+    params.push(filters.payment_method);
+    conditions.push(`o.payment_method = $${params.length}`);
+  }
+  if (filters.payment_status) {
+    params.push(filters.payment_status);
+    conditions.push(`o.payment_status = $${params.length}`);
+  }
+  if (filters.fulfilment_type) {
+    params.push(filters.fulfilment_type);
+    conditions.push(`o.fulfilment_type = $${params.length}`);
+  }
+  // Scheduled orders belong to their delivery day, the others to the day they were placed
+  if (filters.from) {
+    params.push(filters.from);
+    conditions.push(`COALESCE(o.scheduled_for, o.created_at) >= $${params.length}::date`);
+  }
+  if (filters.to) {
+    params.push(filters.to);
+    conditions.push(`COALESCE(o.scheduled_for, o.created_at) < $${params.length}::date + INTERVAL '1 day'`);
+  }
+  if (filters.customer_email) {
+    params.push(filters.customer_email);
+    conditions.push(`LOWER(u.email) = LOWER($${params.length})`);
+  }
+  if (filters.q) {
+    // Match % and _ literally
+    params.push(`%${filters.q.replace(/[\\%_]/g, '\\$&')}%`);
+    conditions.push(
+      `(o.notes ILIKE $${params.length} OR o.address_json::text ILIKE $${params.length})`
+    );
+  }
+  if (filters.scheduled) {
+    // A scheduled order is due once the kitchen has to start it to deliver on time
+    params.push(new Date());
+    const upcoming = `(o.scheduled_for IS NOT NULL AND o.scheduled_for - make_interval(mins => COALESCE(rdr.eta_max, 45)) > $${params.length})`;
+    conditions.push(filters.scheduled === 'upcoming' ? upcoming : `NOT ${upcoming}`);
+  }
+
+  const baseFrom = `FROM orders o
+    JOIN users u ON u.id = o.user_id
+    LEFT JOIN restaurant_delivery_rules rdr ON rdr.restaurant_id = o.restaurant_id`;
+  const baseWhere = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const totalsResult = await query(
+    `SELECT COUNT(*)::int AS count, COALESCE(SUM(o.total_cents), 0)::int AS total_cents
+     ${baseFrom} ${baseWhere}`,
+    params
+  );
+
+  const pageConditions = [...conditions];
+  const pageParams = [...params];
+  if (filters.cursor) {
+    const cursor = decodeCursor(filters.cursor);
+    pageParams.push(cursor.c, cursor.id);
+    pageConditions.push(
+      `(o.created_at, o.id) < ($${pageParams.length - 1}::timestamp, $${pageParams.length}::uuid)`
+    );
+  }
+  pageParams.push(limit + 1);
+
+  const pageResult = await query(
+    `SELECT o.id, TO_CHAR(o.created_at, 'YYYY-MM-DD"T"HH24:MI:SS.US') AS cursor_created_at
+     ${baseFrom}
+     ${pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+     ORDER BY o.created_at DESC, o.id DESC
+     LIMIT $${pageParams.length}`,
+    pageParams
+  );
+
+  const rows = pageResult.rows.slice(0, limit);
+  const hasMore = pageResult.rows.length > limit;
+
+  const orders = await getOrdersByIds(rows.map((row) => row.id));
+  const last = rows[rows.length - 1];
+
+  return {
+    orders,
+    next_cursor: hasMore && last ? encodeCursor(last.cursor_created_at, last.id) : null,
+    totals: totalsResult.rows[0],
+  };
 }
 
+/**
+ * Move an order to a new status, enforcing the state machine.
+ * @throws InvalidStatusTransitionError if the transition is not allowed
+ * @throws Error('DELIVERY_PROOF_REQUIRED') for DELIVERED: couriers deliver with confirmDelivery
+ */
 export async function updateOrderStatus(
   orderId: string,
-  newStatus: OrderStatus
+  newStatus: OrderStatus,
+  options: UpdateOrderStatusOptions = {}
 ): Promise<Order | null> {
-  const result = await query(
+  const actor = options.actor || { type: 'SYSTEM' };
+
+  return transaction(async (client) => {
+    const existing = await lockOrderForTransition(client, orderId, newStatus);
+    if (!existing) {
+      return null;
+    }
+
+    return applyStatusChange(client, existing, newStatus, actor, options.reason);
+  });
+}
+
+/**
+ * Write a validated status change of a locked order: update the row,
+ * record it in the timeline and notify the subscribers
+ * @param proofWaived DELIVERED without a proof, see markDeliveredWithoutProof
+ * @throws Error('DELIVERY_PROOF_REQUIRED') if the order is DELIVERED without a delivery proof
+ */
+async function applyStatusChange(
+  client: PoolClient,
+  existing: Order,
+  newStatus: OrderStatus,
+  actor: OrderActor,
+  reason?: string | null,
+  proofWaived = false
+): Promise<Order> {
+  // Only confirmDelivery records the proof, in the same transaction
+  if (newStatus === 'DELIVERED' && !proofWaived) {
+    const proofResult = await client.query('SELECT 1 FROM delivery_proofs WHERE order_id = $1', [existing.id]);
+    if (proofResult.rows.length === 0) {
+      throw new Error('DELIVERY_PROOF_REQUIRED');
+    }
+  }
+
+  // A cancelled PAID ONLINE order is flagged refund_due, as on customer cancellation
+  const result = await client.query<Order>(
     `UPDATE orders
-     SET status = $1, updated_at = NOW()
+     SET status = $1, cancellation_reason = COALESCE($3, cancellation_reason),
+         refund_due = refund_due OR ($4 AND payment_method = 'ONLINE' AND payment_status = 'PAID'),
+         updated_at = NOW()
      WHERE id = $2
      RETURNING *`,
-    [newStatus, orderId]
+    [newStatus, existing.id, newStatus === 'CANCELLED' ? reason ?? null : null, newStatus === 'CANCELLED']
   );
 
-  return result.rows.length > 0 ? result.rows[0] : null;
+  await insertStatusEvent(client, existing.id, existing.status, newStatus, actor, reason);
+
+  const updated = result.rows[0];
+  await publishOrderEvent(client, {
+    type: 'order.status_changed',
+    order_id: updated.id,
+    restaurant_id: updated.restaurant_id,
+    user_id: updated.user_id,
+    status: updated.status,
+    from_status: existing.status,
+    payment_status: updated.payment_status,
+  });
+
+  return updated;
 }
 
+/**
+ * Update payment status, optionally moving the order to a new status.
+ * The status change goes through the same state machine as updateOrderStatus.
+ * @throws InvalidStatusTransitionError if the status transition is not allowed
+ * @param client run inside the caller's transaction instead of a new one
+ */
 export async function updatePaymentStatus(
   orderId: string,
   paymentStatus: PaymentStatus,
-  newStatus?: OrderStatus
+  newStatus?: OrderStatus,
+  options: UpdateOrderStatusOptions = {},
+  client?: PoolClient
 ): Promise<Order | null> {
+  if (!client) {
+    return transaction((tx) => updatePaymentStatus(orderId, paymentStatus, newStatus, options, tx));
+  }
+
+  const actor = options.actor || { type: 'SYSTEM' };
+
+  let existing: Order | null;
+  if (newStatus) {
+    existing = await lockOrderForTransition(client, orderId, newStatus);
+  } else {
+    const lockResult = await client.query<Order>(
+      'SELECT * FROM orders WHERE id = $1 FOR UPDATE',
+      [orderId]
+    );
+    existing = lockResult.rows[0] || null;
+  }
+
+  if (!existing) {
+    return null;
+  }
+
   const updateFields = ['payment_status = $1', 'updated_at = NOW()'];
-  const values = [paymentStatus];
+  const values: string[] = [paymentStatus];
   let paramIndex = 2;
 
   if (newStatus) {
@@ -483,7 +1528,7 @@ export async function updatePaymentStatus(
 
   values.push(orderId);
 
-  const result = await query(
+  const result = await client.query<Order>(
     `UPDATE orders
      SET ${updateFields.join(', ')}
      WHERE id = $${paramIndex}
@@ -491,5 +1536,533 @@ export async function updatePaymentStatus(
     values
   );
 
-  return result.rows.length > 0 ? result.rows[0] : null;
+  if (newStatus) {
+    await insertStatusEvent(client, orderId, existing.status, newStatus, actor, options.reason);
+  }
+
+  const updated = result.rows[0];
+  await publishOrderEvent(client, {
+    type: newStatus ? 'order.status_changed' : 'order.payment_changed',
+    order_id: updated.id,
+    restaurant_id: updated.restaurant_id,
+    user_id: updated.user_id,
+    status: updated.status,
+    from_status: existing.status,
+    payment_status: updated.payment_status,
+  });
+
+  return updated;
+}
+
+/**
+ * Cancel an order on behalf of its customer.
+ * Allowed only in the statuses configured by the restaurant; a PAID ONLINE
+ * order is flagged refund_due so the payment can be returned.
+ * @returns null if the order does not exist or belongs to another user
+ * @throws Error('CANCELLATION_NOT_ALLOWED') if the policy forbids it
+ */
+export async function cancelOrderByCustomer(
+  orderId: string,
+  userId: string,
+  reason?: string | null
+): Promise<Order | null> {
+  return transaction(async (client) => {
+    const lockResult = await client.query<Order & { customer_cancellable_statuses: OrderStatus[] }>(
+      `SELECT o.*, r.customer_cancellable_statuses
+       FROM orders o
+       JOIN restaurants r ON r.id = o.restaurant_id
+       WHERE o.id = $1
+       FOR UPDATE OF o`,
+      [orderId]
+    );
+
+    const existing = lockResult.rows[0];
+    if (!existing || existing.user_id !== userId) {
+      return null;
+    }
+
+    if (!isCustomerCancellable(existing, existing.customer_cancellable_statuses)) {
+      throw new Error('CANCELLATION_NOT_ALLOWED');
+    }
+
+    const refundDue = existing.payment_method === 'ONLINE' && existing.payment_status === 'PAID';
+
+    const result = await client.query<Order>(
+      `UPDATE orders
+       SET status = 'CANCELLED', refund_due = $1, cancellation_reason = $3, updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [refundDue, orderId, reason ?? null]
+    );
+
+    await insertStatusEvent(
+      client,
+      orderId,
+      existing.status,
+      'CANCELLED',
+      { type: 'CUSTOMER', id: userId },
+      reason
+    );
+
+    const updated = result.rows[0];
+    await publishOrderEvent(client, {
+      type: 'order.status_changed',
+      order_id: updated.id,
+      restaurant_id: updated.restaurant_id,
+      user_id: updated.user_id,
+      status: updated.status,
+      from_status: existing.status,
+      payment_status: updated.payment_status,
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Record a payment that arrived after the order was cancelled:
+ * the order stays CANCELLED and is flagged refund_due.
+ * @param client run inside the caller's transaction instead of a new one
+ */
+export async function markPaidAfterCancellation(
+  orderId: string,
+  client?: PoolClient
+): Promise<Order | null> {
+  if (!client) {
+    return transaction((tx) => markPaidAfterCancellation(orderId, tx));
+  }
+
+  const result = await client.query<Order>(
+    `UPDATE orders
+     SET payment_status = 'PAID', refund_due = true, updated_at = NOW()
+     WHERE id = $1 AND status = 'CANCELLED'
+     RETURNING *`,
+    [orderId]
+  );
+
+  const updated = result.rows[0];
+  if (!updated) {
+    return null;
+  }
+
+  await publishOrderEvent(client, {
+    type: 'order.payment_changed',
+    order_id: updated.id,
+    restaurant_id: updated.restaurant_id,
+    user_id: updated.user_id,
+    status: updated.status,
+    from_status: updated.status,
+    payment_status: updated.payment_status,
+  });
+
+  return updated;
+}
+
+export async function setRefundDue(
+  orderId: string,
+  refundDue: boolean,
+  client: Pick<PoolClient, 'query'> = pool
+): Promise<Order | null> {
+  const result = await client.query<Order>(
+    `UPDATE orders
+     SET refund_due = $1, updated_at = NOW()
+     WHERE id = $2
+     RETURNING *`,
+    [refundDue, orderId]
+  );
+
+  return result.rows[0] || null;
+}
+
+export interface CancelledUnpaidOrder extends Order {
+  customer_email: string | null;
+}
+
+// Arbitrary application-wide key for pg_try_advisory_xact_lock
+const UNPAID_ORDERS_SWEEP_LOCK_KEY = 7001;
+
+/**
+ * Cancel ONLINE orders still unpaid after the given number of minutes.
+ * Runs under a transaction-level advisory lock: when another instance is
+ * already sweeping, returns an empty list without touching anything.
+ */
+export async function cancelUnpaidOnlineOrders(
+  olderThanMinutes: number,
+  reason: string
+): Promise<CancelledUnpaidOrder[]> {
+  return transaction(async (client) => {
+    const lockResult = await client.query<{ locked: boolean }>(
+      'SELECT pg_try_advisory_xact_lock($1) AS locked',
+      [UNPAID_ORDERS_SWEEP_LOCK_KEY]
+    );
+    if (!lockResult.rows[0].locked) {
+      return [];
+    }
+
+    const expiredResult = await client.query<Order>(
+      `SELECT * FROM orders
+       WHERE payment_method = 'ONLINE'
+         AND status = 'CREATED'
+         AND payment_status = 'PENDING'
+         AND created_at < NOW() - make_interval(mins => $1)
+       ORDER BY created_at ASC
+       FOR UPDATE SKIP LOCKED`,
+      [olderThanMinutes]
+    );
+
+    const cancelled: CancelledUnpaidOrder[] = [];
+    for (const existing of expiredResult.rows) {
+      const result = await client.query<CancelledUnpaidOrder>(
+        `UPDATE orders o
+         SET status = 'CANCELLED', cancellation_reason = $1, updated_at = NOW()
+         FROM users u
+         WHERE o.id = $2 AND u.id = o.user_id
+         RETURNING o.*, u.email AS customer_email`,
+        [reason, existing.id]
+      );
+
+      // The unpaid orders sweeper emails the customer with the timeout itself
+      await insertStatusEvent(client, existing.id, existing.status, 'CANCELLED', { type: 'SYSTEM' }, reason, false);
+
+      const updated = result.rows[0];
+      await publishOrderEvent(client, {
+        type: 'order.status_changed',
+        order_id: updated.id,
+        restaurant_id: updated.restaurant_id,
+        user_id: updated.user_id,
+        status: updated.status,
+        from_status: existing.status,
+        payment_status: updated.payment_status,
+      });
+
+      cancelled.push(updated);
+    }
+
+    return cancelled;
+  });
+}
+
+// ============================================================================
+// Couriers
+// ============================================================================
+
+const COURIER_CLOSED_STATUSES: OrderStatus[] = ['DELIVERED', 'CANCELLED'];
+
+// Statuses a courier action moves the order through, in order
+const COURIER_ACTION_STEPS: Record<CourierAction, OrderStatus[]> = {
+  PICKED_UP: ['PICKED_UP', 'DELIVERING'],
+  DELIVERED: ['DELIVERING', 'DELIVERED'],
+};
+
+// Wrong handover codes accepted before only a photo can prove the delivery
+export const MAX_HANDOVER_ATTEMPTS = 5;
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Hide the handover code from the courier: it proves the customer got the order
+ */
+export function hideHandoverCode(order: Order): Omit<Order, 'handover_code' | 'handover_attempts'> {
+  const { handover_code, handover_attempts, ...rest } = order;
+  return rest;
+}
+
+/**
+ * Assign a courier to a delivery order, or unassign it with null
+ * @returns null if the order does not exist
+ * @throws Error('NOT_A_DELIVERY') for pickup orders
+ * @throws Error('ORDER_CLOSED') if the order is delivered or cancelled
+ * @throws Error('COURIER_NOT_FOUND') if the courier does not exist or is disabled
+ * @param client run inside the caller's transaction instead of a new one
+ */
+export async function assignCourier(
+  orderId: string,
+  courierId: string | null,
+  client?: PoolClient
+): Promise<Order | null> {
+  if (!client) {
+    return transaction((tx) => assignCourier(orderId, courierId, tx));
+  }
+
+  const lockResult = await client.query<Order>(
+    'SELECT * FROM orders WHERE id = $1 FOR UPDATE',
+    [orderId]
+  );
+
+  const existing = lockResult.rows[0];
+  if (!existing) {
+    return null;
+  }
+
+  if (existing.fulfilment_type !== 'DELIVERY') {
+    throw new Error('NOT_A_DELIVERY');
+  }
+
+  if (COURIER_CLOSED_STATUSES.includes(existing.status)) {
+    throw new Error('ORDER_CLOSED');
+  }
+
+  if (courierId) {
+    const courierResult = await client.query(
+      'SELECT id FROM couriers WHERE id = $1 AND is_active = true',
+      [courierId]
+    );
+    if (courierResult.rows.length === 0) {
+      throw new Error('COURIER_NOT_FOUND');
+    }
+  }
+
+  const result = await client.query<Order>(
+    `UPDATE orders
+     SET courier_id = $2::uuid,
+         courier_assigned_at = CASE WHEN $2::uuid IS NULL THEN NULL ELSE NOW() END,
+         no_courier_since = NULL,
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [orderId, courierId]
+  );
+
+  const updated = result.rows[0];
+  await publishOrderEvent(client, {
+    type: 'order.courier_assigned',
+    order_id: updated.id,
+    restaurant_id: updated.restaurant_id,
+    user_id: updated.user_id,
+    status: updated.status,
+    from_status: updated.status,
+    payment_status: updated.payment_status,
+  });
+
+  return updated;
+}
+
+/**
+ * List the orders a courier still has to pick up or deliver, oldest first
+ */
+export async function listCourierOrders(courierId: string): Promise<CourierOrder[]> {
+  const result = await query<CourierOrder>(
+    `SELECT o.id, o.status, o.payment_method, o.payment_status, o.total_cents,
+            o.address_json, o.notes, o.scheduled_for, o.promised_from, o.promised_to,
+            o.courier_assigned_at,
+            json_build_object(
+              'id', r.id, 'name', r.name, 'address', r.address, 'city', r.city, 'phone', r.phone
+            ) as restaurant,
+            json_build_object('name', u.name, 'phone', u.phone_e164) as customer
+     FROM orders o
+     JOIN restaurants r ON r.id = o.restaurant_id
+     JOIN users u ON u.id = o.user_id
+     WHERE o.courier_id = $1
+       AND o.status <> ALL($2::order_status[])
+     ORDER BY COALESCE(o.scheduled_for, o.created_at) ASC, o.id ASC`,
+    [courierId, COURIER_CLOSED_STATUSES]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Apply a courier action to one of their orders. Picking up moves a READY
+ * order to DELIVERING (through PICKED_UP); delivering completes it, from
+ * PICKED_UP or DELIVERING. Each step is recorded in the timeline.
+ * @returns null if the order does not exist or is not assigned to the courier
+ * @throws InvalidStatusTransitionError if the action does not apply to the current status
+ */
+export async function advanceCourierOrder(
+  orderId: string,
+  courierId: string,
+  action: CourierAction
+): Promise<Order | null> {
+  return transaction(async (client) => {
+    const lockResult = await client.query<Order>(
+      'SELECT * FROM orders WHERE id = $1 FOR UPDATE',
+      [orderId]
+    );
+
+    const order = lockResult.rows[0];
+    if (!order || order.courier_id !== courierId) {
+      return null;
+    }
+
+    return applyCourierAction(client, order, getCourierActionSteps(order, action), courierId);
+  });
+}
+
+/**
+ * Statuses left for a courier action from the current status of the order
+ * @throws InvalidStatusTransitionError if the action does not apply to the current status
+ */
+function getCourierActionSteps(order: Order, action: CourierAction): OrderStatus[] {
+  const steps = COURIER_ACTION_STEPS[action];
+  const first = steps.findIndex((status) =>
+    canTransition(order.payment_method, order.status, status, order.fulfilment_type)
+  );
+  if (first === -1) {
+    throw new InvalidStatusTransitionError(
+      order.status,
+      steps[steps.length - 1],
+      getAllowedTransitions(order.payment_method, order.status, order.fulfilment_type)
+    );
+  }
+
+  return steps.slice(first);
+}
+
+async function applyCourierAction(
+  client: PoolClient,
+  order: Order,
+  steps: OrderStatus[],
+  courierId: string
+): Promise<Order> {
+  let current = order;
+  for (const status of steps) {
+    current = await applyStatusChange(client, current, status, { type: 'COURIER', id: courierId });
+  }
+  return current;
+}
+
+/**
+ * Complete a delivery with proof of handover: the code the customer reads out,
+ * or a photo. CASH orders also record the amount collected. Wrong codes are
+ * counted; after MAX_HANDOVER_ATTEMPTS only a photo is accepted.
+ * @returns null if the order does not exist or is not assigned to the courier
+ * @throws InvalidStatusTransitionError if the order is not on its way
+ * @throws Error('CASH_AMOUNT_REQUIRED') for CASH orders without the amount collected
+ * @throws Error('INVALID_HANDOVER_CODE') if the code is wrong and there is no photo
+ * @throws Error('HANDOVER_CODE_LOCKED') if too many wrong codes were entered and there is no photo
+ */
+export async function confirmDelivery(
+  orderId: string,
+  courierId: string,
+  proof: DeliveryProofInput
+): Promise<Order | null> {
+  const storage = getFileStorage();
+  let savedPhotoKey: string | null = null;
+
+  // A wrong code must stay counted: it is reported after the transaction commits
+  const transactionResult = transaction(async (client) => {
+    const lockResult = await client.query<Order>(
+      'SELECT * FROM orders WHERE id = $1 FOR UPDATE',
+      [orderId]
+    );
+
+    const order = lockResult.rows[0];
+    if (!order || order.courier_id !== courierId) {
+      return { order: null };
+    }
+
+    const steps = getCourierActionSteps(order, 'DELIVERED');
+
+    if (order.payment_method === 'CASH' && proof.cash_collected_cents === undefined) {
+      throw new Error('CASH_AMOUNT_REQUIRED');
+    }
+
+    const codeLocked = order.handover_attempts >= MAX_HANDOVER_ATTEMPTS;
+    const codeMatches =
+      proof.handover_code !== undefined && !codeLocked && proof.handover_code === order.handover_code;
+
+    if (proof.handover_code !== undefined && !codeLocked && !codeMatches) {
+      await client.query(
+        'UPDATE orders SET handover_attempts = handover_attempts + 1 WHERE id = $1',
+        [orderId]
+      );
+    }
+
+    if (!codeMatches && !proof.photo) {
+      return { error: codeLocked ? 'HANDOVER_CODE_LOCKED' : 'INVALID_HANDOVER_CODE' };
+    }
+
+    const photoKey = proof.photo
+      ? `delivery-proofs/${orderId}.${PHOTO_EXTENSIONS[proof.photo.content_type] || 'bin'}`
+      : null;
+
+    await client.query(
+      `INSERT INTO delivery_proofs (order_id, courier_id, method, photo_key, photo_content_type, cash_collected_cents)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        orderId,
+        courierId,
+        codeMatches ? 'CODE' : 'PHOTO',
+        photoKey,
+        proof.photo?.content_type ?? null,
+        order.payment_method === 'CASH' ? proof.cash_collected_cents : null,
+      ]
+    );
+
+    const delivered = await applyCourierAction(client, order, steps, courierId);
+
+    // The photo is stored once everything else went through
+    if (photoKey && proof.photo) {
+      await storage.save(photoKey, proof.photo);
+      savedPhotoKey = photoKey;
+    }
+
+    return { order: delivered };
+  });
+
+  let outcome: Awaited<typeof transactionResult>;
+  try {
+    outcome = await transactionResult;
+  } catch (error) {
+    // Rolled back after the photo was stored (commit failure): drop the orphan
+    if (savedPhotoKey) {
+      await storage.delete(savedPhotoKey).catch((deleteError) => {
+        console.error('Failed to delete delivery photo:', { key: savedPhotoKey, error: deleteError });
+      });
+    }
+    throw error;
+  }
+
+  if ('error' in outcome) {
+    throw new Error(outcome.error);
+  }
+
+  return outcome.order;
+}
+
+/**
+ * Close a delivery on the staff's word when no proof can be recorded
+ * (no courier assigned, or the courier cannot confirm it). The reason is
+ * required and is recorded with the actor in the order timeline.
+ * @returns null if the order does not exist
+ * @throws InvalidStatusTransitionError if the order is not on its way (PICKED_UP or DELIVERING)
+ */
+export async function markDeliveredWithoutProof(
+  orderId: string,
+  actor: OrderActor,
+  reason: string
+): Promise<Order | null> {
+  return transaction(async (client) => {
+    const lockResult = await client.query<Order>(
+      'SELECT * FROM orders WHERE id = $1 FOR UPDATE',
+      [orderId]
+    );
+
+    const order = lockResult.rows[0];
+    if (!order) {
+      return null;
+    }
+
+    let current = order;
+    for (const status of getCourierActionSteps(order, 'DELIVERED')) {
+      current = await applyStatusChange(client, current, status, actor, reason, true);
+    }
+    return current;
+  });
+}
+
+/**
+ * Evidence recorded when the order was delivered
+ * @returns null if the order has no delivery proof
+ */
+export async function getDeliveryProof(orderId: string): Promise<DeliveryProof | null> {
+  const result = await query<DeliveryProof>(
+    'SELECT * FROM delivery_proofs WHERE order_id = $1',
+    [orderId]
+  );
+  return result.rows[0] || null;
 }
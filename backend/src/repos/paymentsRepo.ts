@@ -0,0 +1,180 @@
+import { PoolClient } from 'pg';
+import { pool, query } from '../db';
+
+// ============================================================================
+// Types and Interfaces
+// ============================================================================
+
+export type PaymentStatus =
+  | 'PENDING'
+  | 'AUTHORIZED'
+  | 'SUCCEEDED'
+  | 'FAILED'
+  | 'EXPIRED'
+  | 'REFUND_PENDING'
+  | 'REFUNDED';
+
+export interface Payment {
+  id: string;
+  order_id: string;
+  provider: string;
+  provider_ref: string | null;
+  client_secret: string | null;
+  status: PaymentStatus;
+  amount_cents: number;
+  currency: string;
+  failure_reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreatePaymentData {
+  order_id: string;
+  provider: string;
+  amount_cents: number;
+  currency?: string;
+}
+
+// ============================================================================
+// Payments
+// ============================================================================
+
+/**
+ * Record a new payment attempt, before the provider intent is created
+ */
+export async function createPayment(data: CreatePaymentData): Promise<Payment> {
+  const result = await query<Payment>(
+    `INSERT INTO payments (order_id, provider, amount_cents, currency)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [data.order_id, data.provider, data.amount_cents, data.currency || 'EUR']
+  );
+
+  return result.rows[0];
+}
+
+export async function setProviderRef(
+  paymentId: string,
+  providerRef: string,
+  status: PaymentStatus,
+  clientSecret: string | null
+): Promise<Payment> {
+  const result = await query<Payment>(
+    `UPDATE payments
+     SET provider_ref = $1, status = $2, client_secret = $3, updated_at = NOW()
+     WHERE id = $4
+     RETURNING *`,
+    [providerRef, status, clientSecret, paymentId]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Move a payment to a new status.
+ * When fromStatuses is given, the update only happens if the payment is
+ * currently in one of them (guards against out-of-order or replayed webhooks).
+ * @returns the updated payment, or null if the guard did not match
+ */
+export async function setPaymentStatus(
+  paymentId: string,
+  status: PaymentStatus,
+  options: { fromStatuses?: PaymentStatus[]; failureReason?: string | null } = {},
+  client: Pick<PoolClient, 'query'> = pool
+): Promise<Payment | null> {
+  const values: any[] = [status, options.failureReason ?? null, paymentId];
+  let guard = '';
+  if (options.fromStatuses) {
+    values.push(options.fromStatuses);
+    guard = ' AND status = ANY($4)';
+  }
+
+  const result = await client.query<Payment>(
+    `UPDATE payments
+     SET status = $1, failure_reason = COALESCE($2, failure_reason), updated_at = NOW()
+     WHERE id = $3${guard}
+     RETURNING *`,
+    values
+  );
+
+  return result.rows[0] || null;
+}
+
+export async function getPaymentByProviderRef(
+  provider: string,
+  providerRef: string
+): Promise<Payment | null> {
+  const result = await query<Payment>(
+    'SELECT * FROM payments WHERE provider = $1 AND provider_ref = $2',
+    [provider, providerRef]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Lock a payment row until the caller's transaction ends
+ */
+export async function lockPayment(client: PoolClient, paymentId: string): Promise<Payment | null> {
+  const result = await client.query<Payment>(
+    'SELECT * FROM payments WHERE id = $1 FOR UPDATE',
+    [paymentId]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Latest payment of the order in one of the given statuses
+ */
+export async function getLatestPaymentForOrder(
+  orderId: string,
+  statuses: PaymentStatus[]
+): Promise<Payment | null> {
+  const result = await query<Payment>(
+    `SELECT * FROM payments
+     WHERE order_id = $1 AND status = ANY($2)
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [orderId, statuses]
+  );
+
+  return result.rows[0] || null;
+}
+
+export async function listPaymentsByOrder(orderId: string): Promise<Payment[]> {
+  const result = await query<Payment>(
+    'SELECT * FROM payments WHERE order_id = $1 ORDER BY created_at ASC',
+    [orderId]
+  );
+
+  return result.rows;
+}
+
+// ============================================================================
+// Webhook Events
+// ============================================================================
+
+/**
+ * Record a webhook event before handling it, inside the handler's transaction.
+ * A concurrent delivery of the same event waits on the primary key until
+ * this transaction ends, so each event is applied at most once.
+ * @returns false if the event was already recorded (duplicate delivery)
+ */
+export async function claimWebhookEvent(
+  client: PoolClient,
+  provider: string,
+  eventId: string,
+  type: string,
+  paymentId: string | null
+): Promise<boolean> {
+  const result = await client.query(
+    `INSERT INTO payment_webhook_events (provider, event_id, type, payment_id)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (provider, event_id) DO NOTHING
+     RETURNING event_id`,
+    [provider, eventId, type, paymentId]
+  );
+
+  return result.rows.length > 0;
+}
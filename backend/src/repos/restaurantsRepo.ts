@@ -1,6 +1,12 @@
-import { query, transaction } from '../db';
-import { isRestaurantOpenNow, RestaurantHours, RestaurantOverride as UtilRestaurantOverride } from '../utils/openNow';
+import { PoolClient } from 'pg';
+import { pool, query, transaction } from '../db';
+import { getOpeningStatus, isForceClosed, isRestaurantOpenNow, RestaurantHours, RestaurantOverride as UtilRestaurantOverride } from '../utils/openNow';
 import { DateTime } from 'luxon';
+import { DistanceBand, EARTH_RADIUS_M } from '../utils/fees';
+import { computeDeliverySlots, DeliverySlot, getAsapSlotStart } from '../utils/slots';
+import { CapacityRule, getCapacityRuleForSlot, hasCapacity, SlotUsage } from '../utils/capacity';
+import { DeliveryZone, deliversTo } from '../utils/zones';
+import { GeoPoint } from '../geocoding/Geocoder';
 
 export interface Restaurant {
   id: string;
@@ -16,6 +22,13 @@ export interface Restaurant {
   is_active: boolean;
   force_closed: boolean;
   force_closed_note: string | null;
+  force_closed_until: Date | null; // timed pause, reopens automatically
+  busy_until: Date | null; // busy mode: longer ETA until then
+  busy_extra_minutes: number;
+  busy_eta_multiplier: number;
+  customer_cancellable_statuses: string[];
+  offers_delivery: boolean;
+  offers_pickup: boolean;
   created_at: Date;
 }
 
@@ -24,6 +37,38 @@ export interface RestaurantWithDetails extends Restaurant {
   delivery_rules?: DeliveryRules;
   override?: UtilRestaurantOverride | null;
   is_open_now?: boolean;
+  is_busy?: boolean; // delivery_rules ETA already includes the busy mode
+  next_open_at?: string | null; // ISO, when closed and opening within a week
+  closes_at?: string | null; // ISO, when open
+  opening_label?: string; // e.g. "Apre alle 19:00"
+  distance_m?: number | null; // from the listing origin, null without coordinates
+  tags?: RestaurantTag[];
+}
+
+export interface Tag {
+  id: string;
+  slug: string;
+  name: string;
+  sort_order: number;
+  created_at: Date;
+}
+
+export interface TagWithCount extends Tag {
+  restaurant_count: number;
+}
+
+export type RestaurantTag = Pick<Tag, 'id' | 'slug' | 'name'>;
+
+export interface CreateTagData {
+  slug?: string;
+  name: string;
+  sort_order?: number;
+}
+
+export interface UpdateTagData {
+  slug?: string;
+  name?: string;
+  sort_order?: number;
 }
 
 export interface DeliveryRules {
@@ -31,6 +76,8 @@ export interface DeliveryRules {
   restaurant_id: string;
   min_order_cents: number;
   delivery_fee_cents: number;
+  free_delivery_threshold_cents: number | null;
+  distance_bands: DistanceBand[];
   eta_min: number;
   eta_max: number;
 }
@@ -48,6 +95,8 @@ export interface CreateRestaurantData {
   is_active?: boolean;
   force_closed?: boolean;
   force_closed_note?: string;
+  offers_delivery?: boolean;
+  offers_pickup?: boolean;
 }
 
 export interface UpdateRestaurantData {
@@ -62,7 +111,11 @@ export interface UpdateRestaurantData {
   lng?: number;
   is_active?: boolean;
   force_closed?: boolean;
-  force_closed_note?: string;
+  force_closed_note?: string | null;
+  customer_cancellable_statuses?: string[];
+  offers_delivery?: boolean;
+  offers_pickup?: boolean;
+  tags?: string[]; // tag slugs, replaces the current tags
 }
 
 export interface SetHoursData {
@@ -75,6 +128,8 @@ export interface SetHoursData {
 export interface UpsertDeliveryRulesData {
   min_order_cents?: number;
   delivery_fee_cents?: number;
+  free_delivery_threshold_cents?: number | null;
+  distance_bands?: DistanceBand[];
   eta_min?: number;
   eta_max?: number;
 }
@@ -91,6 +146,59 @@ export interface RestaurantOverride {
   updated_at: Date;
 }
 
+/**
+ * Everything needed to decide when a restaurant takes orders
+ */
+export interface RestaurantSchedule {
+  id: string;
+  is_active: boolean;
+  force_closed: boolean;
+  force_closed_note: string | null;
+  force_closed_until: Date | null;
+  offers_delivery: boolean;
+  offers_pickup: boolean;
+  hours: RestaurantHours[];
+  overrides: UtilRestaurantOverride[]; // from yesterday to one week ahead
+  eta_min: number; // busy mode included
+  eta_max: number;
+  is_busy: boolean;
+  capacity_rules: CapacityRule[];
+}
+
+export interface RestaurantCapacityRule extends CapacityRule {
+  id: string;
+  restaurant_id: string;
+  created_at: Date;
+}
+
+export interface RestaurantDeliveryZone extends DeliveryZone {
+  restaurant_id: string;
+  created_at: Date;
+}
+
+export type DeliveryZoneInput = Omit<DeliveryZone, 'id' | 'sort_order'>;
+
+export interface RestaurantDeliverySlots {
+  slots: DeliverySlot[];
+  asap_available: boolean; // false when only scheduled orders are possible
+  eta_min: number;
+  eta_max: number;
+  timezone: string;
+}
+
+export interface ListRestaurantsFilters {
+  ids?: string[];
+  openNow?: boolean;
+  zone?: string;
+  tags?: string[]; // tag slugs: restaurants with any of them
+  deliversTo?: GeoPoint; // only restaurants delivering to this point
+  origin?: GeoPoint; // position distance_m is measured from
+  radiusM?: number; // only restaurants within this distance of the origin
+  sort?: RestaurantSort;
+}
+
+export type RestaurantSort = 'distance' | 'eta' | 'name';
+
 export interface UpsertOverrideData {
   is_closed: boolean;
   open_time?: string | null;
@@ -110,19 +218,65 @@ function generateSlug(text: string): string {
     .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
 }
 
+// Tags of the restaurant aliased r, as a JSON array
+const RESTAURANT_TAGS_SQL = `(
+  SELECT COALESCE(json_agg(
+    json_build_object('id', t.id, 'slug', t.slug, 'name', t.name)
+    ORDER BY t.sort_order, t.name
+  ), '[]')
+  FROM restaurant_tags rt
+  JOIN tags t ON t.id = rt.tag_id
+  WHERE rt.restaurant_id = r.id
+)`;
+
+/**
+ * ETA in minutes with the busy mode applied while it lasts:
+ * multiplied by busy_eta_multiplier, then busy_extra_minutes added
+ */
+function busyEtaSql(eta: string): string {
+  return `CASE WHEN r.busy_until > NOW()
+    THEN CEIL(${eta} * r.busy_eta_multiplier)::int + r.busy_extra_minutes
+    ELSE ${eta} END`;
+}
+
+const IS_BUSY_SQL = `COALESCE(r.busy_until > NOW(), false)`;
+
+/**
+ * Haversine distance in meters between the restaurant and a point given as
+ * query parameters. NULL for restaurants without coordinates.
+ */
+function distanceSql(latParam: string, lngParam: string): string {
+  return `CASE WHEN r.lat IS NULL OR r.lng IS NULL THEN NULL ELSE ROUND(
+    2 * ${EARTH_RADIUS_M} * ASIN(LEAST(1, SQRT(
+      POWER(SIN(RADIANS(r.lat - ${latParam}) / 2), 2) +
+      COS(RADIANS(${latParam})) * COS(RADIANS(r.lat)) * POWER(SIN(RADIANS(r.lng - ${lngParam}) / 2), 2)
+    )))
+  )::int END`;
+}
+
 /**
  * List restaurants with optional filters
  */
-export async function listRestaurants(filters?: {
-  openNow?: boolean;
-  zone?: string;
-}): Promise<RestaurantWithDetails[]> {
+export async function listRestaurants(
+  filters?: ListRestaurantsFilters
+): Promise<RestaurantWithDetails[]> {
   // Get today's date in Europe/Rome timezone
   const todayDate = DateTime.now().setZone('Europe/Rome').toFormat('yyyy-MM-dd');
 
+  const params: any[] = [todayDate];
+
+  let distanceExpr = 'NULL::int';
+  if (filters?.origin) {
+    params.push(filters.origin.lat, filters.origin.lng);
+    distanceExpr = distanceSql(`$${params.length - 1}::float8`, `$${params.length}::float8`);
+  }
+
   // Build query with filters
   let queryText = `
     SELECT r.*,
+           ${distanceExpr} as distance_m,
+           ${RESTAURANT_TAGS_SQL} as tags,
+           ${IS_BUSY_SQL} as is_busy,
            json_agg(
              json_build_object(
                'day_of_week', rh.day_of_week,
@@ -136,8 +290,10 @@ export async function listRestaurants(filters?: {
              'restaurant_id', rdr.restaurant_id,
              'min_order_cents', rdr.min_order_cents,
              'delivery_fee_cents', rdr.delivery_fee_cents,
-             'eta_min', rdr.eta_min,
-             'eta_max', rdr.eta_max
+             'free_delivery_threshold_cents', rdr.free_delivery_threshold_cents,
+             'distance_bands', rdr.distance_bands,
+             'eta_min', ${busyEtaSql('rdr.eta_min')},
+             'eta_max', ${busyEtaSql('rdr.eta_max')}
            ) as delivery_rules,
            CASE
              WHEN ro.id IS NOT NULL THEN json_build_object(
@@ -155,15 +311,42 @@ export async function listRestaurants(filters?: {
     WHERE r.is_active = true
   `;
 
-  const params: any[] = [todayDate];
+  if (filters?.ids) {
+    params.push(filters.ids);
+    queryText += ` AND r.id = ANY($${params.length}::uuid[])`;
+  }
 
   if (filters?.zone) {
     params.push(filters.zone);
     queryText += ` AND r.zone = $${params.length}`;
   }
 
-  queryText += ` GROUP BY r.id, rdr.id, rdr.restaurant_id, rdr.min_order_cents, rdr.delivery_fee_cents, rdr.eta_min, rdr.eta_max, ro.id, ro.date, ro.is_closed, ro.open_time, ro.close_time`;
-  queryText += ` ORDER BY r.name ASC`;
+  if (filters?.tags && filters.tags.length > 0) {
+    params.push(filters.tags);
+    queryText += ` AND EXISTS (
+      SELECT 1 FROM restaurant_tags rt
+      JOIN tags t ON t.id = rt.tag_id
+      WHERE rt.restaurant_id = r.id AND t.slug = ANY($${params.length}::text[])
+    )`;
+  }
+
+  if (filters?.origin && filters.radiusM !== undefined) {
+    params.push(filters.radiusM);
+    queryText += ` AND ${distanceExpr} <= $${params.length}`;
+  }
+
+  queryText += ` GROUP BY r.id, rdr.id, rdr.restaurant_id, rdr.min_order_cents, rdr.delivery_fee_cents, rdr.free_delivery_threshold_cents, rdr.distance_bands, rdr.eta_min, rdr.eta_max, ro.id, ro.date, ro.is_closed, ro.open_time, ro.close_time`;
+
+  switch (filters?.sort) {
+    case 'distance':
+      queryText += ` ORDER BY distance_m ASC NULLS LAST, r.name ASC`;
+      break;
+    case 'eta':
+      queryText += ` ORDER BY ${busyEtaSql('rdr.eta_min')} ASC NULLS LAST, ${busyEtaSql('rdr.eta_max')} ASC NULLS LAST, r.name ASC`;
+      break;
+    default:
+      queryText += ` ORDER BY r.name ASC`;
+  }
 
   const result = await query<RestaurantWithDetails>(queryText, params);
 
@@ -173,7 +356,7 @@ export async function listRestaurants(filters?: {
   if (filters?.openNow) {
     restaurants = restaurants.filter((restaurant) => {
       // Force closed takes priority
-      if (restaurant.force_closed) {
+      if (isForceClosed(restaurant.force_closed, restaurant.force_closed_until)) {
         return false;
       }
       if (!restaurant.hours || restaurant.hours.length === 0) {
@@ -183,15 +366,37 @@ export async function listRestaurants(filters?: {
     });
   }
 
+  // Apply deliversTo filter if requested (same area rules as order creation)
+  if (filters?.deliversTo && restaurants.length > 0) {
+    const point = filters.deliversTo;
+    const zones = await getDeliveryZonesByRestaurant(restaurants.map((r) => r.id));
+
+    restaurants = restaurants.filter((restaurant) => {
+      if (!restaurant.offers_delivery) {
+        return false;
+      }
+      const position =
+        restaurant.lat !== null && restaurant.lng !== null
+          ? { lat: Number(restaurant.lat), lng: Number(restaurant.lng) }
+          : null;
+      return deliversTo(
+        point,
+        position,
+        zones.get(restaurant.id) || [],
+        restaurant.delivery_rules?.distance_bands || []
+      );
+    });
+  }
+
   // Add is_open_now field to all restaurants
   restaurants = restaurants.map((restaurant) => ({
     ...restaurant,
-    is_open_now: restaurant.force_closed
+    is_open_now: isForceClosed(restaurant.force_closed, restaurant.force_closed_until)
       ? false
       : (restaurant.hours ? isRestaurantOpenNow(restaurant.hours, restaurant.override) : false),
   }));
 
-  return restaurants;
+  return withOpeningStatus(restaurants);
 }
 
 /**
@@ -206,6 +411,8 @@ export async function getRestaurantBySlug(
   const result = await query<RestaurantWithDetails>(
     `
     SELECT r.*,
+           ${RESTAURANT_TAGS_SQL} as tags,
+           ${IS_BUSY_SQL} as is_busy,
            json_agg(
              json_build_object(
                'day_of_week', rh.day_of_week,
@@ -219,8 +426,10 @@ export async function getRestaurantBySlug(
              'restaurant_id', rdr.restaurant_id,
              'min_order_cents', rdr.min_order_cents,
              'delivery_fee_cents', rdr.delivery_fee_cents,
-             'eta_min', rdr.eta_min,
-             'eta_max', rdr.eta_max
+             'free_delivery_threshold_cents', rdr.free_delivery_threshold_cents,
+             'distance_bands', rdr.distance_bands,
+             'eta_min', ${busyEtaSql('rdr.eta_min')},
+             'eta_max', ${busyEtaSql('rdr.eta_max')}
            ) as delivery_rules,
            CASE
              WHEN ro.id IS NOT NULL THEN json_build_object(
@@ -236,7 +445,7 @@ export async function getRestaurantBySlug(
     LEFT JOIN restaurant_delivery_rules rdr ON r.id = rdr.restaurant_id
     LEFT JOIN restaurant_overrides ro ON r.id = ro.restaurant_id AND ro.date = $2
     WHERE r.slug = $1
-    GROUP BY r.id, rdr.id, rdr.restaurant_id, rdr.min_order_cents, rdr.delivery_fee_cents, rdr.eta_min, rdr.eta_max, ro.id, ro.date, ro.is_closed, ro.open_time, ro.close_time
+    GROUP BY r.id, rdr.id, rdr.restaurant_id, rdr.min_order_cents, rdr.delivery_fee_cents, rdr.free_delivery_threshold_cents, rdr.distance_bands, rdr.eta_min, rdr.eta_max, ro.id, ro.date, ro.is_closed, ro.open_time, ro.close_time
     `,
     [slug, todayDate]
   );
@@ -246,11 +455,193 @@ export async function getRestaurantBySlug(
   }
 
   const restaurant = result.rows[0];
-  restaurant.is_open_now = restaurant.force_closed
+  restaurant.is_open_now = isForceClosed(restaurant.force_closed, restaurant.force_closed_until)
     ? false
     : (restaurant.hours ? isRestaurantOpenNow(restaurant.hours, restaurant.override) : false);
 
-  return restaurant;
+  const [withStatus] = await withOpeningStatus([restaurant]);
+  return withStatus;
+}
+
+/**
+ * Add next_open_at, closes_at and opening_label, loading the overrides
+ * from yesterday to one week ahead for all restaurants in one query
+ */
+async function withOpeningStatus(
+  restaurants: RestaurantWithDetails[]
+): Promise<RestaurantWithDetails[]> {
+  if (restaurants.length === 0) {
+    return restaurants;
+  }
+
+  const now = DateTime.now().setZone('Europe/Rome');
+  const result = await query<UtilRestaurantOverride & { restaurant_id: string }>(
+    `SELECT restaurant_id, TO_CHAR(date, 'YYYY-MM-DD') as date, is_closed, open_time, close_time
+     FROM restaurant_overrides
+     WHERE restaurant_id = ANY($1::uuid[]) AND date BETWEEN $2::date - 1 AND $2::date + 7`,
+    [restaurants.map((r) => r.id), now.toFormat('yyyy-MM-dd')]
+  );
+
+  const overrides = new Map<string, UtilRestaurantOverride[]>();
+  for (const override of result.rows) {
+    overrides.set(override.restaurant_id, [...(overrides.get(override.restaurant_id) || []), override]);
+  }
+
+  return restaurants.map((restaurant) => {
+    const status = getOpeningStatus(
+      restaurant.hours || [],
+      overrides.get(restaurant.id) || [],
+      restaurant.force_closed,
+      restaurant.force_closed_until,
+      now
+    );
+    return {
+      ...restaurant,
+      next_open_at: status.next_open_at,
+      closes_at: status.closes_at,
+      opening_label: status.label,
+    };
+  });
+}
+
+/**
+ * Load hours, upcoming overrides and ETA for a restaurant.
+ * Accepts a transaction client so order creation reads a consistent snapshot.
+ */
+export async function getRestaurantSchedule(
+  restaurantId: string,
+  client: Pick<PoolClient, 'query'> = pool
+): Promise<RestaurantSchedule | null> {
+  const today = DateTime.now().setZone('Europe/Rome').toFormat('yyyy-MM-dd');
+
+  const restaurantResult = await client.query(
+    `SELECT r.id, r.is_active, r.force_closed, r.force_closed_note, r.force_closed_until,
+            r.offers_delivery, r.offers_pickup,
+            ${busyEtaSql('COALESCE(rdr.eta_min, 25)')} AS eta_min,
+            ${busyEtaSql('COALESCE(rdr.eta_max, 45)')} AS eta_max,
+            ${IS_BUSY_SQL} AS is_busy
+     FROM restaurants r
+     LEFT JOIN restaurant_delivery_rules rdr ON rdr.restaurant_id = r.id
+     WHERE r.id = $1`,
+    [restaurantId]
+  );
+
+  if (restaurantResult.rows.length === 0) {
+    return null;
+  }
+
+  const hoursResult = await client.query(
+    `SELECT day_of_week, open_time, close_time, is_closed
+     FROM restaurant_hours
+     WHERE restaurant_id = $1
+     ORDER BY day_of_week, open_time`,
+    [restaurantId]
+  );
+
+  const overridesResult = await client.query(
+    `SELECT TO_CHAR(date, 'YYYY-MM-DD') as date, is_closed, open_time, close_time
+     FROM restaurant_overrides
+     WHERE restaurant_id = $1 AND date BETWEEN $2::date - 1 AND $2::date + 7`,
+    [restaurantId, today]
+  );
+
+  const capacityResult = await client.query(
+    `SELECT day_of_week, max_orders, max_items
+     FROM restaurant_capacity_rules
+     WHERE restaurant_id = $1`,
+    [restaurantId]
+  );
+
+  return {
+    ...restaurantResult.rows[0],
+    hours: hoursResult.rows,
+    overrides: overridesResult.rows,
+    capacity_rules: capacityResult.rows,
+  };
+}
+
+/**
+ * Orders and items already booked per delivery slot (cancelled orders excluded),
+ * keyed by slot start in milliseconds
+ */
+export async function getSlotUsage(
+  restaurantId: string,
+  from: DateTime,
+  to: DateTime,
+  client: Pick<PoolClient, 'query'> = pool
+): Promise<Map<number, SlotUsage>> {
+  const result = await client.query<{ slot_start: Date; orders: number; items: number }>(
+    `SELECT o.delivery_slot_start AS slot_start,
+            COUNT(*)::int AS orders,
+            COALESCE(SUM(oi.items), 0)::int AS items
+     FROM orders o
+     LEFT JOIN (
+       SELECT order_id, SUM(qty) AS items FROM order_items GROUP BY order_id
+     ) oi ON oi.order_id = o.id
+     WHERE o.restaurant_id = $1
+       AND o.status <> 'CANCELLED'
+       AND o.delivery_slot_start BETWEEN $2 AND $3
+     GROUP BY o.delivery_slot_start`,
+    [restaurantId, from.toJSDate(), to.toJSDate()]
+  );
+
+  return new Map(
+    result.rows.map((row) => [
+      new Date(row.slot_start).getTime(),
+      { orders: row.orders, items: row.items },
+    ])
+  );
+}
+
+/**
+ * Delivery slots a customer can schedule an order for, by restaurant slug.
+ * Inactive or force-closed restaurants have no slots.
+ */
+export async function getRestaurantDeliverySlots(
+  slug: string
+): Promise<RestaurantDeliverySlots | null> {
+  const result = await query<{ id: string }>(
+    'SELECT id FROM restaurants WHERE slug = $1',
+    [slug]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const schedule = await getRestaurantSchedule(result.rows[0].id);
+  if (!schedule) {
+    return null;
+  }
+
+  const now = DateTime.now().setZone('Europe/Rome');
+  const acceptsOrders =
+    schedule.is_active && !isForceClosed(schedule.force_closed, schedule.force_closed_until, now);
+  const todayOverride =
+    schedule.overrides.find((o) => o.date === now.toFormat('yyyy-MM-dd')) || null;
+
+  let slots = acceptsOrders ? computeDeliverySlots(schedule, now) : [];
+  let asapAvailable = acceptsOrders && isRestaurantOpenNow(schedule.hours, todayOverride, now);
+
+  // Leave out slots that cannot take even a single-item order
+  if (schedule.capacity_rules.length > 0) {
+    const asapSlot = getAsapSlotStart(schedule.eta_max, now);
+    const lastSlot = slots.length > 0 ? DateTime.fromISO(slots[slots.length - 1].start) : asapSlot;
+    const usage = await getSlotUsage(schedule.id, asapSlot, lastSlot);
+    const fits = (start: DateTime) =>
+      hasCapacity(getCapacityRuleForSlot(schedule.capacity_rules, start), usage.get(start.toMillis()), 1);
+
+    slots = slots.filter((slot) => fits(DateTime.fromISO(slot.start)));
+    asapAvailable = asapAvailable && fits(asapSlot);
+  }
+
+  return {
+    slots,
+    asap_available: asapAvailable,
+    eta_min: schedule.eta_min,
+    eta_max: schedule.eta_max,
+    timezone: 'Europe/Rome',
+  };
 }
 
 /**
@@ -265,8 +656,9 @@ export async function createRestaurant(
   const result = await query<Restaurant>(
     `
     INSERT INTO restaurants (
-      slug, name, description, phone, address, city, zone, lat, lng, is_active, force_closed, force_closed_note
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      slug, name, description, phone, address, city, zone, lat, lng, is_active, force_closed, force_closed_note,
+      offers_delivery, offers_pickup
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
     RETURNING *
     `,
     [
@@ -282,6 +674,8 @@ export async function createRestaurant(
       data.is_active !== undefined ? data.is_active : true,
       data.force_closed !== undefined ? data.force_closed : false,
       data.force_closed_note || null,
+      data.offers_delivery !== undefined ? data.offers_delivery : true,
+      data.offers_pickup !== undefined ? data.offers_pickup : false,
     ]
   );
 
@@ -294,7 +688,7 @@ export async function createRestaurant(
 export async function updateRestaurant(
   id: string,
   patch: UpdateRestaurantData
-): Promise<Restaurant | null> {
+): Promise<RestaurantWithDetails | null> {
   // Build dynamic UPDATE query
   const fields: string[] = [];
   const values: any[] = [];
@@ -343,33 +737,245 @@ export async function updateRestaurant(
   if (patch.force_closed !== undefined) {
     fields.push(`force_closed = $${paramCount++}`);
     values.push(patch.force_closed);
+    if (!patch.force_closed) {
+      // Reopening by hand also ends a timed pause
+      fields.push('force_closed_until = NULL');
+    }
   }
   if (patch.force_closed_note !== undefined) {
     fields.push(`force_closed_note = $${paramCount++}`);
     values.push(patch.force_closed_note);
   }
+  if (patch.customer_cancellable_statuses !== undefined) {
+    fields.push(`customer_cancellable_statuses = $${paramCount++}`);
+    values.push(patch.customer_cancellable_statuses);
+  }
+  if (patch.offers_delivery !== undefined) {
+    fields.push(`offers_delivery = $${paramCount++}`);
+    values.push(patch.offers_delivery);
+  }
+  if (patch.offers_pickup !== undefined) {
+    fields.push(`offers_pickup = $${paramCount++}`);
+    values.push(patch.offers_pickup);
+  }
 
-  if (fields.length === 0) {
-    // No fields to update, just return the current restaurant
-    const result = await query<Restaurant>(
-      'SELECT * FROM restaurants WHERE id = $1',
+  return transaction(async (client) => {
+    let result;
+
+    if (fields.length === 0) {
+      // No fields to update, just return the current restaurant
+      result = await client.query<Restaurant>(
+        'SELECT * FROM restaurants WHERE id = $1',
+        [id]
+      );
+    } else {
+      values.push(id);
+      const queryText = `
+        UPDATE restaurants
+        SET ${fields.join(', ')}
+        WHERE id = $${paramCount}
+        RETURNING *
+      `;
+
+      result = await client.query<Restaurant>(queryText, values);
+    }
+
+    const restaurant = result.rows[0];
+    if (!restaurant) {
+      return null;
+    }
+
+    if (patch.tags !== undefined) {
+      await setRestaurantTags(client, id, patch.tags);
+    }
+
+    const tags = await client.query<{ tags: RestaurantTag[] }>(
+      `SELECT ${RESTAURANT_TAGS_SQL} as tags FROM restaurants r WHERE r.id = $1`,
       [id]
     );
-    return result.rows[0] || null;
+
+    return { ...restaurant, tags: tags.rows[0].tags };
+  });
+}
+
+/**
+ * Pause a restaurant for some minutes: force closed until then, reopened by
+ * the expiry job (and already open again for isForceClosed once expired)
+ */
+export async function pauseRestaurant(
+  id: string,
+  minutes: number,
+  note: string | null = null
+): Promise<Restaurant | null> {
+  const result = await query<Restaurant>(
+    `UPDATE restaurants
+     SET force_closed = true,
+         force_closed_until = NOW() + make_interval(mins => $2),
+         force_closed_note = $3
+     WHERE id = $1
+     RETURNING *`,
+    [id, minutes, note]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * End the kill switch, timed or manual
+ */
+export async function resumeRestaurant(id: string): Promise<Restaurant | null> {
+  const result = await query<Restaurant>(
+    `UPDATE restaurants
+     SET force_closed = false, force_closed_until = NULL, force_closed_note = NULL
+     WHERE id = $1
+     RETURNING *`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Busy mode: longer ETA instead of closing, for some minutes
+ */
+export interface BusyModeData {
+  minutes: number;
+  extra_minutes: number;
+  eta_multiplier: number;
+}
+
+/**
+ * Turn on the busy mode; it ends by itself at busy_until
+ */
+export async function setBusyMode(id: string, data: BusyModeData): Promise<Restaurant | null> {
+  const result = await query<Restaurant>(
+    `UPDATE restaurants
+     SET busy_until = NOW() + make_interval(mins => $2),
+         busy_extra_minutes = $3,
+         busy_eta_multiplier = $4
+     WHERE id = $1
+     RETURNING *`,
+    [id, data.minutes, data.extra_minutes, data.eta_multiplier]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * End the busy mode now
+ */
+export async function clearBusyMode(id: string): Promise<Restaurant | null> {
+  const result = await query<Restaurant>(
+    `UPDATE restaurants
+     SET busy_until = NULL, busy_extra_minutes = 0, busy_eta_multiplier = 1
+     WHERE id = $1
+     RETURNING *`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Clear the pauses that have expired
+ * @returns the reopened restaurants
+ */
+export async function reopenExpiredPauses(): Promise<
+  Array<Pick<Restaurant, 'id' | 'slug' | 'force_closed_until'>>
+> {
+  const result = await query<Pick<Restaurant, 'id' | 'slug' | 'force_closed_until'>>(
+    `UPDATE restaurants r
+     SET force_closed = false, force_closed_until = NULL, force_closed_note = NULL
+     FROM (
+       SELECT id, force_closed_until FROM restaurants
+       WHERE force_closed AND force_closed_until <= NOW()
+       FOR UPDATE SKIP LOCKED
+     ) expired
+     WHERE r.id = expired.id
+     RETURNING r.id, r.slug, expired.force_closed_until`
+  );
+  return result.rows;
+}
+
+/**
+ * Replace the tags of a restaurant
+ * @throws Error('TAG_NOT_FOUND:<slugs>') if some slugs are not tags
+ */
+async function setRestaurantTags(
+  client: PoolClient,
+  restaurantId: string,
+  slugs: string[]
+): Promise<void> {
+  const uniqueSlugs = Array.from(new Set(slugs));
+  const result = await client.query<{ id: string; slug: string }>(
+    'SELECT id, slug FROM tags WHERE slug = ANY($1::text[])',
+    [uniqueSlugs]
+  );
+
+  const missing = uniqueSlugs.filter((slug) => !result.rows.some((tag) => tag.slug === slug));
+  if (missing.length > 0) {
+    throw new Error(`TAG_NOT_FOUND:${missing.join(', ')}`);
+  }
+
+  await client.query('DELETE FROM restaurant_tags WHERE restaurant_id = $1', [restaurantId]);
+
+  if (result.rows.length > 0) {
+    await client.query(
+      `INSERT INTO restaurant_tags (restaurant_id, tag_id)
+       SELECT $1, UNNEST($2::uuid[])`,
+      [restaurantId, result.rows.map((tag) => tag.id)]
+    );
   }
+}
 
-  values.push(id);
-  const queryText = `
-    UPDATE restaurants
-    SET ${fields.join(', ')}
-    WHERE id = $${paramCount}
-    RETURNING *
-  `;
+/**
+ * List all tags with the number of restaurants using them
+ */
+export async function listTags(): Promise<TagWithCount[]> {
+  const result = await query<TagWithCount>(
+    `SELECT t.*, COUNT(rt.restaurant_id)::int as restaurant_count
+     FROM tags t
+     LEFT JOIN restaurant_tags rt ON rt.tag_id = t.id
+     GROUP BY t.id
+     ORDER BY t.sort_order ASC, t.name ASC`
+  );
+  return result.rows;
+}
 
-  const result = await query<Restaurant>(queryText, values);
+/**
+ * Create a tag (slug generated from the name if not provided)
+ */
+export async function createTag(data: CreateTagData): Promise<Tag> {
+  const result = await query<Tag>(
+    `INSERT INTO tags (slug, name, sort_order)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+    [data.slug || generateSlug(data.name), data.name, data.sort_order ?? 0]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Update a tag (partial update)
+ */
+export async function updateTag(id: string, patch: UpdateTagData): Promise<Tag | null> {
+  const result = await query<Tag>(
+    `UPDATE tags
+     SET slug = COALESCE($2, slug),
+         name = COALESCE($3, name),
+         sort_order = COALESCE($4, sort_order)
+     WHERE id = $1
+     RETURNING *`,
+    [id, patch.slug ?? null, patch.name ?? null, patch.sort_order ?? null]
+  );
   return result.rows[0] || null;
 }
 
+/**
+ * Delete a tag, removing it from every restaurant
+ * @returns false if the tag does not exist
+ */
+export async function deleteTag(id: string): Promise<boolean> {
+  const result = await query('DELETE FROM tags WHERE id = $1', [id]);
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
 /**
  * Replace all hours for a restaurant (delete + insert in transaction)
  */
@@ -423,6 +1029,121 @@ export async function setRestaurantHours(
   });
 }
 
+/**
+ * Replace all capacity rules of a restaurant (empty list = unlimited)
+ */
+export async function setCapacityRules(
+  restaurantId: string,
+  rules: CapacityRule[]
+): Promise<RestaurantCapacityRule[]> {
+  return transaction(async (client) => {
+    const restaurantCheck = await client.query(
+      'SELECT id FROM restaurants WHERE id = $1',
+      [restaurantId]
+    );
+
+    if (restaurantCheck.rows.length === 0) {
+      throw new Error('Restaurant not found');
+    }
+
+    await client.query('DELETE FROM restaurant_capacity_rules WHERE restaurant_id = $1', [
+      restaurantId,
+    ]);
+
+    const inserted: RestaurantCapacityRule[] = [];
+    for (const rule of rules) {
+      const result = await client.query<RestaurantCapacityRule>(
+        `INSERT INTO restaurant_capacity_rules (restaurant_id, day_of_week, max_orders, max_items)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [restaurantId, rule.day_of_week, rule.max_orders, rule.max_items]
+      );
+      inserted.push(result.rows[0]);
+    }
+
+    return inserted;
+  });
+}
+
+/**
+ * Delivery zones of a restaurant, in matching order
+ */
+export async function getDeliveryZones(
+  restaurantId: string,
+  client: Pick<PoolClient, 'query'> = pool
+): Promise<RestaurantDeliveryZone[]> {
+  const result = await client.query<RestaurantDeliveryZone>(
+    `SELECT * FROM restaurant_delivery_zones
+     WHERE restaurant_id = $1
+     ORDER BY sort_order ASC, created_at ASC`,
+    [restaurantId]
+  );
+  return result.rows;
+}
+
+async function getDeliveryZonesByRestaurant(
+  restaurantIds: string[]
+): Promise<Map<string, RestaurantDeliveryZone[]>> {
+  const result = await query<RestaurantDeliveryZone>(
+    `SELECT * FROM restaurant_delivery_zones
+     WHERE restaurant_id = ANY($1::uuid[])
+     ORDER BY sort_order ASC, created_at ASC`,
+    [restaurantIds]
+  );
+
+  const zones = new Map<string, RestaurantDeliveryZone[]>();
+  for (const zone of result.rows) {
+    zones.set(zone.restaurant_id, [...(zones.get(zone.restaurant_id) || []), zone]);
+  }
+  return zones;
+}
+
+/**
+ * Replace all delivery zones of a restaurant; zones match in the given order
+ * @throws Error('Restaurant not found')
+ */
+export async function setDeliveryZones(
+  restaurantId: string,
+  zones: DeliveryZoneInput[]
+): Promise<RestaurantDeliveryZone[]> {
+  return transaction(async (client) => {
+    const restaurantCheck = await client.query(
+      'SELECT id FROM restaurants WHERE id = $1',
+      [restaurantId]
+    );
+
+    if (restaurantCheck.rows.length === 0) {
+      throw new Error('Restaurant not found');
+    }
+
+    await client.query('DELETE FROM restaurant_delivery_zones WHERE restaurant_id = $1', [
+      restaurantId,
+    ]);
+
+    const inserted: RestaurantDeliveryZone[] = [];
+    for (const [index, zone] of zones.entries()) {
+      const result = await client.query<RestaurantDeliveryZone>(
+        `INSERT INTO restaurant_delivery_zones (
+          restaurant_id, name, radius_m, polygon, delivery_fee_cents, min_order_cents, sort_order
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *`,
+        [
+          restaurantId,
+          zone.name,
+          zone.radius_m,
+          zone.polygon ? JSON.stringify(zone.polygon) : null,
+          zone.delivery_fee_cents,
+          zone.min_order_cents,
+          index,
+        ]
+      );
+      inserted.push(result.rows[0]);
+    }
+
+    return inserted;
+  });
+}
+
 /**
  * Upsert delivery rules for a restaurant
  */
@@ -433,13 +1154,17 @@ export async function upsertDeliveryRules(
   const result = await query<DeliveryRules>(
     `
     INSERT INTO restaurant_delivery_rules (
-      restaurant_id, min_order_cents, delivery_fee_cents, eta_min, eta_max
-    ) VALUES ($1, $2, $3, $4, $5)
+      restaurant_id, min_order_cents, delivery_fee_cents, eta_min, eta_max,
+      free_delivery_threshold_cents, distance_bands
+    ) VALUES ($1, $2, $3, $4, $5, $6, COALESCE($8::jsonb, '[]'::jsonb))
     ON CONFLICT (restaurant_id) DO UPDATE SET
       min_order_cents = COALESCE($2, restaurant_delivery_rules.min_order_cents),
       delivery_fee_cents = COALESCE($3, restaurant_delivery_rules.delivery_fee_cents),
       eta_min = COALESCE($4, restaurant_delivery_rules.eta_min),
-      eta_max = COALESCE($5, restaurant_delivery_rules.eta_max)
+      eta_max = COALESCE($5, restaurant_delivery_rules.eta_max),
+      free_delivery_threshold_cents = CASE WHEN $7::boolean THEN $6
+        ELSE restaurant_delivery_rules.free_delivery_threshold_cents END,
+      distance_bands = COALESCE($8::jsonb, restaurant_delivery_rules.distance_bands)
     RETURNING *
     `,
     [
@@ -448,6 +1173,11 @@ export async function upsertDeliveryRules(
       rules.delivery_fee_cents !== undefined ? rules.delivery_fee_cents : 0,
       rules.eta_min !== undefined ? rules.eta_min : 25,
       rules.eta_max !== undefined ? rules.eta_max : 45,
+      rules.free_delivery_threshold_cents ?? null,
+      rules.free_delivery_threshold_cents !== undefined,
+      rules.distance_bands !== undefined
+        ? JSON.stringify([...rules.distance_bands].sort((a, b) => a.up_to_m - b.up_to_m))
+        : null,
     ]
   );
 
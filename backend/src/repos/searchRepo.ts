@@ -0,0 +1,101 @@
+import { query } from '../db';
+import { listRestaurants, RestaurantWithDetails } from './restaurantsRepo';
+
+// Must match the expressions of the migration 018 indexes
+const RESTAURANT_DOCUMENT = `to_tsvector('italian_unaccent', r.name || ' ' || COALESCE(r.description, ''))`;
+const CATEGORY_DOCUMENT = `to_tsvector('italian_unaccent', c.name)`;
+const PRODUCT_DOCUMENT = `to_tsvector('italian_unaccent', p.name || ' ' || COALESCE(p.description, ''))`;
+
+const MAX_RESTAURANTS = 20;
+const MAX_PRODUCTS_PER_RESTAURANT = 10;
+
+export interface SearchProduct {
+  id: string;
+  category_id: string;
+  category_name: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  base_price_cents: number;
+}
+
+export interface SearchResult {
+  restaurant: RestaurantWithDetails;
+  restaurant_match: boolean; // the restaurant name or description matches, not only its dishes
+  products: SearchProduct[];
+}
+
+interface ProductRow extends SearchProduct {
+  restaurant_id: string;
+  rank: number;
+}
+
+/**
+ * Full-text search over restaurants, menu categories and products.
+ * Results are grouped by restaurant, best match first; products match
+ * on their name/description or on the name of their category.
+ * Uses websearch syntax: "senza glutine", "pizza -piccante", "\"pasta fresca\"".
+ */
+export async function search(text: string): Promise<SearchResult[]> {
+  const restaurantsResult = await query<{ id: string; rank: number }>(
+    `SELECT r.id, ts_rank(${RESTAURANT_DOCUMENT}, q.query) AS rank
+     FROM restaurants r, websearch_to_tsquery('italian_unaccent', $1) AS q(query)
+     WHERE r.is_active = true
+       AND ${RESTAURANT_DOCUMENT} @@ q.query`,
+    [text]
+  );
+
+  const productsResult = await query<ProductRow>(
+    `SELECT p.id, p.restaurant_id, p.category_id, c.name AS category_name,
+            p.name, p.description, p.image_url, p.base_price_cents,
+            ts_rank(${PRODUCT_DOCUMENT}, q.query) + ts_rank(${CATEGORY_DOCUMENT}, q.query) AS rank
+     FROM menu_products p
+     JOIN menu_categories c ON c.id = p.category_id
+     JOIN restaurants r ON r.id = p.restaurant_id,
+     websearch_to_tsquery('italian_unaccent', $1) AS q(query)
+     WHERE p.is_active = true
+       AND c.is_active = true
+       AND r.is_active = true
+       AND (${PRODUCT_DOCUMENT} @@ q.query OR ${CATEGORY_DOCUMENT} @@ q.query)
+     ORDER BY rank DESC, p.sort_order ASC, p.name ASC`,
+    [text]
+  );
+
+  // Group by restaurant, ranked by its best match
+  const groups = new Map<string, { rank: number; restaurantMatch: boolean; products: SearchProduct[] }>();
+
+  for (const row of restaurantsResult.rows) {
+    groups.set(row.id, { rank: Number(row.rank), restaurantMatch: true, products: [] });
+  }
+
+  for (const { restaurant_id, rank, ...product } of productsResult.rows) {
+    let group = groups.get(restaurant_id);
+    if (!group) {
+      group = { rank: 0, restaurantMatch: false, products: [] };
+      groups.set(restaurant_id, group);
+    }
+    group.rank = Math.max(group.rank, Number(rank));
+    if (group.products.length < MAX_PRODUCTS_PER_RESTAURANT) {
+      group.products.push(product);
+    }
+  }
+
+  if (groups.size === 0) {
+    return [];
+  }
+
+  const restaurants = await listRestaurants({ ids: Array.from(groups.keys()) });
+
+  return restaurants
+    .map((restaurant) => ({ restaurant, group: groups.get(restaurant.id)! }))
+    .sort(
+      (a, b) =>
+        b.group.rank - a.group.rank || a.restaurant.name.localeCompare(b.restaurant.name)
+    )
+    .slice(0, MAX_RESTAURANTS)
+    .map(({ restaurant, group }) => ({
+      restaurant,
+      restaurant_match: group.restaurantMatch,
+      products: group.products,
+    }));
+}
@@ -0,0 +1,193 @@
+import { query, transaction } from '../db';
+import * as ordersRepo from './ordersRepo';
+import { generateRandomToken, hashToken } from '../utils/crypto';
+import { estimateArrival } from '../utils/tracking';
+import { GeoPoint } from '../geocoding/Geocoder';
+
+/**
+ * Live position of delivering couriers. The courier's phone pushes positions
+ * with a per-delivery bearer token; customers see a throttled copy with an ETA.
+ */
+
+// ============================================================================
+// Types and Interfaces
+// ============================================================================
+
+export interface DeliveryLocation {
+  lat: number;
+  lng: number;
+  recorded_at: Date;
+  shared_at: Date; // when the position shown to the customer last changed
+}
+
+/**
+ * Tracking info of an order on its way, as shown to the customer
+ */
+export interface OrderTracking {
+  courier_position: {
+    lat: number;
+    lng: number;
+    updated_at: Date;
+  } | null; // null until the courier shares a position
+  distance_m: number | null; // from the courier (or the restaurant) to the address
+  eta_minutes: number | null; // null when either position is unknown
+  eta_at: Date | null;
+}
+
+function toPoint(lat: number | null, lng: number | null): GeoPoint | null {
+  return lat !== null && lng !== null ? { lat: Number(lat), lng: Number(lng) } : null;
+}
+
+// ============================================================================
+// Courier side
+// ============================================================================
+
+/**
+ * Issue the token the courier's phone uses to push positions for a delivery.
+ * A new token replaces the previous one.
+ * @returns null if the order is not assigned to the courier
+ * @throws Error('NOT_DELIVERING') if the order is not on its way
+ */
+export async function issueLocationToken(
+  orderId: string,
+  courierId: string
+): Promise<{ token: string } | null> {
+  return transaction(async (client) => {
+    const orderResult = await client.query<{ status: ordersRepo.OrderStatus; address_json: any }>(
+      `SELECT status, address_json FROM orders
+       WHERE id = $1 AND courier_id = $2 AND fulfilment_type = 'DELIVERY'
+       FOR UPDATE`,
+      [orderId, courierId]
+    );
+
+    const order = orderResult.rows[0];
+    if (!order) {
+      return null;
+    }
+    if (order.status !== 'DELIVERING') {
+      throw new Error('NOT_DELIVERING');
+    }
+
+    const destination = order.address_json ? await ordersRepo.resolveDeliveryPoint(order.address_json) : null;
+    const token = generateRandomToken();
+
+    await client.query(
+      `INSERT INTO delivery_locations (order_id, courier_id, token_hash, destination_lat, destination_lng)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (order_id) DO UPDATE
+       SET courier_id = EXCLUDED.courier_id,
+           token_hash = EXCLUDED.token_hash,
+           destination_lat = EXCLUDED.destination_lat,
+           destination_lng = EXCLUDED.destination_lng`,
+      [orderId, courierId, hashToken(token), destination?.lat ?? null, destination?.lng ?? null]
+    );
+
+    return { token };
+  });
+}
+
+/**
+ * Store the latest position of a delivery. The position shown to the customer
+ * moves at most once every shareIntervalSeconds.
+ * @returns null if the token does not match the order
+ * @throws Error('NOT_DELIVERING') if the order is no longer on its way with this courier
+ */
+export async function recordLocation(
+  orderId: string,
+  token: string,
+  lat: number,
+  lng: number,
+  shareIntervalSeconds: number,
+  now: Date = new Date()
+): Promise<DeliveryLocation | null> {
+  return transaction(async (client) => {
+    const locationResult = await client.query<{ order_status: ordersRepo.OrderStatus; assigned: boolean }>(
+      `SELECT o.status as order_status, o.courier_id = dl.courier_id as assigned
+       FROM delivery_locations dl
+       JOIN orders o ON o.id = dl.order_id
+       WHERE dl.order_id = $1 AND dl.token_hash = $2
+       FOR UPDATE OF dl`,
+      [orderId, hashToken(token)]
+    );
+
+    const location = locationResult.rows[0];
+    if (!location) {
+      return null;
+    }
+    if (location.order_status !== 'DELIVERING' || !location.assigned) {
+      throw new Error('NOT_DELIVERING');
+    }
+
+    const result = await client.query<DeliveryLocation>(
+      `UPDATE delivery_locations
+       SET lat = $2, lng = $3, recorded_at = $4,
+           shared_lat = CASE WHEN shared_at IS NULL OR shared_at <= $4::timestamptz - make_interval(secs => $5)
+                             THEN $2 ELSE shared_lat END,
+           shared_lng = CASE WHEN shared_at IS NULL OR shared_at <= $4::timestamptz - make_interval(secs => $5)
+                             THEN $3 ELSE shared_lng END,
+           shared_at = CASE WHEN shared_at IS NULL OR shared_at <= $4::timestamptz - make_interval(secs => $5)
+                            THEN $4 ELSE shared_at END
+       WHERE order_id = $1
+       RETURNING lat, lng, recorded_at, shared_at`,
+      [orderId, lat, lng, now, shareIntervalSeconds]
+    );
+
+    return result.rows[0];
+  });
+}
+
+// ============================================================================
+// Customer side
+// ============================================================================
+
+/**
+ * Courier position and ETA of an order on its way. Before the courier shares
+ * a position the ETA is measured from the restaurant.
+ * @returns null unless the order is DELIVERING
+ */
+export async function getOrderTracking(
+  order: Pick<ordersRepo.Order, 'id' | 'status' | 'address_json'>,
+  now: Date = new Date()
+): Promise<OrderTracking | null> {
+  if (order.status !== 'DELIVERING') {
+    return null;
+  }
+
+  const result = await query<{
+    restaurant_lat: number | null;
+    restaurant_lng: number | null;
+    destination_lat: number | null;
+    destination_lng: number | null;
+    shared_lat: number | null;
+    shared_lng: number | null;
+    shared_at: Date | null;
+  }>(
+    `SELECT r.lat as restaurant_lat, r.lng as restaurant_lng,
+            dl.destination_lat, dl.destination_lng, dl.shared_lat, dl.shared_lng, dl.shared_at
+     FROM orders o
+     JOIN restaurants r ON r.id = o.restaurant_id
+     LEFT JOIN delivery_locations dl ON dl.order_id = o.id AND dl.courier_id = o.courier_id
+     WHERE o.id = $1`,
+    [order.id]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const courier = row.shared_at ? toPoint(row.shared_lat, row.shared_lng) : null;
+  const origin = courier || toPoint(row.restaurant_lat, row.restaurant_lng);
+  const destination =
+    toPoint(row.destination_lat, row.destination_lng) ||
+    (order.address_json ? await ordersRepo.resolveDeliveryPoint(order.address_json) : null);
+
+  const estimate = origin && destination ? estimateArrival(origin, destination, now) : null;
+
+  return {
+    courier_position: courier && row.shared_at ? { ...courier, updated_at: row.shared_at } : null,
+    distance_m: estimate?.distance_m ?? null,
+    eta_minutes: estimate?.eta_minutes ?? null,
+    eta_at: estimate?.eta_at ?? null,
+  };
+}
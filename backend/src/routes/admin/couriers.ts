@@ -0,0 +1,152 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { adminOnly } from '../../middleware/adminAuth';
+import * as couriersRepo from '../../repos/couriersRepo';
+
+// Validation schemas
+const courierIdParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const createCourierSchema = z.object({
+  email: z.string().email(),
+  name: z.string().trim().min(1).max(100),
+  phone: z.string().trim().min(1).max(30).nullable().optional(),
+  promote_existing_user: z.boolean().optional(),
+});
+
+const updateCourierSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  phone: z.string().trim().min(1).max(30).nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+export async function registerAdminCouriersRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /admin/couriers
+   * List all couriers with the number of orders they are carrying
+   */
+  fastify.get(
+    '/admin/couriers',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const couriers = await couriersRepo.listCouriers();
+
+        return reply.status(200).send({
+          ok: true,
+          data: couriers,
+        });
+      } catch (error: any) {
+        console.error('Error listing couriers:', error);
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to list couriers',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /admin/couriers
+   * Create a courier account, logging in with the email OTP flow
+   */
+  fastify.post(
+    '/admin/couriers',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const bodyData = createCourierSchema.parse(request.body);
+
+        const courier = await couriersRepo.createCourier(bodyData);
+
+        return reply.status(201).send({
+          ok: true,
+          data: courier,
+        });
+      } catch (error: any) {
+        console.error('Error creating courier:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.errors,
+          });
+        }
+
+        if (error.message === 'COURIER_EXISTS') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'CONFLICT',
+            message: 'A courier with this email already exists',
+          });
+        }
+
+        if (error.message === 'EMAIL_IN_USE') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'EMAIL_IN_USE',
+            message: 'This email belongs to an existing user, set promote_existing_user to make it a courier',
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to create courier',
+        });
+      }
+    }
+  );
+
+  /**
+   * PATCH /admin/couriers/:id
+   * Update a courier (partial update), is_active=false disables the account
+   */
+  fastify.patch(
+    '/admin/couriers/:id',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = courierIdParamsSchema.parse(request.params);
+        const bodyData = updateCourierSchema.parse(request.body);
+
+        const courier = await couriersRepo.updateCourier(paramsData.id, bodyData);
+
+        if (!courier) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Courier not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: courier,
+        });
+      } catch (error: any) {
+        console.error('Error updating courier:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to update courier',
+        });
+      }
+    }
+  );
+}
@@ -2,6 +2,13 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { adminOnly } from '../../middleware/adminAuth';
 import * as ordersRepo from '../../repos/ordersRepo';
+import * as paymentsRepo from '../../repos/paymentsRepo';
+import * as notificationsRepo from '../../repos/notificationsRepo';
+import { getPaymentProvider } from '../../payments';
+import { PaymentProviderError } from '../../payments/PaymentProvider';
+import { subscribeToOrderEvents } from '../../realtime/orderEvents';
+import { openEventStream } from '../../utils/sse';
+import { getFileStorage } from '../../storage';
 
 // ============================================================================
 // Validation Schemas
@@ -11,18 +18,54 @@ const orderIdParamsSchema = z.object({
   orderId: z.string().uuid(),
 });
 
+const restaurantIdParamsSchema = z.object({
+  restaurantId: z.string().uuid(),
+});
+
+const orderStatusSchema = z.enum([
+  'CREATED',
+  'PAID',
+  'ACCEPTED',
+  'PREPARING',
+  'READY',
+  'PICKED_UP',
+  'DELIVERING',
+  'DELIVERED',
+  'COLLECTED',
+  'CANCELLED',
+]);
+
+const listOrdersQuerySchema = z.object({
+  restaurant_id: z.string().uuid().optional(),
+  // Comma-separated list, e.g. status=ACCEPTED,PREPARING
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((s) => s.trim()) : undefined))
+    .pipe(z.array(orderStatusSchema).optional()),
+  payment_method: z.enum(['ONLINE', 'CASH']).optional(),
+  payment_status: z.enum(['PENDING', 'PAID']).optional(),
+  fulfilment_type: z.enum(['DELIVERY', 'PICKUP']).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // YYYY-MM-DD
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // YYYY-MM-DD
+  email: z.string().email().optional(),
+  q: z.string().min(1).optional(),
+  scheduled: z.enum(['upcoming', 'due']).optional(),
+  cursor: z.string().optional(),
+  limit: z.string().optional().default('50').transform(Number).pipe(z.number().int().min(1).max(100)),
+});
+
 const updateOrderStatusSchema = z.object({
-  status: z.enum([
-    'CREATED',
-    'PAID',
-    'ACCEPTED',
-    'PREPARING',
-    'READY',
-    'PICKED_UP',
-    'DELIVERING',
-    'DELIVERED',
-    'CANCELLED',
-  ]),
+  status: orderStatusSchema,
+  reason: z.string().max(500).optional(),
+});
+
+const deliveredWithoutProofSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+const assignCourierSchema = z.object({
+  courier_id: z.string().uuid().nullable(),
 });
 
 // ============================================================================
@@ -30,6 +73,112 @@ const updateOrderStatusSchema = z.object({
 // ============================================================================
 
 export async function registerAdminOrdersRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /admin/orders
+   * List orders across restaurants with filters and cursor pagination
+   */
+  fastify.get(
+    '/admin/orders',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const queryData = listOrdersQuerySchema.parse(request.query);
+
+        const page = await ordersRepo.listOrdersAdmin({
+          restaurant_id: queryData.restaurant_id,
+          statuses: queryData.status,
+          payment_method: queryData.payment_method,
+          payment_status: queryData.payment_status,
+          fulfilment_type: queryData.fulfilment_type,
+          from: queryData.from,
+          to: queryData.to,
+          customer_email: queryData.email,
+          q: queryData.q,
+          scheduled: queryData.scheduled,
+          cursor: queryData.cursor,
+          limit: queryData.limit,
+        });
+
+        return reply.status(200).send({
+          ok: true,
+          data: page.orders,
+          next_cursor: page.next_cursor,
+          totals: page.totals,
+        });
+      } catch (error: any) {
+        console.error('Error listing orders:', error);
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details: error.errors,
+          });
+        }
+
+        if (error.message === 'INVALID_CURSOR') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'INVALID_CURSOR',
+            message: 'Invalid pagination cursor',
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error.message || 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /admin/restaurants/:restaurantId/orders/events
+   * Live order events for a restaurant (Server-Sent Events)
+   */
+  fastify.get(
+    '/admin/restaurants/:restaurantId/orders/events',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = restaurantIdParamsSchema.parse(request.params);
+
+        const stream = openEventStream(request, reply);
+        const unsubscribe = await subscribeToOrderEvents(
+          { restaurant_id: paramsData.restaurantId },
+          (event) => stream.send(event.type, event)
+        );
+        // Unsubscribes right away if the client left while subscribing
+        stream.onClose(unsubscribe);
+      } catch (error: any) {
+        console.error('Error streaming restaurant orders:', error);
+
+        // Stream already opened: just close it
+        if (reply.sent) {
+          reply.raw.end();
+          return;
+        }
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error.message || 'Unknown error',
+        });
+      }
+    }
+  );
+
   /**
    * PATCH /admin/orders/:orderId/status
    * Update order status (admin only)
@@ -53,10 +202,11 @@ export async function registerAdminOrdersRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Update the status
+        // Update the status (validated against the order state machine)
         const updatedOrder = await ordersRepo.updateOrderStatus(
           paramsData.orderId,
-          bodyData.status
+          bodyData.status,
+          { actor: { type: 'ADMIN' }, reason: bodyData.reason }
         );
 
         return reply.status(200).send({
@@ -75,6 +225,373 @@ export async function registerAdminOrdersRoutes(fastify: FastifyInstance) {
           });
         }
 
+        if (error instanceof ordersRepo.InvalidStatusTransitionError) {
+          return reply.status(409).send({
+            ok: false,
+            error: 'INVALID_STATUS_TRANSITION',
+            message: `Cannot change order status from ${error.from} to ${error.to}`,
+            details: {
+              from: error.from,
+              to: error.to,
+              allowed: error.allowed,
+            },
+          });
+        }
+
+        if (error.message === 'DELIVERY_PROOF_REQUIRED') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'DELIVERY_PROOF_REQUIRED',
+            message:
+              'Orders are delivered by the courier with a proof of delivery, ' +
+              'or marked delivered without proof with a reason',
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error.message || 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /admin/orders/:orderId/delivered-without-proof
+   * Close a delivery that cannot get a proof (no courier, courier unable to
+   * confirm it); the reason is required and recorded in the timeline
+   */
+  fastify.post(
+    '/admin/orders/:orderId/delivered-without-proof',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = orderIdParamsSchema.parse(request.params);
+        const bodyData = deliveredWithoutProofSchema.parse(request.body);
+
+        const updatedOrder = await ordersRepo.markDeliveredWithoutProof(
+          paramsData.orderId,
+          { type: 'ADMIN' },
+          bodyData.reason
+        );
+
+        if (!updatedOrder) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Order not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: updatedOrder,
+        });
+      } catch (error: any) {
+        console.error('Error marking order delivered without proof:', error);
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
+        if (error instanceof ordersRepo.InvalidStatusTransitionError) {
+          return reply.status(409).send({
+            ok: false,
+            error: 'INVALID_STATUS_TRANSITION',
+            message: `Cannot mark an order in ${error.from} as delivered`,
+            details: {
+              from: error.from,
+              to: error.to,
+              allowed: error.allowed,
+            },
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error.message || 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * PUT /admin/orders/:orderId/courier
+   * Assign a courier to a delivery order (courier_id null to unassign)
+   */
+  fastify.put(
+    '/admin/orders/:orderId/courier',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = orderIdParamsSchema.parse(request.params);
+        const bodyData = assignCourierSchema.parse(request.body);
+
+        const updatedOrder = await ordersRepo.assignCourier(paramsData.orderId, bodyData.courier_id);
+
+        if (!updatedOrder) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Order not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: updatedOrder,
+        });
+      } catch (error: any) {
+        console.error('Error assigning courier:', error);
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
+        if (error.message === 'COURIER_NOT_FOUND') {
+          return reply.status(404).send({
+            ok: false,
+            error: 'COURIER_NOT_FOUND',
+            message: 'Courier not found or disabled',
+          });
+        }
+
+        if (error.message === 'NOT_A_DELIVERY') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'NOT_A_DELIVERY',
+            message: 'Pickup orders have no courier',
+          });
+        }
+
+        if (error.message === 'ORDER_CLOSED') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'ORDER_CLOSED',
+            message: 'Order is already delivered or cancelled',
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error.message || 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /admin/orders/:orderId/refund
+   * Refund the captured payment of a cancelled order flagged refund_due.
+   * refund_due is cleared when the provider confirms with refund.succeeded.
+   */
+  fastify.post(
+    '/admin/orders/:orderId/refund',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = orderIdParamsSchema.parse(request.params);
+
+        const order = await ordersRepo.getOrderById(paramsData.orderId);
+        if (!order) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Order not found',
+          });
+        }
+
+        if (!order.refund_due) {
+          return reply.status(409).send({
+            ok: false,
+            error: 'REFUND_NOT_DUE',
+            message: 'Order is not flagged for refund',
+          });
+        }
+
+        const payment = await paymentsRepo.getLatestPaymentForOrder(order.id, ['SUCCEEDED']);
+        if (!payment || !payment.provider_ref) {
+          return reply.status(409).send({
+            ok: false,
+            error: 'NO_REFUNDABLE_PAYMENT',
+            message: 'No captured payment found for this order',
+          });
+        }
+
+        const provider = getPaymentProvider(payment.provider);
+        await provider.refund(payment.provider_ref, payment.amount_cents);
+
+        const updatedPayment = await paymentsRepo.setPaymentStatus(payment.id, 'REFUND_PENDING', {
+          fromStatuses: ['SUCCEEDED'],
+        });
+
+        return reply.status(200).send({
+          ok: true,
+          data: updatedPayment,
+        });
+      } catch (error: any) {
+        console.error('Error refunding order:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        if (error instanceof PaymentProviderError) {
+          return reply.status(502).send({
+            ok: false,
+            error: 'PAYMENT_PROVIDER_ERROR',
+            message: 'Refund could not be issued, please retry',
+            details: { code: error.code },
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error.message || 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /admin/orders/:orderId/delivery-proof
+   * Evidence recorded when the courier confirmed the delivery
+   */
+  fastify.get(
+    '/admin/orders/:orderId/delivery-proof',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = orderIdParamsSchema.parse(request.params);
+
+        const proof = await ordersRepo.getDeliveryProof(paramsData.orderId);
+        if (!proof) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Delivery proof not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: {
+            ...proof,
+            photo_url: proof.photo_key ? `/admin/orders/${proof.order_id}/delivery-proof/photo` : null,
+          },
+        });
+      } catch (error: any) {
+        console.error('Error fetching delivery proof:', error);
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error.message || 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /admin/orders/:orderId/delivery-proof/photo
+   * Photo taken by the courier at the handover
+   */
+  fastify.get(
+    '/admin/orders/:orderId/delivery-proof/photo',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = orderIdParamsSchema.parse(request.params);
+
+        const proof = await ordersRepo.getDeliveryProof(paramsData.orderId);
+        const photo = proof?.photo_key ? await getFileStorage().read(proof.photo_key) : null;
+        if (!photo) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Delivery photo not found',
+          });
+        }
+
+        return reply.status(200).header('Content-Type', photo.content_type).send(photo.data);
+      } catch (error: any) {
+        console.error('Error fetching delivery photo:', error);
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error.message || 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /admin/orders/:orderId/notifications
+   * Messages sent to the customer about the order, with their delivery status
+   */
+  fastify.get(
+    '/admin/orders/:orderId/notifications',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = orderIdParamsSchema.parse(request.params);
+
+        const notifications = await notificationsRepo.listOrderNotifications(paramsData.orderId);
+
+        return reply.status(200).send({
+          ok: true,
+          data: notifications,
+        });
+      } catch (error: any) {
+        console.error('Error listing order notifications:', error);
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
         return reply.status(500).send({
           ok: false,
           error: 'INTERNAL_ERROR',
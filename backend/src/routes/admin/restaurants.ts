@@ -18,6 +18,8 @@ const createRestaurantSchema = z.object({
   is_active: z.boolean().optional(),
   force_closed: z.boolean().optional(),
   force_closed_note: z.string().optional(),
+  offers_delivery: z.boolean().optional(),
+  offers_pickup: z.boolean().optional(),
 });
 
 const updateRestaurantSchema = z.object({
@@ -33,12 +35,33 @@ const updateRestaurantSchema = z.object({
   is_active: z.boolean().optional(),
   force_closed: z.boolean().optional(),
   force_closed_note: z.string().nullable().optional(),
+  customer_cancellable_statuses: z
+    .array(z.enum(['CREATED', 'PAID', 'ACCEPTED', 'PREPARING', 'READY']))
+    .optional(),
+  offers_delivery: z.boolean().optional(),
+  offers_pickup: z.boolean().optional(),
+  tags: z.array(z.string().min(1)).max(20).optional(), // tag slugs, replaces the current tags
 });
 
 const restaurantIdParamsSchema = z.object({
   id: z.string().uuid(),
 });
 
+const pauseRestaurantSchema = z.object({
+  minutes: z.number().int().min(1).max(240),
+  note: z.string().trim().max(200).nullable().optional(),
+});
+
+const busyModeSchema = z
+  .object({
+    minutes: z.number().int().min(1).max(240),
+    extra_minutes: z.number().int().min(0).max(120).default(0),
+    eta_multiplier: z.number().min(1).max(3).default(1),
+  })
+  .refine((data) => data.extra_minutes > 0 || data.eta_multiplier > 1, {
+    message: 'Set extra_minutes, eta_multiplier or both',
+  });
+
 const setHoursSchema = z.object({
   hours: z.array(
     z.object({
@@ -53,10 +76,75 @@ const setHoursSchema = z.object({
 const upsertDeliveryRulesSchema = z.object({
   min_order_cents: z.number().int().min(0).optional(),
   delivery_fee_cents: z.number().int().min(0).optional(),
+  free_delivery_threshold_cents: z.number().int().min(0).nullable().optional(),
+  distance_bands: z
+    .array(
+      z.object({
+        up_to_m: z.number().int().positive(),
+        fee_cents: z.number().int().min(0),
+      })
+    )
+    .max(20)
+    .optional(),
   eta_min: z.number().int().min(1).optional(),
   eta_max: z.number().int().min(1).optional(),
 });
 
+const setCapacityRulesSchema = z.object({
+  rules: z
+    .array(
+      z
+        .object({
+          day_of_week: z.number().int().min(0).max(6).nullable(), // null = every day
+          max_orders: z.number().int().positive().nullable(),
+          max_items: z.number().int().positive().nullable(),
+        })
+        .refine((rule) => rule.max_orders !== null || rule.max_items !== null, {
+          message: 'Set max_orders, max_items or both',
+        })
+    )
+    .max(8)
+    .refine(
+      (rules) => new Set(rules.map((rule) => rule.day_of_week)).size === rules.length,
+      { message: 'Only one rule per day of week' }
+    ),
+});
+
+// GeoJSON coordinates are [lng, lat]; rings are closed (first point = last point)
+const linearRingSchema = z
+  .array(z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]))
+  .min(4)
+  .refine(
+    (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+    { message: 'Polygon rings must be closed' }
+  );
+
+const zonePolygonSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(linearRingSchema).min(1) }),
+  z.object({
+    type: z.literal('MultiPolygon'),
+    coordinates: z.array(z.array(linearRingSchema).min(1)).min(1),
+  }),
+]);
+
+const setDeliveryZonesSchema = z.object({
+  zones: z
+    .array(
+      z
+        .object({
+          name: z.string().trim().min(1).max(100),
+          radius_m: z.number().int().positive().nullable().default(null),
+          polygon: zonePolygonSchema.nullable().default(null),
+          delivery_fee_cents: z.number().int().min(0).nullable().default(null),
+          min_order_cents: z.number().int().min(0).nullable().default(null),
+        })
+        .refine((zone) => (zone.radius_m === null) !== (zone.polygon === null), {
+          message: 'Set either radius_m or polygon',
+        })
+    )
+    .max(20),
+});
+
 const overrideDateParamsSchema = z.object({
   id: z.string().uuid(),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD
@@ -115,6 +203,14 @@ export async function registerAdminRestaurantsRoutes(fastify: FastifyInstance) {
           });
         }
 
+        if (error.code === '23514' && error.constraint === 'restaurants_fulfilment_check') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Restaurant must offer delivery or pickup',
+          });
+        }
+
         return reply.status(500).send({
           ok: false,
           error: 'SERVER_ERROR',
@@ -152,14 +248,51 @@ export async function registerAdminRestaurantsRoutes(fastify: FastifyInstance) {
                     'restaurant_id', rdr.restaurant_id,
                     'min_order_cents', rdr.min_order_cents,
                     'delivery_fee_cents', rdr.delivery_fee_cents,
+                    'free_delivery_threshold_cents', rdr.free_delivery_threshold_cents,
+                    'distance_bands', rdr.distance_bands,
                     'eta_min', rdr.eta_min,
                     'eta_max', rdr.eta_max
-                  ) as delivery_rules
+                  ) as delivery_rules,
+                  (
+                    SELECT COALESCE(json_agg(
+                      json_build_object(
+                        'day_of_week', rcr.day_of_week,
+                        'max_orders', rcr.max_orders,
+                        'max_items', rcr.max_items
+                      ) ORDER BY rcr.day_of_week NULLS FIRST
+                    ), '[]')
+                    FROM restaurant_capacity_rules rcr
+                    WHERE rcr.restaurant_id = r.id
+                  ) as capacity_rules,
+                  (
+                    SELECT COALESCE(json_agg(
+                      json_build_object(
+                        'id', rdz.id,
+                        'name', rdz.name,
+                        'radius_m', rdz.radius_m,
+                        'polygon', rdz.polygon,
+                        'delivery_fee_cents', rdz.delivery_fee_cents,
+                        'min_order_cents', rdz.min_order_cents,
+                        'sort_order', rdz.sort_order
+                      ) ORDER BY rdz.sort_order
+                    ), '[]')
+                    FROM restaurant_delivery_zones rdz
+                    WHERE rdz.restaurant_id = r.id
+                  ) as delivery_zones,
+                  (
+                    SELECT COALESCE(json_agg(
+                      json_build_object('id', t.id, 'slug', t.slug, 'name', t.name)
+                      ORDER BY t.sort_order, t.name
+                    ), '[]')
+                    FROM restaurant_tags rt
+                    JOIN tags t ON t.id = rt.tag_id
+                    WHERE rt.restaurant_id = r.id
+                  ) as tags
            FROM restaurants r
            LEFT JOIN restaurant_hours rh ON r.id = rh.restaurant_id
            LEFT JOIN restaurant_delivery_rules rdr ON r.id = rdr.restaurant_id
            WHERE r.id = $1
-           GROUP BY r.id, rdr.id, rdr.restaurant_id, rdr.min_order_cents, rdr.delivery_fee_cents, rdr.eta_min, rdr.eta_max`,
+           GROUP BY r.id, rdr.id, rdr.restaurant_id, rdr.min_order_cents, rdr.delivery_fee_cents, rdr.free_delivery_threshold_cents, rdr.distance_bands, rdr.eta_min, rdr.eta_max`,
           [paramsData.id]
         );
 
@@ -241,6 +374,14 @@ export async function registerAdminRestaurantsRoutes(fastify: FastifyInstance) {
           });
         }
 
+        if (error.message?.startsWith('TAG_NOT_FOUND:')) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'TAG_NOT_FOUND',
+            message: `Unknown tags: ${error.message.slice('TAG_NOT_FOUND:'.length)}`,
+          });
+        }
+
         // Handle unique constraint violation
         if (error.code === '23505' && error.constraint === 'restaurants_slug_key') {
           return reply.status(409).send({
@@ -250,6 +391,14 @@ export async function registerAdminRestaurantsRoutes(fastify: FastifyInstance) {
           });
         }
 
+        if (error.code === '23514' && error.constraint === 'restaurants_fulfilment_check') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Restaurant must offer delivery or pickup',
+          });
+        }
+
         return reply.status(500).send({
           ok: false,
           error: 'SERVER_ERROR',
@@ -259,6 +408,196 @@ export async function registerAdminRestaurantsRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * POST /admin/restaurants/:id/pause
+   * Force close the restaurant for some minutes; it reopens by itself
+   */
+  fastify.post(
+    '/admin/restaurants/:id/pause',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = restaurantIdParamsSchema.parse(request.params);
+        const bodyData = pauseRestaurantSchema.parse(request.body);
+
+        const restaurant = await restaurantsRepo.pauseRestaurant(
+          paramsData.id,
+          bodyData.minutes,
+          bodyData.note || null
+        );
+
+        if (!restaurant) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Restaurant not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: restaurant,
+        });
+      } catch (error: any) {
+        console.error('Error pausing restaurant:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to pause restaurant',
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /admin/restaurants/:id/pause
+   * Reopen now, ending a timed pause or the manual kill switch
+   */
+  fastify.delete(
+    '/admin/restaurants/:id/pause',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = restaurantIdParamsSchema.parse(request.params);
+
+        const restaurant = await restaurantsRepo.resumeRestaurant(paramsData.id);
+
+        if (!restaurant) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Restaurant not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: restaurant,
+        });
+      } catch (error: any) {
+        console.error('Error resuming restaurant:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to resume restaurant',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /admin/restaurants/:id/busy
+   * Busy mode: longer ETA for some minutes instead of closing
+   */
+  fastify.post(
+    '/admin/restaurants/:id/busy',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = restaurantIdParamsSchema.parse(request.params);
+        const bodyData = busyModeSchema.parse(request.body);
+
+        const restaurant = await restaurantsRepo.setBusyMode(paramsData.id, bodyData);
+
+        if (!restaurant) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Restaurant not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: restaurant,
+        });
+      } catch (error: any) {
+        console.error('Error setting busy mode:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to set busy mode',
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /admin/restaurants/:id/busy
+   * End the busy mode now
+   */
+  fastify.delete(
+    '/admin/restaurants/:id/busy',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = restaurantIdParamsSchema.parse(request.params);
+
+        const restaurant = await restaurantsRepo.clearBusyMode(paramsData.id);
+
+        if (!restaurant) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Restaurant not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: restaurant,
+        });
+      } catch (error: any) {
+        console.error('Error clearing busy mode:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to clear busy mode',
+        });
+      }
+    }
+  );
+
   /**
    * PUT /admin/restaurants/:id/hours
    * Replace all hours for a restaurant
@@ -382,6 +721,106 @@ export async function registerAdminRestaurantsRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * PUT /admin/restaurants/:id/capacity
+   * Replace the per-slot capacity rules of a restaurant
+   */
+  fastify.put(
+    '/admin/restaurants/:id/capacity',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        // Validate params
+        const paramsData = restaurantIdParamsSchema.parse(request.params);
+
+        // Validate body
+        const bodyData = setCapacityRulesSchema.parse(request.body);
+
+        const rules = await restaurantsRepo.setCapacityRules(paramsData.id, bodyData.rules);
+
+        return reply.status(200).send({
+          ok: true,
+          data: rules,
+        });
+      } catch (error: any) {
+        console.error('Error setting capacity rules:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        if (error.message === 'Restaurant not found') {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Restaurant not found',
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to set capacity rules',
+        });
+      }
+    }
+  );
+
+  /**
+   * PUT /admin/restaurants/:id/zones
+   * Replace the delivery zones of a restaurant (matched in the given order)
+   */
+  fastify.put(
+    '/admin/restaurants/:id/zones',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        // Validate params
+        const paramsData = restaurantIdParamsSchema.parse(request.params);
+
+        // Validate body
+        const bodyData = setDeliveryZonesSchema.parse(request.body);
+
+        const zones = await restaurantsRepo.setDeliveryZones(paramsData.id, bodyData.zones);
+
+        return reply.status(200).send({
+          ok: true,
+          data: zones,
+        });
+      } catch (error: any) {
+        console.error('Error setting delivery zones:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        if (error.message === 'Restaurant not found') {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Restaurant not found',
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to set delivery zones',
+        });
+      }
+    }
+  );
+
   /**
    * PUT /admin/restaurants/:id/override/:date
    * Upsert an override for a specific date
@@ -0,0 +1,201 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { adminOnly } from '../../middleware/adminAuth';
+import * as restaurantsRepo from '../../repos/restaurantsRepo';
+
+// Validation schemas
+const tagSlugSchema = z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be lowercase words separated by hyphens');
+
+const tagIdParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const createTagSchema = z.object({
+  slug: tagSlugSchema.optional(),
+  name: z.string().trim().min(1).max(50),
+  sort_order: z.number().int().optional(),
+});
+
+const updateTagSchema = z.object({
+  slug: tagSlugSchema.optional(),
+  name: z.string().trim().min(1).max(50).optional(),
+  sort_order: z.number().int().optional(),
+});
+
+export async function registerAdminTagsRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /admin/tags
+   * List all tags with the number of restaurants using them
+   */
+  fastify.get(
+    '/admin/tags',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const tags = await restaurantsRepo.listTags();
+
+        return reply.status(200).send({
+          ok: true,
+          data: tags,
+        });
+      } catch (error: any) {
+        console.error('Error listing tags:', error);
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to list tags',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /admin/tags
+   * Create a new tag
+   */
+  fastify.post(
+    '/admin/tags',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const bodyData = createTagSchema.parse(request.body);
+
+        const tag = await restaurantsRepo.createTag(bodyData);
+
+        return reply.status(201).send({
+          ok: true,
+          data: tag,
+        });
+      } catch (error: any) {
+        console.error('Error creating tag:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request body',
+            details: error.errors,
+          });
+        }
+
+        // Handle unique constraint violation
+        if (error.code === '23505') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'CONFLICT',
+            message: 'Tag with this slug already exists',
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to create tag',
+        });
+      }
+    }
+  );
+
+  /**
+   * PATCH /admin/tags/:id
+   * Update a tag (partial update)
+   */
+  fastify.patch(
+    '/admin/tags/:id',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = tagIdParamsSchema.parse(request.params);
+        const bodyData = updateTagSchema.parse(request.body);
+
+        const tag = await restaurantsRepo.updateTag(paramsData.id, bodyData);
+
+        if (!tag) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Tag not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: tag,
+        });
+      } catch (error: any) {
+        console.error('Error updating tag:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        // Handle unique constraint violation
+        if (error.code === '23505') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'CONFLICT',
+            message: 'Tag with this slug already exists',
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to update tag',
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /admin/tags/:id
+   * Delete a tag and remove it from all restaurants
+   */
+  fastify.delete(
+    '/admin/tags/:id',
+    { preHandler: adminOnly },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const paramsData = tagIdParamsSchema.parse(request.params);
+
+        const deleted = await restaurantsRepo.deleteTag(paramsData.id);
+
+        if (!deleted) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Tag not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          message: 'Tag deleted successfully',
+        });
+      } catch (error: any) {
+        console.error('Error deleting tag:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to delete tag',
+        });
+      }
+    }
+  );
+}
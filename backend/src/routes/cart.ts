@@ -0,0 +1,80 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import * as ordersRepo from '../repos/ordersRepo';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const cartItemOptionSchema = z.object({
+  group_id: z.string().uuid(),
+  item_id: z.string().uuid(),
+});
+
+const cartItemSchema = z.object({
+  product_id: z.string().uuid(),
+  qty: z.number().int().min(1),
+  options: z.array(cartItemOptionSchema).default([]),
+});
+
+// Address is optional for quotes: the cart page has none yet
+const deliveryAddressSchema = z.object({
+  street: z.string().min(1),
+  city: z.string().min(1),
+  postal_code: z.string().min(1),
+  notes: z.string().optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+});
+
+const quoteCartSchema = z.object({
+  restaurant_id: z.string().uuid(),
+  fulfilment_type: z.enum(['DELIVERY', 'PICKUP']).optional(),
+  delivery_address: deliveryAddressSchema.optional(),
+  items: z.array(cartItemSchema).max(100),
+  scheduled_for: z.string().datetime({ offset: true }).optional(),
+});
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export async function cartRoutes(fastify: FastifyInstance) {
+  // POST /cart/quote - Server-authoritative pricing for a cart (no writes)
+  fastify.post('/cart/quote', async (request, reply) => {
+    try {
+      const bodyData = quoteCartSchema.parse(request.body);
+
+      const quote = await ordersRepo.quoteCart(bodyData);
+
+      return reply.send({
+        ok: true,
+        data: quote,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          ok: false,
+          error: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.errors,
+        });
+      }
+
+      if (error instanceof Error && error.message === 'RESTAURANT_NOT_FOUND') {
+        return reply.status(404).send({
+          ok: false,
+          error: 'RESTAURANT_NOT_FOUND',
+          message: 'Restaurant not found',
+        });
+      }
+
+      console.error('Quote cart error:', error);
+      return reply.status(500).send({
+        ok: false,
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+}
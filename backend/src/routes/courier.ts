@@ -0,0 +1,424 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { courierOnly } from '../middleware/courierAuth';
+import * as ordersRepo from '../repos/ordersRepo';
+import * as dispatchRepo from '../repos/dispatchRepo';
+import * as trackingRepo from '../repos/trackingRepo';
+import { getDispatchConfig } from '../utils/dispatch';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const orderIdParamsSchema = z.object({
+  orderId: z.string().uuid(),
+});
+
+const offerIdParamsSchema = z.object({
+  offerId: z.string().uuid(),
+});
+
+const dutySchema = z.object({
+  on_duty: z.boolean(),
+  shift_minutes: z.number().int().min(1).max(24 * 60).optional(),
+});
+
+// Photos arrive base64-encoded in the JSON body
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+const deliveryConfirmationSchema = z
+  .object({
+    handover_code: z.string().regex(/^\d{4}$/).optional(),
+    photo: z
+      .object({
+        content_type: z.enum(['image/jpeg', 'image/png', 'image/webp']),
+        data_base64: z.string().min(1),
+      })
+      .optional(),
+    cash_collected_cents: z.number().int().min(0).optional(),
+  })
+  .refine((data) => data.handover_code !== undefined || data.photo !== undefined, {
+    message: 'handover_code or photo is required',
+  });
+
+const positionSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export async function courierRoutes(fastify: FastifyInstance) {
+  async function sendCourierError(reply: FastifyReply, error: unknown) {
+    if (error instanceof z.ZodError) {
+      return reply.status(400).send({
+        ok: false,
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof ordersRepo.InvalidStatusTransitionError) {
+      return reply.status(409).send({
+        ok: false,
+        error: 'INVALID_STATUS_TRANSITION',
+        message: `Cannot change order status from ${error.from} to ${error.to}`,
+        details: {
+          from: error.from,
+          to: error.to,
+          allowed: error.allowed,
+        },
+      });
+    }
+
+    if (error instanceof Error && error.message === 'CASH_AMOUNT_REQUIRED') {
+      return reply.status(400).send({
+        ok: false,
+        error: 'CASH_AMOUNT_REQUIRED',
+        message: 'Amount collected is required for cash orders',
+      });
+    }
+
+    if (error instanceof Error && error.message === 'INVALID_HANDOVER_CODE') {
+      return reply.status(400).send({
+        ok: false,
+        error: 'INVALID_HANDOVER_CODE',
+        message: 'Handover code does not match',
+      });
+    }
+
+    if (error instanceof Error && error.message === 'HANDOVER_CODE_LOCKED') {
+      return reply.status(409).send({
+        ok: false,
+        error: 'HANDOVER_CODE_LOCKED',
+        message: 'Too many wrong handover codes, a photo is required',
+      });
+    }
+
+    if (error instanceof Error && error.message === 'NOT_DELIVERING') {
+      return reply.status(409).send({
+        ok: false,
+        error: 'NOT_DELIVERING',
+        message: 'Order is not being delivered',
+      });
+    }
+
+    if (error instanceof Error && error.message === 'OFFER_CLOSED') {
+      return reply.status(409).send({
+        ok: false,
+        error: 'OFFER_CLOSED',
+        message: 'Offer was already answered, withdrawn or has expired',
+      });
+    }
+
+    return reply.status(500).send({
+      ok: false,
+      error: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  async function handleCourierAction(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    action: ordersRepo.CourierAction
+  ) {
+    try {
+      const paramsData = orderIdParamsSchema.parse(request.params);
+
+      const order = await ordersRepo.advanceCourierOrder(
+        paramsData.orderId,
+        request.courier!.id,
+        action
+      );
+
+      if (!order) {
+        return reply.status(404).send({
+          ok: false,
+          error: 'NOT_FOUND',
+          message: 'Order not found',
+        });
+      }
+
+      return reply.status(200).send({
+        ok: true,
+        data: ordersRepo.hideHandoverCode(order),
+      });
+    } catch (error) {
+      console.error('Courier order update error:', error);
+      return sendCourierError(reply, error);
+    }
+  }
+
+  // GET /courier/orders - Orders assigned to the courier, still to deliver
+  fastify.get(
+    '/courier/orders',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => {
+      try {
+        const orders = await ordersRepo.listCourierOrders(request.courier!.id);
+
+        return reply.status(200).send({
+          ok: true,
+          data: orders,
+        });
+      } catch (error) {
+        console.error('List courier orders error:', error);
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // POST /courier/orders/:orderId/picked-up - Collected at the restaurant, on the way
+  fastify.post(
+    '/courier/orders/:orderId/picked-up',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => handleCourierAction(request, reply, 'PICKED_UP')
+  );
+
+  // POST /courier/orders/:orderId/delivery-confirmation - Handed over to the customer,
+  // proven by the customer's handover code or a photo
+  fastify.post(
+    '/courier/orders/:orderId/delivery-confirmation',
+    {
+      preHandler: courierOnly,
+      bodyLimit: 8 * 1024 * 1024,
+    },
+    async (request, reply) => {
+      try {
+        const paramsData = orderIdParamsSchema.parse(request.params);
+        const body = deliveryConfirmationSchema.parse(request.body);
+
+        const photoData = body.photo ? Buffer.from(body.photo.data_base64, 'base64') : null;
+        if (photoData && (photoData.length === 0 || photoData.length > MAX_PHOTO_BYTES)) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Photo must be between 1 byte and 5 MB',
+          });
+        }
+
+        const order = await ordersRepo.confirmDelivery(paramsData.orderId, request.courier!.id, {
+          handover_code: body.handover_code,
+          photo: body.photo && photoData ? { data: photoData, content_type: body.photo.content_type } : undefined,
+          cash_collected_cents: body.cash_collected_cents,
+        });
+
+        if (!order) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Order not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: ordersRepo.hideHandoverCode(order),
+        });
+      } catch (error) {
+        console.error('Delivery confirmation error:', error);
+        return sendCourierError(reply, error);
+      }
+    }
+  );
+
+  // POST /courier/orders/:orderId/location-token - Token for pushing live positions
+  // to POST /deliveries/:orderId/location while the order is on its way
+  fastify.post(
+    '/courier/orders/:orderId/location-token',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => {
+      try {
+        const paramsData = orderIdParamsSchema.parse(request.params);
+
+        const issued = await trackingRepo.issueLocationToken(paramsData.orderId, request.courier!.id);
+
+        if (!issued) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Order not found',
+          });
+        }
+
+        return reply.status(201).send({
+          ok: true,
+          data: issued,
+        });
+      } catch (error) {
+        console.error('Location token error:', error);
+        return sendCourierError(reply, error);
+      }
+    }
+  );
+
+  // GET /courier/me - Courier profile with duty state and last position
+  fastify.get(
+    '/courier/me',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => {
+      return reply.status(200).send({
+        ok: true,
+        data: request.courier,
+      });
+    }
+  );
+
+  // POST /courier/duty - Go on or off duty
+  fastify.post(
+    '/courier/duty',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => {
+      try {
+        const body = dutySchema.parse(request.body);
+
+        const roster = await dispatchRepo.setCourierDuty(
+          request.courier!.id,
+          body.on_duty,
+          body.shift_minutes ?? null
+        );
+
+        return reply.status(200).send({
+          ok: true,
+          data: roster,
+        });
+      } catch (error) {
+        console.error('Courier duty error:', error);
+        return sendCourierError(reply, error);
+      }
+    }
+  );
+
+  // PUT /courier/position - Last known position, used to pick the closest courier
+  fastify.put(
+    '/courier/position',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => {
+      try {
+        const body = positionSchema.parse(request.body);
+
+        const roster = await dispatchRepo.setCourierPosition(request.courier!.id, body.lat, body.lng);
+
+        return reply.status(200).send({
+          ok: true,
+          data: roster,
+        });
+      } catch (error) {
+        console.error('Courier position error:', error);
+        return sendCourierError(reply, error);
+      }
+    }
+  );
+
+  // GET /courier/offers - Open delivery offers for the courier
+  fastify.get(
+    '/courier/offers',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => {
+      try {
+        const offers = await dispatchRepo.listCourierOffers(request.courier!.id);
+
+        return reply.status(200).send({
+          ok: true,
+          data: offers,
+        });
+      } catch (error) {
+        console.error('List courier offers error:', error);
+        return sendCourierError(reply, error);
+      }
+    }
+  );
+
+  // POST /courier/offers/:offerId/accept - Take the order
+  fastify.post(
+    '/courier/offers/:offerId/accept',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => {
+      try {
+        const paramsData = offerIdParamsSchema.parse(request.params);
+
+        const order = await dispatchRepo.acceptOffer(paramsData.offerId, request.courier!.id);
+
+        if (!order) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Offer not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: ordersRepo.hideHandoverCode(order),
+        });
+      } catch (error) {
+        console.error('Accept offer error:', error);
+        return sendCourierError(reply, error);
+      }
+    }
+  );
+
+  // POST /courier/offers/:offerId/reject - Decline, the order goes to the next courier
+  fastify.post(
+    '/courier/offers/:offerId/reject',
+    {
+      preHandler: courierOnly,
+    },
+    async (request, reply) => {
+      try {
+        const paramsData = offerIdParamsSchema.parse(request.params);
+
+        const offer = await dispatchRepo.rejectOffer(paramsData.offerId, request.courier!.id);
+
+        if (!offer) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Offer not found',
+          });
+        }
+
+        // Reassign right away instead of waiting for the next sweep; the
+        // rejection is already saved, a failure here is left to the sweeper
+        try {
+          await dispatchRepo.offerOrder(offer.order_id, getDispatchConfig());
+        } catch (error) {
+          console.error('Dispatch after rejection failed:', { orderId: offer.order_id, error });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: offer,
+        });
+      } catch (error) {
+        console.error('Reject offer error:', error);
+        return sendCourierError(reply, error);
+      }
+    }
+  );
+}
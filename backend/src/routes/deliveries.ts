@@ -0,0 +1,89 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import * as trackingRepo from '../repos/trackingRepo';
+import { getTrackingConfig } from '../utils/tracking';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const orderIdParamsSchema = z.object({
+  orderId: z.string().uuid(),
+});
+
+const locationSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export async function deliveriesRoutes(fastify: FastifyInstance) {
+  // POST /deliveries/:orderId/location - Position pushed by the delivering courier's phone
+  // Authorization: Bearer <token from POST /courier/orders/:orderId/location-token>
+  fastify.post('/deliveries/:orderId/location', async (request, reply) => {
+    try {
+      const paramsData = orderIdParamsSchema.parse(request.params);
+
+      const authorization = request.headers.authorization;
+      const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+      if (!token) {
+        return reply.status(401).send({
+          ok: false,
+          error: 'UNAUTHORIZED',
+          message: 'Delivery token required',
+        });
+      }
+
+      const body = locationSchema.parse(request.body);
+
+      const location = await trackingRepo.recordLocation(
+        paramsData.orderId,
+        token,
+        body.lat,
+        body.lng,
+        getTrackingConfig().share_interval_seconds
+      );
+
+      if (!location) {
+        return reply.status(401).send({
+          ok: false,
+          error: 'UNAUTHORIZED',
+          message: 'Invalid delivery token',
+        });
+      }
+
+      return reply.status(200).send({
+        ok: true,
+        data: location,
+      });
+    } catch (error) {
+      console.error('Delivery location error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          ok: false,
+          error: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.errors,
+        });
+      }
+
+      if (error instanceof Error && error.message === 'NOT_DELIVERING') {
+        return reply.status(409).send({
+          ok: false,
+          error: 'NOT_DELIVERING',
+          message: 'Order is not being delivered',
+        });
+      }
+
+      return reply.status(500).send({
+        ok: false,
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+}
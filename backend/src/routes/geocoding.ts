@@ -0,0 +1,57 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getGeocoder } from '../geocoding';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const geocodeQuerySchema = z.object({
+  street: z.string().min(1),
+  city: z.string().min(1),
+  postal_code: z.string().min(1),
+});
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export async function geocodingRoutes(fastify: FastifyInstance) {
+  // GET /geocode - Coordinates of an address, for searching restaurants without browser geolocation
+  fastify.get('/geocode', async (request, reply) => {
+    try {
+      const queryData = geocodeQuerySchema.parse(request.query);
+
+      const point = await getGeocoder().geocode(queryData);
+
+      if (!point) {
+        return reply.status(404).send({
+          ok: false,
+          error: 'ADDRESS_NOT_FOUND',
+          message: 'Address could not be located',
+        });
+      }
+
+      return reply.send({
+        ok: true,
+        data: point,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          ok: false,
+          error: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: error.errors,
+        });
+      }
+
+      console.error('Geocode error:', error);
+      return reply.status(500).send({
+        ok: false,
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+}
@@ -1,6 +1,17 @@
 import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
 import { authenticate } from '../middleware/auth';
 import { query } from '../db';
+import * as notificationsRepo from '../repos/notificationsRepo';
+
+const notificationPreferencesSchema = z
+  .object({
+    email: z.boolean().optional(),
+    sms: z.boolean().optional(),
+  })
+  .refine((data) => data.email !== undefined || data.sms !== undefined, {
+    message: 'Provide email and/or sms',
+  });
 
 export async function meRoutes(fastify: FastifyInstance) {
   // GET /me
@@ -22,7 +33,7 @@ export async function meRoutes(fastify: FastifyInstance) {
 
         // Get user from database
         const result = await query(
-          `SELECT id, phone_e164, name, email, status, created_at, last_login_at
+          `SELECT id, phone_e164, name, email, status, role, created_at, last_login_at
            FROM users
            WHERE id = $1`,
           [userId]
@@ -44,6 +55,7 @@ export async function meRoutes(fastify: FastifyInstance) {
             name: user.name,
             email: user.email,
             status: user.status,
+            role: user.role,
             createdAt: user.created_at,
             lastLoginAt: user.last_login_at,
           },
@@ -57,4 +69,96 @@ export async function meRoutes(fastify: FastifyInstance) {
       }
     }
   );
+  // GET /me/notification-preferences - Channels used for order notifications
+  fastify.get(
+    '/me/notification-preferences',
+    {
+      preHandler: authenticate,
+    },
+    async (request, reply) => {
+      try {
+        if (!request.user) {
+          return reply.status(401).send({
+            ok: false,
+            error: 'UNAUTHORIZED',
+            message: 'User not authenticated',
+          });
+        }
+
+        const preferences = await notificationsRepo.getPreferences(request.user.userId);
+
+        if (!preferences) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'User not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: preferences,
+        });
+      } catch (error) {
+        console.error('Get notification preferences error:', error);
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // PUT /me/notification-preferences - Turn email and SMS notifications on or off
+  fastify.put(
+    '/me/notification-preferences',
+    {
+      preHandler: authenticate,
+    },
+    async (request, reply) => {
+      try {
+        if (!request.user) {
+          return reply.status(401).send({
+            ok: false,
+            error: 'UNAUTHORIZED',
+            message: 'User not authenticated',
+          });
+        }
+
+        const body = notificationPreferencesSchema.parse(request.body);
+
+        const preferences = await notificationsRepo.updatePreferences(request.user.userId, body);
+
+        if (!preferences) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'User not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: preferences,
+        });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
+        console.error('Update notification preferences error:', error);
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
 }
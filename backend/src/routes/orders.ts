@@ -2,6 +2,12 @@ import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { authenticate } from '../middleware/auth';
 import * as ordersRepo from '../repos/ordersRepo';
+import * as paymentsRepo from '../repos/paymentsRepo';
+import * as trackingRepo from '../repos/trackingRepo';
+import { getOnlinePaymentsUnavailableReason, getPaymentProvider } from '../payments';
+import { PaymentProviderError } from '../payments/PaymentProvider';
+import { subscribeToOrderEvents } from '../realtime/orderEvents';
+import { openEventStream } from '../utils/sse';
 
 // ============================================================================
 // Validation Schemas
@@ -23,20 +29,33 @@ const deliveryAddressSchema = z.object({
   city: z.string().min(1),
   postal_code: z.string().min(1),
   notes: z.string().optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
 });
 
-const createOrderSchema = z.object({
-  restaurant_id: z.string().uuid(),
-  payment_method: z.enum(['ONLINE', 'CASH']),
-  delivery_address: deliveryAddressSchema,
-  items: z.array(cartItemSchema).min(1),
-  notes: z.string().optional(),
-});
+const createOrderSchema = z
+  .object({
+    restaurant_id: z.string().uuid(),
+    payment_method: z.enum(['ONLINE', 'CASH']),
+    fulfilment_type: z.enum(['DELIVERY', 'PICKUP']).default('DELIVERY'),
+    delivery_address: deliveryAddressSchema.optional(), // not needed for pickup
+    items: z.array(cartItemSchema).min(1),
+    notes: z.string().optional(),
+    scheduled_for: z.string().datetime({ offset: true }).optional(), // omitted = as soon as possible
+  })
+  .refine((data) => data.fulfilment_type === 'PICKUP' || data.delivery_address !== undefined, {
+    message: 'Delivery address is required for delivery orders',
+    path: ['delivery_address'],
+  });
 
 const orderIdParamsSchema = z.object({
   orderId: z.string().uuid(),
 });
 
+const cancelOrderSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
 const listOrdersQuerySchema = z.object({
   limit: z.string().optional().default('20').transform(Number),
   offset: z.string().optional().default('0').transform(Number),
@@ -65,13 +84,23 @@ export async function ordersRoutes(fastify: FastifyInstance) {
 
         const bodyData = createOrderSchema.parse(request.body);
 
+        if (bodyData.payment_method === 'ONLINE' && getOnlinePaymentsUnavailableReason()) {
+          return reply.status(503).send({
+            ok: false,
+            error: 'PAYMENT_UNAVAILABLE',
+            message: 'Online payments are currently unavailable, please pay in cash',
+          });
+        }
+
         const orderInput: ordersRepo.CreateOrderInput = {
           user_id: request.user.userId,
           restaurant_id: bodyData.restaurant_id,
           payment_method: bodyData.payment_method,
+          fulfilment_type: bodyData.fulfilment_type,
           delivery_address: bodyData.delivery_address,
           items: bodyData.items,
           notes: bodyData.notes,
+          scheduled_for: bodyData.scheduled_for,
         };
 
         const order = await ordersRepo.createOrder(orderInput);
@@ -108,11 +137,41 @@ export async function ordersRoutes(fastify: FastifyInstance) {
               message: 'Restaurant is not currently accepting orders',
             });
           }
-          if (error.message === 'RESTAURANT_CLOSED') {
+          if (error instanceof ordersRepo.RestaurantClosedError) {
             return reply.status(400).send({
               ok: false,
               error: 'RESTAURANT_CLOSED',
               message: 'Restaurant is currently closed',
+              details: {
+                reason: error.reason,
+                next_open_at: error.nextOpenAt,
+                note: error.note,
+              },
+            });
+          }
+          if (error instanceof ordersRepo.SlotFullError) {
+            return reply.status(409).send({
+              ok: false,
+              error: 'SLOT_FULL',
+              message: 'The delivery slot is fully booked',
+              details: {
+                slot_start: error.slotStart,
+                next_slot_at: error.nextSlotAt,
+              },
+            });
+          }
+          if (error.message.startsWith('FULFILMENT_NOT_AVAILABLE')) {
+            return reply.status(400).send({
+              ok: false,
+              error: 'FULFILMENT_NOT_AVAILABLE',
+              message: error.message,
+            });
+          }
+          if (error.message.startsWith('SLOT_NOT_AVAILABLE')) {
+            return reply.status(400).send({
+              ok: false,
+              error: 'SLOT_NOT_AVAILABLE',
+              message: error.message,
             });
           }
           if (error.message === 'CART_EMPTY') {
@@ -157,6 +216,34 @@ export async function ordersRoutes(fastify: FastifyInstance) {
               message: error.message,
             });
           }
+          if (error.message.startsWith('DELIVERY_OUT_OF_RANGE')) {
+            return reply.status(400).send({
+              ok: false,
+              error: 'DELIVERY_OUT_OF_RANGE',
+              message: error.message,
+            });
+          }
+          if (error.message.startsWith('DELIVERY_OUT_OF_AREA')) {
+            return reply.status(400).send({
+              ok: false,
+              error: 'DELIVERY_OUT_OF_AREA',
+              message: error.message,
+            });
+          }
+          if (error.message.startsWith('ADDRESS_NOT_FOUND')) {
+            return reply.status(400).send({
+              ok: false,
+              error: 'ADDRESS_NOT_FOUND',
+              message: error.message,
+            });
+          }
+          if (error.message.startsWith('DELIVERY_LOCATION_MISMATCH')) {
+            return reply.status(400).send({
+              ok: false,
+              error: 'DELIVERY_LOCATION_MISMATCH',
+              message: error.message,
+            });
+          }
           if (error.message.startsWith('OPTION_NOT_FOUND')) {
             return reply.status(404).send({
               ok: false,
@@ -216,7 +303,10 @@ export async function ordersRoutes(fastify: FastifyInstance) {
 
         return reply.status(200).send({
           ok: true,
-          data: order,
+          data: {
+            ...order,
+            tracking: await trackingRepo.getOrderTracking(order),
+          },
         });
       } catch (error) {
         console.error('Get order error:', error);
@@ -239,6 +329,78 @@ export async function ordersRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // GET /orders/:orderId/events - Live order updates (Server-Sent Events)
+  fastify.get(
+    '/orders/:orderId/events',
+    {
+      preHandler: authenticate,
+    },
+    async (request, reply) => {
+      try {
+        if (!request.user) {
+          return reply.status(401).send({
+            ok: false,
+            error: 'UNAUTHORIZED',
+            message: 'User not authenticated',
+          });
+        }
+
+        const paramsData = orderIdParamsSchema.parse(request.params);
+
+        // Ownership check before opening the stream
+        const order = await ordersRepo.getOrderById(
+          paramsData.orderId,
+          request.user.userId
+        );
+
+        if (!order) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Order not found',
+          });
+        }
+
+        const stream = openEventStream(request, reply);
+        stream.send('snapshot', {
+          order_id: order.id,
+          status: order.status,
+          payment_status: order.payment_status,
+        });
+
+        const unsubscribe = await subscribeToOrderEvents(
+          { order_id: order.id },
+          (event) => stream.send(event.type, event)
+        );
+        // Unsubscribes right away if the client left while subscribing
+        stream.onClose(unsubscribe);
+      } catch (error) {
+        console.error('Order events error:', error);
+
+        // Stream already opened: just close it
+        if (reply.sent) {
+          reply.raw.end();
+          return;
+        }
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
   // GET /orders - List user's orders
   fastify.get(
     '/orders',
@@ -288,7 +450,8 @@ export async function ordersRoutes(fastify: FastifyInstance) {
     }
   );
 
-  // POST /orders/:orderId/pay - Mock payment endpoint
+  // POST /orders/:orderId/pay - Start payment with the configured provider
+  // The order is confirmed asynchronously by POST /payments/webhook/:provider
   fastify.post(
     '/orders/:orderId/pay',
     {
@@ -338,20 +501,135 @@ export async function ordersRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Mock payment - always successful
-        // Update payment status and move to ACCEPTED
-        const updatedOrder = await ordersRepo.updatePaymentStatus(
+        if (order.status !== 'CREATED') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'INVALID_STATUS_TRANSITION',
+            message: `Cannot pay an order in status ${order.status}`,
+          });
+        }
+
+        if (getOnlinePaymentsUnavailableReason()) {
+          return reply.status(503).send({
+            ok: false,
+            error: 'PAYMENT_UNAVAILABLE',
+            message: 'Online payments are currently unavailable',
+          });
+        }
+
+        // An attempt still waiting for the provider is reused, so a
+        // double click cannot charge the customer twice
+        const inProgress = await paymentsRepo.getLatestPaymentForOrder(order.id, [
+          'PENDING',
+          'AUTHORIZED',
+        ]);
+        if (inProgress && inProgress.provider_ref) {
+          return reply.status(200).send({
+            ok: true,
+            data: inProgress,
+          });
+        }
+
+        const provider = getPaymentProvider();
+        const payment = await paymentsRepo.createPayment({
+          order_id: order.id,
+          provider: provider.name,
+          amount_cents: order.total_cents,
+        });
+
+        try {
+          const intent = await provider.createIntent({
+            orderId: order.id,
+            amountCents: order.total_cents,
+            currency: payment.currency,
+          });
+
+          const updatedPayment = await paymentsRepo.setProviderRef(
+            payment.id,
+            intent.providerRef,
+            intent.status,
+            intent.clientSecret
+          );
+
+          return reply.status(200).send({
+            ok: true,
+            data: updatedPayment,
+          });
+        } catch (error) {
+          if (error instanceof PaymentProviderError) {
+            await paymentsRepo.setPaymentStatus(payment.id, 'FAILED', {
+              failureReason: error.code,
+            });
+
+            return reply.status(502).send({
+              ok: false,
+              error: 'PAYMENT_PROVIDER_ERROR',
+              message: 'Payment could not be started, please retry',
+              details: { code: error.code },
+            });
+          }
+          throw error;
+        }
+      } catch (error) {
+        console.error('Pay order error:', error);
+
+        if (error instanceof z.ZodError) {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid request data',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  // POST /orders/:orderId/cancel - Customer cancellation
+  fastify.post(
+    '/orders/:orderId/cancel',
+    {
+      preHandler: authenticate,
+    },
+    async (request, reply) => {
+      try {
+        if (!request.user) {
+          return reply.status(401).send({
+            ok: false,
+            error: 'UNAUTHORIZED',
+            message: 'User not authenticated',
+          });
+        }
+
+        const paramsData = orderIdParamsSchema.parse(request.params);
+        const bodyData = cancelOrderSchema.parse(request.body ?? {});
+
+        const cancelledOrder = await ordersRepo.cancelOrderByCustomer(
           paramsData.orderId,
-          'PAID',
-          'ACCEPTED'
+          request.user.userId,
+          bodyData.reason
         );
 
+        if (!cancelledOrder) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Order not found',
+          });
+        }
+
         return reply.status(200).send({
           ok: true,
-          data: updatedOrder,
+          data: cancelledOrder,
         });
       } catch (error) {
-        console.error('Pay order error:', error);
+        console.error('Cancel order error:', error);
 
         if (error instanceof z.ZodError) {
           return reply.status(400).send({
@@ -362,6 +640,14 @@ export async function ordersRoutes(fastify: FastifyInstance) {
           });
         }
 
+        if (error instanceof Error && error.message === 'CANCELLATION_NOT_ALLOWED') {
+          return reply.status(409).send({
+            ok: false,
+            error: 'CANCELLATION_NOT_ALLOWED',
+            message: 'Order can no longer be cancelled',
+          });
+        }
+
         return reply.status(500).send({
           ok: false,
           error: 'INTERNAL_ERROR',
@@ -0,0 +1,257 @@
+import { FastifyInstance } from 'fastify';
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import { transaction } from '../db';
+import * as ordersRepo from '../repos/ordersRepo';
+import * as paymentsRepo from '../repos/paymentsRepo';
+import { getPaymentProvider } from '../payments';
+import {
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentWebhookEvent,
+} from '../payments/PaymentProvider';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const providerParamsSchema = z.object({
+  provider: z.string().min(1),
+});
+
+// ============================================================================
+// Webhook handling
+// ============================================================================
+
+/**
+ * Mark the payment SUCCEEDED and move the order forward.
+ * A payment for an order cancelled in the meantime flags it refund_due.
+ */
+async function confirmPayment(
+  client: PoolClient,
+  provider: PaymentProvider,
+  payment: paymentsRepo.Payment
+) {
+  const updated = await paymentsRepo.setPaymentStatus(
+    payment.id,
+    'SUCCEEDED',
+    { fromStatuses: ['PENDING', 'AUTHORIZED'] },
+    client
+  );
+  if (!updated) {
+    return;
+  }
+
+  const orderResult = await client.query<ordersRepo.Order>(
+    'SELECT * FROM orders WHERE id = $1',
+    [payment.order_id]
+  );
+  const order = orderResult.rows[0];
+  if (!order || order.payment_status === 'PAID') {
+    return;
+  }
+
+  if (order.status === 'CANCELLED') {
+    await ordersRepo.markPaidAfterCancellation(order.id, client);
+    return;
+  }
+
+  await ordersRepo.updatePaymentStatus(
+    order.id,
+    'PAID',
+    order.status === 'CREATED' ? 'ACCEPTED' : undefined,
+    { actor: { type: 'SYSTEM', id: `payments:${provider.name}` } },
+    client
+  );
+}
+
+/**
+ * Apply a webhook event inside the transaction that recorded it,
+ * with the payment row locked
+ */
+async function applyWebhookEvent(
+  client: PoolClient,
+  provider: PaymentProvider,
+  payment: paymentsRepo.Payment,
+  event: PaymentWebhookEvent
+) {
+  switch (event.type) {
+    case 'payment.authorized': {
+      if (payment.status !== 'PENDING') {
+        return;
+      }
+      try {
+        await provider.capture(event.providerRef);
+      } catch (error) {
+        if (error instanceof PaymentProviderError) {
+          await paymentsRepo.setPaymentStatus(
+            payment.id,
+            'FAILED',
+            {
+              fromStatuses: ['PENDING'],
+              failureReason: `CAPTURE_FAILED:${error.code}`,
+            },
+            client
+          );
+          return;
+        }
+        throw error;
+      }
+      await confirmPayment(client, provider, payment);
+      return;
+    }
+
+    case 'payment.succeeded':
+      await confirmPayment(client, provider, payment);
+      return;
+
+    case 'payment.failed':
+      await paymentsRepo.setPaymentStatus(
+        payment.id,
+        'FAILED',
+        {
+          fromStatuses: ['PENDING', 'AUTHORIZED'],
+          failureReason: event.failureReason || 'FAILED',
+        },
+        client
+      );
+      return;
+
+    case 'payment.expired':
+      await paymentsRepo.setPaymentStatus(
+        payment.id,
+        'EXPIRED',
+        {
+          fromStatuses: ['PENDING', 'AUTHORIZED'],
+        },
+        client
+      );
+      return;
+
+    case 'refund.succeeded': {
+      const refunded = await paymentsRepo.setPaymentStatus(
+        payment.id,
+        'REFUNDED',
+        {
+          fromStatuses: ['SUCCEEDED', 'REFUND_PENDING'],
+        },
+        client
+      );
+      if (refunded) {
+        await ordersRepo.setRefundDue(payment.order_id, false, client);
+      }
+      return;
+    }
+  }
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export async function paymentsRoutes(fastify: FastifyInstance) {
+  // Webhook signatures are computed on the raw body: keep it as a string
+  // (this parser only applies to routes registered in this plugin)
+  fastify.addContentTypeParser(
+    'application/json',
+    { parseAs: 'string' },
+    (request, body, done) => {
+      done(null, body);
+    }
+  );
+
+  // POST /payments/webhook/:provider - Provider notifications
+  fastify.post('/payments/webhook/:provider', async (request, reply) => {
+    try {
+      const paramsData = providerParamsSchema.parse(request.params);
+
+      let provider: PaymentProvider;
+      try {
+        provider = getPaymentProvider(paramsData.provider);
+      } catch {
+        return reply.status(404).send({
+          ok: false,
+          error: 'UNKNOWN_PROVIDER',
+          message: `Unknown payment provider: ${paramsData.provider}`,
+        });
+      }
+
+      let event: PaymentWebhookEvent;
+      try {
+        event = provider.verifyWebhook(
+          typeof request.body === 'string' ? request.body : '',
+          request.headers
+        );
+      } catch {
+        return reply.status(400).send({
+          ok: false,
+          error: 'INVALID_SIGNATURE',
+          message: 'Webhook signature verification failed',
+        });
+      }
+
+      const payment = await paymentsRepo.getPaymentByProviderRef(
+        provider.name,
+        event.providerRef
+      );
+
+      if (!payment) {
+        return reply.status(404).send({
+          ok: false,
+          error: 'PAYMENT_NOT_FOUND',
+          message: 'No payment matches this webhook',
+        });
+      }
+
+      // Recording the event first makes concurrent deliveries of the same
+      // event wait for this one, then see it as a duplicate
+      const applied = await transaction(async (client) => {
+        const claimed = await paymentsRepo.claimWebhookEvent(
+          client,
+          provider.name,
+          event.id,
+          event.type,
+          payment.id
+        );
+        if (!claimed) {
+          return false;
+        }
+
+        const locked = await paymentsRepo.lockPayment(client, payment.id);
+        if (locked) {
+          await applyWebhookEvent(client, provider, locked, event);
+        }
+        return true;
+      });
+
+      if (!applied) {
+        return reply.status(200).send({
+          ok: true,
+          data: { received: true, duplicate: true },
+        });
+      }
+
+      return reply.status(200).send({
+        ok: true,
+        data: { received: true, duplicate: false },
+      });
+    } catch (error) {
+      console.error('Payment webhook error:', error);
+
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          ok: false,
+          error: 'VALIDATION_ERROR',
+          message: 'Invalid request data',
+          details: error.errors,
+        });
+      }
+
+      return reply.status(500).send({
+        ok: false,
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+}
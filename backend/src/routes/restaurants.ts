@@ -4,10 +4,28 @@ import * as restaurantsRepo from '../repos/restaurantsRepo';
 import * as menuRepo from '../repos/menuRepo';
 
 // Validation schemas
-const listRestaurantsQuerySchema = z.object({
-  open_now: z.enum(['true', 'false']).optional(),
-  zone: z.string().optional(),
-});
+const listRestaurantsQuerySchema = z
+  .object({
+    open_now: z.enum(['true', 'false']).optional(),
+    zone: z.string().optional(),
+    // Comma-separated tag slugs: restaurants with any of them
+    tags: z
+      .string()
+      .transform((value) => value.split(',').map((slug) => slug.trim()).filter(Boolean))
+      .optional(),
+    // Delivery position: only restaurants delivering there, with their distance
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+    radius_m: z.coerce.number().int().positive().optional(),
+    sort: z.enum(['distance', 'eta', 'name']).optional(),
+  })
+  .refine((data) => (data.lat === undefined) === (data.lng === undefined), {
+    message: 'lat and lng must be used together',
+  })
+  .refine(
+    (data) => data.lat !== undefined || (data.radius_m === undefined && data.sort !== 'distance'),
+    { message: 'radius_m and sort=distance require lat and lng' }
+  );
 
 const getRestaurantParamsSchema = z.object({
   slug: z.string(),
@@ -24,7 +42,7 @@ export async function registerRestaurantsRoutes(fastify: FastifyInstance) {
       const queryData = listRestaurantsQuerySchema.parse(request.query);
 
       // Parse filters
-      const filters: { openNow?: boolean; zone?: string } = {};
+      const filters: restaurantsRepo.ListRestaurantsFilters = {};
 
       if (queryData.open_now) {
         filters.openNow = queryData.open_now === 'true';
@@ -34,6 +52,20 @@ export async function registerRestaurantsRoutes(fastify: FastifyInstance) {
         filters.zone = queryData.zone;
       }
 
+      if (queryData.tags && queryData.tags.length > 0) {
+        filters.tags = queryData.tags;
+      }
+
+      if (queryData.lat !== undefined && queryData.lng !== undefined) {
+        filters.deliversTo = { lat: queryData.lat, lng: queryData.lng };
+        filters.origin = filters.deliversTo;
+        filters.radiusM = queryData.radius_m;
+      }
+
+      if (queryData.sort) {
+        filters.sort = queryData.sort;
+      }
+
       // Fetch restaurants
       const restaurants = await restaurantsRepo.listRestaurants(filters);
 
@@ -110,6 +142,52 @@ export async function registerRestaurantsRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * GET /restaurants/:slug/slots
+   * Delivery slots available for scheduled orders
+   */
+  fastify.get(
+    '/restaurants/:slug/slots',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        // Validate params
+        const paramsData = getRestaurantParamsSchema.parse(request.params);
+
+        const slots = await restaurantsRepo.getRestaurantDeliverySlots(paramsData.slug);
+
+        if (!slots) {
+          return reply.status(404).send({
+            ok: false,
+            error: 'NOT_FOUND',
+            message: 'Restaurant not found',
+          });
+        }
+
+        return reply.status(200).send({
+          ok: true,
+          data: slots,
+        });
+      } catch (error: any) {
+        console.error('Error getting delivery slots:', error);
+
+        if (error.name === 'ZodError') {
+          return reply.status(400).send({
+            ok: false,
+            error: 'VALIDATION_ERROR',
+            message: 'Invalid parameters',
+            details: error.errors,
+          });
+        }
+
+        return reply.status(500).send({
+          ok: false,
+          error: 'SERVER_ERROR',
+          message: 'Failed to get delivery slots',
+        });
+      }
+    }
+  );
+
   /**
    * GET /restaurants/:slug/menu
    * Get complete menu for a restaurant
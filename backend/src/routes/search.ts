@@ -0,0 +1,50 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import * as searchRepo from '../repos/searchRepo';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(100),
+});
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export async function searchRoutes(fastify: FastifyInstance) {
+  // GET /search - Restaurants and dishes matching the text, grouped by restaurant
+  fastify.get('/search', async (request, reply) => {
+    try {
+      const queryData = searchQuerySchema.parse(request.query);
+
+      const results = await searchRepo.search(queryData.q);
+
+      return reply.send({
+        ok: true,
+        data: {
+          query: queryData.q,
+          results,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.status(400).send({
+          ok: false,
+          error: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details: error.errors,
+        });
+      }
+
+      console.error('Search error:', error);
+      return reply.status(500).send({
+        ok: false,
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+}
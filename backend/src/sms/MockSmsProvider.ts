@@ -1,10 +1,34 @@
 import { SmsProvider } from './SmsProvider';
 
+interface MockSmsMessage {
+  to: string;
+  text: string;
+  created_at: Date;
+}
+
 export class MockSmsProvider implements SmsProvider {
+  private messages: MockSmsMessage[] = [];
+
   async send(toE164: string, text: string): Promise<void> {
+    this.messages.push({ to: toE164, text, created_at: new Date() });
+
     console.log('=== MOCK SMS ===');
     console.log(`To: ${toE164}`);
     console.log(`Message: ${text}`);
     console.log('================');
   }
+
+  /**
+   * Get every message sent so far, oldest first (useful for testing)
+   */
+  getSentMessages(): MockSmsMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Forget the sent messages
+   */
+  clear(): void {
+    this.messages = [];
+  }
 }
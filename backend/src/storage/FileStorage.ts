@@ -0,0 +1,18 @@
+export interface StoredFile {
+  data: Buffer;
+  content_type: string;
+}
+
+export interface FileStorage {
+  readonly name: string;
+  /**
+   * Store a file under a key such as "delivery-proofs/<orderId>.jpg",
+   * replacing any previous file with the same key
+   */
+  save(key: string, file: StoredFile): Promise<void>;
+  /**
+   * @returns null if no file is stored under the key
+   */
+  read(key: string): Promise<StoredFile | null>;
+  delete(key: string): Promise<void>;
+}
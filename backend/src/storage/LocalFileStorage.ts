@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileStorage, StoredFile } from './FileStorage';
+
+// Content type is kept in a sidecar file next to the data
+const META_SUFFIX = '.meta.json';
+
+/**
+ * File storage on the local disk, under a root directory.
+ * Fine for a single instance; use shared storage when running several.
+ */
+export class LocalFileStorage implements FileStorage {
+  readonly name = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  /**
+   * Absolute path of a key, refusing keys that escape the root directory
+   */
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, file: StoredFile): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.data);
+    await fs.writeFile(filePath + META_SUFFIX, JSON.stringify({ content_type: file.content_type }));
+  }
+
+  async read(key: string): Promise<StoredFile | null> {
+    const filePath = this.resolve(key);
+
+    try {
+      const [data, meta] = await Promise.all([
+        fs.readFile(filePath),
+        fs.readFile(filePath + META_SUFFIX, 'utf8'),
+      ]);
+      return { data, content_type: JSON.parse(meta).content_type };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(filePath + META_SUFFIX, { force: true });
+  }
+}
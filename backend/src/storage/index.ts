@@ -0,0 +1,29 @@
+import { FileStorage } from './FileStorage';
+import { LocalFileStorage } from './LocalFileStorage';
+
+// One instance per provider, shared by the routes storing uploads
+const storages = new Map<string, FileStorage>();
+
+function createFileStorage(name: string): FileStorage {
+  if (name === 'local') {
+    return new LocalFileStorage(process.env.FILE_STORAGE_DIR || './uploads');
+  }
+
+  throw new Error(`Unknown file storage: ${name}`);
+}
+
+/**
+ * Get a file storage by name (defaults to FILE_STORAGE_PROVIDER)
+ * @throws Error if the storage is unknown
+ */
+export function getFileStorage(name?: string): FileStorage {
+  const storageName = name || process.env.FILE_STORAGE_PROVIDER || 'local';
+
+  let storage = storages.get(storageName);
+  if (!storage) {
+    storage = createFileStorage(storageName);
+    storages.set(storageName, storage);
+  }
+
+  return storage;
+}
@@ -9,9 +9,17 @@ import { authRoutes } from '../routes/auth';
 import { meRoutes } from '../routes/me';
 import { registerRestaurantsRoutes } from '../routes/restaurants';
 import { ordersRoutes } from '../routes/orders';
+import { cartRoutes } from '../routes/cart';
+import { geocodingRoutes } from '../routes/geocoding';
+import { searchRoutes } from '../routes/search';
+import { paymentsRoutes } from '../routes/payments';
+import { courierRoutes } from '../routes/courier';
+import { deliveriesRoutes } from '../routes/deliveries';
 import { registerAdminRestaurantsRoutes } from '../routes/admin/restaurants';
 import { registerAdminMenuRoutes } from '../routes/admin/menu';
 import { registerAdminOrdersRoutes } from '../routes/admin/orders';
+import { registerAdminTagsRoutes } from '../routes/admin/tags';
+import { registerAdminCouriersRoutes } from '../routes/admin/couriers';
 
 export async function buildApp() {
   const app = Fastify({
@@ -30,9 +38,17 @@ export async function buildApp() {
   await app.register(meRoutes);
   await app.register(registerRestaurantsRoutes);
   await app.register(ordersRoutes);
+  await app.register(cartRoutes);
+  await app.register(geocodingRoutes);
+  await app.register(searchRoutes);
+  await app.register(paymentsRoutes);
+  await app.register(courierRoutes);
+  await app.register(deliveriesRoutes);
   await app.register(registerAdminRestaurantsRoutes);
   await app.register(registerAdminMenuRoutes);
   await app.register(registerAdminOrdersRoutes);
+  await app.register(registerAdminTagsRoutes);
+  await app.register(registerAdminCouriersRoutes);
 
   app.get('/health', async (request, reply) => {
     return { ok: true };
@@ -0,0 +1,59 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Per-slot capacity: how many orders / items a restaurant can deliver
+ * in one 15-minute delivery slot. Pure functions, shared by order
+ * creation, quotes and the slots endpoint.
+ */
+
+export interface CapacityRule {
+  day_of_week: number | null; // 0=Sunday, 6=Saturday, null = every day
+  max_orders: number | null;
+  max_items: number | null;
+}
+
+export interface SlotUsage {
+  orders: number;
+  items: number;
+}
+
+/**
+ * Rule that applies to a slot: the rule for its day of week (Europe/Rome)
+ * wins over the every-day rule. Null when the slot is unlimited.
+ */
+export function getCapacityRuleForSlot(
+  rules: CapacityRule[],
+  slotStart: DateTime
+): CapacityRule | null {
+  // Luxon: 1=Monday ... 7=Sunday
+  const dayOfWeek = slotStart.setZone('Europe/Rome').weekday % 7;
+
+  return (
+    rules.find((rule) => rule.day_of_week === dayOfWeek) ||
+    rules.find((rule) => rule.day_of_week === null) ||
+    null
+  );
+}
+
+/**
+ * Whether one more order with the given number of items fits in the slot
+ */
+export function hasCapacity(
+  rule: CapacityRule | null,
+  usage: SlotUsage | undefined,
+  items: number
+): boolean {
+  if (!rule) {
+    return true;
+  }
+
+  const used = usage || { orders: 0, items: 0 };
+
+  if (rule.max_orders !== null && used.orders + 1 > rule.max_orders) {
+    return false;
+  }
+  if (rule.max_items !== null && used.items + items > rule.max_items) {
+    return false;
+  }
+  return true;
+}
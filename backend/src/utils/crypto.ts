@@ -1,4 +1,4 @@
-import { createHash, randomBytes } from 'crypto';
+import { createHash, randomBytes, randomInt } from 'crypto';
 
 export function hashToken(token: string): string {
   return createHash('sha256').update(token).digest('hex');
@@ -8,6 +8,13 @@ export function generateRandomToken(length: number = 32): string {
   return randomBytes(length).toString('hex');
 }
 
+/**
+ * 4-digit code the customer gives the courier at the door
+ */
+export function generateHandoverCode(): string {
+  return randomInt(0, 10000).toString().padStart(4, '0');
+}
+
 export function hashPassword(password: string): string {
   return createHash('sha256').update(password).digest('hex');
 }
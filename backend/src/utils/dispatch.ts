@@ -0,0 +1,102 @@
+import { haversineDistanceMeters } from './fees';
+import { GeoPoint } from '../geocoding/Geocoder';
+
+/**
+ * Courier selection for automatic dispatch.
+ * Pure functions: the caller passes the roster and the current time,
+ * so the ranking is deterministic and testable with a fake clock.
+ */
+
+// Couriers whose shift ends sooner than this are not offered new orders
+export const SHIFT_END_BUFFER_MINUTES = 15;
+
+// Positions older than this are treated as unknown
+export const POSITION_MAX_AGE_MINUTES = 15;
+
+export interface DispatchConfig {
+  offer_timeout_seconds: number; // time a courier has to accept an offer
+  max_active_orders: number; // assigned orders plus open offers per courier
+  lead_minutes: number; // dispatch before READY when the promised window is this close
+  decline_cooldown_minutes: number; // before re-offering an order to a courier who rejected it or let it expire
+}
+
+export interface DispatchCandidate {
+  id: string;
+  on_duty_until: Date | null;
+  last_lat: number | null;
+  last_lng: number | null;
+  last_position_at: Date | null;
+  active_orders: number;
+}
+
+export interface RankedCandidate extends DispatchCandidate {
+  distance_m: number | null; // to the restaurant, null if unknown
+}
+
+/**
+ * Dispatch settings, configured through environment variables
+ * (DISPATCH_OFFER_TIMEOUT_SECONDS, DISPATCH_MAX_ACTIVE_ORDERS, DISPATCH_LEAD_MINUTES,
+ * DISPATCH_DECLINE_COOLDOWN_MINUTES)
+ */
+export function getDispatchConfig(): DispatchConfig {
+  return {
+    offer_timeout_seconds: parseInt(process.env.DISPATCH_OFFER_TIMEOUT_SECONDS || '60', 10),
+    max_active_orders: parseInt(process.env.DISPATCH_MAX_ACTIVE_ORDERS || '2', 10),
+    lead_minutes: parseInt(process.env.DISPATCH_LEAD_MINUTES || '10', 10),
+    decline_cooldown_minutes: parseInt(process.env.DISPATCH_DECLINE_COOLDOWN_MINUTES || '5', 10),
+  };
+}
+
+function distanceToRestaurant(
+  candidate: DispatchCandidate,
+  restaurant: GeoPoint | null,
+  now: Date
+): number | null {
+  if (
+    !restaurant ||
+    candidate.last_lat === null ||
+    candidate.last_lng === null ||
+    !candidate.last_position_at ||
+    now.getTime() - candidate.last_position_at.getTime() > POSITION_MAX_AGE_MINUTES * 60 * 1000
+  ) {
+    return null;
+  }
+
+  return haversineDistanceMeters(candidate.last_lat, candidate.last_lng, restaurant.lat, restaurant.lng);
+}
+
+/**
+ * Rank the on-duty couriers that can take an order, best first.
+ * Couriers at capacity or near the end of their shift are left out.
+ * Order: fewest active orders, then closest to the restaurant (unknown
+ * positions last), then longest remaining shift, then id as a stable tie-break.
+ */
+export function rankCouriers(
+  candidates: DispatchCandidate[],
+  restaurant: GeoPoint | null,
+  now: Date,
+  config: Pick<DispatchConfig, 'max_active_orders'>
+): RankedCandidate[] {
+  const shiftCutoff = now.getTime() + SHIFT_END_BUFFER_MINUTES * 60 * 1000;
+  const shiftEnd = (candidate: DispatchCandidate) =>
+    candidate.on_duty_until ? candidate.on_duty_until.getTime() : Infinity;
+
+  return candidates
+    .filter((candidate) => candidate.active_orders < config.max_active_orders)
+    .filter((candidate) => shiftEnd(candidate) > shiftCutoff)
+    .map((candidate) => ({ ...candidate, distance_m: distanceToRestaurant(candidate, restaurant, now) }))
+    .sort((a, b) => {
+      if (a.active_orders !== b.active_orders) {
+        return a.active_orders - b.active_orders;
+      }
+      const distanceA = a.distance_m ?? Infinity;
+      const distanceB = b.distance_m ?? Infinity;
+      if (distanceA !== distanceB) {
+        return distanceA - distanceB;
+      }
+      if (shiftEnd(a) !== shiftEnd(b)) {
+        return shiftEnd(b) - shiftEnd(a);
+      }
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    });
+}
@@ -0,0 +1,163 @@
+/**
+ * Fee engine: delivery fee and platform service fee for an order.
+ * Pure functions, shared by order creation and quotes so that cart,
+ * checkout and the final order always compute the same amounts.
+ */
+
+export interface DistanceBand {
+  up_to_m: number; // inclusive upper bound of the band, in meters
+  fee_cents: number;
+}
+
+export interface DeliveryFeeRules {
+  delivery_fee_cents: number; // base fee, used when no band applies
+  free_delivery_threshold_cents: number | null;
+  distance_bands: DistanceBand[];
+}
+
+export type ServiceFeeType = 'none' | 'flat' | 'percent';
+
+export interface ServiceFeeConfig {
+  type: ServiceFeeType;
+  value: number; // cents for flat, percentage of the subtotal for percent
+  min_cents: number | null;
+  max_cents: number | null;
+}
+
+export interface FeeBreakdown {
+  subtotal_cents: number;
+  delivery: {
+    base_fee_cents: number;
+    distance_m: number | null;
+    band_up_to_m: number | null;
+    free_delivery_threshold_cents: number | null;
+    free_delivery_applied: boolean;
+    fee_cents: number;
+  };
+  service: ServiceFeeConfig & {
+    fee_cents: number;
+  };
+  total_cents: number;
+}
+
+export interface FeeInput {
+  subtotal_cents: number;
+  distance_m: number | null; // null when the delivery position is unknown
+  delivery_rules: DeliveryFeeRules | null;
+  service_fee: ServiceFeeConfig;
+}
+
+export const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Great-circle distance between two points, in meters
+ */
+export function haversineDistanceMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+
+  return Math.round(2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a)));
+}
+
+/**
+ * Platform service fee, configured through environment variables
+ * (SERVICE_FEE_TYPE, SERVICE_FEE_VALUE, SERVICE_FEE_MIN_CENTS, SERVICE_FEE_MAX_CENTS)
+ */
+export function getServiceFeeConfig(): ServiceFeeConfig {
+  const type = (process.env.SERVICE_FEE_TYPE || 'none') as ServiceFeeType;
+  const parseOptional = (value?: string) => (value ? parseInt(value, 10) : null);
+
+  if (!['none', 'flat', 'percent'].includes(type)) {
+    throw new Error(`Unknown service fee type: ${type}`);
+  }
+
+  return {
+    type,
+    value: parseFloat(process.env.SERVICE_FEE_VALUE || '0'),
+    min_cents: parseOptional(process.env.SERVICE_FEE_MIN_CENTS),
+    max_cents: parseOptional(process.env.SERVICE_FEE_MAX_CENTS),
+  };
+}
+
+function calculateDeliveryFee(
+  subtotalCents: number,
+  distanceM: number | null,
+  rules: DeliveryFeeRules | null
+): FeeBreakdown['delivery'] {
+  const baseFee = rules?.delivery_fee_cents ?? 0;
+  const threshold = rules?.free_delivery_threshold_cents ?? null;
+
+  let feeCents = baseFee;
+  let bandUpToM: number | null = null;
+
+  const bands = [...(rules?.distance_bands || [])].sort((a, b) => a.up_to_m - b.up_to_m);
+  if (bands.length > 0 && distanceM !== null) {
+    const band = bands.find((b) => distanceM <= b.up_to_m);
+    if (!band) {
+      throw new Error(
+        `DELIVERY_OUT_OF_RANGE:Delivery address is ${distanceM} m away, maximum is ${bands[bands.length - 1].up_to_m} m`
+      );
+    }
+    feeCents = band.fee_cents;
+    bandUpToM = band.up_to_m;
+  }
+
+  const freeDeliveryApplied = threshold !== null && subtotalCents >= threshold;
+
+  return {
+    base_fee_cents: baseFee,
+    distance_m: distanceM,
+    band_up_to_m: bandUpToM,
+    free_delivery_threshold_cents: threshold,
+    free_delivery_applied: freeDeliveryApplied,
+    fee_cents: freeDeliveryApplied ? 0 : feeCents,
+  };
+}
+
+function calculateServiceFee(subtotalCents: number, config: ServiceFeeConfig): number {
+  let feeCents = 0;
+  if (config.type === 'flat') {
+    feeCents = Math.round(config.value);
+  } else if (config.type === 'percent') {
+    feeCents = Math.round((subtotalCents * config.value) / 100);
+  } else {
+    return 0;
+  }
+
+  if (config.min_cents !== null) {
+    feeCents = Math.max(feeCents, config.min_cents);
+  }
+  if (config.max_cents !== null) {
+    feeCents = Math.min(feeCents, config.max_cents);
+  }
+
+  return feeCents;
+}
+
+/**
+ * Compute delivery and service fees for a subtotal
+ * @throws Error('DELIVERY_OUT_OF_RANGE:...') if the distance exceeds the last band
+ */
+export function calculateFees(input: FeeInput): FeeBreakdown {
+  const delivery = calculateDeliveryFee(input.subtotal_cents, input.distance_m, input.delivery_rules);
+  const serviceFeeCents = calculateServiceFee(input.subtotal_cents, input.service_fee);
+
+  return {
+    subtotal_cents: input.subtotal_cents,
+    delivery,
+    service: {
+      ...input.service_fee,
+      fee_cents: serviceFeeCents,
+    },
+    total_cents: input.subtotal_cents + delivery.fee_cents + serviceFeeCents,
+  };
+}
@@ -1,5 +1,8 @@
 import { DateTime } from 'luxon';
 
+const TIMEZONE = 'Europe/Rome';
+const NEXT_OPEN_LOOKAHEAD_DAYS = 7;
+
 export interface RestaurantHours {
   day_of_week: number; // 0=Sunday, 1=Monday, ..., 6=Saturday
   open_time: string; // HH:MM:SS format (e.g., "09:00:00")
@@ -23,18 +26,20 @@ export interface RestaurantOverride {
  *
  * @param hours Array of restaurant hours
  * @param override Optional override for today's date
+ * @param at Point in time to check (defaults to now)
  * @returns true if restaurant is currently open, false otherwise
  */
 export function isRestaurantOpenNow(
   hours: RestaurantHours[],
-  override?: RestaurantOverride | null
+  override?: RestaurantOverride | null,
+  at: DateTime = DateTime.now()
 ): boolean {
   if (!hours || hours.length === 0) {
     return false;
   }
 
   // Get current time in Europe/Rome timezone
-  const now = DateTime.now().setZone('Europe/Rome');
+  const now = at.setZone(TIMEZONE);
   const currentDayOfWeek = now.weekday % 7; // Convert luxon's 1-7 (Mon-Sun) to 0-6 (Sun-Sat)
   const currentTime = now.toFormat('HH:mm:ss');
   const todayDate = now.toFormat('yyyy-MM-dd');
@@ -104,3 +109,227 @@ function isTimeInSlot(time: string, openTime: string, closeTime: string): boolea
     return time >= openTime || time < closeTime;
   }
 }
+
+/**
+ * Slots a restaurant is scheduled to open on a given date:
+ * the override for that date if any, otherwise the weekly hours
+ */
+export function getSlotsForDate(
+  date: DateTime,
+  hours: RestaurantHours[],
+  overrides: RestaurantOverride[]
+): Array<{ open_time: string; close_time: string }> {
+  const override = overrides.find((o) => o.date === date.toFormat('yyyy-MM-dd'));
+
+  if (override) {
+    if (override.is_closed) {
+      return [];
+    }
+    if (override.open_time && override.close_time) {
+      return [{ open_time: override.open_time, close_time: override.close_time }];
+    }
+  }
+
+  const dayOfWeek = date.weekday % 7;
+  return hours.filter((h) => h.day_of_week === dayOfWeek && !h.is_closed);
+}
+
+/**
+ * Finds the next time the restaurant opens after the given moment
+ * Looks ahead one week, honoring overrides for the dates they cover
+ *
+ * @param hours Array of restaurant hours
+ * @param overrides Overrides for the upcoming dates
+ * @param at Point in time to start from (defaults to now)
+ * @returns opening time in Europe/Rome, or null if it doesn't open within a week
+ */
+export function getNextOpenAt(
+  hours: RestaurantHours[],
+  overrides: RestaurantOverride[] = [],
+  at: DateTime = DateTime.now()
+): DateTime | null {
+  const now = at.setZone(TIMEZONE);
+  const today = now.startOf('day');
+
+  for (let offset = 0; offset <= NEXT_OPEN_LOOKAHEAD_DAYS; offset++) {
+    const date = today.plus({ days: offset });
+    const openings = getSlotsForDate(date, hours || [], overrides)
+      .map((slot) => {
+        const [hour, minute, second] = slot.open_time.split(':').map(Number);
+        return date.set({ hour, minute, second: second || 0, millisecond: 0 });
+      })
+      .filter((openAt) => openAt > now)
+      .sort((a, b) => a.toMillis() - b.toMillis());
+
+    if (openings.length > 0) {
+      return openings[0];
+    }
+  }
+
+  return null;
+}
+
+export interface OpeningStatus {
+  is_open: boolean;
+  next_open_at: string | null; // ISO in Europe/Rome, only when closed
+  closes_at: string | null; // ISO in Europe/Rome, only when open
+  label: string; // e.g. "Aperto fino alle 23:00", "Apre alle 19:00", "Apre domani alle 12:00"
+}
+
+interface OpeningInterval {
+  openAt: DateTime;
+  closeAt: DateTime;
+}
+
+/**
+ * Local date and time in Europe/Rome. Times skipped by the DST switch
+ * (02:00-03:00 in March) are moved forward by luxon.
+ */
+function atLocalTime(date: DateTime, time: string): DateTime {
+  const [hour, minute, second] = time.split(':').map(Number);
+  return DateTime.fromObject(
+    { year: date.year, month: date.month, day: date.day, hour, minute, second: second || 0 },
+    { zone: TIMEZONE }
+  );
+}
+
+/**
+ * Opening intervals from yesterday (its slots may cross midnight) to the
+ * end of the lookahead, sorted, with overlapping or touching slots merged
+ */
+function getOpeningIntervals(
+  hours: RestaurantHours[],
+  overrides: RestaurantOverride[],
+  now: DateTime
+): OpeningInterval[] {
+  const today = now.startOf('day');
+  const intervals: OpeningInterval[] = [];
+
+  for (let offset = -1; offset <= NEXT_OPEN_LOOKAHEAD_DAYS; offset++) {
+    const date = today.plus({ days: offset });
+
+    for (const slot of getSlotsForDate(date, hours, overrides)) {
+      const openAt = atLocalTime(date, slot.open_time);
+      let closeAt = atLocalTime(date, slot.close_time);
+      if (closeAt <= openAt) {
+        // Crosses midnight (e.g. 19:00-02:00)
+        closeAt = atLocalTime(date.plus({ days: 1 }), slot.close_time);
+      }
+      intervals.push({ openAt, closeAt });
+    }
+  }
+
+  intervals.sort((a, b) => a.openAt.toMillis() - b.openAt.toMillis());
+
+  const merged: OpeningInterval[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.openAt <= last.closeAt) {
+      if (interval.closeAt > last.closeAt) {
+        last.closeAt = interval.closeAt;
+      }
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * "Apre alle 19:00", "Apre domani alle 12:00" or "Apre lunedì alle 12:00"
+ */
+function formatOpensLabel(openAt: DateTime, now: DateTime): string {
+  const time = openAt.toFormat('HH:mm');
+  const days = openAt.startOf('day').diff(now.startOf('day'), 'days').days;
+
+  if (days < 1) {
+    return `Apre alle ${time}`;
+  }
+  if (days < 2) {
+    return `Apre domani alle ${time}`;
+  }
+  return `Apre ${openAt.setLocale('it').toFormat('cccc')} alle ${time}`;
+}
+
+/**
+ * Whether the kill switch is on at the given time. A pause with
+ * force_closed_until expires by itself, even before the expiry job clears it.
+ */
+export function isForceClosed(
+  forceClosed: boolean,
+  forceClosedUntil: Date | null = null,
+  at: DateTime = DateTime.now()
+): boolean {
+  if (!forceClosed) {
+    return false;
+  }
+  return !forceClosedUntil || forceClosedUntil.getTime() > at.toMillis();
+}
+
+/**
+ * Whether the restaurant is open, until when, or when it opens next.
+ * Handles slots crossing midnight, overrides for the upcoming dates and
+ * the DST switches of Europe/Rome. Looks ahead one week.
+ *
+ * @param hours Array of restaurant hours
+ * @param overrides Overrides from yesterday to the end of the lookahead
+ * @param forceClosed Kill switch
+ * @param forceClosedUntil End of a timed pause, null for the manual kill switch
+ * @param at Point in time to check (defaults to now)
+ */
+export function getOpeningStatus(
+  hours: RestaurantHours[],
+  overrides: RestaurantOverride[] = [],
+  forceClosed = false,
+  forceClosedUntil: Date | null = null,
+  at: DateTime = DateTime.now()
+): OpeningStatus {
+  const now = at.setZone(TIMEZONE);
+  const paused = isForceClosed(forceClosed, forceClosedUntil, now);
+
+  if (paused && !forceClosedUntil) {
+    return { is_open: false, next_open_at: null, closes_at: null, label: 'Chiuso temporaneamente' };
+  }
+
+  const intervals = getOpeningIntervals(hours || [], overrides, now);
+
+  if (paused && forceClosedUntil) {
+    // Reopens when the pause ends if the hours allow it, else at the next opening after it
+    const until = DateTime.fromJSDate(forceClosedUntil).setZone(TIMEZONE);
+    const reopen = intervals.find((interval) => interval.closeAt > until);
+    if (!reopen) {
+      return { is_open: false, next_open_at: null, closes_at: null, label: 'Chiuso temporaneamente' };
+    }
+
+    const reopenAt = reopen.openAt > until ? reopen.openAt : until;
+    return {
+      is_open: false,
+      next_open_at: reopenAt.toISO(),
+      closes_at: null,
+      label: formatOpensLabel(reopenAt, now),
+    };
+  }
+
+  const current = intervals.find((interval) => interval.openAt <= now && now < interval.closeAt);
+  if (current) {
+    // Open around the clock: closing a day or more away is not worth a label
+    const label =
+      current.closeAt.diff(now, 'hours').hours >= 24
+        ? 'Aperto'
+        : `Aperto fino alle ${current.closeAt.toFormat('HH:mm')}`;
+    return { is_open: true, next_open_at: null, closes_at: current.closeAt.toISO(), label };
+  }
+
+  const next = intervals.find((interval) => interval.openAt > now);
+  if (!next) {
+    return { is_open: false, next_open_at: null, closes_at: null, label: 'Chiuso' };
+  }
+
+  return {
+    is_open: false,
+    next_open_at: next.openAt.toISO(),
+    closes_at: null,
+    label: formatOpensLabel(next.openAt, now),
+  };
+}
@@ -0,0 +1,95 @@
+import { DateTime } from 'luxon';
+import { getSlotsForDate, RestaurantHours, RestaurantOverride } from './openNow';
+
+export const SLOT_INTERVAL_MINUTES = 15;
+export const SCHEDULE_DAYS_AHEAD = 3; // today and the next two days
+
+export interface DeliverySlot {
+  start: string; // ISO 8601, Europe/Rome offset
+  end: string;
+}
+
+export interface DeliverySlotsInput {
+  hours: RestaurantHours[];
+  overrides: RestaurantOverride[];
+  eta_min: number;
+  eta_max: number;
+  days?: number;
+}
+
+export function ceilToSlot(time: DateTime): DateTime {
+  const floored = time.set({
+    minute: Math.floor(time.minute / SLOT_INTERVAL_MINUTES) * SLOT_INTERVAL_MINUTES,
+    second: 0,
+    millisecond: 0,
+  });
+  return floored < time ? floored.plus({ minutes: SLOT_INTERVAL_MINUTES }) : floored;
+}
+
+/**
+ * Delivery slots a customer can schedule an order for.
+ * Within each opening slot, deliveries run from opening + eta_min until closing;
+ * the earliest slot is at least eta_max from now. Uses Europe/Rome timezone
+ * and handles slots that cross midnight.
+ *
+ * @param input Restaurant hours, overrides (covering the requested days) and ETA
+ * @param at Point in time to start from (defaults to now)
+ */
+export function computeDeliverySlots(
+  input: DeliverySlotsInput,
+  at: DateTime = DateTime.now()
+): DeliverySlot[] {
+  const now = at.setZone('Europe/Rome');
+  const earliest = now.plus({ minutes: input.eta_max });
+  const today = now.startOf('day');
+  const days = input.days ?? SCHEDULE_DAYS_AHEAD;
+
+  const starts = new Map<number, DateTime>();
+
+  // Start from yesterday to pick up slots crossing midnight
+  for (let offset = -1; offset < days; offset++) {
+    const date = today.plus({ days: offset });
+
+    for (const slot of getSlotsForDate(date, input.hours || [], input.overrides)) {
+      const [openHour, openMinute] = slot.open_time.split(':').map(Number);
+      const [closeHour, closeMinute] = slot.close_time.split(':').map(Number);
+
+      const openAt = date.set({ hour: openHour, minute: openMinute, second: 0, millisecond: 0 });
+      let closeAt = date.set({ hour: closeHour, minute: closeMinute, second: 0, millisecond: 0 });
+      if (closeAt <= openAt) {
+        closeAt = closeAt.plus({ days: 1 });
+      }
+
+      const firstDelivery = openAt.plus({ minutes: input.eta_min });
+      let start = ceilToSlot(firstDelivery > earliest ? firstDelivery : earliest);
+
+      while (start <= closeAt && start < today.plus({ days })) {
+        starts.set(start.toMillis(), start);
+        start = start.plus({ minutes: SLOT_INTERVAL_MINUTES });
+      }
+    }
+  }
+
+  return [...starts.values()]
+    .sort((a, b) => a.toMillis() - b.toMillis())
+    .map((start) => ({
+      start: start.toISO()!,
+      end: start.plus({ minutes: SLOT_INTERVAL_MINUTES }).toISO()!,
+    }));
+}
+
+/**
+ * Delivery slot an order placed now for "as soon as possible" lands in:
+ * the first slot at least eta_max from now (same as the first computed slot)
+ */
+export function getAsapSlotStart(etaMax: number, at: DateTime = DateTime.now()): DateTime {
+  return ceilToSlot(at.setZone('Europe/Rome').plus({ minutes: etaMax }));
+}
+
+/**
+ * Whether the given time is the start of one of the available slots
+ */
+export function isAvailableSlot(slots: DeliverySlot[], scheduledFor: DateTime): boolean {
+  const millis = scheduledFor.toMillis();
+  return slots.some((slot) => DateTime.fromISO(slot.start).toMillis() === millis);
+}
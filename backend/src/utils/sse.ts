@@ -0,0 +1,60 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  onClose(callback: () => void): void;
+}
+
+/**
+ * Take over the reply and open a Server-Sent Events stream.
+ * Headers already set on the reply (e.g. CORS) are preserved.
+ * A comment heartbeat keeps proxies from closing idle connections.
+ * Close callbacks registered after the client went away run immediately.
+ */
+export function openEventStream(request: FastifyRequest, reply: FastifyReply): EventStream {
+  reply.hijack();
+
+  reply.raw.writeHead(200, {
+    ...(reply.getHeaders() as Record<string, string>),
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  reply.raw.write(': connected\n\n');
+
+  const closeCallbacks: Array<() => void> = [];
+  let closed = false;
+
+  const heartbeat = setInterval(() => {
+    reply.raw.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    closeCallbacks.forEach((callback) => callback());
+  };
+
+  request.raw.on('close', close);
+  // The client may have left before the stream opened
+  if (request.raw.destroyed) {
+    close();
+  }
+
+  return {
+    send(event, data) {
+      reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    onClose(callback) {
+      if (closed) {
+        callback();
+        return;
+      }
+      closeCallbacks.push(callback);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { haversineDistanceMeters } from './fees';
+import { GeoPoint } from '../geocoding/Geocoder';
+
+/**
+ * Arrival estimate for orders on their way.
+ * Pure functions: the caller passes the positions and the current time.
+ */
+
+// Average courier speed in town
+export const COURIER_SPEED_KMH = 20;
+
+// Roads are longer than the straight line between two points
+export const ROUTE_FACTOR = 1.3;
+
+export interface TrackingConfig {
+  share_interval_seconds: number; // how often the customer sees a new courier position
+}
+
+export interface ArrivalEstimate {
+  distance_m: number; // straight line to the delivery address
+  eta_minutes: number;
+  eta_at: Date;
+}
+
+/**
+ * Tracking settings, configured through environment variables
+ * (TRACKING_SHARE_INTERVAL_SECONDS)
+ */
+export function getTrackingConfig(): TrackingConfig {
+  return {
+    share_interval_seconds: parseInt(process.env.TRACKING_SHARE_INTERVAL_SECONDS || '30', 10),
+  };
+}
+
+/**
+ * Estimate when a courier at `from` reaches the delivery address (at least one minute away)
+ */
+export function estimateArrival(from: GeoPoint, destination: GeoPoint, now: Date): ArrivalEstimate {
+  const distance_m = haversineDistanceMeters(from.lat, from.lng, destination.lat, destination.lng);
+  const metersPerMinute = (COURIER_SPEED_KMH * 1000) / 60;
+  const eta_minutes = Math.max(1, Math.ceil((distance_m * ROUTE_FACTOR) / metersPerMinute));
+
+  return {
+    distance_m,
+    eta_minutes,
+    eta_at: new Date(now.getTime() + eta_minutes * 60 * 1000),
+  };
+}
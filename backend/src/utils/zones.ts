@@ -0,0 +1,104 @@
+import { DistanceBand, haversineDistanceMeters } from './fees';
+import { GeoPoint } from '../geocoding/Geocoder';
+
+/**
+ * Delivery zones: the areas a restaurant delivers to. Pure functions, shared
+ * by order creation, quotes and the restaurants list.
+ */
+
+type LinearRing = Array<[number, number]>; // [lng, lat], GeoJSON order
+
+export type ZonePolygon =
+  | { type: 'Polygon'; coordinates: LinearRing[] }
+  | { type: 'MultiPolygon'; coordinates: LinearRing[][] };
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  radius_m: number | null; // around the restaurant position
+  polygon: ZonePolygon | null;
+  delivery_fee_cents: number | null; // overrides the restaurant delivery fee and distance bands
+  min_order_cents: number | null; // overrides the restaurant minimum order
+  sort_order: number;
+}
+
+/**
+ * Ray casting on a ring of [lng, lat] coordinates
+ */
+function isPointInRing(point: GeoPoint, ring: LinearRing): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const crosses =
+      yi > point.lat !== yj > point.lat &&
+      point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a point falls inside a GeoJSON polygon (holes excluded)
+ */
+export function isPointInPolygon(point: GeoPoint, polygon: ZonePolygon): boolean {
+  const polygons = polygon.type === 'Polygon' ? [polygon.coordinates] : polygon.coordinates;
+
+  return polygons.some(
+    ([outer, ...holes]) =>
+      outer !== undefined &&
+      isPointInRing(point, outer) &&
+      !holes.some((hole) => isPointInRing(point, hole))
+  );
+}
+
+/**
+ * First zone (by sort_order) containing the point. Radius zones need
+ * the restaurant position and never match without it.
+ */
+export function findDeliveryZone(
+  zones: DeliveryZone[],
+  point: GeoPoint,
+  restaurant: GeoPoint | null
+): DeliveryZone | null {
+  const sorted = [...zones].sort((a, b) => a.sort_order - b.sort_order);
+
+  return (
+    sorted.find((zone) => {
+      if (zone.polygon) {
+        return isPointInPolygon(point, zone.polygon);
+      }
+      if (zone.radius_m !== null && restaurant) {
+        return (
+          haversineDistanceMeters(restaurant.lat, restaurant.lng, point.lat, point.lng) <= zone.radius_m
+        );
+      }
+      return false;
+    }) || null
+  );
+}
+
+/**
+ * Whether a restaurant delivers to a point, with the same rules as order creation:
+ * inside one of its zones when it has any, otherwise within its last distance band.
+ * Restaurants without zones or bands deliver everywhere.
+ */
+export function deliversTo(
+  point: GeoPoint,
+  restaurant: GeoPoint | null,
+  zones: DeliveryZone[],
+  distanceBands: DistanceBand[]
+): boolean {
+  if (zones.length > 0) {
+    return findDeliveryZone(zones, point, restaurant) !== null;
+  }
+
+  if (distanceBands.length > 0 && restaurant) {
+    const maxDistance = Math.max(...distanceBands.map((band) => band.up_to_m));
+    return haversineDistanceMeters(restaurant.lat, restaurant.lng, point.lat, point.lng) <= maxDistance;
+  }
+
+  return true;
+}
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import jwt from 'jsonwebtoken';
+
+describe('Cart Quote API - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let userToken: string;
+  let productId: string;
+  let inactiveProductId: string;
+  let optionGroupId: string;
+  let optionItemId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userToken = jwt.sign(
+      { userId: userResult.rows[0].id },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Roma', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_delivery_rules (restaurant_id, min_order_cents, delivery_fee_cents)
+       VALUES ($1, 1000, 200)`,
+      [restaurantId]
+    );
+
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, '00:00', '23:59' FROM generate_series(0, 6) AS d`,
+      [restaurantId]
+    );
+
+    const categoryResult = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, 'Pizze', 0, true) RETURNING id`,
+      [restaurantId]
+    );
+    const categoryId = categoryResult.rows[0].id;
+
+    const productResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Margherita', 800, 0, true) RETURNING id`,
+      [restaurantId, categoryId]
+    );
+    productId = productResult.rows[0].id;
+
+    const inactiveResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Capricciosa', 1000, 1, false) RETURNING id`,
+      [restaurantId, categoryId]
+    );
+    inactiveProductId = inactiveResult.rows[0].id;
+
+    const groupResult = await query(
+      `INSERT INTO product_option_groups (restaurant_id, product_id, name, min_select, max_select, sort_order)
+       VALUES ($1, $2, 'Extra', 0, 1, 0) RETURNING id`,
+      [restaurantId, productId]
+    );
+    optionGroupId = groupResult.rows[0].id;
+
+    const itemResult = await query(
+      `INSERT INTO product_option_items (restaurant_id, group_id, name, price_delta_cents, is_active, sort_order)
+       VALUES ($1, $2, 'Bufala', 250, true, 0) RETURNING id`,
+      [restaurantId, optionGroupId]
+    );
+    optionItemId = itemResult.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('POST /cart/quote', () => {
+    it('should price the cart with the same totals as order creation', async () => {
+      const items = [
+        { product_id: productId, qty: 2, options: [{ group_id: optionGroupId, item_id: optionItemId }] },
+      ];
+
+      const quote = await request(app.server)
+        .post('/cart/quote')
+        .send({ restaurant_id: restaurantId, items });
+
+      expect(quote.status).toBe(200);
+      expect(quote.body.ok).toBe(true);
+      expect(quote.body.data.can_order).toBe(true);
+      expect(quote.body.data.problems).toEqual([]);
+      expect(quote.body.data.items[0]).toMatchObject({
+        line_index: 0,
+        unit_price_cents: 1050,
+        total_cents: 2100,
+      });
+      expect(quote.body.data.subtotal_cents).toBe(2100);
+      expect(quote.body.data.delivery_fee_cents).toBe(200);
+      expect(quote.body.data.total_cents).toBe(2300);
+
+      const order = await request(app.server)
+        .post('/orders')
+        .set('Cookie', `access_token=${userToken}`)
+        .send({
+          restaurant_id: restaurantId,
+          payment_method: 'CASH',
+          delivery_address: { street: 'Via Roma 1', city: 'Roma', postal_code: '00100' },
+          items,
+        });
+
+      expect(order.status).toBe(201);
+      expect(order.body.data.total_cents).toBe(quote.body.data.total_cents);
+      expect(order.body.data.fee_breakdown).toEqual(quote.body.data.fee_breakdown);
+    });
+
+    it('should flag stale lines and leave them out of the subtotal', async () => {
+      const response = await request(app.server)
+        .post('/cart/quote')
+        .send({
+          restaurant_id: restaurantId,
+          items: [
+            { product_id: productId, qty: 2 },
+            { product_id: inactiveProductId, qty: 1 },
+            { product_id: '00000000-0000-0000-0000-000000000000', qty: 1 },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.can_order).toBe(false);
+      expect(response.body.data.items).toHaveLength(1);
+      expect(response.body.data.subtotal_cents).toBe(1600);
+      expect(response.body.data.problems).toEqual([
+        { line_index: 1, code: 'PRODUCT_NOT_ACTIVE', detail: 'Capricciosa' },
+        { line_index: 2, code: 'PRODUCT_NOT_FOUND', detail: '00000000-0000-0000-0000-000000000000' },
+      ]);
+    });
+
+    it('should report option and minimum order problems', async () => {
+      await query('UPDATE product_option_items SET is_active = false WHERE id = $1', [optionItemId]);
+
+      const response = await request(app.server)
+        .post('/cart/quote')
+        .send({
+          restaurant_id: restaurantId,
+          items: [
+            { product_id: productId, qty: 1 },
+            { product_id: productId, qty: 1, options: [{ group_id: optionGroupId, item_id: optionItemId }] },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.min_order_cents).toBe(1000);
+      expect(response.body.data.subtotal_cents).toBe(800);
+      expect(response.body.data.problems.map((p: any) => [p.line_index, p.code])).toEqual([
+        [1, 'OPTION_NOT_ACTIVE'],
+        [null, 'MIN_ORDER_NOT_MET'],
+      ]);
+    });
+
+    it('should report a closed restaurant and an empty cart', async () => {
+      await query('DELETE FROM restaurant_hours WHERE restaurant_id = $1', [restaurantId]);
+
+      const response = await request(app.server)
+        .post('/cart/quote')
+        .send({ restaurant_id: restaurantId, items: [] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.can_order).toBe(false);
+      expect(response.body.data.problems.map((p: any) => p.code)).toEqual([
+        'RESTAURANT_CLOSED',
+        'CART_EMPTY',
+      ]);
+    });
+
+    it('should not write anything', async () => {
+      await request(app.server)
+        .post('/cart/quote')
+        .send({ restaurant_id: restaurantId, items: [{ product_id: productId, qty: 2 }] });
+
+      const orders = await query('SELECT COUNT(*)::int AS count FROM orders');
+      expect(orders.rows[0].count).toBe(0);
+    });
+
+    it('should return 404 for an unknown restaurant and 400 for invalid data', async () => {
+      const notFound = await request(app.server)
+        .post('/cart/quote')
+        .send({ restaurant_id: '00000000-0000-0000-0000-000000000000', items: [] });
+      expect(notFound.status).toBe(404);
+      expect(notFound.body.error).toBe('RESTAURANT_NOT_FOUND');
+
+      const invalid = await request(app.server)
+        .post('/cart/quote')
+        .send({ restaurant_id: 'not-a-uuid', items: [{ product_id: productId, qty: 0 }] });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe('VALIDATION_ERROR');
+    });
+  });
+});
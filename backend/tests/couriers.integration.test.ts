@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { hashToken } from '../src/utils/crypto';
+import jwt from 'jsonwebtoken';
+
+describe('Couriers - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let customerId: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  async function insertOrder(status: string, fulfilmentType = 'DELIVERY'): Promise<string> {
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, fulfilment_type,
+                           subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json)
+       VALUES ($1, $2, $3, 'CASH', 'PENDING', $4, 1500, 0, 0, 1500, $5)
+       RETURNING id`,
+      [
+        customerId,
+        restaurantId,
+        status,
+        fulfilmentType,
+        fulfilmentType === 'DELIVERY'
+          ? JSON.stringify({ street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' })
+          : null,
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  async function createCourier(email: string, name: string) {
+    const response = await request(app.server)
+      .post('/admin/couriers')
+      .set('x-admin-key', adminKey)
+      .send({ email, name, phone: '+393331112222' });
+    expect(response.status).toBe(201);
+    return response.body.data;
+  }
+
+  function tokenFor(userId: string) {
+    return jwt.sign({ userId }, process.env.JWT_SECRET || 'test-secret', { expiresIn: '1h' });
+  }
+
+  function assign(orderId: string, courierId: string | null) {
+    return request(app.server)
+      .put(`/admin/orders/${orderId}/courier`)
+      .set('x-admin-key', adminKey)
+      .send({ courier_id: courierId });
+  }
+
+  function pickUp(orderId: string, token: string) {
+    return request(app.server)
+      .post(`/courier/orders/${orderId}/picked-up`)
+      .set('Cookie', `access_token=${token}`);
+  }
+
+  async function confirmDelivery(orderId: string, token: string) {
+    const order = await query('SELECT handover_code FROM orders WHERE id = $1', [orderId]);
+    return request(app.server)
+      .post(`/courier/orders/${orderId}/delivery-confirmation`)
+      .set('Cookie', `access_token=${token}`)
+      .send({ handover_code: order.rows[0].handover_code, cash_collected_cents: 1500 });
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (email, name, status)
+       VALUES ('cliente@example.com', 'Cliente', 'active')
+       RETURNING id`
+    );
+    customerId = userResult.rows[0].id;
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, phone, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', '+390982000000', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('/admin/couriers', () => {
+    it('should create, list and disable couriers', async () => {
+      const courier = await createCourier('rider@example.com', 'Luca');
+      expect(courier).toMatchObject({ email: 'rider@example.com', name: 'Luca', is_active: true });
+
+      const users = await query('SELECT role FROM users WHERE id = $1', [courier.user_id]);
+      expect(users.rows[0].role).toBe('courier');
+
+      const duplicate = await request(app.server)
+        .post('/admin/couriers')
+        .set('x-admin-key', adminKey)
+        .send({ email: 'rider@example.com', name: 'Luca 2' });
+      expect(duplicate.status).toBe(409);
+
+      const orderId = await insertOrder('READY');
+      await assign(orderId, courier.id);
+
+      const list = await request(app.server).get('/admin/couriers').set('x-admin-key', adminKey);
+      expect(list.status).toBe(200);
+      expect(list.body.data).toHaveLength(1);
+      expect(list.body.data[0]).toMatchObject({ id: courier.id, active_order_count: 1 });
+
+      const disabled = await request(app.server)
+        .patch(`/admin/couriers/${courier.id}`)
+        .set('x-admin-key', adminKey)
+        .send({ is_active: false, phone: null });
+      expect(disabled.status).toBe(200);
+      expect(disabled.body.data).toMatchObject({ is_active: false, phone: null, name: 'Luca' });
+
+      const orders = await request(app.server)
+        .get('/courier/orders')
+        .set('Cookie', `access_token=${tokenFor(courier.user_id)}`);
+      expect(orders.status).toBe(403);
+
+      const unauthorized = await request(app.server).get('/admin/couriers');
+      expect(unauthorized.status).toBe(401);
+    });
+
+    it('should only give the courier role to an existing customer when asked to', async () => {
+      const refused = await request(app.server)
+        .post('/admin/couriers')
+        .set('x-admin-key', adminKey)
+        .send({ email: 'cliente@example.com', name: 'Cliente Rider' });
+      expect(refused.status).toBe(409);
+      expect(refused.body.error).toBe('EMAIL_IN_USE');
+
+      const users = await query('SELECT role FROM users WHERE id = $1', [customerId]);
+      expect(users.rows[0].role).toBe('customer');
+
+      const promoted = await request(app.server)
+        .post('/admin/couriers')
+        .set('x-admin-key', adminKey)
+        .send({ email: 'cliente@example.com', name: 'Cliente Rider', promote_existing_user: true });
+      expect(promoted.status).toBe(201);
+      expect(promoted.body.data.user_id).toBe(customerId);
+
+      const me = await request(app.server)
+        .get('/me')
+        .set('Cookie', `access_token=${tokenFor(customerId)}`);
+      expect(me.body.user.role).toBe('courier');
+    });
+  });
+
+  describe('PUT /admin/orders/:orderId/courier', () => {
+    it('should assign and unassign a courier', async () => {
+      const courier = await createCourier('rider@example.com', 'Luca');
+      const orderId = await insertOrder('PREPARING');
+
+      const assigned = await assign(orderId, courier.id);
+      expect(assigned.status).toBe(200);
+      expect(assigned.body.data.courier_id).toBe(courier.id);
+      expect(assigned.body.data.courier_assigned_at).not.toBeNull();
+
+      const board = await request(app.server)
+        .get(`/admin/orders?restaurant_id=${restaurantId}`)
+        .set('x-admin-key', adminKey);
+      expect(board.body.data[0].courier_id).toBe(courier.id);
+
+      const unassigned = await assign(orderId, null);
+      expect(unassigned.status).toBe(200);
+      expect(unassigned.body.data).toMatchObject({ courier_id: null, courier_assigned_at: null });
+    });
+
+    it('should reject pickup and closed orders and unknown couriers', async () => {
+      const courier = await createCourier('rider@example.com', 'Luca');
+
+      const pickup = await assign(await insertOrder('READY', 'PICKUP'), courier.id);
+      expect(pickup.status).toBe(409);
+      expect(pickup.body.error).toBe('NOT_A_DELIVERY');
+
+      const delivered = await assign(await insertOrder('DELIVERED'), courier.id);
+      expect(delivered.status).toBe(409);
+      expect(delivered.body.error).toBe('ORDER_CLOSED');
+
+      const unknown = await assign(await insertOrder('READY'), '00000000-0000-0000-0000-000000000000');
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.error).toBe('COURIER_NOT_FOUND');
+    });
+  });
+
+  describe('/courier/orders', () => {
+    it('should log in through the email OTP flow and list the assigned orders', async () => {
+      const courier = await createCourier('rider@example.com', 'Luca');
+      const other = await createCourier('altro@example.com', 'Marco');
+
+      const mine = await insertOrder('READY');
+      await assign(mine, courier.id);
+      await assign(await insertOrder('READY'), other.id);
+      await insertOrder('READY');
+
+      await query(
+        `INSERT INTO email_otp_challenges (email, code_hash, expires_at)
+         VALUES ('rider@example.com', $1, NOW() + INTERVAL '5 minutes')`,
+        [hashToken('123456')]
+      );
+      const login = await request(app.server)
+        .post('/auth/email-otp/verify')
+        .send({ email: 'rider@example.com', code: '123456' });
+      expect(login.status).toBe(200);
+
+      const response = await request(app.server)
+        .get('/courier/orders')
+        .set('Cookie', login.headers['set-cookie']);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        id: mine,
+        status: 'READY',
+        total_cents: 1500,
+        restaurant: { name: 'Pizza Test', phone: '+390982000000' },
+        customer: { name: 'Cliente' },
+      });
+    });
+
+    it('should move the order through pickup and delivery', async () => {
+      const courier = await createCourier('rider@example.com', 'Luca');
+      const token = tokenFor(courier.user_id);
+      const orderId = await insertOrder('READY');
+      await assign(orderId, courier.id);
+
+      const pickedUp = await pickUp(orderId, token);
+      expect(pickedUp.status).toBe(200);
+      expect(pickedUp.body.data.status).toBe('DELIVERING');
+
+      const again = await pickUp(orderId, token);
+      expect(again.status).toBe(409);
+      expect(again.body.error).toBe('INVALID_STATUS_TRANSITION');
+
+      const delivered = await confirmDelivery(orderId, token);
+      expect(delivered.status).toBe(200);
+      expect(delivered.body.data.status).toBe('DELIVERED');
+
+      const events = await query(
+        `SELECT from_status, to_status, actor_type, actor_id
+         FROM order_status_events WHERE order_id = $1 ORDER BY created_at`,
+        [orderId]
+      );
+      expect(events.rows.map((e) => [e.from_status, e.to_status])).toEqual([
+        ['READY', 'PICKED_UP'],
+        ['PICKED_UP', 'DELIVERING'],
+        ['DELIVERING', 'DELIVERED'],
+      ]);
+      expect(events.rows.every((e) => e.actor_type === 'COURIER' && e.actor_id === courier.id)).toBe(true);
+
+      const list = await request(app.server)
+        .get('/courier/orders')
+        .set('Cookie', `access_token=${token}`);
+      expect(list.body.data).toEqual([]);
+    });
+
+    it('should only let couriers act on their own orders', async () => {
+      const courier = await createCourier('rider@example.com', 'Luca');
+      const orderId = await insertOrder('PREPARING');
+      await assign(orderId, courier.id);
+
+      const tooEarly = await pickUp(orderId, tokenFor(courier.user_id));
+      expect(tooEarly.status).toBe(409);
+
+      const other = await createCourier('altro@example.com', 'Marco');
+      const notMine = await confirmDelivery(orderId, tokenFor(other.user_id));
+      expect(notMine.status).toBe(404);
+
+      const customer = await request(app.server)
+        .get('/courier/orders')
+        .set('Cookie', `access_token=${tokenFor(customerId)}`);
+      expect(customer.status).toBe(403);
+
+      const anonymous = await request(app.server).get('/courier/orders');
+      expect(anonymous.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,338 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { MAX_HANDOVER_ATTEMPTS } from '../src/repos/ordersRepo';
+import jwt from 'jsonwebtoken';
+
+// Keep the uploaded photos out of the working tree
+const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'delivery-proofs-'));
+process.env.FILE_STORAGE_DIR = storageDir;
+
+const PHOTO = Buffer.from('fake-jpeg-bytes');
+
+describe('Delivery Proofs - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let customerId: string;
+  let courier: { id: string; token: string };
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  function tokenFor(userId: string) {
+    return jwt.sign({ userId }, process.env.JWT_SECRET || 'test-secret', { expiresIn: '1h' });
+  }
+
+  async function insertOrder(paymentMethod: 'CASH' | 'ONLINE', status = 'DELIVERING'): Promise<string> {
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, fulfilment_type,
+                           subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json,
+                           courier_id, handover_code)
+       VALUES ($1, $2, $3, $4, $5, 'DELIVERY', 1500, 0, 0, 1500, $6, $7, '4821')
+       RETURNING id`,
+      [
+        customerId,
+        restaurantId,
+        status,
+        paymentMethod,
+        paymentMethod === 'CASH' ? 'PENDING' : 'PAID',
+        JSON.stringify({ street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' }),
+        courier.id,
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  function confirm(orderId: string, body: Record<string, unknown>) {
+    return request(app.server)
+      .post(`/courier/orders/${orderId}/delivery-confirmation`)
+      .set('Cookie', `access_token=${courier.token}`)
+      .send(body);
+  }
+
+  function getProof(orderId: string) {
+    return request(app.server)
+      .get(`/admin/orders/${orderId}/delivery-proof`)
+      .set('x-admin-key', adminKey);
+  }
+
+  async function getOrderRow(orderId: string) {
+    const result = await query('SELECT status, handover_attempts FROM orders WHERE id = $1', [orderId]);
+    return result.rows[0];
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (email, name, status)
+       VALUES ('cliente@example.com', 'Cliente', 'active')
+       RETURNING id`
+    );
+    customerId = userResult.rows[0].id;
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    const courierResponse = await request(app.server)
+      .post('/admin/couriers')
+      .set('x-admin-key', adminKey)
+      .send({ email: 'rider@example.com', name: 'Luca' });
+    expect(courierResponse.status).toBe(201);
+    courier = { id: courierResponse.body.data.id, token: tokenFor(courierResponse.body.data.user_id) };
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('should give every order a 4-digit handover code shown to the customer only', async () => {
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, fulfilment_type,
+                           subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json,
+                           courier_id)
+       VALUES ($1, $2, 'READY', 'ONLINE', 'PAID', 'DELIVERY', 1500, 0, 0, 1500, $3, $4)
+       RETURNING id, handover_code`,
+      [
+        customerId,
+        restaurantId,
+        JSON.stringify({ street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' }),
+        courier.id,
+      ]
+    );
+    const { id: orderId, handover_code } = result.rows[0];
+    expect(handover_code).toMatch(/^\d{4}$/);
+
+    const customer = await request(app.server)
+      .get(`/orders/${orderId}`)
+      .set('Cookie', `access_token=${tokenFor(customerId)}`);
+    expect(customer.status).toBe(200);
+    expect(customer.body.data.handover_code).toBe(handover_code);
+
+    const pickedUp = await request(app.server)
+      .post(`/courier/orders/${orderId}/picked-up`)
+      .set('Cookie', `access_token=${courier.token}`);
+    expect(pickedUp.status).toBe(200);
+    expect(pickedUp.body.data).not.toHaveProperty('handover_code');
+
+    const list = await request(app.server)
+      .get('/courier/orders')
+      .set('Cookie', `access_token=${courier.token}`);
+    expect(list.status).toBe(200);
+    expect(list.body.data[0]).not.toHaveProperty('handover_code');
+  });
+
+  it('should deliver with the handover code and keep the proof for admins', async () => {
+    const orderId = await insertOrder('ONLINE');
+
+    const delivered = await confirm(orderId, { handover_code: '4821' });
+    expect(delivered.status).toBe(200);
+    expect(delivered.body.data.status).toBe('DELIVERED');
+    expect(delivered.body.data).not.toHaveProperty('handover_code');
+
+    const proof = await getProof(orderId);
+    expect(proof.status).toBe(200);
+    expect(proof.body.data).toMatchObject({
+      method: 'CODE',
+      courier_id: courier.id,
+      photo_url: null,
+      cash_collected_cents: null,
+    });
+
+    const again = await confirm(orderId, { handover_code: '4821' });
+    expect(again.status).toBe(409);
+    expect(again.body.error).toBe('INVALID_STATUS_TRANSITION');
+  });
+
+  it('should not let admins mark an order DELIVERED without a proof', async () => {
+    const orderId = await insertOrder('ONLINE');
+
+    const response = await request(app.server)
+      .patch(`/admin/orders/${orderId}/status`)
+      .set('x-admin-key', adminKey)
+      .send({ status: 'DELIVERED' });
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('DELIVERY_PROOF_REQUIRED');
+    expect((await getOrderRow(orderId)).status).toBe('DELIVERING');
+  });
+
+  it('should let admins close a delivery without proof only with a reason', async () => {
+    const orderId = await insertOrder('ONLINE', 'PICKED_UP');
+    await query('UPDATE orders SET courier_id = NULL WHERE id = $1', [orderId]);
+
+    function deliverWithoutProof(body: Record<string, unknown>) {
+      return request(app.server)
+        .post(`/admin/orders/${orderId}/delivered-without-proof`)
+        .set('x-admin-key', adminKey)
+        .send(body);
+    }
+
+    const noReason = await deliverWithoutProof({ reason: '  ' });
+    expect(noReason.status).toBe(400);
+    expect(noReason.body.error).toBe('VALIDATION_ERROR');
+
+    const delivered = await deliverWithoutProof({ reason: 'Consegnato dal titolare' });
+    expect(delivered.status).toBe(200);
+    expect(delivered.body.data.status).toBe('DELIVERED');
+    expect((await getProof(orderId)).status).toBe(404);
+
+    const events = await query(
+      `SELECT from_status, to_status, actor_type, reason FROM order_status_events
+       WHERE order_id = $1 ORDER BY created_at`,
+      [orderId]
+    );
+    expect(events.rows).toEqual([
+      { from_status: 'PICKED_UP', to_status: 'DELIVERING', actor_type: 'ADMIN', reason: 'Consegnato dal titolare' },
+      { from_status: 'DELIVERING', to_status: 'DELIVERED', actor_type: 'ADMIN', reason: 'Consegnato dal titolare' },
+    ]);
+
+    const again = await deliverWithoutProof({ reason: 'Di nuovo' });
+    expect(again.status).toBe(409);
+    expect(again.body.error).toBe('INVALID_STATUS_TRANSITION');
+  });
+
+  it('should not keep the photo of a delivery that failed to commit', async () => {
+    const orderId = await insertOrder('ONLINE');
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await query(
+      `CREATE OR REPLACE FUNCTION fail_proof() RETURNS trigger AS $$
+       BEGIN
+         RAISE EXCEPTION 'proof failed';
+       END $$ LANGUAGE plpgsql`
+    );
+    // Deferred to the commit, after the photo has been stored
+    await query(
+      `CREATE CONSTRAINT TRIGGER fail_proof AFTER INSERT ON delivery_proofs
+       DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION fail_proof()`
+    );
+    try {
+      const response = await confirm(orderId, {
+        photo: { content_type: 'image/jpeg', data_base64: PHOTO.toString('base64') },
+      });
+      expect(response.status).toBe(500);
+    } finally {
+      await query('DROP TRIGGER fail_proof ON delivery_proofs');
+      await query('DROP FUNCTION fail_proof()');
+      spy.mockRestore();
+    }
+
+    expect((await getOrderRow(orderId)).status).toBe('DELIVERING');
+    expect(fs.existsSync(path.join(storageDir, 'delivery-proofs', `${orderId}.jpg`))).toBe(false);
+  });
+
+  it('should count wrong codes and lock the code after too many attempts', async () => {
+    const orderId = await insertOrder('ONLINE');
+
+    const wrong = await confirm(orderId, { handover_code: '0000' });
+    expect(wrong.status).toBe(400);
+    expect(wrong.body.error).toBe('INVALID_HANDOVER_CODE');
+    expect(await getOrderRow(orderId)).toMatchObject({ status: 'DELIVERING', handover_attempts: 1 });
+
+    for (let attempt = 1; attempt < MAX_HANDOVER_ATTEMPTS; attempt++) {
+      await confirm(orderId, { handover_code: '0000' });
+    }
+
+    // Even the right code is refused once locked
+    const locked = await confirm(orderId, { handover_code: '4821' });
+    expect(locked.status).toBe(409);
+    expect(locked.body.error).toBe('HANDOVER_CODE_LOCKED');
+    expect(await getOrderRow(orderId)).toMatchObject({
+      status: 'DELIVERING',
+      handover_attempts: MAX_HANDOVER_ATTEMPTS,
+    });
+
+    const withPhoto = await confirm(orderId, {
+      handover_code: '4821',
+      photo: { content_type: 'image/jpeg', data_base64: PHOTO.toString('base64') },
+    });
+    expect(withPhoto.status).toBe(200);
+    expect((await getProof(orderId)).body.data.method).toBe('PHOTO');
+  });
+
+  it('should deliver with a photo retrievable by admins', async () => {
+    const orderId = await insertOrder('ONLINE');
+
+    const delivered = await confirm(orderId, {
+      photo: { content_type: 'image/jpeg', data_base64: PHOTO.toString('base64') },
+    });
+    expect(delivered.status).toBe(200);
+    expect(delivered.body.data.status).toBe('DELIVERED');
+
+    const proof = await getProof(orderId);
+    expect(proof.body.data).toMatchObject({
+      method: 'PHOTO',
+      photo_content_type: 'image/jpeg',
+      photo_url: `/admin/orders/${orderId}/delivery-proof/photo`,
+    });
+
+    const photo = await request(app.server)
+      .get(proof.body.data.photo_url)
+      .set('x-admin-key', adminKey)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(photo.status).toBe(200);
+    expect(photo.headers['content-type']).toBe('image/jpeg');
+    expect(Buffer.compare(photo.body, PHOTO)).toBe(0);
+
+    const noAdmin = await request(app.server).get(proof.body.data.photo_url);
+    expect(noAdmin.status).toBe(401);
+  });
+
+  it('should record the cash collected on CASH orders', async () => {
+    const orderId = await insertOrder('CASH');
+
+    const missing = await confirm(orderId, { handover_code: '4821' });
+    expect(missing.status).toBe(400);
+    expect(missing.body.error).toBe('CASH_AMOUNT_REQUIRED');
+    expect((await getOrderRow(orderId)).status).toBe('DELIVERING');
+
+    const delivered = await confirm(orderId, { handover_code: '4821', cash_collected_cents: 2000 });
+    expect(delivered.status).toBe(200);
+    expect(delivered.body.data).toMatchObject({ status: 'DELIVERED' });
+
+    const proof = await getProof(orderId);
+    expect(proof.body.data).toMatchObject({ method: 'CODE', cash_collected_cents: 2000 });
+  });
+
+  it('should validate the confirmation', async () => {
+    const orderId = await insertOrder('ONLINE');
+
+    const empty = await confirm(orderId, {});
+    expect(empty.status).toBe(400);
+    expect(empty.body.error).toBe('VALIDATION_ERROR');
+
+    const badCode = await confirm(orderId, { handover_code: '12' });
+    expect(badCode.status).toBe(400);
+
+    const badPhoto = await confirm(orderId, {
+      photo: { content_type: 'application/pdf', data_base64: PHOTO.toString('base64') },
+    });
+    expect(badPhoto.status).toBe(400);
+
+    expect(await getOrderRow(orderId)).toMatchObject({ status: 'DELIVERING', handover_attempts: 0 });
+    expect((await getProof(orderId)).status).toBe(404);
+  });
+});
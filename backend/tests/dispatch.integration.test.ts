@@ -0,0 +1,391 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { sweepDispatch } from '../src/jobs/dispatchSweeper';
+import { DispatchCandidate, rankCouriers } from '../src/utils/dispatch';
+import jwt from 'jsonwebtoken';
+
+const START = new Date('2026-03-10T19:00:00Z');
+
+const config = {
+  offer_timeout_seconds: 60,
+  max_active_orders: 2,
+  lead_minutes: 10,
+  decline_cooldown_minutes: 5,
+};
+
+// Restaurant in Amantea and two courier positions around it
+const RESTAURANT = { lat: 39.1357, lng: 16.0747 };
+const NEAR = { lat: 39.1365, lng: 16.0752 }; // ~100m
+const FAR = { lat: 39.16, lng: 16.09 }; // ~3km
+
+describe('Dispatch - rankCouriers', () => {
+  function candidate(id: string, overrides: Partial<DispatchCandidate> = {}): DispatchCandidate {
+    return {
+      id,
+      on_duty_until: null,
+      last_lat: null,
+      last_lng: null,
+      last_position_at: null,
+      active_orders: 0,
+      ...overrides,
+    };
+  }
+
+  it('should prefer the least loaded courier, then the closest', () => {
+    const ranked = rankCouriers(
+      [
+        candidate('a', { last_lat: NEAR.lat, last_lng: NEAR.lng, last_position_at: START, active_orders: 1 }),
+        candidate('b', { last_lat: FAR.lat, last_lng: FAR.lng, last_position_at: START }),
+        candidate('c', { last_lat: NEAR.lat, last_lng: NEAR.lng, last_position_at: START }),
+      ],
+      RESTAURANT,
+      START,
+      config
+    );
+
+    expect(ranked.map((c) => c.id)).toEqual(['c', 'b', 'a']);
+    expect(ranked[0].distance_m).toBeLessThan(200);
+  });
+
+  it('should rank unknown and stale positions after known ones', () => {
+    const stale = new Date(START.getTime() - 30 * 60 * 1000);
+
+    const ranked = rankCouriers(
+      [
+        candidate('a', { last_lat: NEAR.lat, last_lng: NEAR.lng, last_position_at: stale }),
+        candidate('b'),
+        candidate('c', { last_lat: FAR.lat, last_lng: FAR.lng, last_position_at: START }),
+      ],
+      RESTAURANT,
+      START,
+      config
+    );
+
+    expect(ranked.map((c) => c.id)).toEqual(['c', 'a', 'b']);
+    expect(ranked[1].distance_m).toBeNull();
+  });
+
+  it('should skip couriers at capacity or at the end of their shift', () => {
+    const ranked = rankCouriers(
+      [
+        candidate('full', { active_orders: 2 }),
+        candidate('leaving', { on_duty_until: new Date(START.getTime() + 10 * 60 * 1000) }),
+        candidate('short', { on_duty_until: new Date(START.getTime() + 60 * 60 * 1000) }),
+        candidate('open'),
+      ],
+      null,
+      START,
+      config
+    );
+
+    // Without distances the longest remaining shift wins
+    expect(ranked.map((c) => c.id)).toEqual(['open', 'short']);
+  });
+});
+
+describe('Dispatch - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let customerId: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  interface SimulatedCourier {
+    id: string;
+    token: string;
+  }
+
+  async function insertOrder(status: string, promisedFrom: Date | null = null): Promise<string> {
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, fulfilment_type,
+                           subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json,
+                           promised_from, promised_to)
+       VALUES ($1, $2, $3, 'CASH', 'PENDING', 'DELIVERY', 1500, 0, 0, 1500, $4, $5, $6)
+       RETURNING id`,
+      [
+        customerId,
+        restaurantId,
+        status,
+        JSON.stringify({ street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' }),
+        promisedFrom,
+        promisedFrom ? new Date(promisedFrom.getTime() + 15 * 60 * 1000) : null,
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  /**
+   * Create a courier, put it on duty and report its position
+   */
+  async function simulateCourier(
+    email: string,
+    position: { lat: number; lng: number } | null,
+    shiftMinutes?: number
+  ): Promise<SimulatedCourier> {
+    const response = await request(app.server)
+      .post('/admin/couriers')
+      .set('x-admin-key', adminKey)
+      .send({ email, name: email.split('@')[0] });
+    expect(response.status).toBe(201);
+
+    const courier = {
+      id: response.body.data.id,
+      token: jwt.sign({ userId: response.body.data.user_id }, process.env.JWT_SECRET || 'test-secret', {
+        expiresIn: '1h',
+      }),
+    };
+
+    const duty = await request(app.server)
+      .post('/courier/duty')
+      .set('Cookie', `access_token=${courier.token}`)
+      .send({ on_duty: true, shift_minutes: shiftMinutes });
+    expect(duty.status).toBe(200);
+
+    if (position) {
+      const update = await request(app.server)
+        .put('/courier/position')
+        .set('Cookie', `access_token=${courier.token}`)
+        .send(position);
+      expect(update.status).toBe(200);
+    }
+
+    return courier;
+  }
+
+  function listOffers(courier: SimulatedCourier) {
+    return request(app.server).get('/courier/offers').set('Cookie', `access_token=${courier.token}`);
+  }
+
+  function respond(courier: SimulatedCourier, offerId: string, answer: 'accept' | 'reject') {
+    return request(app.server)
+      .post(`/courier/offers/${offerId}/${answer}`)
+      .set('Cookie', `access_token=${courier.token}`);
+  }
+
+  function advance(seconds: number) {
+    vi.setSystemTime(new Date(Date.now() + seconds * 1000));
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (email, name, status)
+       VALUES ('cliente@example.com', 'Cliente', 'active')
+       RETURNING id`
+    );
+    customerId = userResult.rows[0].id;
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, lat, lng, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', $1, $2, true)
+       RETURNING id`,
+      [RESTAURANT.lat, RESTAURANT.lng]
+    );
+    restaurantId = restaurantResult.rows[0].id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  it('should offer a READY order to the closest courier and assign it on accept', async () => {
+    const far = await simulateCourier('far@example.com', FAR);
+    const near = await simulateCourier('near@example.com', NEAR);
+    const orderId = await insertOrder('READY');
+
+    const offers = await sweepDispatch(config, new Date());
+    expect(offers).toHaveLength(1);
+    expect(offers[0]).toMatchObject({ order_id: orderId, courier_id: near.id, status: 'PENDING' });
+    expect(new Date(offers[0].expires_at).getTime()).toBe(START.getTime() + 60 * 1000);
+
+    const nearOffers = await listOffers(near);
+    expect(nearOffers.status).toBe(200);
+    expect(nearOffers.body.data).toHaveLength(1);
+    expect(nearOffers.body.data[0].restaurant.name).toBe('Pizza Test');
+    expect((await listOffers(far)).body.data).toHaveLength(0);
+
+    // An open offer is not duplicated by the next sweep
+    expect(await sweepDispatch(config, new Date())).toHaveLength(0);
+
+    advance(20);
+    const accepted = await respond(near, offers[0].id, 'accept');
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.data).toMatchObject({ id: orderId, courier_id: near.id });
+
+    const again = await respond(near, offers[0].id, 'accept');
+    expect(again.status).toBe(409);
+    expect(again.body.error).toBe('OFFER_CLOSED');
+
+    const stolen = await respond(far, offers[0].id, 'accept');
+    expect(stolen.status).toBe(404);
+
+    expect(await sweepDispatch(config, new Date())).toHaveLength(0);
+  });
+
+  it('should reassign a rejected order to the next courier', async () => {
+    const near = await simulateCourier('near@example.com', NEAR);
+    const far = await simulateCourier('far@example.com', FAR);
+    const orderId = await insertOrder('READY');
+
+    const [first] = await sweepDispatch(config, new Date());
+    expect(first.courier_id).toBe(near.id);
+
+    const rejected = await respond(near, first.id, 'reject');
+    expect(rejected.status).toBe(200);
+    expect(rejected.body.data.status).toBe('REJECTED');
+
+    // Offered right away, without waiting for the sweep
+    const farOffers = await listOffers(far);
+    expect(farOffers.body.data).toHaveLength(1);
+    expect(farOffers.body.data[0].order_id).toBe(orderId);
+
+    // Nobody left once the second courier rejects too
+    await respond(far, farOffers.body.data[0].id, 'reject');
+    expect(await sweepDispatch(config, new Date())).toHaveLength(0);
+    expect((await listOffers(near)).body.data).toHaveLength(0);
+
+    const waiting = await query('SELECT no_courier_since FROM orders WHERE id = $1', [orderId]);
+    expect(waiting.rows[0].no_courier_since).toEqual(START);
+
+    // After the cooldown the order goes back to the best courier
+    advance(5 * 60 + 1);
+    const [retry] = await sweepDispatch(config, new Date());
+    expect(retry).toMatchObject({ order_id: orderId, courier_id: near.id });
+
+    const offered = await query('SELECT no_courier_since FROM orders WHERE id = $1', [orderId]);
+    expect(offered.rows[0].no_courier_since).toBeNull();
+  });
+
+  it('should keep dispatching the other orders when one fails', async () => {
+    const near = await simulateCourier('near@example.com', NEAR);
+    const broken = await insertOrder('READY');
+    const orderId = await insertOrder('READY');
+
+    // The broken order comes first and its offer cannot be written
+    await query('UPDATE orders SET promised_from = $2 WHERE id = $1', [broken, new Date(START.getTime() - 1000)]);
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await query(
+      `CREATE OR REPLACE FUNCTION fail_offer() RETURNS trigger AS $$
+       BEGIN
+         IF NEW.order_id = '${broken}' THEN RAISE EXCEPTION 'offer failed'; END IF;
+         RETURN NEW;
+       END $$ LANGUAGE plpgsql`
+    );
+    await query('CREATE TRIGGER fail_offer BEFORE INSERT ON delivery_offers FOR EACH ROW EXECUTE FUNCTION fail_offer()');
+    try {
+      const offers = await sweepDispatch(config, new Date());
+      expect(offers).toHaveLength(1);
+      expect(offers[0]).toMatchObject({ order_id: orderId, courier_id: near.id });
+    } finally {
+      await query('DROP TRIGGER fail_offer ON delivery_offers');
+      await query('DROP FUNCTION fail_offer()');
+      spy.mockRestore();
+    }
+  });
+
+  it('should expire unanswered offers and move on to the next courier', async () => {
+    const near = await simulateCourier('near@example.com', NEAR);
+    const far = await simulateCourier('far@example.com', FAR);
+    await insertOrder('READY');
+
+    const [first] = await sweepDispatch(config, new Date());
+    expect(first.courier_id).toBe(near.id);
+
+    advance(61);
+
+    expect((await listOffers(near)).body.data).toHaveLength(0);
+    const late = await respond(near, first.id, 'accept');
+    expect(late.status).toBe(409);
+
+    const [second] = await sweepDispatch(config, new Date());
+    expect(second.courier_id).toBe(far.id);
+
+    const expired = await query('SELECT status FROM delivery_offers WHERE id = $1', [first.id]);
+    expect(expired.rows[0].status).toBe('EXPIRED');
+  });
+
+  it('should dispatch ahead of READY when the promised window is close', async () => {
+    const near = await simulateCourier('near@example.com', NEAR);
+    const orderId = await insertOrder('PREPARING', new Date(START.getTime() + 20 * 60 * 1000));
+
+    expect(await sweepDispatch(config, new Date())).toHaveLength(0);
+
+    advance(11 * 60);
+    const offers = await sweepDispatch(config, new Date());
+    expect(offers).toHaveLength(1);
+    expect(offers[0]).toMatchObject({ order_id: orderId, courier_id: near.id });
+  });
+
+  it('should respect shifts, load and duty', async () => {
+    await simulateCourier('leaving@example.com', NEAR, 10);
+    const busy = await simulateCourier('busy@example.com', NEAR);
+    const spare = await simulateCourier('spare@example.com', FAR);
+
+    // busy already carries one order: the spare courier gets the first offer
+    const carried = await insertOrder('PICKED_UP');
+    await query('UPDATE orders SET courier_id = $1 WHERE id = $2', [busy.id, carried]);
+
+    await insertOrder('READY');
+    const [offer] = await sweepDispatch(config, new Date());
+    expect(offer.courier_id).toBe(spare.id);
+
+    // Going off duty withdraws the offer; busy is the only one left
+    const offDuty = await request(app.server)
+      .post('/courier/duty')
+      .set('Cookie', `access_token=${spare.token}`)
+      .send({ on_duty: false });
+    expect(offDuty.status).toBe(200);
+    expect(offDuty.body.data.is_on_duty).toBe(false);
+
+    const [next] = await sweepDispatch(config, new Date());
+    expect(next.courier_id).toBe(busy.id);
+
+    // At capacity (one order plus one open offer) busy gets nothing more
+    await insertOrder('READY');
+    expect(await sweepDispatch(config, new Date())).toHaveLength(0);
+  });
+
+  it('should close open offers when the order is assigned by hand', async () => {
+    const near = await simulateCourier('near@example.com', NEAR);
+    const far = await simulateCourier('far@example.com', FAR);
+    const orderId = await insertOrder('READY');
+
+    const [offer] = await sweepDispatch(config, new Date());
+    expect(offer.courier_id).toBe(near.id);
+
+    const assigned = await request(app.server)
+      .put(`/admin/orders/${orderId}/courier`)
+      .set('x-admin-key', adminKey)
+      .send({ courier_id: far.id });
+    expect(assigned.status).toBe(200);
+
+    expect((await listOffers(near)).body.data).toHaveLength(0);
+    const accepted = await respond(near, offer.id, 'accept');
+    expect(accepted.status).toBe(409);
+
+    expect(await sweepDispatch(config, new Date())).toHaveLength(0);
+    const closed = await query('SELECT status FROM delivery_offers WHERE id = $1', [offer.id]);
+    expect(closed.rows[0].status).toBe('CANCELLED');
+  });
+});
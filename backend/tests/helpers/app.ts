@@ -5,9 +5,17 @@ import { authRoutes } from '../../src/routes/auth';
 import { meRoutes } from '../../src/routes/me';
 import { registerRestaurantsRoutes } from '../../src/routes/restaurants';
 import { ordersRoutes } from '../../src/routes/orders';
+import { cartRoutes } from '../../src/routes/cart';
+import { geocodingRoutes } from '../../src/routes/geocoding';
+import { searchRoutes } from '../../src/routes/search';
+import { paymentsRoutes } from '../../src/routes/payments';
+import { courierRoutes } from '../../src/routes/courier';
+import { deliveriesRoutes } from '../../src/routes/deliveries';
 import { registerAdminRestaurantsRoutes } from '../../src/routes/admin/restaurants';
 import { registerAdminMenuRoutes } from '../../src/routes/admin/menu';
 import { registerAdminOrdersRoutes } from '../../src/routes/admin/orders';
+import { registerAdminTagsRoutes } from '../../src/routes/admin/tags';
+import { registerAdminCouriersRoutes } from '../../src/routes/admin/couriers';
 
 export async function createTestApp(): Promise<FastifyInstance> {
   const app = Fastify({
@@ -26,9 +34,17 @@ export async function createTestApp(): Promise<FastifyInstance> {
   await app.register(meRoutes);
   await app.register(registerRestaurantsRoutes);
   await app.register(ordersRoutes);
+  await app.register(cartRoutes);
+  await app.register(geocodingRoutes);
+  await app.register(searchRoutes);
+  await app.register(paymentsRoutes);
+  await app.register(courierRoutes);
+  await app.register(deliveriesRoutes);
   await app.register(registerAdminRestaurantsRoutes);
   await app.register(registerAdminMenuRoutes);
   await app.register(registerAdminOrdersRoutes);
+  await app.register(registerAdminTagsRoutes);
+  await app.register(registerAdminCouriersRoutes);
 
   app.get('/health', async (request, reply) => {
     return { ok: true };
@@ -12,11 +12,19 @@ export async function resetDatabase() {
     await client.query(`
       TRUNCATE TABLE
         sessions,
+        notifications,
         login_links,
         email_otp_challenges,
+        payment_webhook_events,
+        payments,
+        order_status_events,
         order_item_options,
         order_items,
         orders,
+        delivery_proofs,
+        delivery_locations,
+        delivery_offers,
+        couriers,
         product_option_items,
         product_option_groups,
         menu_products,
@@ -24,6 +32,11 @@ export async function resetDatabase() {
         restaurant_hours,
         restaurant_overrides,
         restaurant_delivery_rules,
+        restaurant_capacity_rules,
+        restaurant_delivery_zones,
+        geocoded_addresses,
+        restaurant_tags,
+        tags,
         users,
         restaurants
       CASCADE
@@ -0,0 +1,347 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { MockEmailProvider } from '../src/email/MockEmailProvider';
+import { MockSmsProvider } from '../src/sms/MockSmsProvider';
+import { NotificationService } from '../src/notifications/NotificationService';
+import { renderOrderNotification, OrderNotificationContext } from '../src/notifications/templates';
+import { sweepNotifications } from '../src/jobs/notificationsSweeper';
+import { sweepUnpaidOrders } from '../src/jobs/unpaidOrdersSweeper';
+import jwt from 'jsonwebtoken';
+
+const CONTEXT: OrderNotificationContext = {
+  order_id: '3f2a9c1e-0000-4000-8000-000000000000',
+  customer_name: 'Mario',
+  restaurant_name: 'Pizza Test',
+  fulfilment_type: 'DELIVERY',
+  promised_to: new Date('2026-03-10T19:45:00Z'),
+  handover_code: '4821',
+  cancellation_reason: null,
+  payment_method: 'ONLINE',
+  payment_status: 'PAID',
+  refund_due: false,
+};
+
+describe('Notifications - renderOrderNotification', () => {
+  it('should render the accepted order with the promised time in Rome', () => {
+    const rendered = renderOrderNotification('ACCEPTED', CONTEXT);
+
+    expect(rendered).toMatchObject({ template: 'order.accepted', subject: 'Ordine ToHome accettato' });
+    expect(rendered!.email_text).toContain('Ciao Mario');
+    expect(rendered!.email_text).toContain('#3f2a9c1e');
+    expect(rendered!.email_text).toContain('entro le 20:45');
+    expect(rendered!.sms_text).toContain('Pizza Test');
+  });
+
+  it('should give the handover code when the order leaves', () => {
+    const rendered = renderOrderNotification('DELIVERING', CONTEXT);
+
+    expect(rendered!.email_text).toContain('4821');
+    expect(rendered!.sms_text).toContain('4821');
+  });
+
+  it('should only announce READY for pickup orders', () => {
+    expect(renderOrderNotification('READY', CONTEXT)).toBeNull();
+    expect(renderOrderNotification('READY', { ...CONTEXT, fulfilment_type: 'PICKUP' })?.template).toBe('order.ready');
+    expect(renderOrderNotification('PREPARING', CONTEXT)).toBeNull();
+  });
+
+  it('should only promise a refund for cancelled orders paid online', () => {
+    const refund = 'ti verrà rimborsato';
+
+    expect(renderOrderNotification('CANCELLED', CONTEXT)!.email_text).toContain(refund);
+    expect(
+      renderOrderNotification('CANCELLED', { ...CONTEXT, payment_status: 'PENDING', refund_due: true })!.email_text
+    ).toContain(refund);
+    expect(
+      renderOrderNotification('CANCELLED', { ...CONTEXT, payment_status: 'PENDING' })!.email_text
+    ).not.toContain(refund);
+    expect(
+      renderOrderNotification('CANCELLED', { ...CONTEXT, payment_method: 'CASH', payment_status: 'PENDING' })!.email_text
+    ).not.toContain(refund);
+  });
+});
+
+describe('Notifications - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let emailProvider: MockEmailProvider;
+  let smsProvider: MockSmsProvider;
+  let service: NotificationService;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+  const originalStatuses = process.env.NOTIFICATION_STATUSES;
+
+  function tokenFor(userId: string) {
+    return jwt.sign({ userId }, process.env.JWT_SECRET || 'test-secret', { expiresIn: '1h' });
+  }
+
+  async function insertUser(contact: { email?: string; phone?: string }): Promise<string> {
+    const result = await query(
+      `INSERT INTO users (email, phone_e164, name, status)
+       VALUES ($1, $2, 'Mario', 'active')
+       RETURNING id`,
+      [contact.email ?? null, contact.phone ?? null]
+    );
+    return result.rows[0].id;
+  }
+
+  async function insertOrder(userId: string, status: string, fulfilmentType = 'DELIVERY'): Promise<string> {
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, fulfilment_type,
+                           subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json,
+                           handover_code)
+       VALUES ($1, $2, $3, 'CASH', 'PAID', $4, 1500, 0, 0, 1500, $5, '4821')
+       RETURNING id`,
+      [
+        userId,
+        restaurantId,
+        status,
+        fulfilmentType,
+        fulfilmentType === 'DELIVERY'
+          ? JSON.stringify({ street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' })
+          : null,
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  function moveOrder(orderId: string, status: string) {
+    return request(app.server)
+      .patch(`/admin/orders/${orderId}/status`)
+      .set('x-admin-key', adminKey)
+      .send({ status });
+  }
+
+  async function getNotifications(orderId: string) {
+    const response = await request(app.server)
+      .get(`/admin/orders/${orderId}/notifications`)
+      .set('x-admin-key', adminKey);
+    expect(response.status).toBe(200);
+    return response.body.data;
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    delete process.env.NOTIFICATION_STATUSES;
+
+    emailProvider = new MockEmailProvider();
+    smsProvider = new MockSmsProvider();
+    service = new NotificationService(emailProvider, smsProvider);
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+  });
+
+  afterEach(() => {
+    if (originalStatuses === undefined) {
+      delete process.env.NOTIFICATION_STATUSES;
+    } else {
+      process.env.NOTIFICATION_STATUSES = originalStatuses;
+    }
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  it('should email the customer after the status change commits', async () => {
+    const userId = await insertUser({ email: 'mario@example.com' });
+    const orderId = await insertOrder(userId, 'READY');
+
+    expect((await moveOrder(orderId, 'PICKED_UP')).status).toBe(200);
+    expect((await moveOrder(orderId, 'DELIVERING')).status).toBe(200);
+
+    // Queued, not sent yet
+    const queued = await getNotifications(orderId);
+    expect(queued).toHaveLength(1);
+    expect(queued[0]).toMatchObject({
+      channel: 'EMAIL',
+      template: 'order.delivering',
+      recipient: 'mario@example.com',
+      status: 'PENDING',
+    });
+    expect(emailProvider.getSentMessages()).toHaveLength(0);
+
+    const handled = await sweepNotifications(service);
+    expect(handled.map((n) => n.status)).toEqual(['SENT']);
+
+    const sent = emailProvider.getSentMessages();
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ to: 'mario@example.com', subject: 'Ordine ToHome in consegna' });
+    expect(sent[0].text).toContain('4821');
+    expect(smsProvider.getSentMessages()).toHaveLength(0);
+
+    const logged = await getNotifications(orderId);
+    expect(logged[0].status).toBe('SENT');
+    expect(logged[0].sent_at).not.toBeNull();
+
+    // Nothing left to send
+    expect(await sweepNotifications(service)).toHaveLength(0);
+    expect(emailProvider.getSentMessages()).toHaveLength(1);
+  });
+
+  it('should only promise a refund when the cancelled order was paid online', async () => {
+    const userId = await insertUser({ email: 'mario@example.com' });
+    const paidOnline = await insertOrder(userId, 'ACCEPTED');
+    await query(`UPDATE orders SET payment_method = 'ONLINE' WHERE id = $1`, [paidOnline]);
+    const cash = await insertOrder(userId, 'ACCEPTED');
+
+    await moveOrder(paidOnline, 'CANCELLED');
+    await moveOrder(cash, 'CANCELLED');
+    await sweepNotifications(service);
+
+    const sent = emailProvider.getSentMessages();
+    expect(sent).toHaveLength(2);
+    const textOf = (orderId: string) => sent.find((m) => m.text.includes(`#${orderId.substring(0, 8)}`))!.text;
+    expect(textOf(paidOnline)).toContain('ti verrà rimborsato');
+    expect(textOf(cash)).not.toContain('rimborsato');
+  });
+
+  it('should text customers who signed up with their phone', async () => {
+    const userId = await insertUser({ phone: '+393331112222' });
+    const orderId = await insertOrder(userId, 'READY', 'PICKUP');
+
+    expect((await moveOrder(orderId, 'CANCELLED')).status).toBe(200);
+    await sweepNotifications(service);
+
+    const sent = smsProvider.getSentMessages();
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe('+393331112222');
+    expect(sent[0].text).toContain('annullato');
+    expect(emailProvider.getSentMessages()).toHaveLength(0);
+  });
+
+  it('should only notify the configured statuses', async () => {
+    const userId = await insertUser({ email: 'mario@example.com' });
+    const orderId = await insertOrder(userId, 'ACCEPTED');
+
+    await moveOrder(orderId, 'PREPARING');
+    await moveOrder(orderId, 'READY'); // delivery orders are not told when READY
+    expect(await getNotifications(orderId)).toHaveLength(0);
+
+    process.env.NOTIFICATION_STATUSES = 'DELIVERED';
+    await moveOrder(orderId, 'PICKED_UP');
+    await moveOrder(orderId, 'DELIVERING');
+    await query(`INSERT INTO delivery_proofs (order_id, method) VALUES ($1, 'CODE')`, [orderId]);
+    await moveOrder(orderId, 'DELIVERED');
+    await sweepNotifications(service);
+
+    expect(emailProvider.getSentMessages().map((m) => m.subject)).toEqual(['Ordine ToHome consegnato']);
+  });
+
+  it('should respect the channel preferences of the customer', async () => {
+    const userId = await insertUser({ email: 'mario@example.com' });
+    const cookie = `access_token=${tokenFor(userId)}`;
+
+    const initial = await request(app.server).get('/me/notification-preferences').set('Cookie', cookie);
+    expect(initial.status).toBe(200);
+    expect(initial.body.data).toEqual({ email: true, sms: true });
+
+    const invalid = await request(app.server).put('/me/notification-preferences').set('Cookie', cookie).send({});
+    expect(invalid.status).toBe(400);
+
+    const updated = await request(app.server)
+      .put('/me/notification-preferences')
+      .set('Cookie', cookie)
+      .send({ email: false });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data).toEqual({ email: false, sms: true });
+
+    const orderId = await insertOrder(userId, 'READY');
+    await moveOrder(orderId, 'CANCELLED');
+    await sweepNotifications(service);
+
+    expect(await getNotifications(orderId)).toHaveLength(0);
+    expect(emailProvider.getSentMessages()).toHaveLength(0);
+
+    expect((await request(app.server).get('/me/notification-preferences')).status).toBe(401);
+  });
+
+  it('should log failed sends without retrying them', async () => {
+    const userId = await insertUser({ email: 'mario@example.com' });
+    const orderId = await insertOrder(userId, 'READY');
+    await moveOrder(orderId, 'CANCELLED');
+
+    const failing = new NotificationService(
+      {
+        send: async () => {
+          throw new Error('SMTP down');
+        },
+      },
+      smsProvider
+    );
+
+    const handled = await sweepNotifications(failing);
+    expect(handled.map((n) => n.status)).toEqual(['FAILED']);
+
+    const logged = await getNotifications(orderId);
+    expect(logged[0]).toMatchObject({ status: 'FAILED', error: 'SMTP down', sent_at: null });
+
+    await sweepNotifications(service);
+    expect(emailProvider.getSentMessages()).toHaveLength(0);
+  });
+
+  it('should close sends interrupted by a stopped sweeper without sending them again', async () => {
+    const userId = await insertUser({ email: 'mario@example.com' });
+    const orderId = await insertOrder(userId, 'READY');
+    await moveOrder(orderId, 'CANCELLED');
+    await moveOrder(await insertOrder(userId, 'READY'), 'CANCELLED');
+
+    // Both claimed by sweepers: one stopped 10 minutes ago, the other is still sending
+    await query(
+      `UPDATE notifications
+       SET status = 'SENDING',
+           claimed_at = CASE WHEN order_id = $1 THEN NOW() - interval '10 minutes' ELSE NOW() END`,
+      [orderId]
+    );
+
+    expect(await sweepNotifications(service)).toHaveLength(0);
+    expect(emailProvider.getSentMessages()).toHaveLength(0);
+
+    const rows = await query('SELECT order_id, status, error FROM notifications');
+    expect(rows.rows.find((n) => n.order_id === orderId)).toMatchObject({ status: 'FAILED', error: 'Send interrupted' });
+    expect(rows.rows.find((n) => n.order_id !== orderId)).toMatchObject({ status: 'SENDING', error: null });
+  });
+
+  it('should not queue anything when the status change is rejected', async () => {
+    const userId = await insertUser({ email: 'mario@example.com' });
+    const orderId = await insertOrder(userId, 'DELIVERED');
+
+    expect((await moveOrder(orderId, 'CANCELLED')).status).toBe(409);
+    expect(await getNotifications(orderId)).toHaveLength(0);
+  });
+
+  it('should leave the payment timeout email to the unpaid orders sweeper', async () => {
+    const userId = await insertUser({ email: 'mario@example.com' });
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, subtotal_cents,
+                           delivery_fee_cents, service_fee_cents, total_cents, address_json, created_at)
+       VALUES ($1, $2, 'CREATED', 'ONLINE', 'PENDING', 1000, 0, 0, 1000, '{}', NOW() - interval '30 minutes')
+       RETURNING id`,
+      [userId, restaurantId]
+    );
+
+    await sweepUnpaidOrders({ emailProvider, timeoutMinutes: 15 });
+    await sweepNotifications(service);
+
+    expect(await getNotifications(result.rows[0].id)).toHaveLength(0);
+    expect(emailProvider.getSentMessages()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+
+describe('Admin Orders API - Integration Tests', () => {
+  let app: FastifyInstance;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+  let restaurant1Id: string;
+  let restaurant2Id: string;
+  let user1Id: string;
+  let user2Id: string;
+
+  async function insertOrder(data: {
+    userId: string;
+    restaurantId: string;
+    status?: string;
+    paymentMethod?: string;
+    paymentStatus?: string;
+    totalCents?: number;
+    notes?: string | null;
+    street?: string;
+    createdAt?: string;
+  }): Promise<string> {
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json, notes, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 0, 0, $6, $7, $8, COALESCE($9::timestamp, NOW()))
+       RETURNING id`,
+      [
+        data.userId,
+        data.restaurantId,
+        data.status || 'ACCEPTED',
+        data.paymentMethod || 'CASH',
+        data.paymentStatus || 'PAID',
+        data.totalCents ?? 1000,
+        JSON.stringify({ street: data.street || 'Via Roma 1', city: 'Amantea', postal_code: '87032' }),
+        data.notes ?? null,
+        data.createdAt || null,
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  beforeAll(async () => {
+    // Set ADMIN_API_KEY for tests
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const user1Result = await query(
+      `INSERT INTO users (email, name, status)
+       VALUES ('mario@example.com', 'Mario', 'active')
+       RETURNING id`
+    );
+    user1Id = user1Result.rows[0].id;
+
+    const user2Result = await query(
+      `INSERT INTO users (email, name, status)
+       VALUES ('lucia@example.com', 'Lucia', 'active')
+       RETURNING id`
+    );
+    user2Id = user2Result.rows[0].id;
+
+    const r1 = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-uno', 'Pizza Uno', 'Via Test 1', 'Amantea', true)
+       RETURNING id`
+    );
+    restaurant1Id = r1.rows[0].id;
+
+    const r2 = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('sushi-due', 'Sushi Due', 'Via Test 2', 'Amantea', true)
+       RETURNING id`
+    );
+    restaurant2Id = r2.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('GET /admin/orders - List orders', () => {
+    it('should return 401 without admin key', async () => {
+      const response = await request(app.server).get('/admin/orders');
+
+      expect(response.status).toBe(401);
+      expect(response.body.ok).toBe(false);
+    });
+
+    it('should list orders across restaurants with items and totals', async () => {
+      const orderId = await insertOrder({ userId: user1Id, restaurantId: restaurant1Id, totalCents: 1500 });
+      await query(
+        `INSERT INTO order_items (order_id, product_id, name, unit_price_cents, qty, total_cents)
+         VALUES ($1, NULL, 'Margherita', 750, 2, 1500)`,
+        [orderId]
+      );
+      await insertOrder({ userId: user2Id, restaurantId: restaurant2Id, totalCents: 2500 });
+
+      const response = await request(app.server)
+        .get('/admin/orders')
+        .set('x-admin-key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ok).toBe(true);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.totals).toEqual({ count: 2, total_cents: 4000 });
+      expect(response.body.next_cursor).toBeNull();
+
+      const withItems = response.body.data.find((o: any) => o.id === orderId);
+      expect(withItems.items).toHaveLength(1);
+      expect(withItems.items[0].name).toBe('Margherita');
+      expect(withItems.status_events).toEqual([]);
+    });
+
+    it('should filter by restaurant, status and payment', async () => {
+      await insertOrder({ userId: user1Id, restaurantId: restaurant1Id, status: 'PREPARING' });
+      await insertOrder({ userId: user1Id, restaurantId: restaurant1Id, status: 'DELIVERED' });
+      await insertOrder({
+        userId: user1Id,
+        restaurantId: restaurant1Id,
+        status: 'CREATED',
+        paymentMethod: 'ONLINE',
+        paymentStatus: 'PENDING',
+      });
+      await insertOrder({ userId: user2Id, restaurantId: restaurant2Id, status: 'PREPARING' });
+
+      const byRestaurantAndStatus = await request(app.server)
+        .get(`/admin/orders?restaurant_id=${restaurant1Id}&status=PREPARING,CREATED`)
+        .set('x-admin-key', adminKey);
+
+      expect(byRestaurantAndStatus.status).toBe(200);
+      expect(byRestaurantAndStatus.body.data).toHaveLength(2);
+      expect(
+        byRestaurantAndStatus.body.data.every((o: any) => o.restaurant_id === restaurant1Id)
+      ).toBe(true);
+
+      const byPayment = await request(app.server)
+        .get('/admin/orders?payment_method=ONLINE&payment_status=PENDING')
+        .set('x-admin-key', adminKey);
+
+      expect(byPayment.status).toBe(200);
+      expect(byPayment.body.data).toHaveLength(1);
+      expect(byPayment.body.data[0].status).toBe('CREATED');
+    });
+
+    it('should filter by date range, customer email and free text', async () => {
+      await insertOrder({
+        userId: user1Id,
+        restaurantId: restaurant1Id,
+        createdAt: '2025-03-01 20:00:00',
+        notes: 'Senza cipolla',
+      });
+      await insertOrder({
+        userId: user2Id,
+        restaurantId: restaurant1Id,
+        createdAt: '2025-03-02 20:00:00',
+        street: 'Corso Garibaldi 10',
+      });
+      await insertOrder({ userId: user2Id, restaurantId: restaurant2Id, createdAt: '2025-03-05 20:00:00' });
+
+      const byDate = await request(app.server)
+        .get('/admin/orders?from=2025-03-01&to=2025-03-02')
+        .set('x-admin-key', adminKey);
+      expect(byDate.body.data).toHaveLength(2);
+
+      const byEmail = await request(app.server)
+        .get('/admin/orders?email=LUCIA@example.com')
+        .set('x-admin-key', adminKey);
+      expect(byEmail.body.data).toHaveLength(2);
+      expect(byEmail.body.data.every((o: any) => o.user_id === user2Id)).toBe(true);
+
+      const byNotes = await request(app.server)
+        .get('/admin/orders?q=cipolla')
+        .set('x-admin-key', adminKey);
+      expect(byNotes.body.data).toHaveLength(1);
+      expect(byNotes.body.data[0].notes).toBe('Senza cipolla');
+
+      const byAddress = await request(app.server)
+        .get('/admin/orders?q=garibaldi')
+        .set('x-admin-key', adminKey);
+      expect(byAddress.body.data).toHaveLength(1);
+      expect(byAddress.body.data[0].address_json.street).toBe('Corso Garibaldi 10');
+
+      // Wildcards in the search term are matched literally
+      const byWildcard = await request(app.server)
+        .get('/admin/orders?q=%25')
+        .set('x-admin-key', adminKey);
+      expect(byWildcard.body.data).toHaveLength(0);
+    });
+
+    it('should paginate with a cursor, newest first', async () => {
+      const ids: string[] = [];
+      for (let day = 1; day <= 5; day++) {
+        ids.push(
+          await insertOrder({
+            userId: user1Id,
+            restaurantId: restaurant1Id,
+            createdAt: `2025-03-0${day} 12:00:00`,
+          })
+        );
+      }
+
+      const page1 = await request(app.server)
+        .get('/admin/orders?limit=2')
+        .set('x-admin-key', adminKey);
+
+      expect(page1.status).toBe(200);
+      expect(page1.body.data.map((o: any) => o.id)).toEqual([ids[4], ids[3]]);
+      expect(page1.body.totals.count).toBe(5);
+      expect(page1.body.next_cursor).toBeTruthy();
+
+      const page2 = await request(app.server)
+        .get(`/admin/orders?limit=2&cursor=${page1.body.next_cursor}`)
+        .set('x-admin-key', adminKey);
+      expect(page2.body.data.map((o: any) => o.id)).toEqual([ids[2], ids[1]]);
+
+      const page3 = await request(app.server)
+        .get(`/admin/orders?limit=2&cursor=${page2.body.next_cursor}`)
+        .set('x-admin-key', adminKey);
+      expect(page3.body.data.map((o: any) => o.id)).toEqual([ids[0]]);
+      expect(page3.body.next_cursor).toBeNull();
+    });
+
+    it('should return 400 for invalid filters or cursor', async () => {
+      const badStatus = await request(app.server)
+        .get('/admin/orders?status=PREPARING,NOPE')
+        .set('x-admin-key', adminKey);
+      expect(badStatus.status).toBe(400);
+      expect(badStatus.body.error).toBe('VALIDATION_ERROR');
+
+      const badCursor = await request(app.server)
+        .get('/admin/orders?cursor=not-a-cursor')
+        .set('x-admin-key', adminKey);
+      expect(badCursor.status).toBe(400);
+      expect(badCursor.body.error).toBe('INVALID_CURSOR');
+
+      const tampered = Buffer.from(JSON.stringify({ c: 'yesterday', id: 'abc' })).toString('base64url');
+      const tamperedCursor = await request(app.server)
+        .get(`/admin/orders?cursor=${tampered}`)
+        .set('x-admin-key', adminKey);
+      expect(tamperedCursor.status).toBe(400);
+      expect(tamperedCursor.body.error).toBe('INVALID_CURSOR');
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import jwt from 'jsonwebtoken';
+
+describe('Order Cancellation - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let userId: string;
+  let userToken: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  async function insertOrder(
+    status: string,
+    paymentMethod: 'ONLINE' | 'CASH',
+    paymentStatus: 'PENDING' | 'PAID'
+  ): Promise<string> {
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json)
+       VALUES ($1, $2, $3, $4, $5, 1000, 0, 0, 1000, '{}')
+       RETURNING id`,
+      [userId, restaurantId, status, paymentMethod, paymentStatus]
+    );
+    return result.rows[0].id;
+  }
+
+  beforeAll(async () => {
+    // Set ADMIN_API_KEY for tests
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userId = userResult.rows[0].id;
+
+    userToken = jwt.sign(
+      { userId },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Roma', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('POST /orders/:orderId/cancel', () => {
+    it('should return 401 if not authenticated', async () => {
+      const orderId = await insertOrder('ACCEPTED', 'CASH', 'PAID');
+
+      const response = await request(app.server).post(`/orders/${orderId}/cancel`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 404 if user does not own order', async () => {
+      const orderId = await insertOrder('ACCEPTED', 'CASH', 'PAID');
+      const otherToken = jwt.sign(
+        { userId: '00000000-0000-0000-0000-000000000000' },
+        process.env.JWT_SECRET || 'test-secret',
+        { expiresIn: '1h' }
+      );
+
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/cancel`)
+        .set('Cookie', `access_token=${otherToken}`)
+        .send({});
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('NOT_FOUND');
+    });
+
+    it('should cancel an ACCEPTED order and record the reason', async () => {
+      const orderId = await insertOrder('ACCEPTED', 'CASH', 'PAID');
+
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/cancel`)
+        .set('Cookie', `access_token=${userToken}`)
+        .send({ reason: 'Ho sbagliato indirizzo' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.ok).toBe(true);
+      expect(response.body.data.status).toBe('CANCELLED');
+      expect(response.body.data.refund_due).toBe(false);
+      expect(response.body.data.cancellation_reason).toBe('Ho sbagliato indirizzo');
+
+      const events = await query(
+        'SELECT * FROM order_status_events WHERE order_id = $1',
+        [orderId]
+      );
+      expect(events.rows).toHaveLength(1);
+      expect(events.rows[0].from_status).toBe('ACCEPTED');
+      expect(events.rows[0].to_status).toBe('CANCELLED');
+      expect(events.rows[0].actor_type).toBe('CUSTOMER');
+      expect(events.rows[0].actor_id).toBe(userId);
+      expect(events.rows[0].reason).toBe('Ho sbagliato indirizzo');
+    });
+
+    it('should flag PAID ONLINE orders as refund due', async () => {
+      const orderId = await insertOrder('ACCEPTED', 'ONLINE', 'PAID');
+
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/cancel`)
+        .set('Cookie', `access_token=${userToken}`)
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.refund_due).toBe(true);
+    });
+
+    it('should not flag unpaid ONLINE orders as refund due', async () => {
+      const orderId = await insertOrder('CREATED', 'ONLINE', 'PENDING');
+
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/cancel`)
+        .set('Cookie', `access_token=${userToken}`)
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.status).toBe('CANCELLED');
+      expect(response.body.data.refund_due).toBe(false);
+    });
+
+    it('should return 409 once the kitchen is preparing the order', async () => {
+      const orderId = await insertOrder('PREPARING', 'CASH', 'PAID');
+
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/cancel`)
+        .set('Cookie', `access_token=${userToken}`)
+        .send({});
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('CANCELLATION_NOT_ALLOWED');
+
+      const order = await query('SELECT status FROM orders WHERE id = $1', [orderId]);
+      expect(order.rows[0].status).toBe('PREPARING');
+    });
+
+    it('should return 409 for an already cancelled order', async () => {
+      const orderId = await insertOrder('CANCELLED', 'CASH', 'PAID');
+
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/cancel`)
+        .set('Cookie', `access_token=${userToken}`)
+        .send({});
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should follow the restaurant cancellation policy', async () => {
+      const patch = await request(app.server)
+        .patch(`/admin/restaurants/${restaurantId}`)
+        .set('x-admin-key', adminKey)
+        .send({ customer_cancellable_statuses: ['CREATED', 'ACCEPTED', 'PREPARING'] });
+      expect(patch.status).toBe(200);
+      expect(patch.body.data.customer_cancellable_statuses).toEqual([
+        'CREATED',
+        'ACCEPTED',
+        'PREPARING',
+      ]);
+
+      const preparingId = await insertOrder('PREPARING', 'CASH', 'PAID');
+      const preparing = await request(app.server)
+        .get(`/orders/${preparingId}`)
+        .set('Cookie', `access_token=${userToken}`);
+      expect(preparing.body.data.can_cancel).toBe(true);
+
+      const allowed = await request(app.server)
+        .post(`/orders/${preparingId}/cancel`)
+        .set('Cookie', `access_token=${userToken}`)
+        .send({});
+      expect(allowed.status).toBe(200);
+
+      await request(app.server)
+        .patch(`/admin/restaurants/${restaurantId}`)
+        .set('x-admin-key', adminKey)
+        .send({ customer_cancellable_statuses: [] });
+
+      const acceptedId = await insertOrder('ACCEPTED', 'CASH', 'PAID');
+      const accepted = await request(app.server)
+        .get(`/orders/${acceptedId}`)
+        .set('Cookie', `access_token=${userToken}`);
+      expect(accepted.body.data.can_cancel).toBe(false);
+
+      const denied = await request(app.server)
+        .post(`/orders/${acceptedId}/cancel`)
+        .set('Cookie', `access_token=${userToken}`)
+        .send({});
+      expect(denied.status).toBe(409);
+    });
+
+    it('should reject invalid policy statuses', async () => {
+      const response = await request(app.server)
+        .patch(`/admin/restaurants/${restaurantId}`)
+        .set('x-admin-key', adminKey)
+        .send({ customer_cancellable_statuses: ['DELIVERED'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('PATCH /admin/orders/:orderId/status', () => {
+    it('should flag PAID ONLINE orders as refund due when the restaurant cancels', async () => {
+      const paidId = await insertOrder('PREPARING', 'ONLINE', 'PAID');
+      const cashId = await insertOrder('PREPARING', 'CASH', 'PAID');
+
+      const paid = await request(app.server)
+        .patch(`/admin/orders/${paidId}/status`)
+        .set('x-admin-key', adminKey)
+        .send({ status: 'CANCELLED', reason: 'Forno guasto' });
+      expect(paid.status).toBe(200);
+      expect(paid.body.data).toMatchObject({ status: 'CANCELLED', refund_due: true });
+
+      const cash = await request(app.server)
+        .patch(`/admin/orders/${cashId}/status`)
+        .set('x-admin-key', adminKey)
+        .send({ status: 'CANCELLED' });
+      expect(cash.status).toBe(200);
+      expect(cash.body.data.refund_due).toBe(false);
+    });
+  });
+});
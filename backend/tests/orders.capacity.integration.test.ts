@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Slots are computed in Europe/Rome.
+ * March 2025 is before the DST switch, so Rome is UTC+1.
+ * 2025-03-12 is a Wednesday (day_of_week 3).
+ */
+describe('Order Capacity - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let productId: string;
+  let userToken: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  function setRomeTime(isoLocal: string) {
+    vi.setSystemTime(new Date(`${isoLocal}+01:00`));
+  }
+
+  function setCapacity(rules: Array<Record<string, number | null>>) {
+    return request(app.server)
+      .put(`/admin/restaurants/${restaurantId}/capacity`)
+      .set('x-admin-key', adminKey)
+      .send({ rules });
+  }
+
+  function placeOrder(scheduledFor?: string, qty = 1) {
+    return request(app.server)
+      .post('/orders')
+      .set('Cookie', `access_token=${userToken}`)
+      .send({
+        restaurant_id: restaurantId,
+        payment_method: 'CASH',
+        delivery_address: { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' },
+        items: [{ product_id: productId, qty }],
+        scheduled_for: scheduledFor,
+      });
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    // Only Date is faked: timers and I/O keep working
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userToken = jwt.sign(
+      { userId: userResult.rows[0].id },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_delivery_rules (restaurant_id, min_order_cents, delivery_fee_cents, eta_min, eta_max)
+       VALUES ($1, 0, 0, 30, 45)`,
+      [restaurantId]
+    );
+
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, '19:00', '23:00' FROM generate_series(0, 6) AS d`,
+      [restaurantId]
+    );
+
+    const categoryResult = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, 'Pizze', 0, true) RETURNING id`,
+      [restaurantId]
+    );
+
+    const productResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Margherita', 800, 0, true) RETURNING id`,
+      [restaurantId, categoryResult.rows[0].id]
+    );
+    productId = productResult.rows[0].id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('max orders per slot', () => {
+    beforeEach(async () => {
+      const response = await setCapacity([{ day_of_week: null, max_orders: 2, max_items: null }]);
+      expect(response.status).toBe(200);
+      setRomeTime('2025-03-12T10:00:00');
+    });
+
+    it('should reject the order over the limit with the next free slot', async () => {
+      expect((await placeOrder('2025-03-12T20:00:00+01:00')).status).toBe(201);
+      expect((await placeOrder('2025-03-12T20:00:00+01:00')).status).toBe(201);
+
+      const response = await placeOrder('2025-03-12T20:00:00+01:00');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('SLOT_FULL');
+      expect(response.body.details).toEqual({
+        slot_start: '2025-03-12T20:00:00.000+01:00',
+        next_slot_at: '2025-03-12T20:15:00.000+01:00',
+      });
+
+      const orders = await query('SELECT COUNT(*)::int AS count FROM orders');
+      expect(orders.rows[0].count).toBe(2);
+    });
+
+    it('should free the slot when an order is cancelled', async () => {
+      const first = await placeOrder('2025-03-12T20:00:00+01:00');
+      await placeOrder('2025-03-12T20:00:00+01:00');
+
+      await request(app.server)
+        .patch(`/admin/orders/${first.body.data.id}/status`)
+        .set('x-admin-key', adminKey)
+        .send({ status: 'CANCELLED' });
+
+      const response = await placeOrder('2025-03-12T20:00:00+01:00');
+      expect(response.status).toBe(201);
+    });
+
+    it('should hide full slots and report them in quotes', async () => {
+      await placeOrder('2025-03-12T20:00:00+01:00');
+      await placeOrder('2025-03-12T20:00:00+01:00');
+
+      const slots = await request(app.server).get('/restaurants/pizza-test/slots');
+      const starts = slots.body.data.slots.map((s: any) => s.start);
+      expect(starts).not.toContain('2025-03-12T20:00:00.000+01:00');
+      expect(starts).toContain('2025-03-12T20:15:00.000+01:00');
+
+      const quote = await request(app.server)
+        .post('/cart/quote')
+        .send({
+          restaurant_id: restaurantId,
+          items: [{ product_id: productId, qty: 1 }],
+          scheduled_for: '2025-03-12T20:00:00+01:00',
+        });
+      expect(quote.body.data.can_order).toBe(false);
+      expect(quote.body.data.problems).toEqual([
+        {
+          line_index: null,
+          code: 'SLOT_FULL',
+          detail: '2025-03-12T20:00:00.000+01:00',
+          next_slot_at: '2025-03-12T20:15:00.000+01:00',
+        },
+      ]);
+    });
+  });
+
+  describe('max items per slot', () => {
+    it('should count items across orders in the slot', async () => {
+      await setCapacity([{ day_of_week: null, max_orders: null, max_items: 3 }]);
+      setRomeTime('2025-03-12T10:00:00');
+
+      expect((await placeOrder('2025-03-12T20:00:00+01:00', 2)).status).toBe(201);
+      expect((await placeOrder('2025-03-12T20:00:00+01:00', 2)).status).toBe(409);
+      expect((await placeOrder('2025-03-12T20:00:00+01:00', 1)).status).toBe(201);
+    });
+  });
+
+  describe('day of week rules', () => {
+    it('should prefer the rule for the slot day over the every-day rule', async () => {
+      await setCapacity([
+        { day_of_week: null, max_orders: 1, max_items: null },
+        { day_of_week: 3, max_orders: 2, max_items: null },
+      ]);
+      setRomeTime('2025-03-12T10:00:00');
+
+      // Wednesday: 2 orders
+      expect((await placeOrder('2025-03-12T20:00:00+01:00')).status).toBe(201);
+      expect((await placeOrder('2025-03-12T20:00:00+01:00')).status).toBe(201);
+
+      // Thursday: 1 order
+      expect((await placeOrder('2025-03-13T20:00:00+01:00')).status).toBe(201);
+      expect((await placeOrder('2025-03-13T20:00:00+01:00')).status).toBe(409);
+    });
+  });
+
+  describe('ASAP orders', () => {
+    it('should take up the first slot after the ETA', async () => {
+      await setCapacity([{ day_of_week: null, max_orders: 1, max_items: null }]);
+      setRomeTime('2025-03-12T19:50:00');
+
+      const first = await placeOrder();
+      expect(first.status).toBe(201);
+      expect(new Date(first.body.data.delivery_slot_start).toISOString()).toBe(
+        '2025-03-12T19:45:00.000Z'
+      );
+
+      const second = await placeOrder();
+      expect(second.status).toBe(409);
+      expect(second.body.details.next_slot_at).toBe('2025-03-12T21:00:00.000+01:00');
+
+      const slots = await request(app.server).get('/restaurants/pizza-test/slots');
+      expect(slots.body.data.asap_available).toBe(false);
+    });
+
+    it('should not limit restaurants without capacity rules', async () => {
+      setRomeTime('2025-03-12T19:50:00');
+
+      for (let i = 0; i < 3; i++) {
+        expect((await placeOrder()).status).toBe(201);
+      }
+    });
+  });
+
+  describe('PUT /admin/restaurants/:id/capacity', () => {
+    it('should replace the rules and expose them on the admin restaurant', async () => {
+      await setCapacity([{ day_of_week: 5, max_orders: 4, max_items: 10 }]);
+      const response = await setCapacity([{ day_of_week: null, max_orders: 6, max_items: null }]);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+
+      const restaurant = await request(app.server)
+        .get(`/admin/restaurants/${restaurantId}`)
+        .set('x-admin-key', adminKey);
+      expect(restaurant.body.data.capacity_rules).toEqual([
+        { day_of_week: null, max_orders: 6, max_items: null },
+      ]);
+    });
+
+    it('should reject rules without limits or with duplicate days', async () => {
+      const noLimit = await setCapacity([{ day_of_week: null, max_orders: null, max_items: null }]);
+      expect(noLimit.status).toBe(400);
+
+      const duplicate = await setCapacity([
+        { day_of_week: 5, max_orders: 4, max_items: null },
+        { day_of_week: 5, max_orders: 6, max_items: null },
+      ]);
+      expect(duplicate.status).toBe(400);
+    });
+  });
+});
@@ -55,13 +55,11 @@ describe('Orders Create API - Integration Tests', () => {
       [restaurantId]
     );
 
-    // Create restaurant hours (open now for testing)
-    const now = new Date();
-    const dayOfWeek = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
+    // Create restaurant hours (open all day, every day, so tests don't depend on the clock)
     await query(
       `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
-       VALUES ($1, $2, '08:00', '23:00')`,
-      [restaurantId, dayOfWeek]
+       SELECT $1, d, '00:00', '23:59' FROM generate_series(0, 6) AS d`,
+      [restaurantId]
     );
 
     // Create menu category
@@ -469,8 +467,8 @@ describe('Orders Create API - Integration Tests', () => {
     });
   });
 
-  describe('POST /orders/:orderId/pay - Mock payment', () => {
-    it('should successfully pay for ONLINE order', async () => {
+  describe('POST /orders/:orderId/pay - Start payment', () => {
+    it('should start a payment for ONLINE order', async () => {
       // Create ONLINE order
       const createResponse = await request(app.server)
         .post('/orders')
@@ -486,12 +484,13 @@ describe('Orders Create API - Integration Tests', () => {
           items: [
             {
               product_id: productId,
-              qty: 1,
+              qty: 2, // 2 x 800 clears the 1000 minimum order
               options: [{ group_id: optionGroupId, item_id: optionItem1Id }],
             },
           ],
         });
 
+      expect(createResponse.status).toBe(201);
       const orderId = createResponse.body.data.id;
 
       // Pay for order
@@ -501,8 +500,14 @@ describe('Orders Create API - Integration Tests', () => {
 
       expect(payResponse.status).toBe(200);
       expect(payResponse.body.ok).toBe(true);
-      expect(payResponse.body.data.payment_status).toBe('PAID');
-      expect(payResponse.body.data.status).toBe('ACCEPTED'); // Auto-accept after payment
+      expect(payResponse.body.data.order_id).toBe(orderId);
+      expect(payResponse.body.data.status).toBe('PENDING');
+      expect(payResponse.body.data.provider_ref).toBeTruthy();
+
+      // The order is confirmed by the provider webhook, not by this call
+      const order = await query('SELECT status, payment_status FROM orders WHERE id = $1', [orderId]);
+      expect(order.rows[0].status).toBe('CREATED');
+      expect(order.rows[0].payment_status).toBe('PENDING');
     });
 
     it('should return 400 if order is already paid', async () => {
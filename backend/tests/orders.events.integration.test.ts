@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { stopOrderEventsListener } from '../src/realtime/orderEvents';
+import jwt from 'jsonwebtoken';
+
+interface ReceivedEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Minimal SSE client: collects parsed events until closed
+ */
+function openStream(url: string, headers: Record<string, string>) {
+  const events: ReceivedEvent[] = [];
+  let status = 0;
+  let req: http.ClientRequest;
+
+  const ready = new Promise<void>((resolve, reject) => {
+    req = http.get(url, { headers }, (res) => {
+      status = res.statusCode || 0;
+      let buffer = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        buffer += chunk;
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+        for (const block of blocks) {
+          const eventLine = block.split('\n').find((l) => l.startsWith('event: '));
+          const dataLine = block.split('\n').find((l) => l.startsWith('data: '));
+          if (eventLine && dataLine) {
+            events.push({ event: eventLine.slice(7), data: JSON.parse(dataLine.slice(6)) });
+          }
+        }
+      });
+      resolve();
+    });
+    req.on('error', reject);
+  });
+
+  return {
+    events,
+    ready,
+    get status() {
+      return status;
+    },
+    close: () => req.destroy(),
+  };
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 3000) {
+  const start = Date.now();
+  while (!predicate()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+describe('Order Events Stream - Integration Tests', () => {
+  let app: FastifyInstance;
+  let baseUrl: string;
+  let restaurantId: string;
+  let userId: string;
+  let userToken: string;
+  let orderId: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  beforeAll(async () => {
+    // Set ADMIN_API_KEY for tests
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.listen({ port: 0, host: '127.0.0.1' });
+    const address = app.server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userId = userResult.rows[0].id;
+
+    userToken = jwt.sign(
+      { userId },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Roma', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    const orderResult = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json)
+       VALUES ($1, $2, 'ACCEPTED', 'CASH', 'PAID', 1000, 0, 0, 1000, '{}')
+       RETURNING id`,
+      [userId, restaurantId]
+    );
+    orderId = orderResult.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await stopOrderEventsListener();
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('GET /orders/:orderId/events', () => {
+    it('should return 401 if not authenticated', async () => {
+      const response = await request(app.server).get(`/orders/${orderId}/events`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 404 if user does not own order', async () => {
+      const otherToken = jwt.sign(
+        { userId: '00000000-0000-0000-0000-000000000000' },
+        process.env.JWT_SECRET || 'test-secret',
+        { expiresIn: '1h' }
+      );
+
+      const response = await request(app.server)
+        .get(`/orders/${orderId}/events`)
+        .set('Cookie', `access_token=${otherToken}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('NOT_FOUND');
+    });
+
+    it('should send a snapshot and then status changes', async () => {
+      const stream = openStream(`${baseUrl}/orders/${orderId}/events`, {
+        Cookie: `access_token=${userToken}`,
+      });
+      await stream.ready;
+
+      try {
+        expect(stream.status).toBe(200);
+        await waitFor(() => stream.events.some((e) => e.event === 'snapshot'));
+        expect(stream.events[0].data.status).toBe('ACCEPTED');
+
+        await request(app.server)
+          .patch(`/admin/orders/${orderId}/status`)
+          .set('x-admin-key', adminKey)
+          .send({ status: 'PREPARING' });
+
+        await waitFor(() => stream.events.some((e) => e.event === 'order.status_changed'));
+        const change = stream.events.find((e) => e.event === 'order.status_changed')!;
+        expect(change.data.order_id).toBe(orderId);
+        expect(change.data.from_status).toBe('ACCEPTED');
+        expect(change.data.status).toBe('PREPARING');
+      } finally {
+        stream.close();
+      }
+    });
+
+    it('should not deliver events for rejected transitions', async () => {
+      const stream = openStream(`${baseUrl}/orders/${orderId}/events`, {
+        Cookie: `access_token=${userToken}`,
+      });
+      await stream.ready;
+
+      try {
+        await waitFor(() => stream.events.some((e) => e.event === 'snapshot'));
+
+        const rejected = await request(app.server)
+          .patch(`/admin/orders/${orderId}/status`)
+          .set('x-admin-key', adminKey)
+          .send({ status: 'DELIVERED' });
+        expect(rejected.status).toBe(409);
+
+        await request(app.server)
+          .patch(`/admin/orders/${orderId}/status`)
+          .set('x-admin-key', adminKey)
+          .send({ status: 'CANCELLED' });
+
+        await waitFor(() => stream.events.some((e) => e.event === 'order.status_changed'));
+        const changes = stream.events.filter((e) => e.event === 'order.status_changed');
+        expect(changes).toHaveLength(1);
+        expect(changes[0].data.status).toBe('CANCELLED');
+      } finally {
+        stream.close();
+      }
+    });
+  });
+
+  describe('GET /admin/restaurants/:restaurantId/orders/events', () => {
+    it('should return 401 without admin key', async () => {
+      const response = await request(app.server).get(
+        `/admin/restaurants/${restaurantId}/orders/events`
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should only stream events of the given restaurant', async () => {
+      const otherRestaurant = await query(
+        `INSERT INTO restaurants (slug, name, address, city, is_active)
+         VALUES ('sushi-test', 'Sushi Test', 'Via Test 2', 'Roma', true)
+         RETURNING id`
+      );
+      const otherOrder = await query(
+        `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json)
+         VALUES ($1, $2, 'ACCEPTED', 'CASH', 'PAID', 1000, 0, 0, 1000, '{}')
+         RETURNING id`,
+        [userId, otherRestaurant.rows[0].id]
+      );
+
+      const stream = openStream(`${baseUrl}/admin/restaurants/${restaurantId}/orders/events`, {
+        'x-admin-key': adminKey,
+      });
+      await stream.ready;
+
+      try {
+        expect(stream.status).toBe(200);
+
+        await request(app.server)
+          .patch(`/admin/orders/${otherOrder.rows[0].id}/status`)
+          .set('x-admin-key', adminKey)
+          .send({ status: 'PREPARING' });
+
+        await request(app.server)
+          .patch(`/admin/orders/${orderId}/status`)
+          .set('x-admin-key', adminKey)
+          .send({ status: 'PREPARING' });
+
+        await waitFor(() => stream.events.length > 0);
+        // Give the other restaurant's event a chance to (wrongly) arrive
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(stream.events).toHaveLength(1);
+        expect(stream.events[0].data.order_id).toBe(orderId);
+        expect(stream.events[0].data.restaurant_id).toBe(restaurantId);
+      } finally {
+        stream.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { calculateFees, haversineDistanceMeters } from '../src/utils/fees';
+import { TableGeocoder } from '../src/geocoding/TableGeocoder';
+import jwt from 'jsonwebtoken';
+
+// Restaurant in Amantea; the addresses below are ~1.1 km and ~3.3 km away
+const RESTAURANT_POSITION = { lat: 39.1336, lng: 16.0771 };
+const NEAR_POSITION = { lat: 39.1436, lng: 16.0771 };
+const FAR_POSITION = { lat: 39.1636, lng: 16.0771 };
+const NEAR_ADDRESS = { street: 'Via Dogana 20', city: 'Amantea', postal_code: '87032' };
+const FAR_ADDRESS = { street: 'Via Stromboli 5', city: 'Amantea', postal_code: '87032' };
+
+describe('Order Fees - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let productId: string;
+  let userToken: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+  const serviceFeeEnv = ['SERVICE_FEE_TYPE', 'SERVICE_FEE_VALUE', 'SERVICE_FEE_MIN_CENTS', 'SERVICE_FEE_MAX_CENTS'];
+
+  // Without an address, one the geocoder does not know
+  function createOrder(qty: number, address?: Record<string, unknown>) {
+    return request(app.server)
+      .post('/orders')
+      .set('Cookie', `access_token=${userToken}`)
+      .send({
+        restaurant_id: restaurantId,
+        payment_method: 'CASH',
+        delivery_address: address || { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' },
+        items: [{ product_id: productId, qty }],
+      });
+  }
+
+  async function setDeliveryRules(rules: Record<string, unknown>) {
+    const response = await request(app.server)
+      .put(`/admin/restaurants/${restaurantId}/delivery-rules`)
+      .set('x-admin-key', adminKey)
+      .send(rules);
+    expect(response.status).toBe(200);
+    return response;
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userToken = jwt.sign(
+      { userId: userResult.rows[0].id },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active, lat, lng)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', true, $1, $2)
+       RETURNING id`,
+      [RESTAURANT_POSITION.lat, RESTAURANT_POSITION.lng]
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, '00:00', '23:59' FROM generate_series(0, 6) AS d`,
+      [restaurantId]
+    );
+
+    const categoryResult = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, 'Pizze', 0, true) RETURNING id`,
+      [restaurantId]
+    );
+
+    const productResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Margherita', 800, 0, true) RETURNING id`,
+      [restaurantId, categoryResult.rows[0].id]
+    );
+    productId = productResult.rows[0].id;
+
+    const geocoder = new TableGeocoder();
+    await geocoder.save(NEAR_ADDRESS, NEAR_POSITION);
+    await geocoder.save(FAR_ADDRESS, FAR_POSITION);
+  });
+
+  afterEach(() => {
+    serviceFeeEnv.forEach((name) => delete process.env[name]);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('fee engine', () => {
+    it('should compute distances with the haversine formula', () => {
+      const distance = haversineDistanceMeters(
+        RESTAURANT_POSITION.lat,
+        RESTAURANT_POSITION.lng,
+        NEAR_POSITION.lat,
+        NEAR_POSITION.lng
+      );
+
+      expect(distance).toBeGreaterThan(1100);
+      expect(distance).toBeLessThan(1120);
+    });
+
+    it('should clamp a percent service fee to min and max', () => {
+      const rules = { delivery_fee_cents: 0, free_delivery_threshold_cents: null, distance_bands: [] };
+      const serviceFee = { type: 'percent' as const, value: 10, min_cents: 100, max_cents: 300 };
+
+      const fee = (subtotal: number) =>
+        calculateFees({ subtotal_cents: subtotal, distance_m: null, delivery_rules: rules, service_fee: serviceFee })
+          .service.fee_cents;
+
+      expect(fee(500)).toBe(100);
+      expect(fee(2000)).toBe(200);
+      expect(fee(9000)).toBe(300);
+    });
+  });
+
+  describe('POST /orders', () => {
+    it('should charge the base delivery fee and persist the breakdown', async () => {
+      await setDeliveryRules({ delivery_fee_cents: 250 });
+
+      const response = await createOrder(2);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.subtotal_cents).toBe(1600);
+      expect(response.body.data.delivery_fee_cents).toBe(250);
+      expect(response.body.data.service_fee_cents).toBe(0);
+      expect(response.body.data.total_cents).toBe(1850);
+
+      const stored = await query('SELECT fee_breakdown FROM orders WHERE id = $1', [
+        response.body.data.id,
+      ]);
+      expect(stored.rows[0].fee_breakdown.delivery).toMatchObject({
+        base_fee_cents: 250,
+        free_delivery_applied: false,
+        fee_cents: 250,
+      });
+      expect(stored.rows[0].fee_breakdown.total_cents).toBe(1850);
+    });
+
+    it('should waive the delivery fee above the free delivery threshold', async () => {
+      await setDeliveryRules({ delivery_fee_cents: 250, free_delivery_threshold_cents: 2000 });
+
+      const below = await createOrder(2);
+      expect(below.body.data.delivery_fee_cents).toBe(250);
+
+      const above = await createOrder(3);
+      expect(above.status).toBe(201);
+      expect(above.body.data.delivery_fee_cents).toBe(0);
+      expect(above.body.data.total_cents).toBe(2400);
+      expect(above.body.data.fee_breakdown.delivery.free_delivery_applied).toBe(true);
+    });
+
+    it('should pick the distance band for the delivery position', async () => {
+      await setDeliveryRules({
+        delivery_fee_cents: 500,
+        distance_bands: [
+          { up_to_m: 5000, fee_cents: 300 },
+          { up_to_m: 2000, fee_cents: 150 },
+        ],
+      });
+
+      const near = await createOrder(2, NEAR_ADDRESS);
+      expect(near.status).toBe(201);
+      expect(near.body.data.delivery_fee_cents).toBe(150);
+      expect(near.body.data.fee_breakdown.delivery.band_up_to_m).toBe(2000);
+
+      const far = await createOrder(2, FAR_ADDRESS);
+      expect(far.body.data.delivery_fee_cents).toBe(300);
+
+      // Moving the pin to the restaurant door does not buy a cheaper band
+      const movedPin = await createOrder(2, { ...FAR_ADDRESS, ...RESTAURANT_POSITION });
+      expect(movedPin.status).toBe(400);
+      expect(movedPin.body.error).toBe('DELIVERY_LOCATION_MISMATCH');
+
+      // An address the geocoder cannot locate gets the base fee
+      const unknown = await createOrder(2);
+      expect(unknown.body.data.delivery_fee_cents).toBe(500);
+    });
+
+    it('should reject addresses beyond the last distance band', async () => {
+      await setDeliveryRules({ distance_bands: [{ up_to_m: 2000, fee_cents: 150 }] });
+
+      const response = await createOrder(2, FAR_ADDRESS);
+
+      expect(response.status).toBe(400);
+      expect(response.body.ok).toBe(false);
+      expect(response.body.error).toBe('DELIVERY_OUT_OF_RANGE');
+    });
+
+    it('should add the configured service fee', async () => {
+      process.env.SERVICE_FEE_TYPE = 'flat';
+      process.env.SERVICE_FEE_VALUE = '99';
+
+      const flat = await createOrder(2);
+      expect(flat.body.data.service_fee_cents).toBe(99);
+      expect(flat.body.data.total_cents).toBe(1699);
+
+      process.env.SERVICE_FEE_TYPE = 'percent';
+      process.env.SERVICE_FEE_VALUE = '5';
+      process.env.SERVICE_FEE_MIN_CENTS = '100';
+
+      const percent = await createOrder(2);
+      expect(percent.body.data.service_fee_cents).toBe(100);
+      expect(percent.body.data.fee_breakdown.service).toMatchObject({
+        type: 'percent',
+        value: 5,
+        min_cents: 100,
+        fee_cents: 100,
+      });
+    });
+  });
+
+  describe('PUT /admin/restaurants/:id/delivery-rules', () => {
+    it('should keep the threshold and bands when not provided', async () => {
+      await setDeliveryRules({
+        free_delivery_threshold_cents: 3000,
+        distance_bands: [{ up_to_m: 3000, fee_cents: 200 }],
+      });
+
+      const response = await setDeliveryRules({ eta_min: 20, eta_max: 40 });
+
+      expect(response.body.data.free_delivery_threshold_cents).toBe(3000);
+      expect(response.body.data.distance_bands).toEqual([{ up_to_m: 3000, fee_cents: 200 }]);
+
+      const cleared = await setDeliveryRules({ free_delivery_threshold_cents: null });
+      expect(cleared.body.data.free_delivery_threshold_cents).toBeNull();
+    });
+  });
+});
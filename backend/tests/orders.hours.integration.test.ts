@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Opening hours are evaluated in Europe/Rome.
+ * March 2025 is before the DST switch, so Rome is UTC+1.
+ * 2025-03-12 is a Wednesday (day_of_week 3).
+ */
+describe('Order Opening Hours - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let productId: string;
+  let userToken: string;
+
+  function setRomeTime(isoLocal: string) {
+    vi.setSystemTime(new Date(`${isoLocal}+01:00`));
+  }
+
+  async function addHours(dayOfWeek: number, openTime: string, closeTime: string) {
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       VALUES ($1, $2, $3, $4)`,
+      [restaurantId, dayOfWeek, openTime, closeTime]
+    );
+  }
+
+  async function addOverride(date: string, isClosed: boolean, openTime?: string, closeTime?: string) {
+    await query(
+      `INSERT INTO restaurant_overrides (restaurant_id, date, is_closed, open_time, close_time)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [restaurantId, date, isClosed, openTime || null, closeTime || null]
+    );
+  }
+
+  function placeOrder() {
+    return request(app.server)
+      .post('/orders')
+      .set('Cookie', `access_token=${userToken}`)
+      .send({
+        restaurant_id: restaurantId,
+        payment_method: 'CASH',
+        delivery_address: { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' },
+        items: [{ product_id: productId, qty: 1 }],
+      });
+  }
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    // Only Date is faked: timers and I/O keep working
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userToken = jwt.sign(
+      { userId: userResult.rows[0].id },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    const categoryResult = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, 'Pizze', 0, true) RETURNING id`,
+      [restaurantId]
+    );
+
+    const productResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Margherita', 800, 0, true) RETURNING id`,
+      [restaurantId, categoryResult.rows[0].id]
+    );
+    productId = productResult.rows[0].id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('weekly hours', () => {
+    beforeEach(async () => {
+      await addHours(3, '12:00', '15:00');
+      await addHours(3, '19:00', '23:00');
+    });
+
+    it('should accept orders during an opening slot', async () => {
+      setRomeTime('2025-03-12T13:00:00');
+
+      const response = await placeOrder();
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should reject orders between slots with the next opening time', async () => {
+      setRomeTime('2025-03-12T16:00:00');
+
+      const response = await placeOrder();
+
+      expect(response.status).toBe(400);
+      expect(response.body.ok).toBe(false);
+      expect(response.body.error).toBe('RESTAURANT_CLOSED');
+      expect(response.body.details).toEqual({
+        reason: 'OUTSIDE_HOURS',
+        next_open_at: '2025-03-12T19:00:00.000+01:00',
+        note: null,
+      });
+    });
+
+    it('should point to the following week after the last slot', async () => {
+      setRomeTime('2025-03-12T23:30:00');
+
+      const response = await placeOrder();
+
+      expect(response.status).toBe(400);
+      expect(response.body.details.next_open_at).toBe('2025-03-19T12:00:00.000+01:00');
+    });
+
+    it('should return a null next opening when the restaurant has no hours', async () => {
+      await query('DELETE FROM restaurant_hours WHERE restaurant_id = $1', [restaurantId]);
+      setRomeTime('2025-03-12T13:00:00');
+
+      const response = await placeOrder();
+
+      expect(response.status).toBe(400);
+      expect(response.body.details.next_open_at).toBeNull();
+    });
+  });
+
+  describe('slots crossing midnight', () => {
+    beforeEach(async () => {
+      // Friday 19:00 → Saturday 02:00
+      await addHours(5, '19:00', '02:00');
+    });
+
+    it('should accept orders after midnight within the previous day slot', async () => {
+      setRomeTime('2025-03-15T01:30:00');
+
+      const response = await placeOrder();
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should reject orders once the slot has closed', async () => {
+      setRomeTime('2025-03-15T02:30:00');
+
+      const response = await placeOrder();
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('RESTAURANT_CLOSED');
+      expect(response.body.details.next_open_at).toBe('2025-03-21T19:00:00.000+01:00');
+    });
+  });
+
+  describe('overrides', () => {
+    beforeEach(async () => {
+      for (let day = 0; day <= 6; day++) {
+        await addHours(day, '12:00', '15:00');
+      }
+    });
+
+    it('should reject orders on a day closed by an override', async () => {
+      await addOverride('2025-03-12', true);
+      setRomeTime('2025-03-12T13:00:00');
+
+      const response = await placeOrder();
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('RESTAURANT_CLOSED');
+      expect(response.body.details.next_open_at).toBe('2025-03-13T12:00:00.000+01:00');
+    });
+
+    it('should use the override hours instead of the weekly hours', async () => {
+      await addOverride('2025-03-12', false, '18:00', '20:00');
+
+      setRomeTime('2025-03-12T13:00:00');
+      const duringWeeklyHours = await placeOrder();
+      expect(duringWeeklyHours.status).toBe(400);
+      expect(duringWeeklyHours.body.details.next_open_at).toBe('2025-03-12T18:00:00.000+01:00');
+
+      setRomeTime('2025-03-12T19:00:00');
+      const duringOverrideHours = await placeOrder();
+      expect(duringOverrideHours.status).toBe(201);
+    });
+
+    it('should skip upcoming days closed by an override', async () => {
+      await addOverride('2025-03-13', true);
+      setRomeTime('2025-03-12T16:00:00');
+
+      const response = await placeOrder();
+
+      expect(response.body.details.next_open_at).toBe('2025-03-14T12:00:00.000+01:00');
+    });
+  });
+
+  describe('force_closed', () => {
+    it('should reject orders even during opening hours', async () => {
+      await addHours(3, '12:00', '15:00');
+      await query(
+        `UPDATE restaurants SET force_closed = true, force_closed_note = 'Forno rotto' WHERE id = $1`,
+        [restaurantId]
+      );
+      setRomeTime('2025-03-12T13:00:00');
+
+      const response = await placeOrder();
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('RESTAURANT_CLOSED');
+      expect(response.body.details).toEqual({
+        reason: 'FORCE_CLOSED',
+        next_open_at: null,
+        note: 'Forno rotto',
+      });
+
+      const orders = await query('SELECT COUNT(*)::int AS count FROM orders');
+      expect(orders.rows[0].count).toBe(0);
+    });
+
+    it('should report the closure in cart quotes', async () => {
+      await addHours(3, '19:00', '23:00');
+      setRomeTime('2025-03-12T16:00:00');
+
+      const response = await request(app.server)
+        .post('/cart/quote')
+        .send({ restaurant_id: restaurantId, items: [{ product_id: productId, qty: 1 }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.can_order).toBe(false);
+      expect(response.body.data.problems[0]).toEqual({
+        line_index: null,
+        code: 'RESTAURANT_CLOSED',
+        detail: 'OUTSIDE_HOURS',
+        next_open_at: '2025-03-12T19:00:00.000+01:00',
+      });
+    });
+  });
+});
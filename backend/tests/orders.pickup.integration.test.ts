@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import jwt from 'jsonwebtoken';
+
+describe('Pickup Orders - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let productId: string;
+  let userToken: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  function placeOrder(body: Record<string, unknown>) {
+    return request(app.server)
+      .post('/orders')
+      .set('Cookie', `access_token=${userToken}`)
+      .send({
+        restaurant_id: restaurantId,
+        payment_method: 'CASH',
+        items: [{ product_id: productId, qty: 1 }],
+        ...body,
+      });
+  }
+
+  function setStatus(orderId: string, status: string) {
+    return request(app.server)
+      .patch(`/admin/orders/${orderId}/status`)
+      .set('x-admin-key', adminKey)
+      .send({ status });
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userToken = jwt.sign(
+      { userId: userResult.rows[0].id },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active, offers_delivery, offers_pickup)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', true, true, true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_delivery_rules (restaurant_id, min_order_cents, delivery_fee_cents, eta_min, eta_max)
+       VALUES ($1, 1500, 300, 30, 45)`,
+      [restaurantId]
+    );
+
+    // Open all day, every day
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, '00:00', '23:59' FROM generate_series(0, 6) AS d`,
+      [restaurantId]
+    );
+
+    const categoryResult = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, 'Pizze', 0, true) RETURNING id`,
+      [restaurantId]
+    );
+
+    const productResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Margherita', 800, 0, true) RETURNING id`,
+      [restaurantId, categoryResult.rows[0].id]
+    );
+    productId = productResult.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('POST /orders', () => {
+    it('should create a pickup order without address, delivery fee or minimum order', async () => {
+      const response = await placeOrder({ fulfilment_type: 'PICKUP' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.fulfilment_type).toBe('PICKUP');
+      expect(response.body.data.address_json).toBeNull();
+      expect(response.body.data.subtotal_cents).toBe(800);
+      expect(response.body.data.delivery_fee_cents).toBe(0);
+    });
+
+    it('should default to delivery and still require an address for it', async () => {
+      const noAddress = await placeOrder({});
+      expect(noAddress.status).toBe(400);
+      expect(noAddress.body.error).toBe('VALIDATION_ERROR');
+
+      const delivery = await placeOrder({
+        delivery_address: { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' },
+        items: [{ product_id: productId, qty: 2 }],
+      });
+      expect(delivery.status).toBe(201);
+      expect(delivery.body.data.fulfilment_type).toBe('DELIVERY');
+      expect(delivery.body.data.delivery_fee_cents).toBe(300);
+    });
+
+    it('should reject a mode the restaurant does not offer', async () => {
+      await query('UPDATE restaurants SET offers_pickup = false WHERE id = $1', [restaurantId]);
+
+      const response = await placeOrder({ fulfilment_type: 'PICKUP' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('FULFILMENT_NOT_AVAILABLE');
+
+      const quote = await request(app.server)
+        .post('/cart/quote')
+        .send({
+          restaurant_id: restaurantId,
+          fulfilment_type: 'PICKUP',
+          items: [{ product_id: productId, qty: 2 }],
+        });
+      expect(quote.body.data.can_order).toBe(false);
+      expect(quote.body.data.problems[0].code).toBe('FULFILMENT_NOT_AVAILABLE');
+    });
+  });
+
+  describe('status path', () => {
+    it('should go from READY to COLLECTED and never out for delivery', async () => {
+      const order = await placeOrder({ fulfilment_type: 'PICKUP' });
+      const orderId = order.body.data.id;
+
+      expect((await setStatus(orderId, 'PREPARING')).status).toBe(200);
+      expect((await setStatus(orderId, 'READY')).status).toBe(200);
+
+      const pickedUp = await setStatus(orderId, 'PICKED_UP');
+      expect(pickedUp.status).toBe(409);
+
+      const collected = await setStatus(orderId, 'COLLECTED');
+      expect(collected.status).toBe(200);
+      expect(collected.body.data.status).toBe('COLLECTED');
+    });
+
+    it('should not let delivery orders be collected', async () => {
+      const order = await placeOrder({
+        delivery_address: { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' },
+        items: [{ product_id: productId, qty: 2 }],
+      });
+      const orderId = order.body.data.id;
+
+      await setStatus(orderId, 'PREPARING');
+      await setStatus(orderId, 'READY');
+
+      expect((await setStatus(orderId, 'COLLECTED')).status).toBe(409);
+    });
+  });
+
+  describe('restaurant modes', () => {
+    it('should expose the offered modes and let admins change them', async () => {
+      const list = await request(app.server).get('/restaurants');
+      expect(list.body.data[0]).toMatchObject({ offers_delivery: true, offers_pickup: true });
+
+      const update = await request(app.server)
+        .patch(`/admin/restaurants/${restaurantId}`)
+        .set('x-admin-key', adminKey)
+        .send({ offers_delivery: false });
+      expect(update.status).toBe(200);
+      expect(update.body.data.offers_delivery).toBe(false);
+
+      const neither = await request(app.server)
+        .patch(`/admin/restaurants/${restaurantId}`)
+        .set('x-admin-key', adminKey)
+        .send({ offers_pickup: false });
+      expect(neither.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Slots are computed in Europe/Rome.
+ * March 2025 is before the DST switch, so Rome is UTC+1.
+ * 2025-03-12 is a Wednesday (day_of_week 3).
+ */
+describe('Scheduled Orders - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let productId: string;
+  let userToken: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  function setRomeTime(isoLocal: string) {
+    vi.setSystemTime(new Date(`${isoLocal}+01:00`));
+  }
+
+  function placeOrder(scheduledFor?: string) {
+    return request(app.server)
+      .post('/orders')
+      .set('Cookie', `access_token=${userToken}`)
+      .send({
+        restaurant_id: restaurantId,
+        payment_method: 'CASH',
+        delivery_address: { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' },
+        items: [{ product_id: productId, qty: 1 }],
+        scheduled_for: scheduledFor,
+      });
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    // Only Date is faked: timers and I/O keep working
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userToken = jwt.sign(
+      { userId: userResult.rows[0].id },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_delivery_rules (restaurant_id, min_order_cents, delivery_fee_cents, eta_min, eta_max)
+       VALUES ($1, 0, 0, 30, 45)`,
+      [restaurantId]
+    );
+
+    // Dinner only, every day
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, '19:00', '22:00' FROM generate_series(0, 6) AS d`,
+      [restaurantId]
+    );
+
+    const categoryResult = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, 'Pizze', 0, true) RETURNING id`,
+      [restaurantId]
+    );
+
+    const productResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Margherita', 800, 0, true) RETURNING id`,
+      [restaurantId, categoryResult.rows[0].id]
+    );
+    productId = productResult.rows[0].id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('GET /restaurants/:slug/slots', () => {
+    it('should list 15-minute slots from opening + eta_min until closing', async () => {
+      setRomeTime('2025-03-12T10:00:00');
+
+      const response = await request(app.server).get('/restaurants/pizza-test/slots');
+
+      expect(response.status).toBe(200);
+      expect(response.body.ok).toBe(true);
+      expect(response.body.data.asap_available).toBe(false);
+      expect(response.body.data.timezone).toBe('Europe/Rome');
+
+      const starts: string[] = response.body.data.slots.map((s: any) => s.start);
+      const today = starts.filter((s) => s.startsWith('2025-03-12'));
+      expect(today[0]).toBe('2025-03-12T19:30:00.000+01:00');
+      expect(today[today.length - 1]).toBe('2025-03-12T22:00:00.000+01:00');
+      expect(today).toHaveLength(11);
+      expect(response.body.data.slots[0].end).toBe('2025-03-12T19:45:00.000+01:00');
+
+      // Today and the next two days
+      expect(starts[starts.length - 1]).toBe('2025-03-14T22:00:00.000+01:00');
+    });
+
+    it('should start at least eta_max from now while open', async () => {
+      setRomeTime('2025-03-12T20:05:00');
+
+      const response = await request(app.server).get('/restaurants/pizza-test/slots');
+
+      expect(response.body.data.asap_available).toBe(true);
+      expect(response.body.data.slots[0].start).toBe('2025-03-12T21:00:00.000+01:00');
+    });
+
+    it('should skip days closed by an override', async () => {
+      await query(
+        `INSERT INTO restaurant_overrides (restaurant_id, date, is_closed) VALUES ($1, '2025-03-13', true)`,
+        [restaurantId]
+      );
+      setRomeTime('2025-03-12T10:00:00');
+
+      const response = await request(app.server).get('/restaurants/pizza-test/slots');
+
+      const starts: string[] = response.body.data.slots.map((s: any) => s.start);
+      expect(starts.some((s) => s.startsWith('2025-03-13'))).toBe(false);
+      expect(starts.some((s) => s.startsWith('2025-03-14'))).toBe(true);
+    });
+
+    it('should return no slots when force closed and 404 for unknown restaurants', async () => {
+      await query('UPDATE restaurants SET force_closed = true WHERE id = $1', [restaurantId]);
+      setRomeTime('2025-03-12T10:00:00');
+
+      const closed = await request(app.server).get('/restaurants/pizza-test/slots');
+      expect(closed.status).toBe(200);
+      expect(closed.body.data.slots).toEqual([]);
+
+      const notFound = await request(app.server).get('/restaurants/unknown/slots');
+      expect(notFound.status).toBe(404);
+    });
+  });
+
+  describe('POST /orders with scheduled_for', () => {
+    it('should accept a pre-order while the restaurant is closed', async () => {
+      setRomeTime('2025-03-12T10:00:00');
+
+      const response = await placeOrder('2025-03-12T20:00:00+01:00');
+
+      expect(response.status).toBe(201);
+      expect(new Date(response.body.data.scheduled_for).toISOString()).toBe(
+        '2025-03-12T19:00:00.000Z'
+      );
+
+      const asap = await placeOrder();
+      expect(asap.status).toBe(400);
+      expect(asap.body.error).toBe('RESTAURANT_CLOSED');
+    });
+
+    it('should reject a time outside the available slots', async () => {
+      setRomeTime('2025-03-12T10:00:00');
+
+      const outsideHours = await placeOrder('2025-03-12T15:00:00+01:00');
+      expect(outsideHours.status).toBe(400);
+      expect(outsideHours.body.error).toBe('SLOT_NOT_AVAILABLE');
+
+      const offGrid = await placeOrder('2025-03-12T20:05:00+01:00');
+      expect(offGrid.status).toBe(400);
+      expect(offGrid.body.error).toBe('SLOT_NOT_AVAILABLE');
+
+      const orders = await query('SELECT COUNT(*)::int AS count FROM orders');
+      expect(orders.rows[0].count).toBe(0);
+    });
+
+    it('should let the quote accept a valid slot', async () => {
+      setRomeTime('2025-03-12T10:00:00');
+
+      const response = await request(app.server)
+        .post('/cart/quote')
+        .send({
+          restaurant_id: restaurantId,
+          items: [{ product_id: productId, qty: 1 }],
+          scheduled_for: '2025-03-12T20:00:00+01:00',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.can_order).toBe(true);
+    });
+  });
+
+  describe('GET /admin/orders?scheduled=', () => {
+    it('should separate upcoming scheduled orders from due ones', async () => {
+      setRomeTime('2025-03-12T10:00:00');
+      const later = await placeOrder('2025-03-13T21:00:00+01:00');
+      const soon = await placeOrder('2025-03-12T20:00:00+01:00');
+      expect(later.status).toBe(201);
+      expect(soon.status).toBe(201);
+
+      // 19:20: the 20:00 order is due (eta_max 45 min), tomorrow's is not
+      setRomeTime('2025-03-12T19:20:00');
+      const asap = await placeOrder();
+      expect(asap.status).toBe(201);
+
+      const upcoming = await request(app.server)
+        .get('/admin/orders?scheduled=upcoming')
+        .set('x-admin-key', adminKey);
+      expect(upcoming.status).toBe(200);
+      expect(upcoming.body.data.map((o: any) => o.id)).toEqual([later.body.data.id]);
+
+      const due = await request(app.server)
+        .get('/admin/orders?scheduled=due')
+        .set('x-admin-key', adminKey);
+      expect(due.body.data.map((o: any) => o.id).sort()).toEqual(
+        [soon.body.data.id, asap.body.data.id].sort()
+      );
+    });
+
+    it('should list pre-orders under their delivery day', async () => {
+      setRomeTime('2025-03-12T10:00:00');
+      const preOrder = await placeOrder('2025-03-13T21:00:00+01:00');
+      expect(preOrder.status).toBe(201);
+
+      setRomeTime('2025-03-13T20:30:00');
+      const response = await request(app.server)
+        .get('/admin/orders?from=2025-03-13&scheduled=due')
+        .set('x-admin-key', adminKey);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((o: any) => o.id)).toEqual([preOrder.body.data.id]);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { pool, query } from '../src/db';
+import { EmailProvider } from '../src/email/EmailProvider';
+import {
+  sweepUnpaidOrders,
+  UNPAID_ORDER_CANCELLATION_REASON,
+} from '../src/jobs/unpaidOrdersSweeper';
+
+interface SentEmail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * EmailProvider recording every message, optionally failing
+ */
+class RecordingEmailProvider implements EmailProvider {
+  sent: SentEmail[] = [];
+  fail = false;
+
+  async send(to: string, subject: string, text: string): Promise<void> {
+    if (this.fail) {
+      throw new Error('SMTP down');
+    }
+    this.sent.push({ to, subject, text });
+  }
+}
+
+describe('Unpaid Orders Sweeper - Integration Tests', () => {
+  let emailProvider: RecordingEmailProvider;
+  let restaurantId: string;
+  let userId: string;
+  const TIMEOUT_MINUTES = 15;
+
+  async function insertOrder(data: {
+    userId?: string;
+    status?: string;
+    paymentMethod?: string;
+    paymentStatus?: string;
+    minutesAgo: number;
+  }): Promise<string> {
+    const result = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json, created_at)
+       VALUES ($1, $2, $3, $4, $5, 1000, 0, 0, 1000, '{}', NOW() - make_interval(mins => $6))
+       RETURNING id`,
+      [
+        data.userId || userId,
+        restaurantId,
+        data.status || 'CREATED',
+        data.paymentMethod || 'ONLINE',
+        data.paymentStatus || 'PENDING',
+        data.minutesAgo,
+      ]
+    );
+    return result.rows[0].id;
+  }
+
+  async function getOrderRow(orderId: string) {
+    const result = await query(
+      'SELECT status, cancellation_reason FROM orders WHERE id = $1',
+      [orderId]
+    );
+    return result.rows[0];
+  }
+
+  beforeEach(async () => {
+    await resetDatabase();
+    emailProvider = new RecordingEmailProvider();
+
+    const userResult = await query(
+      `INSERT INTO users (email, name, status)
+       VALUES ('mario@example.com', 'Mario', 'active')
+       RETURNING id`
+    );
+    userId = userResult.rows[0].id;
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Roma', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await closeDatabasePool();
+  });
+
+  it('should cancel only ONLINE orders unpaid past the timeout', async () => {
+    const expiredId = await insertOrder({ minutesAgo: 30 });
+    const freshId = await insertOrder({ minutesAgo: 5 });
+    const paidId = await insertOrder({ status: 'ACCEPTED', paymentStatus: 'PAID', minutesAgo: 30 });
+    const cashId = await insertOrder({
+      status: 'ACCEPTED',
+      paymentMethod: 'CASH',
+      paymentStatus: 'PAID',
+      minutesAgo: 30,
+    });
+
+    const cancelledIds = await sweepUnpaidOrders({ emailProvider, timeoutMinutes: TIMEOUT_MINUTES });
+
+    expect(cancelledIds).toEqual([expiredId]);
+
+    const expired = await getOrderRow(expiredId);
+    expect(expired.status).toBe('CANCELLED');
+    expect(expired.cancellation_reason).toBe(UNPAID_ORDER_CANCELLATION_REASON);
+
+    expect((await getOrderRow(freshId)).status).toBe('CREATED');
+    expect((await getOrderRow(paidId)).status).toBe('ACCEPTED');
+    expect((await getOrderRow(cashId)).status).toBe('ACCEPTED');
+  });
+
+  it('should record a SYSTEM status event with the reason', async () => {
+    const orderId = await insertOrder({ minutesAgo: 30 });
+
+    await sweepUnpaidOrders({ emailProvider, timeoutMinutes: TIMEOUT_MINUTES });
+
+    const events = await query(
+      'SELECT from_status, to_status, actor_type, reason FROM order_status_events WHERE order_id = $1',
+      [orderId]
+    );
+    expect(events.rows).toEqual([
+      {
+        from_status: 'CREATED',
+        to_status: 'CANCELLED',
+        actor_type: 'SYSTEM',
+        reason: UNPAID_ORDER_CANCELLATION_REASON,
+      },
+    ]);
+  });
+
+  it('should email the customer', async () => {
+    const orderId = await insertOrder({ minutesAgo: 30 });
+
+    await sweepUnpaidOrders({ emailProvider, timeoutMinutes: TIMEOUT_MINUTES });
+
+    expect(emailProvider.sent).toHaveLength(1);
+    expect(emailProvider.sent[0].to).toBe('mario@example.com');
+    expect(emailProvider.sent[0].text).toContain(orderId.substring(0, 8));
+    expect(emailProvider.sent[0].text).toContain(`${TIMEOUT_MINUTES} minuti`);
+    expect(emailProvider.sent[0].text).toContain('rimborsato');
+  });
+
+  it('should skip the email for customers without an address and survive email failures', async () => {
+    const phoneUser = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Phone User', 'active')
+       RETURNING id`
+    );
+    const phoneOrderId = await insertOrder({ userId: phoneUser.rows[0].id, minutesAgo: 30 });
+    const emailOrderId = await insertOrder({ minutesAgo: 30 });
+    emailProvider.fail = true;
+
+    const cancelledIds = await sweepUnpaidOrders({ emailProvider, timeoutMinutes: TIMEOUT_MINUTES });
+
+    expect(cancelledIds.sort()).toEqual([phoneOrderId, emailOrderId].sort());
+    expect((await getOrderRow(emailOrderId)).status).toBe('CANCELLED');
+    expect(emailProvider.sent).toHaveLength(0);
+  });
+
+  it('should do nothing while another instance holds the sweep lock', async () => {
+    const orderId = await insertOrder({ minutesAgo: 30 });
+
+    const otherInstance = await pool.connect();
+    try {
+      await otherInstance.query('BEGIN');
+      // Same key as ordersRepo.cancelUnpaidOnlineOrders
+      await otherInstance.query('SELECT pg_advisory_xact_lock(7001)');
+
+      const cancelledIds = await sweepUnpaidOrders({ emailProvider, timeoutMinutes: TIMEOUT_MINUTES });
+      expect(cancelledIds).toEqual([]);
+      expect((await getOrderRow(orderId)).status).toBe('CREATED');
+    } finally {
+      await otherInstance.query('ROLLBACK');
+      otherInstance.release();
+    }
+
+    const cancelledIds = await sweepUnpaidOrders({ emailProvider, timeoutMinutes: TIMEOUT_MINUTES });
+    expect(cancelledIds).toEqual([orderId]);
+  });
+});
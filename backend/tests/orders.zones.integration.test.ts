@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { TableGeocoder } from '../src/geocoding/TableGeocoder';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Restaurant in Amantea (39.1340, 16.0750).
+ * Zone 1: 1 km radius, €2 delivery.
+ * Zone 2: square polygon north of the town (Campora), €4 delivery, €20 minimum order.
+ */
+describe('Delivery Zones - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let productId: string;
+  let userToken: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  const camporaPolygon = {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [16.08, 39.15],
+        [16.1, 39.15],
+        [16.1, 39.17],
+        [16.08, 39.17],
+        [16.08, 39.15],
+      ],
+    ],
+  };
+
+  const nearAddress = { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032', lat: 39.135, lng: 16.076 };
+  const farAddress = { street: 'Corso Mazzini 1', city: 'Cosenza', postal_code: '87100', lat: 39.3, lng: 16.25 };
+  const camporaAddress = { street: 'Via Nazionale 10', city: 'Campora San Giovanni', postal_code: '87032' };
+
+  function setZones(zones: unknown[]) {
+    return request(app.server)
+      .put(`/admin/restaurants/${restaurantId}/zones`)
+      .set('x-admin-key', adminKey)
+      .send({ zones });
+  }
+
+  function placeOrder(deliveryAddress: Record<string, unknown>, qty = 1) {
+    return request(app.server)
+      .post('/orders')
+      .set('Cookie', `access_token=${userToken}`)
+      .send({
+        restaurant_id: restaurantId,
+        payment_method: 'CASH',
+        delivery_address: deliveryAddress,
+        items: [{ product_id: productId, qty }],
+      });
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userToken = jwt.sign(
+      { userId: userResult.rows[0].id },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, lat, lng, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', 39.134, 16.075, true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_delivery_rules (restaurant_id, min_order_cents, delivery_fee_cents, eta_min, eta_max)
+       VALUES ($1, 0, 300, 30, 45)`,
+      [restaurantId]
+    );
+
+    // Open all day, every day
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, '00:00', '23:59' FROM generate_series(0, 6) AS d`,
+      [restaurantId]
+    );
+
+    const categoryResult = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, 'Pizze', 0, true) RETURNING id`,
+      [restaurantId]
+    );
+
+    const productResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Margherita', 800, 0, true) RETURNING id`,
+      [restaurantId, categoryResult.rows[0].id]
+    );
+    productId = productResult.rows[0].id;
+
+    const geocoder = new TableGeocoder();
+    await geocoder.save(nearAddress, { lat: nearAddress.lat, lng: nearAddress.lng });
+    await geocoder.save(farAddress, { lat: farAddress.lat, lng: farAddress.lng });
+    await geocoder.save(camporaAddress, { lat: 39.16, lng: 16.09 });
+
+    const zones = await setZones([
+      { name: 'Centro', radius_m: 1000, delivery_fee_cents: 200 },
+      { name: 'Campora', polygon: camporaPolygon, delivery_fee_cents: 400, min_order_cents: 2000 },
+    ]);
+    expect(zones.status).toBe(200);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('POST /orders', () => {
+    it('should charge the fee of the radius zone the address falls in', async () => {
+      const response = await placeOrder(nearAddress);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.delivery_fee_cents).toBe(200);
+    });
+
+    it('should geocode addresses without coordinates and apply the polygon zone rules', async () => {
+      const belowMinimum = await placeOrder(camporaAddress, 2);
+      expect(belowMinimum.status).toBe(400);
+      expect(belowMinimum.body.error).toBe('MIN_ORDER_NOT_MET');
+
+      // Street names are matched case and accent insensitive
+      const response = await placeOrder({ ...camporaAddress, street: 'VIA NAZIONALE 10' }, 3);
+      expect(response.status).toBe(201);
+      expect(response.body.data.delivery_fee_cents).toBe(400);
+    });
+
+    it('should reject addresses outside every zone or that cannot be located', async () => {
+      const outside = await placeOrder(farAddress);
+      expect(outside.status).toBe(400);
+      expect(outside.body.error).toBe('DELIVERY_OUT_OF_AREA');
+
+      const unknown = await placeOrder({ street: 'Via Sconosciuta 99', city: 'Amantea', postal_code: '87032' });
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.error).toBe('ADDRESS_NOT_FOUND');
+
+      const orders = await query('SELECT COUNT(*)::int AS count FROM orders');
+      expect(orders.rows[0].count).toBe(0);
+    });
+
+    it('should locate the address on the server and only accept coordinates matching it', async () => {
+      // A pin inside the zone does not bring a far address in
+      const spoofed = await placeOrder({ ...farAddress, lat: nearAddress.lat, lng: nearAddress.lng });
+      expect(spoofed.status).toBe(400);
+      expect(spoofed.body.error).toBe('DELIVERY_LOCATION_MISMATCH');
+
+      const unknown = await placeOrder({
+        street: 'Via Sconosciuta 99',
+        city: 'Amantea',
+        postal_code: '87032',
+        lat: nearAddress.lat,
+        lng: nearAddress.lng,
+      });
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.error).toBe('ADDRESS_NOT_FOUND');
+
+      // A pin a few metres from the geocoded address is fine
+      const refined = await placeOrder({ ...nearAddress, lat: nearAddress.lat + 0.0005 });
+      expect(refined.status).toBe(201);
+      expect(refined.body.data.delivery_fee_cents).toBe(200);
+    });
+
+    it('should store the geocoded position instead of the client coordinates', async () => {
+      const refined = await placeOrder({ ...nearAddress, lat: nearAddress.lat + 0.0005 });
+      expect(refined.status).toBe(201);
+
+      // Without zones an unknown address is accepted, but its pin is not kept
+      await setZones([]);
+      const unknown = await placeOrder({
+        street: 'Via Sconosciuta 99',
+        city: 'Amantea',
+        postal_code: '87032',
+        lat: 39.3,
+        lng: 16.25,
+      });
+      expect(unknown.status).toBe(201);
+
+      const stored = await query('SELECT id, address_json FROM orders');
+      const addressOf = (id: string) => stored.rows.find((row) => row.id === id).address_json;
+      expect(addressOf(refined.body.data.id)).toMatchObject({ lat: nearAddress.lat, lng: nearAddress.lng });
+      expect(addressOf(unknown.body.data.id)).not.toHaveProperty('lat');
+      expect(addressOf(unknown.body.data.id)).not.toHaveProperty('lng');
+    });
+
+    it('should not restrict pickup orders or restaurants without zones', async () => {
+      await query('UPDATE restaurants SET offers_pickup = true WHERE id = $1', [restaurantId]);
+      const pickup = await request(app.server)
+        .post('/orders')
+        .set('Cookie', `access_token=${userToken}`)
+        .send({
+          restaurant_id: restaurantId,
+          payment_method: 'CASH',
+          fulfilment_type: 'PICKUP',
+          items: [{ product_id: productId, qty: 1 }],
+        });
+      expect(pickup.status).toBe(201);
+
+      await setZones([]);
+      const anywhere = await placeOrder(farAddress);
+      expect(anywhere.status).toBe(201);
+      expect(anywhere.body.data.delivery_fee_cents).toBe(300);
+    });
+
+    it('should report the area problem in quotes', async () => {
+      const response = await request(app.server)
+        .post('/cart/quote')
+        .send({
+          restaurant_id: restaurantId,
+          delivery_address: farAddress,
+          items: [{ product_id: productId, qty: 1 }],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.can_order).toBe(false);
+      expect(response.body.data.problems[0].code).toBe('DELIVERY_OUT_OF_AREA');
+    });
+  });
+
+  describe('GET /restaurants?lat=&lng=', () => {
+    it('should only return restaurants delivering to the position', async () => {
+      await query(
+        `INSERT INTO restaurants (slug, name, address, city, is_active)
+         VALUES ('ovunque', 'Ovunque', 'Via Test 2', 'Amantea', true)`
+      );
+
+      const near = await request(app.server).get('/restaurants?lat=39.135&lng=16.076');
+      expect(near.status).toBe(200);
+      expect(near.body.data.map((r: any) => r.slug)).toEqual(['ovunque', 'pizza-test']);
+
+      const far = await request(app.server).get('/restaurants?lat=39.3&lng=16.25');
+      expect(far.body.data.map((r: any) => r.slug)).toEqual(['ovunque']);
+
+      const missingLng = await request(app.server).get('/restaurants?lat=39.3');
+      expect(missingLng.status).toBe(400);
+    });
+  });
+
+  describe('PUT /admin/restaurants/:id/zones', () => {
+    it('should expose the zones on the admin restaurant', async () => {
+      const response = await request(app.server)
+        .get(`/admin/restaurants/${restaurantId}`)
+        .set('x-admin-key', adminKey);
+
+      expect(response.body.data.delivery_zones.map((z: any) => z.name)).toEqual(['Centro', 'Campora']);
+      expect(response.body.data.delivery_zones[1].polygon).toEqual(camporaPolygon);
+    });
+
+    it('should reject zones with both or neither shape and open polygons', async () => {
+      const both = await setZones([{ name: 'X', radius_m: 500, polygon: camporaPolygon }]);
+      expect(both.status).toBe(400);
+
+      const neither = await setZones([{ name: 'X' }]);
+      expect(neither.status).toBe(400);
+
+      const open = await setZones([
+        {
+          name: 'X',
+          polygon: {
+            type: 'Polygon',
+            coordinates: [[[16.08, 39.15], [16.1, 39.15], [16.1, 39.17], [16.08, 39.17]]],
+          },
+        },
+      ]);
+      expect(open.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,367 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { getPaymentProvider } from '../src/payments';
+import { FakePaymentProvider, SignedWebhook } from '../src/payments/FakePaymentProvider';
+import jwt from 'jsonwebtoken';
+
+describe('Payments - Integration Tests', () => {
+  let app: FastifyInstance;
+  let provider: FakePaymentProvider;
+  let restaurantId: string;
+  let userId: string;
+  let userToken: string;
+  let orderId: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  function sendWebhook(webhook: SignedWebhook) {
+    return request(app.server)
+      .post('/payments/webhook/fake')
+      .set(webhook.headers)
+      .send(webhook.body);
+  }
+
+  async function startPayment(): Promise<string> {
+    const response = await request(app.server)
+      .post(`/orders/${orderId}/pay`)
+      .set('Cookie', `access_token=${userToken}`);
+
+    expect(response.status).toBe(200);
+    return response.body.data.provider_ref;
+  }
+
+  async function getOrderRow() {
+    const result = await query(
+      'SELECT status, payment_status, refund_due FROM orders WHERE id = $1',
+      [orderId]
+    );
+    return result.rows[0];
+  }
+
+  async function getPaymentRows() {
+    const result = await query(
+      'SELECT * FROM payments WHERE order_id = $1 ORDER BY created_at ASC',
+      [orderId]
+    );
+    return result.rows;
+  }
+
+  beforeAll(async () => {
+    // Set ADMIN_API_KEY for tests
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+    provider = getPaymentProvider('fake') as FakePaymentProvider;
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userId = userResult.rows[0].id;
+
+    userToken = jwt.sign(
+      { userId },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Roma', true)
+       RETURNING id`
+    );
+    restaurantId = restaurantResult.rows[0].id;
+
+    const orderResult = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json)
+       VALUES ($1, $2, 'CREATED', 'ONLINE', 'PENDING', 1500, 0, 0, 1500, '{}')
+       RETURNING id`,
+      [userId, restaurantId]
+    );
+    orderId = orderResult.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('POST /orders/:orderId/pay', () => {
+    it('should create a payment intent and keep the order pending', async () => {
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/pay`)
+        .set('Cookie', `access_token=${userToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.provider).toBe('fake');
+      expect(response.body.data.provider_ref).toMatch(/^fake_pi_/);
+      expect(response.body.data.amount_cents).toBe(1500);
+      expect(response.body.data.client_secret).toBeTruthy();
+
+      const order = await getOrderRow();
+      expect(order.status).toBe('CREATED');
+      expect(order.payment_status).toBe('PENDING');
+    });
+
+    it('should reuse the payment in progress', async () => {
+      const first = await startPayment();
+      const second = await startPayment();
+
+      expect(second).toBe(first);
+      expect(await getPaymentRows()).toHaveLength(1);
+    });
+
+    it('should return the client secret of the payment in progress', async () => {
+      const first = await request(app.server)
+        .post(`/orders/${orderId}/pay`)
+        .set('Cookie', `access_token=${userToken}`);
+      const second = await request(app.server)
+        .post(`/orders/${orderId}/pay`)
+        .set('Cookie', `access_token=${userToken}`);
+
+      expect(second.status).toBe(200);
+      expect(second.body.data.client_secret).toBeTruthy();
+      expect(second.body.data.client_secret).toBe(first.body.data.client_secret);
+    });
+
+    it('should return 503 when no payment provider is usable', async () => {
+      const configured = process.env.PAYMENT_PROVIDER;
+      process.env.PAYMENT_PROVIDER = 'missing';
+      try {
+        const pay = await request(app.server)
+          .post(`/orders/${orderId}/pay`)
+          .set('Cookie', `access_token=${userToken}`);
+
+        expect(pay.status).toBe(503);
+        expect(pay.body.error).toBe('PAYMENT_UNAVAILABLE');
+        expect(await getPaymentRows()).toHaveLength(0);
+
+        const create = await request(app.server)
+          .post('/orders')
+          .set('Cookie', `access_token=${userToken}`)
+          .send({
+            restaurant_id: restaurantId,
+            payment_method: 'ONLINE',
+            fulfilment_type: 'PICKUP',
+            items: [{ product_id: '00000000-0000-0000-0000-000000000000', qty: 1 }],
+          });
+
+        expect(create.status).toBe(503);
+        expect(create.body.error).toBe('PAYMENT_UNAVAILABLE');
+      } finally {
+        if (configured === undefined) {
+          delete process.env.PAYMENT_PROVIDER;
+        } else {
+          process.env.PAYMENT_PROVIDER = configured;
+        }
+      }
+    });
+
+    it('should record a failed attempt when the provider times out', async () => {
+      provider.failNext('createIntent', 'TIMEOUT');
+
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/pay`)
+        .set('Cookie', `access_token=${userToken}`);
+
+      expect(response.status).toBe(502);
+      expect(response.body.error).toBe('PAYMENT_PROVIDER_ERROR');
+      expect(response.body.details.code).toBe('TIMEOUT');
+
+      const payments = await getPaymentRows();
+      expect(payments).toHaveLength(1);
+      expect(payments[0].status).toBe('FAILED');
+      expect(payments[0].failure_reason).toBe('TIMEOUT');
+
+      // Retry creates a new attempt
+      await startPayment();
+      expect(await getPaymentRows()).toHaveLength(2);
+    });
+
+    it('should return 409 for a cancelled order', async () => {
+      await query(`UPDATE orders SET status = 'CANCELLED' WHERE id = $1`, [orderId]);
+
+      const response = await request(app.server)
+        .post(`/orders/${orderId}/pay`)
+        .set('Cookie', `access_token=${userToken}`);
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('POST /payments/webhook/:provider', () => {
+    it('should capture an authorized payment and accept the order', async () => {
+      const providerRef = await startPayment();
+
+      const response = await sendWebhook(provider.buildWebhook('payment.authorized', providerRef));
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.duplicate).toBe(false);
+
+      const order = await getOrderRow();
+      expect(order.status).toBe('ACCEPTED');
+      expect(order.payment_status).toBe('PAID');
+
+      const payments = await getPaymentRows();
+      expect(payments[0].status).toBe('SUCCEEDED');
+
+      const events = await query(
+        'SELECT actor_type, actor_id, to_status FROM order_status_events WHERE order_id = $1',
+        [orderId]
+      );
+      expect(events.rows).toEqual([
+        { actor_type: 'SYSTEM', actor_id: 'payments:fake', to_status: 'ACCEPTED' },
+      ]);
+    });
+
+    it('should ignore replayed events', async () => {
+      const providerRef = await startPayment();
+      const webhook = provider.buildWebhook('payment.succeeded', providerRef);
+
+      await sendWebhook(webhook);
+      const replay = await sendWebhook(webhook);
+
+      expect(replay.status).toBe(200);
+      expect(replay.body.data.duplicate).toBe(true);
+
+      const events = await query('SELECT * FROM order_status_events WHERE order_id = $1', [orderId]);
+      expect(events.rows).toHaveLength(1);
+    });
+
+    it('should apply concurrent deliveries of the same event once', async () => {
+      const providerRef = await startPayment();
+      const webhook = provider.buildWebhook('payment.succeeded', providerRef);
+
+      const responses = await Promise.all([sendWebhook(webhook), sendWebhook(webhook)]);
+
+      expect(responses.map((response) => response.status)).toEqual([200, 200]);
+      expect(
+        responses.map((response) => response.body.data.duplicate).sort()
+      ).toEqual([false, true]);
+
+      const events = await query('SELECT * FROM order_status_events WHERE order_id = $1', [orderId]);
+      expect(events.rows).toHaveLength(1);
+    });
+
+    it('should reject invalid, tampered or stale signatures', async () => {
+      const providerRef = await startPayment();
+
+      const unsigned = await request(app.server)
+        .post('/payments/webhook/fake')
+        .set('content-type', 'application/json')
+        .send(JSON.stringify({ id: 'evt', type: 'payment.succeeded', provider_ref: providerRef }));
+      expect(unsigned.status).toBe(400);
+      expect(unsigned.body.error).toBe('INVALID_SIGNATURE');
+
+      const webhook = provider.buildWebhook('payment.failed', providerRef);
+      const tampered = await sendWebhook({
+        ...webhook,
+        body: webhook.body.replace('payment.failed', 'payment.succeeded'),
+      });
+      expect(tampered.status).toBe(400);
+
+      const stale = await sendWebhook(
+        provider.buildWebhook('payment.succeeded', providerRef, {
+          timestamp: Math.floor(Date.now() / 1000) - 3600,
+        })
+      );
+      expect(stale.status).toBe(400);
+
+      const order = await getOrderRow();
+      expect(order.payment_status).toBe('PENDING');
+    });
+
+    it('should mark declined and expired payments without touching the order', async () => {
+      const declinedRef = await startPayment();
+      await sendWebhook(
+        provider.buildWebhook('payment.failed', declinedRef, { failureReason: 'card_declined' })
+      );
+
+      const expiredRef = await startPayment();
+      expect(expiredRef).not.toBe(declinedRef);
+      await sendWebhook(provider.buildWebhook('payment.expired', expiredRef));
+
+      const payments = await getPaymentRows();
+      expect(payments.map((p: any) => p.status)).toEqual(['FAILED', 'EXPIRED']);
+      expect(payments[0].failure_reason).toBe('card_declined');
+
+      const order = await getOrderRow();
+      expect(order.status).toBe('CREATED');
+      expect(order.payment_status).toBe('PENDING');
+    });
+
+    it('should fail the payment when capture fails', async () => {
+      const providerRef = await startPayment();
+      provider.failNext('capture', 'DECLINED');
+
+      const response = await sendWebhook(provider.buildWebhook('payment.authorized', providerRef));
+
+      expect(response.status).toBe(200);
+      const payments = await getPaymentRows();
+      expect(payments[0].status).toBe('FAILED');
+      expect(payments[0].failure_reason).toBe('CAPTURE_FAILED:DECLINED');
+      expect((await getOrderRow()).status).toBe('CREATED');
+    });
+
+    it('should flag a late payment on a cancelled order for refund and refund it', async () => {
+      const providerRef = await startPayment();
+      await query(`UPDATE orders SET status = 'CANCELLED' WHERE id = $1`, [orderId]);
+
+      await sendWebhook(provider.buildWebhook('payment.authorized', providerRef));
+
+      let order = await getOrderRow();
+      expect(order.status).toBe('CANCELLED');
+      expect(order.payment_status).toBe('PAID');
+      expect(order.refund_due).toBe(true);
+
+      const refund = await request(app.server)
+        .post(`/admin/orders/${orderId}/refund`)
+        .set('x-admin-key', adminKey);
+      expect(refund.status).toBe(200);
+      expect(refund.body.data.status).toBe('REFUND_PENDING');
+
+      await sendWebhook(provider.buildWebhook('refund.succeeded', providerRef));
+
+      order = await getOrderRow();
+      expect(order.refund_due).toBe(false);
+      expect((await getPaymentRows())[0].status).toBe('REFUNDED');
+    });
+
+    it('should return 404 for unknown providers and payments', async () => {
+      const unknownProvider = await request(app.server)
+        .post('/payments/webhook/nope')
+        .set('content-type', 'application/json')
+        .send('{}');
+      expect(unknownProvider.status).toBe(404);
+      expect(unknownProvider.body.error).toBe('UNKNOWN_PROVIDER');
+
+      const unknownPayment = await sendWebhook(
+        provider.buildWebhook('payment.succeeded', 'fake_pi_missing')
+      );
+      expect(unknownPayment.status).toBe(404);
+      expect(unknownPayment.body.error).toBe('PAYMENT_NOT_FOUND');
+    });
+  });
+
+  describe('POST /admin/orders/:orderId/refund', () => {
+    it('should return 409 when no refund is due', async () => {
+      const response = await request(app.server)
+        .post(`/admin/orders/${orderId}/refund`)
+        .set('x-admin-key', adminKey);
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('REFUND_NOT_DUE');
+    });
+  });
+});
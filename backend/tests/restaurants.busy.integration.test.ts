@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import jwt from 'jsonwebtoken';
+
+describe('Restaurant Busy Mode - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  let productId: string;
+  let userToken: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  async function insertRestaurant(slug: string, etaMin: number, etaMax: number) {
+    const result = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ($1, $1, 'Via Test 1', 'Amantea', true)
+       RETURNING id`,
+      [slug]
+    );
+    const id = result.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_delivery_rules (restaurant_id, min_order_cents, delivery_fee_cents, eta_min, eta_max)
+       VALUES ($1, 0, 0, $2, $3)`,
+      [id, etaMin, etaMax]
+    );
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, '00:00', '23:59' FROM generate_series(0, 6) AS d`,
+      [id]
+    );
+
+    return id;
+  }
+
+  function setBusy(body: Record<string, unknown>) {
+    return request(app.server)
+      .post(`/admin/restaurants/${restaurantId}/busy`)
+      .set('x-admin-key', adminKey)
+      .send(body);
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (phone_e164, name, status)
+       VALUES ('+393331234567', 'Test User', 'active')
+       RETURNING id`
+    );
+    userToken = jwt.sign(
+      { userId: userResult.rows[0].id },
+      process.env.JWT_SECRET || 'test-secret',
+      { expiresIn: '1h' }
+    );
+
+    restaurantId = await insertRestaurant('pizza-test', 20, 30);
+    await insertRestaurant('sushi-test', 30, 40);
+
+    const categoryResult = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, 'Pizze', 0, true) RETURNING id`,
+      [restaurantId]
+    );
+    const productResult = await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, 'Margherita', 800, 0, true) RETURNING id`,
+      [restaurantId, categoryResult.rows[0].id]
+    );
+    productId = productResult.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  it('should extend the ETA on listings while busy', async () => {
+    const response = await setBusy({ minutes: 30, extra_minutes: 10, eta_multiplier: 1.5 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ busy_extra_minutes: 10, busy_eta_multiplier: 1.5 });
+
+    // 20 * 1.5 + 10, 30 * 1.5 + 10
+    const restaurant = await request(app.server).get('/restaurants/pizza-test');
+    expect(restaurant.body.data.is_busy).toBe(true);
+    expect(restaurant.body.data.delivery_rules).toMatchObject({ eta_min: 40, eta_max: 55 });
+
+    const byEta = await request(app.server).get('/restaurants?sort=eta');
+    expect(byEta.body.data.map((r: any) => r.slug)).toEqual(['sushi-test', 'pizza-test']);
+    expect(byEta.body.data[0].is_busy).toBe(false);
+
+    // Admins keep seeing the base ETA
+    const admin = await request(app.server)
+      .get(`/admin/restaurants/${restaurantId}`)
+      .set('x-admin-key', adminKey);
+    expect(admin.body.data.delivery_rules).toMatchObject({ eta_min: 20, eta_max: 30 });
+  });
+
+  it('should quote the busy ETA and store the promised window on the order', async () => {
+    await setBusy({ minutes: 60, extra_minutes: 15 });
+
+    const quote = await request(app.server)
+      .post('/cart/quote')
+      .send({ restaurant_id: restaurantId, items: [{ product_id: productId, qty: 1 }] });
+    expect(quote.body.data).toMatchObject({ eta_min: 35, eta_max: 45, is_busy: true });
+
+    const before = Date.now();
+    const order = await request(app.server)
+      .post('/orders')
+      .set('Cookie', `access_token=${userToken}`)
+      .send({
+        restaurant_id: restaurantId,
+        payment_method: 'CASH',
+        delivery_address: { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' },
+        items: [{ product_id: productId, qty: 1 }],
+      });
+
+    expect(order.status).toBe(201);
+    const promisedFrom = new Date(order.body.data.promised_from).getTime();
+    const promisedTo = new Date(order.body.data.promised_to).getTime();
+    expect(promisedTo - promisedFrom).toBe(10 * 60 * 1000);
+    expect(promisedFrom - before).toBeGreaterThanOrEqual(35 * 60 * 1000);
+    expect(promisedFrom - before).toBeLessThan(36 * 60 * 1000);
+  });
+
+  it('should go back to the base ETA when the busy mode ends', async () => {
+    await setBusy({ minutes: 30, extra_minutes: 10 });
+
+    const cleared = await request(app.server)
+      .delete(`/admin/restaurants/${restaurantId}/busy`)
+      .set('x-admin-key', adminKey);
+    expect(cleared.status).toBe(200);
+    expect(cleared.body.data.busy_until).toBeNull();
+
+    await setBusy({ minutes: 30, eta_multiplier: 2 });
+    await query(`UPDATE restaurants SET busy_until = NOW() - INTERVAL '1 minute' WHERE id = $1`, [restaurantId]);
+
+    const restaurant = await request(app.server).get('/restaurants/pizza-test');
+    expect(restaurant.body.data.is_busy).toBe(false);
+    expect(restaurant.body.data.delivery_rules).toMatchObject({ eta_min: 20, eta_max: 30 });
+
+    const quote = await request(app.server)
+      .post('/cart/quote')
+      .send({ restaurant_id: restaurantId, items: [{ product_id: productId, qty: 1 }] });
+    expect(quote.body.data).toMatchObject({ eta_min: 20, eta_max: 30, is_busy: false });
+  });
+
+  it('should require an ETA change and a valid duration', async () => {
+    const noEffect = await setBusy({ minutes: 30 });
+    expect(noEffect.status).toBe(400);
+    expect(noEffect.body.error).toBe('VALIDATION_ERROR');
+
+    const tooLong = await setBusy({ minutes: 600, extra_minutes: 10 });
+    expect(tooLong.status).toBe(400);
+
+    const tooSlow = await setBusy({ minutes: 30, eta_multiplier: 5 });
+    expect(tooSlow.status).toBe(400);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { TableGeocoder } from '../src/geocoding/TableGeocoder';
+
+/**
+ * Customer in Amantea (39.1340, 16.0750).
+ * Roughly 110 m per 0.001° of latitude.
+ */
+describe('Nearby Restaurants - Integration Tests', () => {
+  let app: FastifyInstance;
+
+  async function insertRestaurant(
+    slug: string,
+    lat: number | null,
+    etaMin: number
+  ) {
+    const result = await query(
+      `INSERT INTO restaurants (slug, name, address, city, lat, lng, is_active)
+       VALUES ($1, $1, 'Via Test 1', 'Amantea', $2, $3, true)
+       RETURNING id`,
+      [slug, lat, lat === null ? null : 16.075]
+    );
+    await query(
+      `INSERT INTO restaurant_delivery_rules (restaurant_id, min_order_cents, delivery_fee_cents, eta_min, eta_max)
+       VALUES ($1, 0, 0, $2, $2 + 15)`,
+      [result.rows[0].id, etaMin]
+    );
+  }
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    await insertRestaurant('a-lontano', 39.164, 20); // ~3.3 km
+    await insertRestaurant('b-vicino', 39.135, 40); // ~110 m
+    await insertRestaurant('c-medio', 39.144, 30); // ~1.1 km
+    await insertRestaurant('d-senza-posizione', null, 10);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('GET /restaurants', () => {
+    it('should sort by distance and return it on each restaurant', async () => {
+      const response = await request(app.server).get(
+        '/restaurants?lat=39.134&lng=16.075&sort=distance'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((r: any) => r.slug)).toEqual([
+        'b-vicino',
+        'c-medio',
+        'a-lontano',
+        'd-senza-posizione',
+      ]);
+
+      const distances = response.body.data.map((r: any) => r.distance_m);
+      expect(distances[0]).toBeGreaterThan(100);
+      expect(distances[0]).toBeLessThan(120);
+      expect(distances[1]).toBeGreaterThan(1000);
+      expect(distances[1]).toBeLessThan(1150);
+      expect(distances[3]).toBeNull();
+    });
+
+    it('should only return restaurants within radius_m', async () => {
+      const response = await request(app.server).get(
+        '/restaurants?lat=39.134&lng=16.075&radius_m=2000'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((r: any) => r.slug)).toEqual(['b-vicino', 'c-medio']);
+    });
+
+    it('should sort by ETA and default to name', async () => {
+      const byEta = await request(app.server).get('/restaurants?sort=eta');
+      expect(byEta.body.data.map((r: any) => r.slug)).toEqual([
+        'd-senza-posizione',
+        'a-lontano',
+        'c-medio',
+        'b-vicino',
+      ]);
+
+      const byName = await request(app.server).get('/restaurants');
+      expect(byName.body.data.map((r: any) => r.slug)).toEqual([
+        'a-lontano',
+        'b-vicino',
+        'c-medio',
+        'd-senza-posizione',
+      ]);
+      expect(byName.body.data[0].distance_m).toBeNull();
+    });
+
+    it('should require a position for distance sorting and radius', async () => {
+      const sort = await request(app.server).get('/restaurants?sort=distance');
+      expect(sort.status).toBe(400);
+
+      const radius = await request(app.server).get('/restaurants?radius_m=1000');
+      expect(radius.status).toBe(400);
+    });
+  });
+
+  describe('GET /geocode', () => {
+    it('should locate known addresses', async () => {
+      await new TableGeocoder().save(
+        { street: 'Via Roma 1', city: 'Amantea', postal_code: '87032' },
+        { lat: 39.134, lng: 16.075 }
+      );
+
+      const found = await request(app.server)
+        .get('/geocode')
+        .query({ street: 'via roma 1', city: 'Amantea', postal_code: '87032' });
+      expect(found.status).toBe(200);
+      expect(found.body.data).toEqual({ lat: 39.134, lng: 16.075 });
+
+      const unknown = await request(app.server)
+        .get('/geocode')
+        .query({ street: 'Via Sconosciuta 9', city: 'Amantea', postal_code: '87032' });
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.error).toBe('ADDRESS_NOT_FOUND');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+
+describe('Restaurant Opening Status - Integration Tests', () => {
+  let app: FastifyInstance;
+  let eveningId: string;
+
+  async function insertRestaurant(slug: string, days: number[], openTime: string, closeTime: string) {
+    const result = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ($1, $1, 'Via Test 1', 'Amantea', true)
+       RETURNING id`,
+      [slug]
+    );
+    const restaurantId = result.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, $3, $4 FROM unnest($2::int[]) AS d`,
+      [restaurantId, days, openTime, closeTime]
+    );
+
+    return restaurantId;
+  }
+
+  function getRestaurant(slug: string) {
+    return request(app.server).get(`/restaurants/${slug}`);
+  }
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    // Every day, closing after midnight
+    eveningId = await insertRestaurant('sera', [0, 1, 2, 3, 4, 5, 6], '19:00', '02:00');
+    // Monday to Saturday, closed on Sunday
+    await insertRestaurant('pranzo', [1, 2, 3, 4, 5, 6], '12:00', '15:00');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  it('should return the next opening for closed restaurants on GET /restaurants', async () => {
+    vi.setSystemTime(new Date('2025-03-12T10:00:00+01:00')); // Wednesday
+
+    const response = await request(app.server).get('/restaurants');
+
+    expect(response.status).toBe(200);
+    const evening = response.body.data.find((r: any) => r.slug === 'sera');
+    expect(evening).toMatchObject({
+      is_open_now: false,
+      next_open_at: '2025-03-12T19:00:00.000+01:00',
+      closes_at: null,
+      opening_label: 'Apre alle 19:00',
+    });
+
+    const lunch = response.body.data.find((r: any) => r.slug === 'pranzo');
+    expect(lunch.opening_label).toBe('Apre alle 12:00');
+  });
+
+  it('should close open restaurants at the end of a slot crossing midnight', async () => {
+    vi.setSystemTime(new Date('2025-03-13T01:00:00+01:00')); // Thursday, Wednesday's slot
+
+    const response = await getRestaurant('sera');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({
+      is_open_now: true,
+      next_open_at: null,
+      closes_at: '2025-03-13T02:00:00.000+01:00',
+      opening_label: 'Aperto fino alle 02:00',
+    });
+  });
+
+  it('should skip closed days and name the weekday', async () => {
+    vi.setSystemTime(new Date('2025-03-15T16:00:00+01:00')); // Saturday after lunch
+
+    const response = await getRestaurant('pranzo');
+
+    expect(response.body.data).toMatchObject({
+      next_open_at: '2025-03-17T12:00:00.000+01:00',
+      opening_label: 'Apre lunedì alle 12:00',
+    });
+  });
+
+  it('should apply overrides for the upcoming days and force_closed', async () => {
+    vi.setSystemTime(new Date('2025-03-12T10:00:00+01:00'));
+
+    await query(
+      `INSERT INTO restaurant_overrides (restaurant_id, date, is_closed, open_time, close_time)
+       VALUES ($1, '2025-03-12', true, NULL, NULL),
+              ($1, '2025-03-13', false, '20:00', '23:00')`,
+      [eveningId]
+    );
+
+    const response = await getRestaurant('sera');
+    expect(response.body.data).toMatchObject({
+      next_open_at: '2025-03-13T20:00:00.000+01:00',
+      opening_label: 'Apre domani alle 20:00',
+    });
+
+    await query('UPDATE restaurants SET force_closed = true WHERE id = $1', [eveningId]);
+
+    const forceClosed = await getRestaurant('sera');
+    expect(forceClosed.body.data).toMatchObject({
+      is_open_now: false,
+      next_open_at: null,
+      closes_at: null,
+      opening_label: 'Chiuso temporaneamente',
+    });
+  });
+
+  it('should follow the DST switches of Europe/Rome', async () => {
+    // Clocks go from 02:00 to 03:00 on 2025-03-30
+    vi.setSystemTime(new Date('2025-03-29T22:00:00+01:00'));
+    const spring = await getRestaurant('sera');
+    expect(spring.body.data.closes_at).toBe('2025-03-30T03:00:00.000+02:00');
+
+    vi.setSystemTime(new Date('2025-03-30T10:00:00+02:00'));
+    const summer = await getRestaurant('sera');
+    expect(summer.body.data.next_open_at).toBe('2025-03-30T19:00:00.000+02:00');
+
+    // Clocks go from 03:00 back to 02:00 on 2025-10-26
+    vi.setSystemTime(new Date('2025-10-26T10:00:00+01:00'));
+    const autumn = await getRestaurant('sera');
+    expect(autumn.body.data).toMatchObject({
+      next_open_at: '2025-10-26T19:00:00.000+01:00',
+      opening_label: 'Apre alle 19:00',
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { sweepExpiredPauses } from '../src/jobs/pausedRestaurantsSweeper';
+
+describe('Restaurant Pause - Integration Tests', () => {
+  let app: FastifyInstance;
+  let restaurantId: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  function pause(body: Record<string, unknown>, id = restaurantId) {
+    return request(app.server)
+      .post(`/admin/restaurants/${id}/pause`)
+      .set('x-admin-key', adminKey)
+      .send(body);
+  }
+
+  async function getRestaurantRow(id = restaurantId) {
+    const result = await query(
+      'SELECT force_closed, force_closed_until, force_closed_note FROM restaurants WHERE id = $1',
+      [id]
+    );
+    return result.rows[0];
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const result = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ('sempre-aperto', 'Sempre Aperto', 'Via Test 1', 'Amantea', true)
+       RETURNING id`
+    );
+    restaurantId = result.rows[0].id;
+
+    await query(
+      `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+       SELECT $1, d, '00:00', '23:59' FROM generate_series(0, 6) AS d`,
+      [restaurantId]
+    );
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  it('should close the restaurant until the end of the pause', async () => {
+    const response = await pause({ minutes: 30, note: 'Troppi ordini' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ force_closed: true, force_closed_note: 'Troppi ordini' });
+
+    const pausedUntil = new Date(response.body.data.force_closed_until).getTime();
+    expect(pausedUntil - Date.now()).toBeGreaterThan(29 * 60 * 1000);
+    expect(pausedUntil - Date.now()).toBeLessThanOrEqual(30 * 60 * 1000);
+
+    const restaurant = await request(app.server).get('/restaurants/sempre-aperto');
+    expect(restaurant.body.data.is_open_now).toBe(false);
+    expect(restaurant.body.data.opening_label).toMatch(/^Apre (domani )?alle \d{2}:\d{2}$/);
+    // Reopens when the pause ends (or at 00:00 if it ends in the 23:59 gap)
+    const reopensAt = new Date(restaurant.body.data.next_open_at).getTime();
+    expect(reopensAt).toBeGreaterThanOrEqual(pausedUntil - 1);
+    expect(reopensAt - pausedUntil).toBeLessThan(60 * 1000);
+
+    const openNow = await request(app.server).get('/restaurants?open_now=true');
+    expect(openNow.body.data).toEqual([]);
+  });
+
+  it('should treat an expired pause as open and clear it on sweep', async () => {
+    const manualResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active, force_closed, force_closed_note)
+       VALUES ('chiuso', 'Chiuso', 'Via Test 2', 'Amantea', true, true, 'Ferie')
+       RETURNING id`
+    );
+    const manualId = manualResult.rows[0].id;
+
+    await query(
+      `UPDATE restaurants
+       SET force_closed = true, force_closed_until = NOW() - INTERVAL '1 minute', force_closed_note = 'Pausa'
+       WHERE id = $1`,
+      [restaurantId]
+    );
+
+    // Already open before the job runs
+    const before = await request(app.server).get('/restaurants/sempre-aperto');
+    expect(before.body.data.force_closed).toBe(true);
+    expect(before.body.data.is_open_now).toBe(true);
+
+    const reopened = await sweepExpiredPauses();
+    expect(reopened).toEqual([restaurantId]);
+    expect(await getRestaurantRow()).toEqual({
+      force_closed: false,
+      force_closed_until: null,
+      force_closed_note: null,
+    });
+
+    // The manual kill switch has no end and is left alone
+    expect(await getRestaurantRow(manualId)).toMatchObject({ force_closed: true, force_closed_note: 'Ferie' });
+    expect(await sweepExpiredPauses()).toEqual([]);
+  });
+
+  it('should end the pause on DELETE and when force_closed is turned off', async () => {
+    await pause({ minutes: 15 });
+
+    const resumed = await request(app.server)
+      .delete(`/admin/restaurants/${restaurantId}/pause`)
+      .set('x-admin-key', adminKey);
+    expect(resumed.status).toBe(200);
+    expect(resumed.body.data).toMatchObject({ force_closed: false, force_closed_until: null });
+
+    await pause({ minutes: 60 });
+
+    const patched = await request(app.server)
+      .patch(`/admin/restaurants/${restaurantId}`)
+      .set('x-admin-key', adminKey)
+      .send({ force_closed: false });
+    expect(patched.body.data).toMatchObject({ force_closed: false, force_closed_until: null });
+
+    const restaurant = await request(app.server).get('/restaurants/sempre-aperto');
+    expect(restaurant.body.data.next_open_at).toBeNull();
+  });
+
+  it('should validate the duration and the restaurant', async () => {
+    const tooShort = await pause({ minutes: 0 });
+    expect(tooShort.status).toBe(400);
+    expect(tooShort.body.error).toBe('VALIDATION_ERROR');
+
+    const tooLong = await pause({ minutes: 600 });
+    expect(tooLong.status).toBe(400);
+
+    const missing = await pause({ minutes: 15 }, '00000000-0000-0000-0000-000000000000');
+    expect(missing.status).toBe(404);
+
+    const unauthorized = await request(app.server)
+      .post(`/admin/restaurants/${restaurantId}/pause`)
+      .send({ minutes: 15 });
+    expect(unauthorized.status).toBe(401);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+
+describe('Restaurant Tags - Integration Tests', () => {
+  let app: FastifyInstance;
+  let pizzeriaId: string;
+  let sushiBarId: string;
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  function createTag(body: Record<string, unknown>) {
+    return request(app.server).post('/admin/tags').set('x-admin-key', adminKey).send(body);
+  }
+
+  function setTags(restaurantId: string, tags: string[]) {
+    return request(app.server)
+      .patch(`/admin/restaurants/${restaurantId}`)
+      .set('x-admin-key', adminKey)
+      .send({ tags });
+  }
+
+  async function insertRestaurant(slug: string, name: string) {
+    const result = await query(
+      `INSERT INTO restaurants (slug, name, address, city, is_active)
+       VALUES ($1, $2, 'Via Test 1', 'Amantea', true)
+       RETURNING id`,
+      [slug, name]
+    );
+    return result.rows[0].id;
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    pizzeriaId = await insertRestaurant('da-mario', 'Da Mario');
+    sushiBarId = await insertRestaurant('sakura', 'Sakura');
+    await insertRestaurant('trattoria', 'Trattoria');
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  describe('/admin/tags', () => {
+    it('should create, list, update and delete tags', async () => {
+      const created = await createTag({ name: 'Pizzeria' });
+      expect(created.status).toBe(201);
+      expect(created.body.data).toMatchObject({ slug: 'pizzeria', name: 'Pizzeria', sort_order: 0 });
+
+      await createTag({ slug: 'sushi', name: 'Sushi', sort_order: -1 });
+      await setTags(pizzeriaId, ['pizzeria']);
+
+      const list = await request(app.server).get('/admin/tags').set('x-admin-key', adminKey);
+      expect(list.status).toBe(200);
+      expect(list.body.data.map((t: any) => [t.slug, t.restaurant_count])).toEqual([
+        ['sushi', 0],
+        ['pizzeria', 1],
+      ]);
+
+      const updated = await request(app.server)
+        .patch(`/admin/tags/${created.body.data.id}`)
+        .set('x-admin-key', adminKey)
+        .send({ name: 'Pizza' });
+      expect(updated.status).toBe(200);
+      expect(updated.body.data).toMatchObject({ slug: 'pizzeria', name: 'Pizza' });
+
+      const deleted = await request(app.server)
+        .delete(`/admin/tags/${created.body.data.id}`)
+        .set('x-admin-key', adminKey);
+      expect(deleted.status).toBe(200);
+
+      const restaurant = await request(app.server).get('/restaurants/da-mario');
+      expect(restaurant.body.data.tags).toEqual([]);
+
+      const missing = await request(app.server)
+        .delete(`/admin/tags/${created.body.data.id}`)
+        .set('x-admin-key', adminKey);
+      expect(missing.status).toBe(404);
+    });
+
+    it('should reject duplicate and malformed slugs and require the admin key', async () => {
+      await createTag({ name: 'Gelateria' });
+
+      const duplicate = await createTag({ slug: 'gelateria', name: 'Gelati' });
+      expect(duplicate.status).toBe(409);
+
+      const malformed = await createTag({ slug: 'Gelati Artigianali', name: 'Gelati' });
+      expect(malformed.status).toBe(400);
+
+      const unauthorized = await request(app.server).get('/admin/tags');
+      expect(unauthorized.status).toBe(401);
+    });
+  });
+
+  describe('tag assignment', () => {
+    beforeEach(async () => {
+      await createTag({ slug: 'pizzeria', name: 'Pizzeria' });
+      await createTag({ slug: 'sushi', name: 'Sushi' });
+      await createTag({ slug: 'asporto', name: 'Asporto' });
+    });
+
+    it('should replace the tags of a restaurant on PATCH', async () => {
+      await setTags(pizzeriaId, ['pizzeria', 'asporto']);
+      const response = await setTags(pizzeriaId, ['pizzeria']);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.tags.map((t: any) => t.slug)).toEqual(['pizzeria']);
+
+      const admin = await request(app.server)
+        .get(`/admin/restaurants/${pizzeriaId}`)
+        .set('x-admin-key', adminKey);
+      expect(admin.body.data.tags.map((t: any) => t.slug)).toEqual(['pizzeria']);
+
+      // Other fields leave the tags alone
+      const renamed = await request(app.server)
+        .patch(`/admin/restaurants/${pizzeriaId}`)
+        .set('x-admin-key', adminKey)
+        .send({ name: 'Da Mario 2' });
+      expect(renamed.body.data.tags.map((t: any) => t.slug)).toEqual(['pizzeria']);
+    });
+
+    it('should reject unknown tags without changing the restaurant', async () => {
+      await setTags(pizzeriaId, ['pizzeria']);
+
+      const response = await request(app.server)
+        .patch(`/admin/restaurants/${pizzeriaId}`)
+        .set('x-admin-key', adminKey)
+        .send({ name: 'Renamed', tags: ['pizzeria', 'kebab'] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('TAG_NOT_FOUND');
+      expect(response.body.message).toContain('kebab');
+
+      const restaurant = await request(app.server).get('/restaurants/da-mario');
+      expect(restaurant.body.data.name).toBe('Da Mario');
+      expect(restaurant.body.data.tags.map((t: any) => t.slug)).toEqual(['pizzeria']);
+    });
+
+    it('should filter GET /restaurants by any of the tags', async () => {
+      await setTags(pizzeriaId, ['pizzeria', 'asporto']);
+      await setTags(sushiBarId, ['sushi']);
+
+      const pizza = await request(app.server).get('/restaurants?tags=pizzeria');
+      expect(pizza.status).toBe(200);
+      expect(pizza.body.data.map((r: any) => r.slug)).toEqual(['da-mario']);
+      expect(pizza.body.data[0].tags.map((t: any) => t.slug).sort()).toEqual(['asporto', 'pizzeria']);
+
+      const either = await request(app.server).get('/restaurants?tags=sushi,pizzeria');
+      expect(either.body.data.map((r: any) => r.slug)).toEqual(['da-mario', 'sakura']);
+
+      const all = await request(app.server).get('/restaurants');
+      expect(all.body.data).toHaveLength(3);
+      expect(all.body.data.find((r: any) => r.slug === 'trattoria').tags).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+
+describe('Search - Integration Tests', () => {
+  let app: FastifyInstance;
+
+  async function insertRestaurant(slug: string, name: string, description: string | null, open: boolean) {
+    const result = await query(
+      `INSERT INTO restaurants (slug, name, description, address, city, is_active)
+       VALUES ($1, $2, $3, 'Via Test 1', 'Amantea', true)
+       RETURNING id`,
+      [slug, name, description]
+    );
+    const restaurantId = result.rows[0].id;
+
+    if (open) {
+      await query(
+        `INSERT INTO restaurant_hours (restaurant_id, day_of_week, open_time, close_time)
+         SELECT $1, d, '00:00', '23:59' FROM generate_series(0, 6) AS d`,
+        [restaurantId]
+      );
+    }
+
+    return restaurantId;
+  }
+
+  async function insertCategory(restaurantId: string, name: string, isActive = true) {
+    const result = await query(
+      `INSERT INTO menu_categories (restaurant_id, name, sort_order, is_active)
+       VALUES ($1, $2, 0, $3) RETURNING id`,
+      [restaurantId, name, isActive]
+    );
+    return result.rows[0].id;
+  }
+
+  async function insertProduct(
+    restaurantId: string,
+    categoryId: string,
+    name: string,
+    description: string | null = null,
+    isActive = true
+  ) {
+    await query(
+      `INSERT INTO menu_products (restaurant_id, category_id, name, description, base_price_cents, sort_order, is_active)
+       VALUES ($1, $2, $3, $4, 1000, 0, $5)`,
+      [restaurantId, categoryId, name, description, isActive]
+    );
+  }
+
+  function search(q: string) {
+    return request(app.server).get('/search').query({ q });
+  }
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    await resetDatabase();
+
+    const trattoria = await insertRestaurant('trattoria', 'Trattoria da Mario', 'Cucina romana', true);
+    const primi = await insertCategory(trattoria, 'Primi');
+    await insertProduct(trattoria, primi, 'Spaghetti alla Carbonara', 'Guanciale, uovo e pecorino');
+    await insertProduct(trattoria, primi, 'Amatriciana');
+    await insertProduct(trattoria, primi, 'Carbonara di mare', null, false);
+
+    const pizzeria = await insertRestaurant('pizzeria', 'Pizzeria Bella', 'Pizze anche senza glutine', false);
+    const pizze = await insertCategory(pizzeria, 'Pizze');
+    await insertProduct(pizzeria, pizze, 'Margherita', 'Impasto senza glutine disponibile');
+    await insertProduct(pizzeria, pizze, 'Carbonara', 'Pizza bianca con guanciale');
+
+    const celiaci = await insertCategory(pizzeria, 'Senza glutine');
+    await insertProduct(pizzeria, celiaci, 'Focaccia');
+
+    const hidden = await insertCategory(pizzeria, 'Stagionali', false);
+    await insertProduct(pizzeria, hidden, 'Carbonara estiva');
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  it('should group matching dishes by restaurant with open status', async () => {
+    const response = await search('carbonara');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.query).toBe('carbonara');
+
+    const results = response.body.data.results;
+    expect(results.map((r: any) => r.restaurant.slug).sort()).toEqual(['pizzeria', 'trattoria']);
+
+    const trattoria = results.find((r: any) => r.restaurant.slug === 'trattoria');
+    expect(trattoria.restaurant.is_open_now).toBe(true);
+    expect(trattoria.restaurant_match).toBe(false);
+    // Inactive products are not returned
+    expect(trattoria.products.map((p: any) => p.name)).toEqual(['Spaghetti alla Carbonara']);
+    expect(trattoria.products[0]).toMatchObject({ category_name: 'Primi', base_price_cents: 1000 });
+
+    const pizzeria = results.find((r: any) => r.restaurant.slug === 'pizzeria');
+    expect(pizzeria.restaurant.is_open_now).toBe(false);
+    // Products in inactive categories are not returned
+    expect(pizzeria.products.map((p: any) => p.name)).toEqual(['Carbonara']);
+  });
+
+  it('should match descriptions and category names with Italian stemming', async () => {
+    const response = await search('senza glutine');
+
+    const results = response.body.data.results;
+    expect(results).toHaveLength(1);
+    expect(results[0].restaurant.slug).toBe('pizzeria');
+    expect(results[0].restaurant_match).toBe(true);
+    expect(results[0].products.map((p: any) => p.name).sort()).toEqual(['Focaccia', 'Margherita']);
+
+    const plural = await search('pizza');
+    expect(plural.body.data.results[0].restaurant.slug).toBe('pizzeria');
+  });
+
+  it('should ignore accents and case', async () => {
+    await query(`UPDATE menu_products SET name = 'Caffè' WHERE name = 'Amatriciana'`);
+
+    const response = await search('CAFFE');
+
+    expect(response.body.data.results).toHaveLength(1);
+    expect(response.body.data.results[0].products[0].name).toBe('Caffè');
+  });
+
+  it('should return restaurants matching by name without dishes', async () => {
+    const response = await search('trattoria');
+
+    expect(response.body.data.results).toHaveLength(1);
+    expect(response.body.data.results[0].restaurant_match).toBe(true);
+    expect(response.body.data.results[0].products).toEqual([]);
+  });
+
+  it('should return no results for unknown words and reject short queries', async () => {
+    const none = await search('sushi');
+    expect(none.status).toBe(200);
+    expect(none.body.data.results).toEqual([]);
+
+    const short = await search('a');
+    expect(short.status).toBe(400);
+    expect(short.body.error).toBe('VALIDATION_ERROR');
+  });
+});
@@ -7,3 +7,4 @@ config({ path: resolve(__dirname, '../.env.test') });
 // Ensure we're in test mode
 process.env.NODE_ENV = 'test';
 process.env.SMS_PROVIDER = 'mock';
+process.env.FAKE_PAYMENT_WEBHOOK_SECRET = 'test-fake-payment-webhook-secret-32-chars';
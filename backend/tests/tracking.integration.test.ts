@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { FastifyInstance } from 'fastify';
+import { createTestApp } from './helpers/app';
+import { resetDatabase, closeDatabasePool } from './helpers/db';
+import { query } from '../src/db';
+import { estimateArrival } from '../src/utils/tracking';
+import jwt from 'jsonwebtoken';
+
+const START = new Date('2026-03-10T19:00:00Z');
+
+// Restaurant in Amantea, the delivery address ~2km away and the courier half way
+const RESTAURANT = { lat: 39.1357, lng: 16.0747 };
+const ADDRESS = { lat: 39.1537, lng: 16.0747 };
+const HALF_WAY = { lat: 39.1447, lng: 16.0747 };
+
+describe('Tracking - estimateArrival', () => {
+  it('should turn the distance into minutes at courier speed', () => {
+    const estimate = estimateArrival(RESTAURANT, ADDRESS, START);
+
+    expect(estimate.distance_m).toBeGreaterThan(1950);
+    expect(estimate.distance_m).toBeLessThan(2050);
+    // 2km * 1.3 at 20km/h
+    expect(estimate.eta_minutes).toBe(8);
+    expect(estimate.eta_at.getTime()).toBe(START.getTime() + 8 * 60 * 1000);
+  });
+
+  it('should never estimate less than a minute', () => {
+    expect(estimateArrival(ADDRESS, ADDRESS, START).eta_minutes).toBe(1);
+  });
+});
+
+describe('Tracking - Integration Tests', () => {
+  let app: FastifyInstance;
+  let customerId: string;
+  let orderId: string;
+  let courier: { id: string; token: string };
+  const adminKey = process.env.ADMIN_API_KEY || 'test-admin-key-min-32-chars-long';
+
+  function tokenFor(userId: string) {
+    return jwt.sign({ userId }, process.env.JWT_SECRET || 'test-secret', { expiresIn: '1h' });
+  }
+
+  async function createCourier(email: string) {
+    const response = await request(app.server)
+      .post('/admin/couriers')
+      .set('x-admin-key', adminKey)
+      .send({ email, name: email.split('@')[0] });
+    expect(response.status).toBe(201);
+    return { id: response.body.data.id, token: tokenFor(response.body.data.user_id) };
+  }
+
+  function issueToken(courierToken: string) {
+    return request(app.server)
+      .post(`/courier/orders/${orderId}/location-token`)
+      .set('Cookie', `access_token=${courierToken}`);
+  }
+
+  function pushLocation(token: string | null, position: { lat: number; lng: number }) {
+    const req = request(app.server).post(`/deliveries/${orderId}/location`);
+    if (token) {
+      req.set('Authorization', `Bearer ${token}`);
+    }
+    return req.send(position);
+  }
+
+  async function getTracking() {
+    const response = await request(app.server)
+      .get(`/orders/${orderId}`)
+      .set('Cookie', `access_token=${tokenFor(customerId)}`);
+    expect(response.status).toBe(200);
+    return response.body.data.tracking;
+  }
+
+  function advance(seconds: number) {
+    vi.setSystemTime(new Date(Date.now() + seconds * 1000));
+  }
+
+  beforeAll(async () => {
+    if (!process.env.ADMIN_API_KEY) {
+      process.env.ADMIN_API_KEY = adminKey;
+    }
+
+    app = await createTestApp();
+    await app.ready();
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+
+    await resetDatabase();
+
+    const userResult = await query(
+      `INSERT INTO users (email, name, status)
+       VALUES ('cliente@example.com', 'Cliente', 'active')
+       RETURNING id`
+    );
+    customerId = userResult.rows[0].id;
+
+    const restaurantResult = await query(
+      `INSERT INTO restaurants (slug, name, address, city, lat, lng, is_active)
+       VALUES ('pizza-test', 'Pizza Test', 'Via Test 1', 'Amantea', $1, $2, true)
+       RETURNING id`,
+      [RESTAURANT.lat, RESTAURANT.lng]
+    );
+
+    courier = await createCourier('rider@example.com');
+
+    const orderResult = await query(
+      `INSERT INTO orders (user_id, restaurant_id, status, payment_method, payment_status, fulfilment_type,
+                           subtotal_cents, delivery_fee_cents, service_fee_cents, total_cents, address_json,
+                           courier_id)
+       VALUES ($1, $2, 'DELIVERING', 'CASH', 'PENDING', 'DELIVERY', 1500, 0, 0, 1500, $3, $4)
+       RETURNING id`,
+      [
+        customerId,
+        restaurantResult.rows[0].id,
+        JSON.stringify({ street: 'Via Roma 1', city: 'Amantea', postal_code: '87032', ...ADDRESS }),
+        courier.id,
+      ]
+    );
+    orderId = orderResult.rows[0].id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await closeDatabasePool();
+  });
+
+  it('should only give location tokens to the courier delivering the order', async () => {
+    const other = await createCourier('other@example.com');
+    expect((await issueToken(other.token)).status).toBe(404);
+
+    await query(`UPDATE orders SET status = 'READY' WHERE id = $1`, [orderId]);
+    const early = await issueToken(courier.token);
+    expect(early.status).toBe(409);
+    expect(early.body.error).toBe('NOT_DELIVERING');
+
+    await query(`UPDATE orders SET status = 'DELIVERING' WHERE id = $1`, [orderId]);
+    const issued = await issueToken(courier.token);
+    expect(issued.status).toBe(201);
+    expect(issued.body.data.token).toEqual(expect.any(String));
+  });
+
+  it('should reject positions without a valid token', async () => {
+    const first = (await issueToken(courier.token)).body.data.token;
+    const second = (await issueToken(courier.token)).body.data.token;
+
+    expect((await pushLocation(null, HALF_WAY)).status).toBe(401);
+    expect((await pushLocation('not-a-token', HALF_WAY)).status).toBe(401);
+    // A new token replaces the previous one
+    expect((await pushLocation(first, HALF_WAY)).status).toBe(401);
+    expect((await pushLocation(second, { lat: 120, lng: 0 })).status).toBe(400);
+    expect((await pushLocation(second, HALF_WAY)).status).toBe(200);
+  });
+
+  it('should show a throttled courier position with the ETA to the address', async () => {
+    // Before the first position the ETA is measured from the restaurant
+    const beforePush = await getTracking();
+    expect(beforePush).toMatchObject({ courier_position: null, eta_minutes: 8 });
+
+    const token = (await issueToken(courier.token)).body.data.token;
+    expect((await pushLocation(token, HALF_WAY)).status).toBe(200);
+
+    const tracking = await getTracking();
+    expect(tracking.courier_position).toMatchObject(HALF_WAY);
+    expect(new Date(tracking.courier_position.updated_at).getTime()).toBe(START.getTime());
+    expect(tracking.distance_m).toBeLessThan(1050);
+    expect(tracking.eta_minutes).toBe(4);
+    expect(new Date(tracking.eta_at).getTime()).toBe(START.getTime() + 4 * 60 * 1000);
+
+    // Within the share interval the customer keeps seeing the previous position
+    advance(10);
+    await pushLocation(token, ADDRESS);
+    expect((await getTracking()).courier_position).toMatchObject(HALF_WAY);
+
+    advance(25);
+    await pushLocation(token, ADDRESS);
+    const moved = await getTracking();
+    expect(moved.courier_position).toMatchObject(ADDRESS);
+    expect(moved.eta_minutes).toBe(1);
+
+    const stored = await query('SELECT lat, recorded_at FROM delivery_locations WHERE order_id = $1', [orderId]);
+    expect(stored.rows[0].lat).toBe(ADDRESS.lat);
+  });
+
+  it('should stop tracking once the order is delivered', async () => {
+    const token = (await issueToken(courier.token)).body.data.token;
+    await pushLocation(token, HALF_WAY);
+
+    const order = await query('SELECT handover_code FROM orders WHERE id = $1', [orderId]);
+    const delivered = await request(app.server)
+      .post(`/courier/orders/${orderId}/delivery-confirmation`)
+      .set('Cookie', `access_token=${courier.token}`)
+      .send({ handover_code: order.rows[0].handover_code, cash_collected_cents: 1500 });
+    expect(delivered.status).toBe(200);
+
+    const late = await pushLocation(token, ADDRESS);
+    expect(late.status).toBe(409);
+    expect(late.body.error).toBe('NOT_DELIVERING');
+
+    expect(await getTracking()).toBeNull();
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Admin Couriers Page
+ * Courier accounts: riders log in with the email code and see their deliveries
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AdminGuard } from '@/components/admin-guard';
+import { adminHttp, AdminHttpError } from '@/lib/adminHttp';
+
+interface Courier {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  is_active: boolean;
+  is_on_duty: boolean;
+  on_duty_until: string | null;
+  active_order_count: number;
+}
+
+const inputStyle = {
+  padding: '0.5rem 0.75rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  fontSize: '0.95rem',
+};
+
+function CouriersPage() {
+  const [couriers, setCouriers] = useState<Courier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [newCourier, setNewCourier] = useState({ name: '', email: '', phone: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCouriers();
+  }, []);
+
+  const loadCouriers = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await adminHttp.get<any>('/admin/couriers');
+      setCouriers(response.data || []);
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nel caricamento dei rider');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    const body = {
+      name: newCourier.name,
+      email: newCourier.email,
+      phone: newCourier.phone || undefined,
+    };
+
+    try {
+      try {
+        await adminHttp.post('/admin/couriers', body);
+      } catch (err) {
+        // The email belongs to a customer: only make them a rider when confirmed
+        if (!(err instanceof AdminHttpError && err.body?.error === 'EMAIL_IN_USE')) {
+          throw err;
+        }
+        if (!confirm(`${newCourier.email} è già registrato come cliente. Renderlo rider?`)) {
+          return;
+        }
+        await adminHttp.post('/admin/couriers', { ...body, promote_existing_user: true });
+      }
+      setNewCourier({ name: '', email: '', phone: '' });
+      await loadCouriers();
+    } catch (err) {
+      if (err instanceof AdminHttpError && err.status === 409) {
+        setError('Esiste già un rider con questa email');
+      } else if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nella creazione del rider');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (courier: Courier) => {
+    if (courier.is_active && !confirm(`Disattivare ${courier.name}? Non potrà più accedere alle consegne.`)) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      await adminHttp.patch(`/admin/couriers/${courier.id}`, { is_active: !courier.is_active });
+      await loadCouriers();
+    } catch (err) {
+      setError(err instanceof AdminHttpError ? err.message : 'Errore nel salvataggio del rider');
+    }
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        backgroundColor: '#f9fafb',
+        fontFamily: 'system-ui, sans-serif',
+      }}
+    >
+      {/* Header */}
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderBottom: '1px solid #e5e7eb',
+          padding: '1rem 2rem',
+        }}
+      >
+        <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+          <a
+            href="/admin"
+            style={{
+              color: '#2563eb',
+              textDecoration: 'none',
+              fontSize: '0.875rem',
+              marginBottom: '1rem',
+              display: 'inline-block',
+            }}
+          >
+            ← Torna alla dashboard
+          </a>
+          <h1 style={{ fontSize: '1.875rem', fontWeight: 'bold', margin: 0 }}>Rider</h1>
+          <p style={{ color: '#6b7280', fontSize: '0.875rem', margin: '0.5rem 0 0 0' }}>
+            I rider accedono con il codice via email, entrano in servizio su /courier e ricevono le offerte di consegna
+          </p>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+        {error && (
+          <div
+            style={{
+              padding: '1rem',
+              backgroundColor: '#fef2f2',
+              border: '1px solid #fecaca',
+              borderRadius: '8px',
+              color: '#991b1b',
+              marginBottom: '1rem',
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {/* Create */}
+        <form
+          onSubmit={handleCreate}
+          style={{
+            display: 'flex',
+            gap: '0.75rem',
+            padding: '1.5rem',
+            backgroundColor: '#fff',
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+            marginBottom: '1.5rem',
+          }}
+        >
+          <input
+            type="text"
+            placeholder="Nome"
+            value={newCourier.name}
+            onChange={(e) => setNewCourier({ ...newCourier, name: e.target.value })}
+            required
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <input
+            type="email"
+            placeholder="Email di accesso"
+            value={newCourier.email}
+            onChange={(e) => setNewCourier({ ...newCourier, email: e.target.value })}
+            required
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <input
+            type="tel"
+            placeholder="Telefono (opzionale)"
+            value={newCourier.phone}
+            onChange={(e) => setNewCourier({ ...newCourier, phone: e.target.value })}
+            style={inputStyle}
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            style={{
+              padding: '0.5rem 1.25rem',
+              backgroundColor: '#2563eb',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontWeight: 500,
+            }}
+          >
+            {saving ? 'Salvataggio...' : '+ Aggiungi'}
+          </button>
+        </form>
+
+        {loading && (
+          <div style={{ textAlign: 'center', padding: '3rem' }}>
+            <p style={{ color: '#6b7280' }}>Caricamento rider...</p>
+          </div>
+        )}
+
+        {!loading && couriers.length === 0 && (
+          <p style={{ color: '#6b7280', textAlign: 'center' }}>Nessun rider. Creane uno per iniziare!</p>
+        )}
+
+        {!loading && couriers.length > 0 && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            {couriers.map((courier) => (
+              <div
+                key={courier.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  padding: '1rem 1.5rem',
+                  backgroundColor: '#fff',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '8px',
+                  opacity: courier.is_active ? 1 : 0.6,
+                }}
+              >
+                <div style={{ flex: 1 }}>
+                  <span style={{ fontWeight: 600 }}>{courier.name}</span>
+                  <span style={{ color: '#6b7280', fontSize: '0.875rem', marginLeft: '0.75rem' }}>
+                    {courier.email}
+                    {courier.phone && ` · ${courier.phone}`} · {courier.active_order_count} consegne in corso
+                  </span>
+                </div>
+
+                {!courier.is_active && (
+                  <span style={{ color: '#991b1b', fontSize: '0.875rem' }}>Disattivato</span>
+                )}
+
+                {courier.is_active && courier.is_on_duty && (
+                  <span
+                    style={{
+                      padding: '0.25rem 0.75rem',
+                      backgroundColor: '#dcfce7',
+                      color: '#166534',
+                      borderRadius: '9999px',
+                      fontSize: '0.75rem',
+                      fontWeight: 500,
+                    }}
+                  >
+                    In servizio
+                    {courier.on_duty_until &&
+                      ` fino alle ${new Date(courier.on_duty_until).toLocaleTimeString('it-IT', {
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}`}
+                  </span>
+                )}
+
+                <button
+                  onClick={() => handleToggleActive(courier)}
+                  style={{
+                    ...inputStyle,
+                    cursor: 'pointer',
+                    backgroundColor: '#fff',
+                    ...(courier.is_active ? { color: '#991b1b', borderColor: '#fecaca' } : {}),
+                  }}
+                >
+                  {courier.is_active ? 'Disattiva' : 'Riattiva'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminCouriersPage() {
+  return (
+    <AdminGuard>
+      <CouriersPage />
+    </AdminGuard>
+  );
+}
@@ -0,0 +1,878 @@
+/**
+ * Admin Orders Page - Kitchen Board
+ * Shows today's orders of a restaurant as a kanban board
+ * and lets staff move cards through the status workflow.
+ * Updates live through the restaurant's order event stream.
+ * Scheduled orders stay in a separate list until they are due.
+ * Delivery cards show the assigned courier and let staff change it,
+ * flag orders dispatch could not place with any courier;
+ * delivered ones show the proof of delivery left by the courier.
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { AdminGuard } from '@/components/admin-guard';
+import { adminHttp, adminBlob, adminEventStream, AdminHttpError } from '@/lib/adminHttp';
+
+interface RestaurantOption {
+  id: string;
+  name: string;
+}
+
+interface CourierOption {
+  id: string;
+  name: string;
+  is_active: boolean;
+  active_order_count: number;
+}
+
+interface BoardOrderItemOption {
+  id: string;
+  group_name: string;
+  item_name: string;
+  price_delta_cents: number;
+}
+
+interface BoardOrderItem {
+  id: string;
+  name: string;
+  qty: number;
+  total_cents: number;
+  options: BoardOrderItemOption[];
+}
+
+interface BoardOrder {
+  id: string;
+  restaurant_id: string;
+  status: string;
+  payment_method: 'ONLINE' | 'CASH';
+  payment_status: 'PENDING' | 'PAID';
+  fulfilment_type: 'DELIVERY' | 'PICKUP';
+  total_cents: number;
+  address_json: {
+    street?: string;
+    city?: string;
+    postal_code?: string;
+    notes?: string;
+  } | null;
+  notes: string | null;
+  scheduled_for: string | null;
+  courier_id: string | null;
+  no_courier_since: string | null; // dispatch found nobody to offer it to
+  created_at: string;
+  items: BoardOrderItem[];
+}
+
+interface DeliveryProof {
+  method: 'CODE' | 'PHOTO';
+  cash_collected_cents: number | null;
+  photo_url: string | null;
+  created_at: string;
+  photo_object_url?: string; // loaded with the admin key
+}
+
+const BOARD_COLUMNS = [
+  { status: 'ACCEPTED', label: 'Nuovi', color: '#2563eb' },
+  { status: 'PREPARING', label: 'In preparazione', color: '#d97706' },
+  { status: 'READY', label: 'Pronti', color: '#059669' },
+  { status: 'PICKED_UP', label: 'Ritirati', color: '#7c3aed' },
+  { status: 'DELIVERING', label: 'In consegna', color: '#0891b2' },
+  { status: 'DELIVERED', label: 'Consegnati', color: '#6b7280' },
+  { status: 'COLLECTED', label: 'Ritirati dal cliente', color: '#6b7280' },
+];
+
+// Next step of the workflow for each board column
+// (DELIVERED is set by the rider with the proof of delivery, or by the
+// staff with "Consegnato senza prova")
+const NEXT_STATUS: Record<string, string> = {
+  ACCEPTED: 'PREPARING',
+  PREPARING: 'READY',
+  READY: 'PICKED_UP',
+  PICKED_UP: 'DELIVERING',
+};
+
+// Pickup orders skip the rider: the customer collects them once ready
+const PICKUP_NEXT_STATUS: Record<string, string> = {
+  ...NEXT_STATUS,
+  READY: 'COLLECTED',
+};
+
+// Statuses from which an order can still be cancelled
+const CANCELLABLE_STATUSES = ['ACCEPTED', 'PREPARING', 'READY'];
+
+// Deliveries on their way the staff can close without a proof, with a reason
+const PROOFLESS_DELIVERY_STATUSES = ['PICKED_UP', 'DELIVERING'];
+
+// Scheduled orders become due without any order event: reload periodically
+const DUE_REFRESH_MS = 60_000;
+
+// Columns of orders still being worked on; finished ones are only shown for today
+const ACTIVE_STATUSES = ['ACCEPTED', 'PREPARING', 'READY', 'PICKED_UP', 'DELIVERING'];
+const FINISHED_STATUSES = ['DELIVERED', 'COLLECTED'];
+
+// Restaurant day (Europe/Rome), whatever the timezone of the browser: YYYY-MM-DD
+function todayDate(): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: 'Europe/Rome' }).format(new Date());
+}
+
+// Follow next_cursor so live orders never fall off the first page
+async function fetchAllOrders(query: string): Promise<BoardOrder[]> {
+  const orders: BoardOrder[] = [];
+  let cursor: string | null = null;
+  do {
+    const response: any = await adminHttp.get<any>(
+      `${query}&limit=100${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`
+    );
+    orders.push(...(response.data || []));
+    cursor = response.next_cursor;
+  } while (cursor);
+  return orders;
+}
+
+function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleTimeString('it-IT', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatDayTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('it-IT', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Short two-tone beep using the Web Audio API (no audio assets needed)
+ */
+function playNewOrderSound() {
+  try {
+    const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx = new AudioCtx();
+    [0, 0.25].forEach((offset, index) => {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.frequency.value = index === 0 ? 880 : 1175;
+      gain.gain.value = 0.2;
+      oscillator.connect(gain);
+      gain.connect(ctx.destination);
+      oscillator.start(ctx.currentTime + offset);
+      oscillator.stop(ctx.currentTime + offset + 0.2);
+    });
+  } catch (err) {
+    console.warn('Unable to play new order sound', err);
+  }
+}
+
+function OrdersBoardPage() {
+  const [restaurants, setRestaurants] = useState<RestaurantOption[]>([]);
+  const [restaurantId, setRestaurantId] = useState('');
+  const [orders, setOrders] = useState<BoardOrder[]>([]);
+  const [couriers, setCouriers] = useState<CourierOption[]>([]);
+  const [scheduledOrders, setScheduledOrders] = useState<BoardOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [soundEnabled, setSoundEnabled] = useState(true);
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [proofs, setProofs] = useState<Record<string, DeliveryProof | null>>({});
+
+  // Orders already seen for the selected restaurant (null until first load)
+  const knownIdsRef = useRef<Set<string> | null>(null);
+  const soundEnabledRef = useRef(soundEnabled);
+
+  useEffect(() => {
+    soundEnabledRef.current = soundEnabled;
+  }, [soundEnabled]);
+
+  useEffect(() => {
+    loadRestaurants();
+  }, []);
+
+  useEffect(() => {
+    if (!restaurantId) return;
+
+    knownIdsRef.current = null;
+    setHighlighted(new Set());
+    loadOrders();
+
+    // Reload the board on every order event of this restaurant
+    const unsubscribe = adminEventStream(
+      `/admin/restaurants/${restaurantId}/orders/events`,
+      () => loadOrders()
+    );
+    const timer = setInterval(() => loadOrders(), DUE_REFRESH_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [restaurantId]);
+
+  const loadRestaurants = async () => {
+    try {
+      const response = await adminHttp.get<any>('/restaurants');
+      const list: RestaurantOption[] = Array.isArray(response)
+        ? response
+        : response.data || response.restaurants || [];
+
+      setRestaurants(list);
+      if (list.length > 0) {
+        setRestaurantId(list[0].id);
+      }
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nel caricamento ristoranti');
+      }
+    }
+  };
+
+  const loadOrders = async () => {
+    setLoading(true);
+
+    try {
+      const baseQuery = `/admin/orders?restaurant_id=${restaurantId}`;
+      const activeQuery = `${baseQuery}&status=${ACTIVE_STATUSES.join(',')}`;
+      // Open orders stay on the board whatever day they were placed
+      const [active, finishedResponse, upcoming, couriersResponse] = await Promise.all([
+        fetchAllOrders(`${activeQuery}&scheduled=due`),
+        adminHttp.get<any>(
+          `${baseQuery}&status=${FINISHED_STATUSES.join(',')}&from=${todayDate()}&limit=100`
+        ),
+        fetchAllOrders(`${activeQuery}&scheduled=upcoming`),
+        adminHttp.get<any>('/admin/couriers'),
+      ]);
+      const list: BoardOrder[] = [...active, ...(finishedResponse.data || [])];
+
+      detectNewOrders([...list, ...upcoming]);
+      setOrders(list);
+      setCouriers(couriersResponse.data || []);
+      setScheduledOrders(
+        upcoming.sort(
+          (a, b) => new Date(a.scheduled_for!).getTime() - new Date(b.scheduled_for!).getTime()
+        )
+      );
+      setError('');
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nel caricamento ordini');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const detectNewOrders = (list: BoardOrder[]) => {
+    const previous = knownIdsRef.current;
+    knownIdsRef.current = new Set(list.map((o) => o.id));
+
+    // First load: everything is "known", no alert
+    if (!previous) return;
+
+    const newOrders = list.filter((o) => !previous.has(o.id));
+    if (newOrders.length === 0) return;
+
+    setHighlighted((current) => {
+      const next = new Set(current);
+      newOrders.forEach((o) => next.add(o.id));
+      return next;
+    });
+
+    if (soundEnabledRef.current) {
+      playNewOrderSound();
+    }
+  };
+
+  const acknowledge = (orderId: string) => {
+    setHighlighted((current) => {
+      const next = new Set(current);
+      next.delete(orderId);
+      return next;
+    });
+  };
+
+  const moveOrder = async (order: BoardOrder, status: string) => {
+    if (status === 'CANCELLED' && !confirm('Vuoi annullare questo ordine?')) {
+      return;
+    }
+
+    setUpdatingId(order.id);
+    acknowledge(order.id);
+
+    try {
+      await adminHttp.patch(`/admin/orders/${order.id}/status`, { status });
+      await loadOrders();
+    } catch (err) {
+      if (err instanceof AdminHttpError && err.status === 409) {
+        alert('Cambio di stato non consentito. Aggiorno la board.');
+        await loadOrders();
+      } else if (err instanceof AdminHttpError) {
+        alert(`Errore: ${err.message}`);
+      } else {
+        alert("Errore nell'aggiornamento dell'ordine");
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const deliverWithoutProof = async (order: BoardOrder) => {
+    const reason = prompt('Consegnato senza prova: indica il motivo')?.trim();
+    if (!reason) {
+      return;
+    }
+
+    setUpdatingId(order.id);
+    acknowledge(order.id);
+
+    try {
+      await adminHttp.post(`/admin/orders/${order.id}/delivered-without-proof`, { reason });
+      await loadOrders();
+    } catch (err) {
+      if (err instanceof AdminHttpError && err.status === 409) {
+        alert('Cambio di stato non consentito. Aggiorno la board.');
+        await loadOrders();
+      } else if (err instanceof AdminHttpError) {
+        alert(`Errore: ${err.message}`);
+      } else {
+        alert("Errore nell'aggiornamento dell'ordine");
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const assignCourier = async (order: BoardOrder, courierId: string) => {
+    setUpdatingId(order.id);
+    acknowledge(order.id);
+
+    try {
+      await adminHttp.put(`/admin/orders/${order.id}/courier`, { courier_id: courierId || null });
+      await loadOrders();
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        alert(`Errore: ${err.message}`);
+      } else {
+        alert("Errore nell'assegnazione del rider");
+      }
+      await loadOrders();
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const toggleProof = async (order: BoardOrder) => {
+    if (order.id in proofs) {
+      const { [order.id]: shown, ...rest } = proofs;
+      if (shown?.photo_object_url) URL.revokeObjectURL(shown.photo_object_url);
+      setProofs(rest);
+      return;
+    }
+
+    try {
+      const response = await adminHttp.get<any>(`/admin/orders/${order.id}/delivery-proof`);
+      const proof: DeliveryProof = response.data;
+      if (proof.photo_url) {
+        proof.photo_object_url = URL.createObjectURL(await adminBlob(proof.photo_url));
+      }
+      setProofs((current) => ({ ...current, [order.id]: proof }));
+    } catch (err) {
+      if (err instanceof AdminHttpError && err.status === 404) {
+        // Closed with "Consegnato senza prova": the reason is in the order timeline
+        setProofs((current) => ({ ...current, [order.id]: null }));
+      } else {
+        alert('Errore nel caricamento della prova di consegna');
+      }
+    }
+  };
+
+  const courierName = (courierId: string | null) =>
+    couriers.find((c) => c.id === courierId)?.name || 'Rider';
+
+  const ordersByStatus = (status: string) =>
+    orders
+      .filter((o) => o.status === status)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        backgroundColor: '#f9fafb',
+        fontFamily: 'system-ui, sans-serif',
+      }}
+    >
+      {/* Header */}
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderBottom: '1px solid #e5e7eb',
+          padding: '1rem 2rem',
+        }}
+      >
+        <a
+          href="/admin"
+          style={{
+            color: '#2563eb',
+            textDecoration: 'none',
+            fontSize: '0.875rem',
+            marginBottom: '1rem',
+            display: 'inline-block',
+          }}
+        >
+          ← Torna alla dashboard
+        </a>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+          <div>
+            <h1 style={{ fontSize: '1.875rem', fontWeight: 'bold', margin: 0 }}>
+              Ordini in cucina
+              {highlighted.size > 0 && (
+                <span
+                  style={{
+                    marginLeft: '0.75rem',
+                    padding: '0.25rem 0.75rem',
+                    fontSize: '0.875rem',
+                    borderRadius: '9999px',
+                    backgroundColor: '#dc2626',
+                    color: '#fff',
+                    verticalAlign: 'middle',
+                  }}
+                >
+                  {highlighted.size} nuovi
+                </span>
+              )}
+            </h1>
+            <p style={{ color: '#6b7280', fontSize: '0.875rem', margin: '0.5rem 0 0 0' }}>
+              Ordini di oggi, aggiornati in tempo reale. Gli ordini programmati entrano in board quando è ora di prepararli.
+            </p>
+          </div>
+
+          <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+            <select
+              value={restaurantId}
+              onChange={(e) => setRestaurantId(e.target.value)}
+              style={{
+                padding: '0.5rem 0.75rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                fontSize: '0.875rem',
+              }}
+            >
+              {restaurants.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                </option>
+              ))}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+              <input
+                type="checkbox"
+                checked={soundEnabled}
+                onChange={(e) => setSoundEnabled(e.target.checked)}
+              />
+              Suono nuovi ordini
+            </label>
+            <button
+              onClick={loadOrders}
+              disabled={!restaurantId || loading}
+              style={{
+                padding: '0.5rem 1rem',
+                backgroundColor: '#fff',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '0.875rem',
+              }}
+            >
+              {loading ? 'Aggiornamento...' : 'Aggiorna'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            margin: '1rem 2rem 0',
+            padding: '1rem',
+            backgroundColor: '#fef2f2',
+            border: '1px solid #fecaca',
+            borderRadius: '8px',
+            color: '#991b1b',
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {/* Scheduled orders, not due yet */}
+      {scheduledOrders.length > 0 && (
+        <div style={{ padding: '1.5rem 2rem 0' }}>
+          <h2 style={{ fontSize: '1rem', fontWeight: 'bold', margin: '0 0 0.75rem 0' }}>
+            Programmati ({scheduledOrders.length})
+          </h2>
+          <div style={{ display: 'flex', gap: '0.75rem', overflowX: 'auto' }}>
+            {scheduledOrders.map((order) => (
+              <div
+                key={order.id}
+                onClick={() => acknowledge(order.id)}
+                style={{
+                  minWidth: '220px',
+                  backgroundColor: highlighted.has(order.id) ? '#fef9c3' : '#fff',
+                  border: highlighted.has(order.id) ? '2px solid #dc2626' : '1px solid #e5e7eb',
+                  borderLeft: '4px solid #9333ea',
+                  borderRadius: '8px',
+                  padding: '0.75rem',
+                  fontSize: '0.875rem',
+                  opacity: updatingId === order.id ? 0.5 : 1,
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem' }}>
+                  <strong>#{order.id.substring(0, 8)}</strong>
+                  <span style={{ color: '#9333ea', fontWeight: 600 }}>
+                    🕒 {formatDayTime(order.scheduled_for!)}
+                  </span>
+                </div>
+                <p style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>
+                  {order.items.map((item) => `${item.qty}× ${item.name}`).join(', ')}
+                </p>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <span style={{ color: '#374151' }}>
+                    €{(order.total_cents / 100).toFixed(2)} ·{' '}
+                    {order.payment_method === 'CASH' ? 'Contanti' : 'Online'}
+                  </span>
+                  {CANCELLABLE_STATUSES.includes(order.status) && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        moveOrder(order, 'CANCELLED');
+                      }}
+                      disabled={updatingId === order.id}
+                      style={{
+                        padding: '0.25rem 0.5rem',
+                        backgroundColor: '#fff',
+                        color: '#dc2626',
+                        border: '1px solid #fecaca',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        fontSize: '0.75rem',
+                      }}
+                    >
+                      Annulla
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Board */}
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(${BOARD_COLUMNS.length}, minmax(240px, 1fr))`,
+          gap: '1rem',
+          padding: '1.5rem 2rem',
+          overflowX: 'auto',
+        }}
+      >
+        {BOARD_COLUMNS.map((column) => {
+          const columnOrders = ordersByStatus(column.status);
+
+          return (
+            <div
+              key={column.status}
+              style={{
+                backgroundColor: '#f3f4f6',
+                borderRadius: '8px',
+                padding: '0.75rem',
+                borderTop: `4px solid ${column.color}`,
+              }}
+            >
+              <h2 style={{ fontSize: '1rem', fontWeight: 'bold', margin: '0 0 0.75rem 0' }}>
+                {column.label} ({columnOrders.length})
+              </h2>
+
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                {columnOrders.map((order) => {
+                  const isNew = highlighted.has(order.id);
+                  const nextStatus =
+                    order.fulfilment_type === 'PICKUP'
+                      ? PICKUP_NEXT_STATUS[order.status]
+                      : NEXT_STATUS[order.status];
+
+                  return (
+                    <div
+                      key={order.id}
+                      onClick={() => acknowledge(order.id)}
+                      style={{
+                        backgroundColor: isNew ? '#fef9c3' : '#fff',
+                        border: isNew ? '2px solid #dc2626' : '1px solid #e5e7eb',
+                        borderRadius: '8px',
+                        padding: '0.75rem',
+                        fontSize: '0.875rem',
+                        opacity: updatingId === order.id ? 0.5 : 1,
+                      }}
+                    >
+                      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '0.5rem' }}>
+                        <strong>#{order.id.substring(0, 8)}</strong>
+                        <span style={{ color: '#6b7280' }}>{formatTime(order.created_at)}</span>
+                      </div>
+
+                      {order.scheduled_for && (
+                        <p style={{ margin: '0 0 0.5rem 0', color: '#9333ea', fontWeight: 600 }}>
+                          🕒 {order.fulfilment_type === 'PICKUP' ? 'Ritiro' : 'Consegna'} alle{' '}
+                          {formatTime(order.scheduled_for)}
+                        </p>
+                      )}
+
+                      {order.fulfilment_type === 'PICKUP' && (
+                        <p style={{ margin: '0 0 0.5rem 0', color: '#059669', fontWeight: 600 }}>
+                          🛍️ Ritiro al ristorante
+                        </p>
+                      )}
+
+                      <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 0.5rem 0' }}>
+                        {order.items.map((item) => (
+                          <li key={item.id} style={{ marginBottom: '0.25rem' }}>
+                            <span style={{ fontWeight: 600 }}>{item.qty}×</span> {item.name}
+                            {item.options.length > 0 && (
+                              <div style={{ color: '#6b7280', fontSize: '0.8rem', paddingLeft: '1.25rem' }}>
+                                {item.options.map((opt) => (
+                                  <div key={opt.id}>
+                                    {opt.group_name}: {opt.item_name}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+
+                      {order.notes && (
+                        <p
+                          style={{
+                            margin: '0 0 0.5rem 0',
+                            padding: '0.5rem',
+                            backgroundColor: '#fef3c7',
+                            borderRadius: '4px',
+                          }}
+                        >
+                          📝 {order.notes}
+                        </p>
+                      )}
+
+                      {order.address_json && (
+                        <p style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>
+                          📍 {order.address_json.street}, {order.address_json.city}
+                          {order.address_json.notes && (
+                            <span style={{ color: '#6b7280' }}> ({order.address_json.notes})</span>
+                          )}
+                        </p>
+                      )}
+
+                      <p style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>
+                        €{(order.total_cents / 100).toFixed(2)} ·{' '}
+                        {order.payment_method === 'CASH' ? 'Contanti' : 'Online'}
+                        {order.payment_status === 'PENDING' && ' (da pagare)'}
+                      </p>
+
+                      {order.fulfilment_type === 'DELIVERY' && order.status === 'DELIVERED' && order.courier_id && (
+                        <p style={{ margin: '0 0 0.5rem 0', color: '#374151' }}>
+                          🛵 {courierName(order.courier_id)}{' '}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleProof(order);
+                            }}
+                            style={{
+                              padding: 0,
+                              background: 'none',
+                              border: 'none',
+                              color: '#2563eb',
+                              cursor: 'pointer',
+                              fontSize: '0.8rem',
+                              textDecoration: 'underline',
+                            }}
+                          >
+                            {order.id in proofs ? 'Nascondi prova' : 'Prova di consegna'}
+                          </button>
+                        </p>
+                      )}
+
+                      {order.id in proofs && (
+                        <div
+                          style={{
+                            margin: '0 0 0.5rem 0',
+                            padding: '0.5rem',
+                            backgroundColor: '#f3f4f6',
+                            borderRadius: '4px',
+                            fontSize: '0.8rem',
+                            color: '#374151',
+                          }}
+                        >
+                          {proofs[order.id] ? (
+                            <>
+                              <div>
+                                {proofs[order.id]!.method === 'CODE' ? '🔢 Codice del cliente' : '📷 Foto'} ·{' '}
+                                {formatTime(proofs[order.id]!.created_at)}
+                              </div>
+                              {proofs[order.id]!.cash_collected_cents !== null && (
+                                <div>
+                                  💶 Incassati €{(proofs[order.id]!.cash_collected_cents! / 100).toFixed(2)}
+                                </div>
+                              )}
+                              {proofs[order.id]!.photo_object_url && (
+                                <img
+                                  src={proofs[order.id]!.photo_object_url}
+                                  alt="Foto della consegna"
+                                  style={{ width: '100%', marginTop: '0.25rem', borderRadius: '4px' }}
+                                />
+                              )}
+                            </>
+                          ) : (
+                            'Consegnato senza prova su conferma dello staff'
+                          )}
+                        </div>
+                      )}
+
+                      {order.fulfilment_type === 'DELIVERY' && !order.courier_id && order.no_courier_since && (
+                        <div
+                          style={{
+                            marginBottom: '0.5rem',
+                            padding: '0.3rem 0.5rem',
+                            backgroundColor: '#fef3c7',
+                            borderRadius: '6px',
+                            fontSize: '0.8rem',
+                            color: '#92400e',
+                          }}
+                        >
+                          ⚠️ Nessun rider disponibile dalle {formatTime(order.no_courier_since)}: assegnalo a mano
+                        </div>
+                      )}
+
+                      {order.fulfilment_type === 'DELIVERY' && order.status !== 'DELIVERED' && (
+                        <select
+                          value={order.courier_id || ''}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => assignCourier(order, e.target.value)}
+                          disabled={updatingId === order.id}
+                          style={{
+                            width: '100%',
+                            marginBottom: '0.5rem',
+                            padding: '0.3rem 0.5rem',
+                            border: '1px solid #d1d5db',
+                            borderRadius: '6px',
+                            fontSize: '0.8rem',
+                            backgroundColor: order.courier_id ? '#ecfeff' : '#fff',
+                          }}
+                        >
+                          <option value="">🛵 Nessun rider</option>
+                          {couriers
+                            .filter((c) => c.is_active || c.id === order.courier_id)
+                            .map((courier) => (
+                              <option key={courier.id} value={courier.id}>
+                                🛵 {courier.name} ({courier.active_order_count} in corso)
+                              </option>
+                            ))}
+                        </select>
+                      )}
+
+                      <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        {nextStatus && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              moveOrder(order, nextStatus);
+                            }}
+                            disabled={updatingId === order.id}
+                            style={{
+                              flex: 1,
+                              padding: '0.4rem 0.5rem',
+                              backgroundColor: column.color,
+                              color: '#fff',
+                              border: 'none',
+                              borderRadius: '6px',
+                              cursor: 'pointer',
+                              fontSize: '0.8rem',
+                            }}
+                          >
+                            {BOARD_COLUMNS.find((c) => c.status === nextStatus)?.label} →
+                          </button>
+                        )}
+                        {CANCELLABLE_STATUSES.includes(order.status) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              moveOrder(order, 'CANCELLED');
+                            }}
+                            disabled={updatingId === order.id}
+                            style={{
+                              padding: '0.4rem 0.5rem',
+                              backgroundColor: '#fff',
+                              color: '#dc2626',
+                              border: '1px solid #fecaca',
+                              borderRadius: '6px',
+                              cursor: 'pointer',
+                              fontSize: '0.8rem',
+                            }}
+                          >
+                            Annulla
+                          </button>
+                        )}
+                        {order.fulfilment_type === 'DELIVERY' && PROOFLESS_DELIVERY_STATUSES.includes(order.status) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deliverWithoutProof(order);
+                            }}
+                            disabled={updatingId === order.id}
+                            style={{
+                              padding: '0.4rem 0.5rem',
+                              backgroundColor: '#fff',
+                              color: '#374151',
+                              border: '1px solid #d1d5db',
+                              borderRadius: '6px',
+                              cursor: 'pointer',
+                              fontSize: '0.8rem',
+                            }}
+                          >
+                            Consegnato senza prova
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {columnOrders.length === 0 && (
+                  <p style={{ color: '#9ca3af', fontSize: '0.8rem', textAlign: 'center', margin: '1rem 0' }}>
+                    Nessun ordine
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminOrdersPage() {
+  return (
+    <AdminGuard>
+      <OrdersBoardPage />
+    </AdminGuard>
+  );
+}
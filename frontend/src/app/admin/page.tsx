@@ -21,6 +21,12 @@ function AdminDashboard() {
   };
 
   const navItems = [
+    {
+      title: 'Ordini',
+      description: 'Board della cucina con gli ordini di oggi',
+      href: '/admin/orders',
+      icon: '🧾',
+    },
     {
       title: 'Ristoranti',
       description: 'Gestisci ristoranti, orari e regole di consegna',
@@ -33,6 +39,18 @@ function AdminDashboard() {
       href: '/admin/menu',
       icon: '📋',
     },
+    {
+      title: 'Tag',
+      description: 'Tipi di cucina per filtrare i ristoranti',
+      href: '/admin/tags',
+      icon: '🏷️',
+    },
+    {
+      title: 'Rider',
+      description: 'Account dei rider e consegne in corso',
+      href: '/admin/couriers',
+      icon: '🛵',
+    },
   ];
 
   return (
@@ -1,6 +1,6 @@
 /**
  * Admin Edit Restaurant Page
- * Edit restaurant info, hours, and delivery rules
+ * Edit restaurant info, tags, hours, delivery rules, delivery zones and slot capacity
  * WITH ENHANCED HOURS EDITOR: validations, quick actions, preview
  */
 
@@ -22,6 +22,17 @@ interface Restaurant {
   is_active: boolean;
   force_closed: boolean;
   force_closed_note: string | null;
+  force_closed_until: string | null; // timed pause, reopens automatically
+  busy_until: string | null; // busy mode: longer ETA until then
+  busy_extra_minutes: number;
+  busy_eta_multiplier: number;
+  offers_delivery: boolean;
+  offers_pickup: boolean;
+}
+
+interface Tag {
+  slug: string;
+  name: string;
 }
 
 interface HourSlot {
@@ -34,10 +45,31 @@ interface HourSlot {
 interface DeliveryRules {
   min_order_cents: number;
   delivery_fee_cents: number;
+  free_delivery_threshold_cents: number | null;
   eta_min_minutes: number;
   eta_max_minutes: number;
 }
 
+interface CapacityRule {
+  day_of_week: number | null; // null = every day
+  max_orders: number | null;
+  max_items: number | null;
+}
+
+interface DeliveryZone {
+  name: string;
+  radius_m: number | null; // radius zone around the restaurant...
+  polygon: unknown | null; // ...or GeoJSON polygon
+  delivery_fee_cents: number | null; // null = restaurant delivery rules
+  min_order_cents: number | null;
+}
+
+// Polygons are edited as GeoJSON text
+interface ZoneForm extends Omit<DeliveryZone, 'polygon'> {
+  shape: 'radius' | 'polygon';
+  polygon_text: string;
+}
+
 interface Override {
   id: string;
   restaurant_id: string;
@@ -50,6 +82,14 @@ interface Override {
 
 const DAY_NAMES = ['Domenica', 'Lunedì', 'Martedì', 'Mercoledì', 'Giovedì', 'Venerdì', 'Sabato'];
 const MAX_SLOTS_PER_DAY = 3;
+const PAUSE_MINUTES = [15, 30, 60];
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
 
 function EditRestaurantPage() {
   const params = useParams();
@@ -72,8 +112,14 @@ function EditRestaurantPage() {
     is_active: true,
     force_closed: false,
     force_closed_note: '',
+    offers_delivery: true,
+    offers_pickup: false,
+    tags: [] as string[], // tag slugs
   });
 
+  // All tags, to pick the restaurant ones
+  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
+
   // Hours (weekly editor)
   const [hours, setHours] = useState<HourSlot[]>([]);
 
@@ -81,10 +127,17 @@ function EditRestaurantPage() {
   const [deliveryRules, setDeliveryRules] = useState({
     min_order_cents: 0,
     delivery_fee_cents: 0,
+    free_delivery_threshold_cents: null as number | null,
     eta_min_minutes: 0,
     eta_max_minutes: 0,
   });
 
+  // Capacity per 15-minute delivery slot
+  const [capacityRules, setCapacityRules] = useState<CapacityRule[]>([]);
+
+  // Delivery zones (first matching zone wins)
+  const [zones, setZones] = useState<ZoneForm[]>([]);
+
   // Overrides (daily exceptions)
   const [overrides, setOverrides] = useState<Override[]>([]);
   const [overrideForm, setOverrideForm] = useState({
@@ -95,11 +148,50 @@ function EditRestaurantPage() {
     note: '',
   });
 
+  // Busy mode (longer ETA instead of closing)
+  const [busyForm, setBusyForm] = useState({ minutes: 30, extra_minutes: 15, eta_multiplier: 1 });
+
+  // Ticks every second while a timed pause or the busy mode is running
+  const [now, setNow] = useState(Date.now());
+  const pausedUntil = restaurant?.force_closed && restaurant.force_closed_until
+    ? new Date(restaurant.force_closed_until).getTime()
+    : null;
+  const busyUntil = restaurant?.busy_until ? new Date(restaurant.busy_until).getTime() : null;
+
   useEffect(() => {
     loadRestaurantData();
     loadOverrides();
+    loadTags();
   }, [restaurantId]);
 
+  useEffect(() => {
+    const endsAt = [pausedUntil, busyUntil].filter((end): end is number => end !== null && end > Date.now());
+    if (endsAt.length === 0) {
+      return;
+    }
+
+    const firstEnd = Math.min(...endsAt);
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= firstEnd) {
+        // Pause or busy mode over: reload to show the restaurant as it is now
+        clearInterval(timer);
+        loadRestaurantData();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [pausedUntil, busyUntil]);
+
+  const loadTags = async () => {
+    try {
+      const response = await adminHttp.get<any>('/admin/tags');
+      setAvailableTags(response.data || []);
+    } catch {
+      setAvailableTags([]);
+    }
+  };
+
   const loadRestaurantData = async () => {
     setLoading(true);
     setError('');
@@ -119,6 +211,9 @@ function EditRestaurantPage() {
         is_active: rest.is_active ?? true,
         force_closed: rest.force_closed ?? false,
         force_closed_note: rest.force_closed_note || '',
+        offers_delivery: rest.offers_delivery ?? true,
+        offers_pickup: rest.offers_pickup ?? false,
+        tags: (rest.tags || []).map((tag: Tag) => tag.slug),
       });
 
       // Hours are included in the restaurant response
@@ -134,10 +229,23 @@ function EditRestaurantPage() {
         setDeliveryRules({
           min_order_cents: rules.min_order_cents || 0,
           delivery_fee_cents: rules.delivery_fee_cents || 0,
+          free_delivery_threshold_cents: rules.free_delivery_threshold_cents ?? null,
           eta_min_minutes: rules.eta_min || 0,
           eta_max_minutes: rules.eta_max || 0,
         });
       }
+
+      setCapacityRules(Array.isArray(rest.capacity_rules) ? rest.capacity_rules : []);
+      setZones(
+        (Array.isArray(rest.delivery_zones) ? rest.delivery_zones : []).map((zone: DeliveryZone) => ({
+          name: zone.name,
+          shape: zone.polygon ? 'polygon' : 'radius',
+          radius_m: zone.radius_m,
+          polygon_text: zone.polygon ? JSON.stringify(zone.polygon, null, 2) : '',
+          delivery_fee_cents: zone.delivery_fee_cents,
+          min_order_cents: zone.min_order_cents,
+        }))
+      );
     } catch (err) {
       if (err instanceof AdminHttpError) {
         setError(err.message);
@@ -238,6 +346,83 @@ function EditRestaurantPage() {
     }
   };
 
+  // ============ TIMED PAUSE ============
+
+  const handlePause = async (minutes: number) => {
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await adminHttp.post(`/admin/restaurants/${restaurantId}/pause`, {
+        minutes,
+        note: form.force_closed_note.trim() || null,
+      });
+      setSuccessMessage(`Ristorante in pausa per ${minutes} minuti`);
+      setNow(Date.now());
+      loadRestaurantData();
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nella messa in pausa');
+      }
+    }
+  };
+
+  const handleResume = async () => {
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await adminHttp.delete(`/admin/restaurants/${restaurantId}/pause`);
+      setSuccessMessage('Ristorante riaperto');
+      loadRestaurantData();
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nella riapertura');
+      }
+    }
+  };
+
+  // ============ BUSY MODE ============
+
+  const handleSetBusy = async () => {
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await adminHttp.post(`/admin/restaurants/${restaurantId}/busy`, busyForm);
+      setSuccessMessage(`Modalità "molto richiesto" attiva per ${busyForm.minutes} minuti`);
+      setNow(Date.now());
+      loadRestaurantData();
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nell\'attivazione della modalità "molto richiesto"');
+      }
+    }
+  };
+
+  const handleClearBusy = async () => {
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      await adminHttp.delete(`/admin/restaurants/${restaurantId}/busy`);
+      setSuccessMessage('Modalità "molto richiesto" disattivata');
+      loadRestaurantData();
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nella disattivazione della modalità "molto richiesto"');
+      }
+    }
+  };
+
   // ============ BASIC INFO MANAGEMENT ============
 
   const handleUpdateBasicInfo = async (e: React.FormEvent) => {
@@ -245,6 +430,11 @@ function EditRestaurantPage() {
     setError('');
     setSuccessMessage('');
 
+    if (!form.offers_delivery && !form.offers_pickup) {
+      setError('Il ristorante deve offrire almeno consegna o ritiro');
+      return;
+    }
+
     try {
       const payload = {
         name: form.name.trim(),
@@ -256,6 +446,9 @@ function EditRestaurantPage() {
         is_active: form.is_active,
         force_closed: form.force_closed,
         force_closed_note: form.force_closed_note.trim() || null,
+        offers_delivery: form.offers_delivery,
+        offers_pickup: form.offers_pickup,
+        tags: form.tags,
       };
 
       await adminHttp.patch(`/admin/restaurants/${restaurantId}`, payload);
@@ -467,6 +660,119 @@ function EditRestaurantPage() {
     }
   };
 
+  // ============ CAPACITY ============
+
+  const usedCapacityDays = capacityRules.map((rule) => rule.day_of_week);
+
+  const addCapacityRule = () => {
+    const day = [null, 0, 1, 2, 3, 4, 5, 6].find((d) => !usedCapacityDays.includes(d));
+    if (day === undefined) return;
+    setCapacityRules([...capacityRules, { day_of_week: day, max_orders: null, max_items: null }]);
+  };
+
+  const updateCapacityRule = (index: number, changes: Partial<CapacityRule>) => {
+    setCapacityRules(capacityRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const removeCapacityRule = (index: number) => {
+    setCapacityRules(capacityRules.filter((_, i) => i !== index));
+  };
+
+  const handleUpdateCapacity = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccessMessage('');
+
+    if (capacityRules.some((rule) => rule.max_orders === null && rule.max_items === null)) {
+      setError('Ogni regola deve avere un massimo di ordini o di articoli');
+      return;
+    }
+
+    try {
+      await adminHttp.put(`/admin/restaurants/${restaurantId}/capacity`, { rules: capacityRules });
+      setSuccessMessage('Capacità aggiornata con successo');
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nell\'aggiornamento capacità');
+      }
+    }
+  };
+
+  // ============ DELIVERY ZONES ============
+
+  const addZone = () => {
+    setZones([
+      ...zones,
+      { name: '', shape: 'radius', radius_m: 2000, polygon_text: '', delivery_fee_cents: null, min_order_cents: null },
+    ]);
+  };
+
+  const updateZone = (index: number, changes: Partial<ZoneForm>) => {
+    setZones(zones.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)));
+  };
+
+  const removeZone = (index: number) => {
+    setZones(zones.filter((_, i) => i !== index));
+  };
+
+  const handleUpdateZones = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccessMessage('');
+
+    const payload: DeliveryZone[] = [];
+    for (const zone of zones) {
+      if (!zone.name.trim()) {
+        setError('Ogni zona deve avere un nome');
+        return;
+      }
+
+      let polygon: unknown = null;
+      if (zone.shape === 'polygon') {
+        try {
+          polygon = JSON.parse(zone.polygon_text);
+        } catch {
+          setError(`Zona "${zone.name}": GeoJSON non valido`);
+          return;
+        }
+      } else if (!zone.radius_m) {
+        setError(`Zona "${zone.name}": indica il raggio in metri`);
+        return;
+      }
+
+      payload.push({
+        name: zone.name.trim(),
+        radius_m: zone.shape === 'radius' ? zone.radius_m : null,
+        polygon,
+        delivery_fee_cents: zone.delivery_fee_cents,
+        min_order_cents: zone.min_order_cents,
+      });
+    }
+
+    try {
+      await adminHttp.put(`/admin/restaurants/${restaurantId}/zones`, { zones: payload });
+      setSuccessMessage('Zone di consegna aggiornate con successo');
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nell\'aggiornamento zone di consegna');
+      }
+    }
+  };
+
+  const parseEuroOverride = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return parsed >= 0 ? Math.round(parsed * 100) : null;
+  };
+
+  const parseLimit = (value: string): number | null => {
+    const parsed = parseInt(value);
+    return parsed > 0 ? parsed : null;
+  };
+
   if (loading) {
     return (
       <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', minHeight: '100vh', fontFamily: 'system-ui, sans-serif' }}>
@@ -544,6 +850,47 @@ function EditRestaurantPage() {
                 <label style={{ fontWeight: 500, fontSize: '0.875rem' }}>Ristorante attivo</label>
               </div>
 
+              <div style={{ display: 'flex', gap: '1.5rem' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <input type="checkbox" checked={form.offers_delivery} onChange={(e) => setForm({ ...form, offers_delivery: e.target.checked })} style={{ width: '1.25rem', height: '1.25rem' }} />
+                  <label style={{ fontWeight: 500, fontSize: '0.875rem' }}>Consegna a domicilio</label>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <input type="checkbox" checked={form.offers_pickup} onChange={(e) => setForm({ ...form, offers_pickup: e.target.checked })} style={{ width: '1.25rem', height: '1.25rem' }} />
+                  <label style={{ fontWeight: 500, fontSize: '0.875rem' }}>Ritiro al ristorante</label>
+                </div>
+              </div>
+
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Tag</label>
+                {availableTags.length === 0 ? (
+                  <p style={{ color: '#6b7280', fontSize: '0.875rem', margin: 0 }}>
+                    Nessun tag. <a href="/admin/tags" style={{ color: '#2563eb' }}>Crea i tag</a>
+                  </p>
+                ) : (
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem 1.5rem' }}>
+                    {availableTags.map((tag) => (
+                      <div key={tag.slug} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                        <input
+                          type="checkbox"
+                          checked={form.tags.includes(tag.slug)}
+                          onChange={(e) =>
+                            setForm({
+                              ...form,
+                              tags: e.target.checked
+                                ? [...form.tags, tag.slug]
+                                : form.tags.filter((slug) => slug !== tag.slug),
+                            })
+                          }
+                          style={{ width: '1.25rem', height: '1.25rem' }}
+                        />
+                        <label style={{ fontSize: '0.875rem' }}>{tag.name}</label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Force Closed (Kill Switch) */}
               <div style={{ padding: '1rem', backgroundColor: '#fef2f2', border: '1px solid #fecaca', borderRadius: '6px' }}>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.75rem' }}>
@@ -583,6 +930,106 @@ function EditRestaurantPage() {
                 <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.75rem', color: '#991b1b' }}>
                   ⚠️ Quando attivo, il ristorante risulterà chiuso indipendentemente da orari e override
                 </p>
+
+                {/* Timed pause */}
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.75rem', flexWrap: 'wrap' }}>
+                  {pausedUntil !== null && pausedUntil > now ? (
+                    <>
+                      <span style={{ fontWeight: 600, fontSize: '0.875rem', color: '#991b1b' }}>
+                        ⏸️ In pausa, riapre tra {formatCountdown(pausedUntil - now)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={handleResume}
+                        style={{ padding: '0.375rem 0.75rem', backgroundColor: '#16a34a', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer', fontSize: '0.875rem' }}
+                      >
+                        Riapri ora
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span style={{ fontSize: '0.875rem', color: '#991b1b' }}>Pausa:</span>
+                      {PAUSE_MINUTES.map((minutes) => (
+                        <button
+                          key={minutes}
+                          type="button"
+                          onClick={() => handlePause(minutes)}
+                          style={{ padding: '0.375rem 0.75rem', backgroundColor: '#fff', color: '#991b1b', border: '1px solid #fca5a5', borderRadius: '6px', cursor: 'pointer', fontSize: '0.875rem' }}
+                        >
+                          {minutes} min
+                        </button>
+                      ))}
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {/* Busy Mode */}
+              <div style={{ padding: '1rem', backgroundColor: '#fff7ed', border: '1px solid #fed7aa', borderRadius: '6px' }}>
+                <label style={{ display: 'block', fontWeight: 600, fontSize: '0.875rem', color: '#c2410c', marginBottom: '0.75rem' }}>
+                  🔥 Molto richiesto (tempi di consegna più lunghi)
+                </label>
+                {busyUntil !== null && busyUntil > now ? (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+                    <span style={{ fontWeight: 600, fontSize: '0.875rem', color: '#c2410c' }}>
+                      Attivo (ETA ×{restaurant?.busy_eta_multiplier} +{restaurant?.busy_extra_minutes} min), termina tra{' '}
+                      {formatCountdown(busyUntil - now)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleClearBusy}
+                      style={{ padding: '0.375rem 0.75rem', backgroundColor: '#fff', color: '#c2410c', border: '1px solid #fdba74', borderRadius: '6px', cursor: 'pointer', fontSize: '0.875rem' }}
+                    >
+                      Disattiva
+                    </button>
+                  </div>
+                ) : (
+                  <div style={{ display: 'flex', alignItems: 'flex-end', gap: '0.75rem', flexWrap: 'wrap' }}>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.75rem', color: '#9a3412' }}>Minuti extra</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={120}
+                        value={busyForm.extra_minutes}
+                        onChange={(e) => setBusyForm({ ...busyForm, extra_minutes: parseInt(e.target.value, 10) || 0 })}
+                        style={{ width: '5rem', padding: '0.375rem', border: '1px solid #fdba74', borderRadius: '6px' }}
+                      />
+                    </div>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.75rem', color: '#9a3412' }}>Moltiplicatore</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={3}
+                        step={0.25}
+                        value={busyForm.eta_multiplier}
+                        onChange={(e) => setBusyForm({ ...busyForm, eta_multiplier: parseFloat(e.target.value) || 1 })}
+                        style={{ width: '5rem', padding: '0.375rem', border: '1px solid #fdba74', borderRadius: '6px' }}
+                      />
+                    </div>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.25rem', fontSize: '0.75rem', color: '#9a3412' }}>Per</label>
+                      <select
+                        value={busyForm.minutes}
+                        onChange={(e) => setBusyForm({ ...busyForm, minutes: parseInt(e.target.value, 10) })}
+                        style={{ padding: '0.375rem', border: '1px solid #fdba74', borderRadius: '6px' }}
+                      >
+                        {[15, 30, 60, 120].map((minutes) => (
+                          <option key={minutes} value={minutes}>{minutes} min</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleSetBusy}
+                      disabled={busyForm.extra_minutes === 0 && busyForm.eta_multiplier <= 1}
+                      style={{ padding: '0.375rem 0.75rem', backgroundColor: '#ea580c', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer', fontSize: '0.875rem' }}
+                    >
+                      Attiva
+                    </button>
+                  </div>
+                )}
               </div>
 
               <button type="submit" style={{ padding: '0.75rem', backgroundColor: '#2563eb', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer', fontWeight: 500 }}>
@@ -940,6 +1387,21 @@ function EditRestaurantPage() {
                 />
               </div>
 
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Consegna Gratuita Sopra (€)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  placeholder="Nessuna soglia"
+                  value={deliveryRules.free_delivery_threshold_cents === null ? '' : (deliveryRules.free_delivery_threshold_cents / 100).toFixed(2)}
+                  onChange={(e) => setDeliveryRules({
+                    ...deliveryRules,
+                    free_delivery_threshold_cents: e.target.value === '' ? null : Math.round(parseFloat(e.target.value) * 100) || 0,
+                  })}
+                  style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                />
+              </div>
+
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
                 <div>
                   <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Tempo Min (minuti)</label>
@@ -967,6 +1429,191 @@ function EditRestaurantPage() {
             </div>
           </form>
         </div>
+
+        {/* Capacity Section */}
+        <div style={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '8px', padding: '2rem' }}>
+          <h2 style={{ fontSize: '1.25rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>Capacità per Fascia</h2>
+          <p style={{ color: '#6b7280', fontSize: '0.875rem', marginBottom: '1.5rem' }}>
+            Ordini o articoli massimi per fascia di consegna da 15 minuti. La regola di un giorno specifico
+            prevale su &quot;Tutti i giorni&quot;. Nessuna regola = nessun limite.
+          </p>
+          <form onSubmit={handleUpdateCapacity}>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+              {capacityRules.map((rule, index) => (
+                <div key={index} style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr auto', gap: '0.75rem', alignItems: 'end' }}>
+                  <div>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Giorno</label>
+                    <select
+                      value={rule.day_of_week === null ? '' : String(rule.day_of_week)}
+                      onChange={(e) => updateCapacityRule(index, { day_of_week: e.target.value === '' ? null : parseInt(e.target.value) })}
+                      style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                    >
+                      <option value="" disabled={rule.day_of_week !== null && usedCapacityDays.includes(null)}>
+                        Tutti i giorni
+                      </option>
+                      {DAY_NAMES.map((name, day) => (
+                        <option key={day} value={day} disabled={rule.day_of_week !== day && usedCapacityDays.includes(day)}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Max ordini</label>
+                    <input
+                      type="number"
+                      min="1"
+                      placeholder="—"
+                      value={rule.max_orders ?? ''}
+                      onChange={(e) => updateCapacityRule(index, { max_orders: parseLimit(e.target.value) })}
+                      style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                    />
+                  </div>
+                  <div>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Max articoli</label>
+                    <input
+                      type="number"
+                      min="1"
+                      placeholder="—"
+                      value={rule.max_items ?? ''}
+                      onChange={(e) => updateCapacityRule(index, { max_items: parseLimit(e.target.value) })}
+                      style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeCapacityRule(index)}
+                    style={{ padding: '0.75rem', backgroundColor: '#fff', color: '#dc2626', border: '1px solid #fecaca', borderRadius: '6px', cursor: 'pointer' }}
+                  >
+                    Rimuovi
+                  </button>
+                </div>
+              ))}
+
+              {capacityRules.length < DAY_NAMES.length + 1 && (
+                <button
+                  type="button"
+                  onClick={addCapacityRule}
+                  style={{ padding: '0.5rem', backgroundColor: '#f3f4f6', border: '1px dashed #d1d5db', borderRadius: '6px', cursor: 'pointer', fontSize: '0.875rem' }}
+                >
+                  + Aggiungi regola
+                </button>
+              )}
+
+              <button type="submit" style={{ padding: '0.75rem', backgroundColor: '#2563eb', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer', fontWeight: 500 }}>
+                Salva Capacità
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* Delivery Zones Section */}
+        <div style={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '8px', padding: '2rem' }}>
+          <h2 style={{ fontSize: '1.25rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>Zone di Consegna</h2>
+          <p style={{ color: '#6b7280', fontSize: '0.875rem', marginBottom: '1.5rem' }}>
+            Raggio attorno al ristorante (richiede latitudine e longitudine) o poligono GeoJSON con coordinate
+            [lng, lat]. Vale la prima zona che contiene l&apos;indirizzo; costo e minimo vuoti usano le regole di
+            consegna. Nessuna zona = consegna ovunque.
+          </p>
+          <form onSubmit={handleUpdateZones}>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+              {zones.map((zone, index) => (
+                <div key={index} style={{ padding: '1rem', border: '1px solid #e5e7eb', borderRadius: '6px', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+                  <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr 1fr auto', gap: '0.75rem', alignItems: 'end' }}>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Nome</label>
+                      <input
+                        type="text"
+                        value={zone.name}
+                        onChange={(e) => updateZone(index, { name: e.target.value })}
+                        placeholder="Es: Centro"
+                        style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                      />
+                    </div>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Forma</label>
+                      <select
+                        value={zone.shape}
+                        onChange={(e) => updateZone(index, { shape: e.target.value as ZoneForm['shape'] })}
+                        style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                      >
+                        <option value="radius">Raggio</option>
+                        <option value="polygon">Poligono</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Costo (€)</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="—"
+                        value={zone.delivery_fee_cents === null ? '' : zone.delivery_fee_cents / 100}
+                        onChange={(e) => updateZone(index, { delivery_fee_cents: parseEuroOverride(e.target.value) })}
+                        style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                      />
+                    </div>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Minimo (€)</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="—"
+                        value={zone.min_order_cents === null ? '' : zone.min_order_cents / 100}
+                        onChange={(e) => updateZone(index, { min_order_cents: parseEuroOverride(e.target.value) })}
+                        style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeZone(index)}
+                      style={{ padding: '0.75rem', backgroundColor: '#fff', color: '#dc2626', border: '1px solid #fecaca', borderRadius: '6px', cursor: 'pointer' }}
+                    >
+                      Rimuovi
+                    </button>
+                  </div>
+
+                  {zone.shape === 'radius' ? (
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>Raggio (metri)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={zone.radius_m ?? ''}
+                        onChange={(e) => updateZone(index, { radius_m: parseLimit(e.target.value) })}
+                        style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box' }}
+                      />
+                    </div>
+                  ) : (
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500, fontSize: '0.875rem' }}>GeoJSON (Polygon o MultiPolygon)</label>
+                      <textarea
+                        value={zone.polygon_text}
+                        onChange={(e) => updateZone(index, { polygon_text: e.target.value })}
+                        rows={6}
+                        placeholder='{"type": "Polygon", "coordinates": [[[16.08, 39.15], [16.1, 39.15], [16.1, 39.17], [16.08, 39.15]]]}'
+                        style={{ width: '100%', padding: '0.75rem', border: '1px solid #d1d5db', borderRadius: '6px', boxSizing: 'border-box', fontFamily: 'monospace', fontSize: '0.8rem' }}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              <button
+                type="button"
+                onClick={addZone}
+                style={{ padding: '0.5rem', backgroundColor: '#f3f4f6', border: '1px dashed #d1d5db', borderRadius: '6px', cursor: 'pointer', fontSize: '0.875rem' }}
+              >
+                + Aggiungi zona
+              </button>
+
+              <button type="submit" style={{ padding: '0.75rem', backgroundColor: '#2563eb', color: '#fff', border: 'none', borderRadius: '6px', cursor: 'pointer', fontWeight: 500 }}>
+                Salva Zone
+              </button>
+            </div>
+          </form>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,303 @@
+/**
+ * Admin Tags Page
+ * Cuisine tags (pizzeria, sushi, gelateria, ...) assigned to restaurants
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { AdminGuard } from '@/components/admin-guard';
+import { adminHttp, AdminHttpError } from '@/lib/adminHttp';
+
+interface Tag {
+  id: string;
+  slug: string;
+  name: string;
+  sort_order: number;
+  restaurant_count: number;
+}
+
+const inputStyle = {
+  padding: '0.5rem 0.75rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  fontSize: '0.95rem',
+};
+
+function TagsPage() {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [newTag, setNewTag] = useState({ name: '', slug: '' });
+  const [saving, setSaving] = useState(false);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  const loadTags = async () => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await adminHttp.get<any>('/admin/tags');
+      setTags(response.data || []);
+    } catch (err) {
+      if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nel caricamento dei tag');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      await adminHttp.post('/admin/tags', {
+        name: newTag.name,
+        slug: newTag.slug || undefined,
+      });
+      setNewTag({ name: '', slug: '' });
+      await loadTags();
+    } catch (err) {
+      if (err instanceof AdminHttpError && err.status === 409) {
+        setError('Esiste già un tag con questo slug');
+      } else if (err instanceof AdminHttpError) {
+        setError(err.message);
+      } else {
+        setError('Errore nella creazione del tag');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async (tag: Tag) => {
+    setError('');
+
+    try {
+      await adminHttp.patch(`/admin/tags/${tag.id}`, { name: editName });
+      setEditingId(null);
+      await loadTags();
+    } catch (err) {
+      setError(err instanceof AdminHttpError ? err.message : 'Errore nel salvataggio del tag');
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    const usage = tag.restaurant_count > 0 ? ` Verrà rimosso da ${tag.restaurant_count} ristoranti.` : '';
+    if (!confirm(`Eliminare il tag "${tag.name}"?${usage}`)) {
+      return;
+    }
+
+    setError('');
+
+    try {
+      await adminHttp.delete(`/admin/tags/${tag.id}`);
+      await loadTags();
+    } catch (err) {
+      setError(err instanceof AdminHttpError ? err.message : 'Errore nell\'eliminazione del tag');
+    }
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        backgroundColor: '#f9fafb',
+        fontFamily: 'system-ui, sans-serif',
+      }}
+    >
+      {/* Header */}
+      <div
+        style={{
+          backgroundColor: '#fff',
+          borderBottom: '1px solid #e5e7eb',
+          padding: '1rem 2rem',
+        }}
+      >
+        <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+          <a
+            href="/admin"
+            style={{
+              color: '#2563eb',
+              textDecoration: 'none',
+              fontSize: '0.875rem',
+              marginBottom: '1rem',
+              display: 'inline-block',
+            }}
+          >
+            ← Torna alla dashboard
+          </a>
+          <h1 style={{ fontSize: '1.875rem', fontWeight: 'bold', margin: 0 }}>Tag</h1>
+          <p style={{ color: '#6b7280', fontSize: '0.875rem', margin: '0.5rem 0 0 0' }}>
+            Tipi di cucina per classificare e filtrare i ristoranti
+          </p>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div style={{ maxWidth: '1200px', margin: '0 auto', padding: '2rem' }}>
+        {error && (
+          <div
+            style={{
+              padding: '1rem',
+              backgroundColor: '#fef2f2',
+              border: '1px solid #fecaca',
+              borderRadius: '8px',
+              color: '#991b1b',
+              marginBottom: '1rem',
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {/* Create */}
+        <form
+          onSubmit={handleCreate}
+          style={{
+            display: 'flex',
+            gap: '0.75rem',
+            padding: '1.5rem',
+            backgroundColor: '#fff',
+            border: '1px solid #e5e7eb',
+            borderRadius: '8px',
+            marginBottom: '1.5rem',
+          }}
+        >
+          <input
+            type="text"
+            placeholder="Nome (es. Pizzeria)"
+            value={newTag.name}
+            onChange={(e) => setNewTag({ ...newTag, name: e.target.value })}
+            required
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <input
+            type="text"
+            placeholder="Slug (opzionale)"
+            value={newTag.slug}
+            onChange={(e) => setNewTag({ ...newTag, slug: e.target.value })}
+            style={inputStyle}
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            style={{
+              padding: '0.5rem 1.25rem',
+              backgroundColor: '#2563eb',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontWeight: 500,
+            }}
+          >
+            {saving ? 'Salvataggio...' : '+ Aggiungi'}
+          </button>
+        </form>
+
+        {loading && (
+          <div style={{ textAlign: 'center', padding: '3rem' }}>
+            <p style={{ color: '#6b7280' }}>Caricamento tag...</p>
+          </div>
+        )}
+
+        {!loading && tags.length === 0 && (
+          <p style={{ color: '#6b7280', textAlign: 'center' }}>Nessun tag. Creane uno per iniziare!</p>
+        )}
+
+        {!loading && tags.length > 0 && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            {tags.map((tag) => (
+              <div
+                key={tag.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  padding: '1rem 1.5rem',
+                  backgroundColor: '#fff',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '8px',
+                }}
+              >
+                <div style={{ flex: 1 }}>
+                  {editingId === tag.id ? (
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      style={inputStyle}
+                      autoFocus
+                    />
+                  ) : (
+                    <span style={{ fontWeight: 600 }}>{tag.name}</span>
+                  )}
+                  <span style={{ color: '#6b7280', fontSize: '0.875rem', marginLeft: '0.75rem' }}>
+                    {tag.slug} · {tag.restaurant_count} ristoranti
+                  </span>
+                </div>
+
+                {editingId === tag.id ? (
+                  <>
+                    <button
+                      onClick={() => handleRename(tag)}
+                      disabled={!editName.trim()}
+                      style={{ ...inputStyle, cursor: 'pointer', backgroundColor: '#2563eb', color: '#fff', border: 'none' }}
+                    >
+                      Salva
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      style={{ ...inputStyle, cursor: 'pointer', backgroundColor: '#fff' }}
+                    >
+                      Annulla
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => {
+                        setEditingId(tag.id);
+                        setEditName(tag.name);
+                      }}
+                      style={{ ...inputStyle, cursor: 'pointer', backgroundColor: '#fff' }}
+                    >
+                      Rinomina
+                    </button>
+                    <button
+                      onClick={() => handleDelete(tag)}
+                      style={{ ...inputStyle, cursor: 'pointer', backgroundColor: '#fff', color: '#991b1b', borderColor: '#fecaca' }}
+                    >
+                      Elimina
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminTagsPage() {
+  return (
+    <AdminGuard>
+      <TagsPage />
+    </AdminGuard>
+  );
+}
@@ -4,11 +4,13 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { AuthGuard } from '@/components/auth-guard';
 import { useCart } from '@/lib/cart/CartContext';
+import { useCartQuote, describeQuoteProblem, canPreOrder } from '@/lib/cart/useCartQuote';
 
 function CartPage() {
   const router = useRouter();
   const { cart, isHydrated, removeItem, setQty, getTotals, clearCart } = useCart();
   const { subtotal_cents, total_items } = getTotals();
+  const { quote, loading: quoteLoading, error: quoteError } = useCartQuote(cart);
 
   // Show loading while hydrating
   if (!isHydrated) {
@@ -61,15 +63,22 @@ function CartPage() {
         {/* Cart Items */}
         <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
           <div className="space-y-4">
-            {cart.items.map((item) => {
-              const unitPrice =
+            {cart.items.map((item, index) => {
+              // Server prices win over the cached menu data
+              const quoteLine = quote?.items.find((line) => line.line_index === index);
+              const lineProblems = quote?.problems.filter((p) => p.line_index === index) || [];
+              const localUnitPrice =
                 item.base_price_cents +
                 item.options.reduce((sum, opt) => sum + opt.price_delta_cents, 0);
+              const unitPrice = quoteLine ? quoteLine.unit_price_cents : localUnitPrice;
+              const lineTotal = quoteLine ? quoteLine.total_cents : item.item_total_cents;
 
               return (
                 <div
                   key={item.key}
-                  className="border border-gray-200 rounded-md p-4 flex flex-col"
+                  className={`border rounded-md p-4 flex flex-col ${
+                    lineProblems.length > 0 ? 'border-red-300 bg-red-50' : 'border-gray-200'
+                  }`}
                 >
                   {/* Item Name */}
                   <h3 className="font-semibold mb-2">{item.name}</h3>
@@ -90,6 +99,16 @@ function CartPage() {
                     </div>
                   )}
 
+                  {/* Stale line warnings */}
+                  {quote && lineProblems.map((problem, idx) => (
+                    <p key={idx} className="text-sm text-red-700 mb-1">
+                      {describeQuoteProblem(problem, quote)} — rimuovilo per continuare
+                    </p>
+                  ))}
+                  {quoteLine && quoteLine.unit_price_cents !== localUnitPrice && (
+                    <p className="text-sm text-gray-600 mb-1">Prezzo aggiornato dal ristorante</p>
+                  )}
+
                   {/* Price and Controls */}
                   <div className="flex items-center justify-between mt-3">
                     <div className="text-sm">
@@ -97,7 +116,7 @@ function CartPage() {
                         €{(unitPrice / 100).toFixed(2)} × {item.qty}
                       </p>
                       <p className="text-gray-600">
-                        Totale: €{(item.item_total_cents / 100).toFixed(2)}
+                        Totale: €{(lineTotal / 100).toFixed(2)}
                       </p>
                     </div>
 
@@ -129,20 +148,69 @@ function CartPage() {
             })}
           </div>
 
-          {/* Subtotal */}
+          {/* Totals */}
           <div className="mt-6 pt-6 border-t border-gray-200">
-            <div className="flex justify-between items-center mb-4">
+            <div className="flex justify-between items-center mb-2">
               <span className="text-lg font-semibold">Subtotale ({total_items} articoli):</span>
               <span className="text-2xl font-bold">
-                €{(subtotal_cents / 100).toFixed(2)}
+                €{((quote ? quote.subtotal_cents : subtotal_cents) / 100).toFixed(2)}
               </span>
             </div>
+            {quote && (
+              <div className="space-y-1 text-sm text-gray-600 mb-4">
+                <div className="flex justify-between">
+                  <span>Costo consegna:</span>
+                  <span>
+                    {quote.fee_breakdown.delivery.free_delivery_applied
+                      ? 'Gratis'
+                      : `€${(quote.delivery_fee_cents / 100).toFixed(2)}`}
+                  </span>
+                </div>
+                {quote.eta_min !== null && (
+                  <div className="flex justify-between">
+                    <span>Consegna stimata:</span>
+                    <span className={quote.is_busy ? 'text-orange-600' : undefined}>
+                      {quote.eta_min}–{quote.eta_max} min{quote.is_busy && ' (molto richiesto)'}
+                    </span>
+                  </div>
+                )}
+                {quote.service_fee_cents > 0 && (
+                  <div className="flex justify-between">
+                    <span>Costi di servizio:</span>
+                    <span>€{(quote.service_fee_cents / 100).toFixed(2)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-semibold text-gray-900">
+                  <span>Totale:</span>
+                  <span>€{(quote.total_cents / 100).toFixed(2)}</span>
+                </div>
+              </div>
+            )}
+            {quoteLoading && !quote && (
+              <p className="text-sm text-gray-600 mb-4">Calcolo del totale…</p>
+            )}
+            {quoteError && (
+              <p className="text-sm text-gray-600 mb-4">Impossibile aggiornare i prezzi: {quoteError}</p>
+            )}
+            {quote && quote.problems
+              .filter((problem) => problem.line_index === null)
+              .map((problem, idx) => (
+                <p key={idx} className="text-sm text-red-700 mb-2">
+                  {describeQuoteProblem(problem, quote)}
+                </p>
+              ))}
+            {quote && canPreOrder(quote) && (
+              <p className="text-sm text-gray-600 mb-2">
+                Puoi comunque ordinare ora e scegliere un orario di consegna al checkout.
+              </p>
+            )}
 
             {/* Actions */}
             <div className="space-y-3">
               <button
                 onClick={handleCheckout}
-                className="w-full px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
+                disabled={quote !== null && !quote.can_order && !canPreOrder(quote)}
+                className="w-full px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
               >
                 Vai al Checkout
               </button>
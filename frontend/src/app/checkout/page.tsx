@@ -4,10 +4,36 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { AuthGuard } from '@/components/auth-guard';
 import { useCart } from '@/lib/cart/CartContext';
-import { createOrder, payOrder, type CreateOrderPayload, type Order } from '@/lib/api';
+import {
+  useCartQuote,
+  canPreOrder,
+  describeQuoteProblem,
+  isAddressProblem,
+  formatNextOpenAt,
+  formatSlot,
+  formatSlotDay,
+  formatSlotTime,
+  toOrderItems,
+} from '@/lib/cart/useCartQuote';
+import { HttpError } from '@/lib/http';
+import {
+  createOrder,
+  getRestaurant,
+  getRestaurantSlots,
+  payOrder,
+  type CreateOrderPayload,
+  type DeliveryAddressInput,
+  type DeliverySlot,
+  type FulfilmentType,
+  type Order,
+  type RestaurantSlots,
+} from '@/lib/api';
 
 type PaymentMethod = 'CASH' | 'ONLINE';
 
+// Wait for a pause in typing before checking the address with the server
+const ADDRESS_QUOTE_DEBOUNCE_MS = 800;
+
 interface PaymentScreenState {
   order: Order;
 }
@@ -17,6 +43,48 @@ function CheckoutPage() {
   const { cart, isHydrated, getTotals, clearCart } = useCart();
   const { subtotal_cents, total_items } = getTotals();
 
+  // Delivery or pickup, limited to the modes the restaurant offers
+  const [fulfilmentType, setFulfilmentType] = useState<FulfilmentType>('DELIVERY');
+  const [offeredModes, setOfferedModes] = useState<FulfilmentType[]>(['DELIVERY']);
+  const isPickup = fulfilmentType === 'PICKUP';
+
+  // Delivery time: null = as soon as possible, otherwise a slot start
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [slots, setSlots] = useState<RestaurantSlots | null>(null);
+
+  const restaurantSlug = cart?.restaurant_slug;
+
+  async function loadSlots(slug: string) {
+    try {
+      const result = await getRestaurantSlots(slug);
+      setSlots(result);
+      // ASAP not possible (closed or fully booked): pre-select the first slot
+      if (!result.asap_available && result.slots.length > 0) {
+        setScheduledFor((current) => current ?? result.slots[0].start);
+      }
+    } catch {
+      setSlots(null);
+    }
+  }
+
+  useEffect(() => {
+    if (!restaurantSlug) return;
+    loadSlots(restaurantSlug);
+    getRestaurant(restaurantSlug)
+      .then(({ restaurant }) => {
+        const modes: FulfilmentType[] = [];
+        if (restaurant.offers_delivery) modes.push('DELIVERY');
+        if (restaurant.offers_pickup) modes.push('PICKUP');
+        if (modes.length > 0) {
+          setOfferedModes(modes);
+          setFulfilmentType(modes[0]);
+        }
+      })
+      .catch(() => {
+        // Keep delivery: the order request will report anything wrong
+      });
+  }, [restaurantSlug]);
+
   // Redirect if cart empty (only after hydration)
   useEffect(() => {
     if (!isHydrated) return; // Wait for hydration
@@ -37,6 +105,19 @@ function CheckoutPage() {
   const [orderNotes, setOrderNotes] = useState('');
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
 
+  // Quote the delivery area as soon as the address is complete
+  const [quoteAddress, setQuoteAddress] = useState<DeliveryAddressInput | null>(null);
+  useEffect(() => {
+    const complete = [street, number, city, zip].every((field) => field.trim() !== '');
+    const timer = setTimeout(
+      () => setQuoteAddress(complete ? { street, number, city, zip } : null),
+      ADDRESS_QUOTE_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [street, number, city, zip]);
+
+  const { quote } = useCartQuote(cart, scheduledFor, fulfilmentType, quoteAddress);
+
   // UI state
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -49,6 +130,7 @@ function CheckoutPage() {
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
+    if (!cart) return;
     setLoading(true);
     setError(null);
 
@@ -57,24 +139,21 @@ function CheckoutPage() {
       const payload: CreateOrderPayload = {
         restaurant_id: cart.restaurant_id,
         payment_method: paymentMethod,
-        address: {
-          street,
-          number,
-          city,
-          zip,
-          ...(floor && { floor }),
-          ...(intercom && { intercom }),
-          ...(addressNote && { note: addressNote }),
-        },
+        fulfilment_type: fulfilmentType,
+        ...(!isPickup && {
+          address: {
+            street,
+            number,
+            city,
+            zip,
+            ...(floor && { floor }),
+            ...(intercom && { intercom }),
+            ...(addressNote && { note: addressNote }),
+          },
+        }),
         ...(orderNotes && { notes: orderNotes }),
-        items: cart.items.map((item) => ({
-          product_id: item.product_id,
-          qty: item.qty,
-          options: item.options.map((opt) => ({
-            group_id: opt.group_id,
-            item_id: opt.item_id,
-          })),
-        })),
+        ...(scheduledFor && { scheduled_for: scheduledFor }),
+        items: toOrderItems(cart),
       };
 
       const response = await createOrder(payload);
@@ -88,7 +167,43 @@ function CheckoutPage() {
         setPaymentScreen({ order: response.order });
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Errore nella creazione ordine');
+      if (err instanceof HttpError && err.body?.error === 'RESTAURANT_CLOSED') {
+        const nextOpenAt = err.body.details?.next_open_at;
+        setError(
+          nextOpenAt
+            ? `Il ristorante è chiuso. ${formatNextOpenAt(nextOpenAt)}`
+            : 'Il ristorante è chiuso in questo momento'
+        );
+      } else if (err instanceof HttpError && err.body?.error === 'SLOT_FULL') {
+        // Someone booked the last place: offer the next free slot
+        const nextSlotAt: string | null = err.body.details?.next_slot_at ?? null;
+        await loadSlots(cart.restaurant_slug);
+        if (nextSlotAt) {
+          setScheduledFor(nextSlotAt);
+          setError(`L'orario scelto è al completo. Ti proponiamo ${formatSlot(nextSlotAt)}: conferma per ordinare`);
+        } else {
+          setError("L'orario scelto è al completo e non ci sono altri orari liberi");
+        }
+      } else if (err instanceof HttpError && err.body?.error === 'SLOT_NOT_AVAILABLE') {
+        setError("L'orario di consegna scelto non è più disponibile, scegline un altro");
+      } else if (
+        err instanceof HttpError &&
+        (err.body?.error === 'DELIVERY_OUT_OF_AREA' || err.body?.error === 'DELIVERY_OUT_OF_RANGE')
+      ) {
+        setError('Il ristorante non consegna a questo indirizzo');
+      } else if (err instanceof HttpError && err.body?.error === 'ADDRESS_NOT_FOUND') {
+        setError('Indirizzo non trovato: controlla via, CAP e città');
+      } else if (err instanceof HttpError && err.body?.error === 'DELIVERY_LOCATION_MISMATCH') {
+        setError("La posizione indicata non corrisponde all'indirizzo: controlla via, CAP e città");
+      } else if (err instanceof HttpError && err.body?.error === 'FULFILMENT_NOT_AVAILABLE') {
+        setError(
+          isPickup
+            ? 'Il ritiro al ristorante non è più disponibile'
+            : 'La consegna a domicilio non è più disponibile'
+        );
+      } else {
+        setError(err instanceof Error ? err.message : 'Errore nella creazione ordine');
+      }
     } finally {
       setLoading(false);
     }
@@ -101,6 +216,7 @@ function CheckoutPage() {
     setError(null);
 
     try {
+      // Payment is confirmed asynchronously: the order page updates live
       await payOrder(paymentScreen.order.id);
       router.push(`/orders/${paymentScreen.order.id}`);
     } catch (err) {
@@ -176,7 +292,7 @@ function CheckoutPage() {
             </h2>
 
             <div className="space-y-2 mb-4">
-              {cart.items.map((item) => (
+              {cart.items.map((item, index) => (
                 <div key={item.key} className="flex justify-between text-sm">
                   <span>
                     {item.name} × {item.qty}
@@ -187,7 +303,7 @@ function CheckoutPage() {
                     )}
                   </span>
                   <span className="font-medium">
-                    €{(item.item_total_cents / 100).toFixed(2)}
+                    €{((quote?.items.find((line) => line.line_index === index)?.total_cents ?? item.item_total_cents) / 100).toFixed(2)}
                   </span>
                 </div>
               ))}
@@ -196,94 +312,169 @@ function CheckoutPage() {
             <div className="pt-4 border-t border-gray-200">
               <div className="flex justify-between font-semibold">
                 <span>Subtotale ({total_items} articoli):</span>
-                <span>€{(subtotal_cents / 100).toFixed(2)}</span>
+                <span>€{((quote ? quote.subtotal_cents : subtotal_cents) / 100).toFixed(2)}</span>
               </div>
+              {quote && (
+                <div className="space-y-1 mt-2 text-sm">
+                  {!isPickup && (
+                    <div className="flex justify-between">
+                      <span>Costo consegna:</span>
+                      <span>
+                        {quote.fee_breakdown.delivery.free_delivery_applied
+                          ? 'Gratis'
+                          : `€${(quote.delivery_fee_cents / 100).toFixed(2)}`}
+                      </span>
+                    </div>
+                  )}
+                  {quote.service_fee_cents > 0 && (
+                    <div className="flex justify-between">
+                      <span>Costi di servizio:</span>
+                      <span>€{(quote.service_fee_cents / 100).toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Totale:</span>
+                    <span>€{(quote.total_cents / 100).toFixed(2)}</span>
+                  </div>
+                </div>
+              )}
             </div>
+
+            {quote && quote.problems.length > 0 && (
+              <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md space-y-1">
+                {quote.problems.map((problem, idx) => (
+                  <p key={idx} className="text-sm text-red-700">
+                    {problem.line_index !== null && `${cart.items[problem.line_index]?.name}: `}
+                    {describeQuoteProblem(problem, quote)}
+                  </p>
+                ))}
+                <p className="text-sm text-gray-700">
+                  {canPreOrder(quote)
+                    ? `Scegli un orario di ${isPickup ? 'ritiro' : 'consegna'} qui sotto.`
+                    : quote.problems.every(isAddressProblem)
+                      ? "Controlla l'indirizzo di consegna qui sotto."
+                      : "Torna al carrello per correggere l'ordine."}
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Form */}
           <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
-            <h3 className="text-lg font-semibold mb-4">Indirizzo di consegna</h3>
-
-            <div className="space-y-3 mb-6">
-              <div className="flex space-x-2">
-                <div className="flex-1">
-                  <label className="block text-sm font-medium mb-1">Via *</label>
-                  <input
-                    type="text"
-                    required
-                    value={street}
-                    onChange={(e) => setStreet(e.target.value)}
-                    className="w-full"
-                  />
-                </div>
-                <div style={{ width: '100px' }}>
-                  <label className="block text-sm font-medium mb-1">Num *</label>
-                  <input
-                    type="text"
-                    required
-                    value={number}
-                    onChange={(e) => setNumber(e.target.value)}
-                    className="w-full"
-                  />
+            {offeredModes.length > 1 && (
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold mb-3">Come vuoi ricevere l&apos;ordine?</h3>
+                <div className="flex space-x-2">
+                  {offeredModes.map((mode) => (
+                    <label key={mode} className="flex-1 flex items-center p-3 border border-gray-200 rounded-md">
+                      <input
+                        type="radio"
+                        name="fulfilment"
+                        checked={fulfilmentType === mode}
+                        onChange={() => setFulfilmentType(mode)}
+                        className="mr-2"
+                        style={{ width: '1rem', height: '1rem' }}
+                      />
+                      <span className="font-medium">
+                        {mode === 'DELIVERY' ? 'Consegna a domicilio' : 'Ritiro al ristorante'}
+                      </span>
+                    </label>
+                  ))}
                 </div>
               </div>
+            )}
 
-              <div className="flex space-x-2">
-                <div className="flex-1">
-                  <label className="block text-sm font-medium mb-1">Città *</label>
-                  <input
-                    type="text"
-                    required
-                    value={city}
-                    onChange={(e) => setCity(e.target.value)}
-                    className="w-full"
-                  />
+            {isPickup ? (
+              <div className="mb-6 p-4 bg-gray-100 rounded-md">
+                <p className="text-sm text-gray-700">
+                  Ritirerai l&apos;ordine da {cart.restaurant_name}: nessun costo di consegna.
+                </p>
+              </div>
+            ) : (
+              <>
+              <h3 className="text-lg font-semibold mb-4">Indirizzo di consegna</h3>
+
+              <div className="space-y-3 mb-6">
+                <div className="flex space-x-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Via *</label>
+                    <input
+                      type="text"
+                      required
+                      value={street}
+                      onChange={(e) => setStreet(e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
+                  <div style={{ width: '100px' }}>
+                    <label className="block text-sm font-medium mb-1">Num *</label>
+                    <input
+                      type="text"
+                      required
+                      value={number}
+                      onChange={(e) => setNumber(e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
                 </div>
-                <div style={{ width: '120px' }}>
-                  <label className="block text-sm font-medium mb-1">CAP *</label>
-                  <input
-                    type="text"
-                    required
-                    value={zip}
-                    onChange={(e) => setZip(e.target.value)}
-                    className="w-full"
-                  />
+
+                <div className="flex space-x-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Città *</label>
+                    <input
+                      type="text"
+                      required
+                      value={city}
+                      onChange={(e) => setCity(e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
+                  <div style={{ width: '120px' }}>
+                    <label className="block text-sm font-medium mb-1">CAP *</label>
+                    <input
+                      type="text"
+                      required
+                      value={zip}
+                      onChange={(e) => setZip(e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex space-x-2">
-                <div className="flex-1">
-                  <label className="block text-sm font-medium mb-1">Piano (opz)</label>
-                  <input
-                    type="text"
-                    value={floor}
-                    onChange={(e) => setFloor(e.target.value)}
-                    className="w-full"
-                  />
+                <div className="flex space-x-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Piano (opz)</label>
+                    <input
+                      type="text"
+                      value={floor}
+                      onChange={(e) => setFloor(e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-1">Citofono (opz)</label>
+                    <input
+                      type="text"
+                      value={intercom}
+                      onChange={(e) => setIntercom(e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
                 </div>
-                <div className="flex-1">
-                  <label className="block text-sm font-medium mb-1">Citofono (opz)</label>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">Note indirizzo (opz)</label>
                   <input
                     type="text"
-                    value={intercom}
-                    onChange={(e) => setIntercom(e.target.value)}
+                    value={addressNote}
+                    onChange={(e) => setAddressNote(e.target.value)}
                     className="w-full"
+                    placeholder="Es: scala B, secondo piano"
                   />
                 </div>
               </div>
-
-              <div>
-                <label className="block text-sm font-medium mb-1">Note indirizzo (opz)</label>
-                <input
-                  type="text"
-                  value={addressNote}
-                  onChange={(e) => setAddressNote(e.target.value)}
-                  className="w-full"
-                  placeholder="Es: scala B, secondo piano"
-                />
-              </div>
-            </div>
+              </>
+            )}
 
             <div className="mb-6">
               <label className="block text-sm font-medium mb-1">Note ordine (opz)</label>
@@ -296,6 +487,67 @@ function CheckoutPage() {
               />
             </div>
 
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold mb-3">
+                {isPickup ? 'Quando vuoi ritirarlo?' : 'Quando vuoi riceverlo?'}
+              </h3>
+              <div className="space-y-2">
+                <label className="flex items-center p-3 border border-gray-200 rounded-md">
+                  <input
+                    type="radio"
+                    name="delivery_time"
+                    checked={scheduledFor === null}
+                    disabled={slots !== null && !slots.asap_available}
+                    onChange={() => setScheduledFor(null)}
+                    className="mr-2"
+                    style={{ width: '1rem', height: '1rem' }}
+                  />
+                  <span className="font-medium">
+                    Appena possibile
+                    {slots && (
+                      <span className="text-gray-600 font-normal">
+                        {slots.asap_available
+                          ? ` (${slots.eta_min}-${slots.eta_max} min)`
+                          : ' (non disponibile ora)'}
+                      </span>
+                    )}
+                  </span>
+                </label>
+                {slots && slots.slots.length > 0 && (
+                  <label className="flex items-center p-3 border border-gray-200 rounded-md">
+                    <input
+                      type="radio"
+                      name="delivery_time"
+                      checked={scheduledFor !== null}
+                      onChange={() => setScheduledFor(slots.slots[0].start)}
+                      className="mr-2"
+                      style={{ width: '1rem', height: '1rem' }}
+                    />
+                    <span className="font-medium mr-2">Programma</span>
+                    <select
+                      value={scheduledFor ?? ''}
+                      onChange={(e) => setScheduledFor(e.target.value || null)}
+                      className="flex-1"
+                    >
+                      {scheduledFor === null && <option value="">Scegli un orario</option>}
+                      {groupSlotsByDay(slots.slots).map(([day, daySlots]) => (
+                        <optgroup key={day} label={day}>
+                          {daySlots.map((slot) => (
+                            <option key={slot.start} value={slot.start}>
+                              {formatSlotTime(slot.start)}
+                            </option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {slots && !slots.asap_available && slots.slots.length === 0 && (
+                  <p className="text-sm text-gray-600">Nessun orario di consegna disponibile nei prossimi giorni.</p>
+                )}
+              </div>
+            </div>
+
             <div className="mb-6">
               <h3 className="text-lg font-semibold mb-3">Metodo di pagamento</h3>
               <div className="space-y-2">
@@ -309,7 +561,9 @@ function CheckoutPage() {
                     className="mr-2"
                     style={{ width: '1rem', height: '1rem' }}
                   />
-                  <span className="font-medium">Contanti alla consegna</span>
+                  <span className="font-medium">
+                    {isPickup ? 'Contanti al ritiro' : 'Contanti alla consegna'}
+                  </span>
                 </label>
                 <label className="flex items-center p-3 border border-gray-200 rounded-md">
                   <input
@@ -334,7 +588,7 @@ function CheckoutPage() {
 
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || (quote !== null && !quote.can_order)}
               className="w-full px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium"
             >
               {loading ? 'Elaborazione...' : 'Conferma Ordine'}
@@ -346,6 +600,15 @@ function CheckoutPage() {
   );
 }
 
+function groupSlotsByDay(slots: DeliverySlot[]): Array<[string, DeliverySlot[]]> {
+  const groups = new Map<string, DeliverySlot[]>();
+  for (const slot of slots) {
+    const day = formatSlotDay(slot.start);
+    groups.set(day, [...(groups.get(day) ?? []), slot]);
+  }
+  return [...groups.entries()];
+}
+
 export default function Checkout() {
   return (
     <AuthGuard>
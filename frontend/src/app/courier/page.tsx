@@ -0,0 +1,514 @@
+'use client';
+
+/**
+ * Courier Page
+ * Duty toggle, delivery offers from the dispatcher and the deliveries
+ * assigned to the logged-in rider, with the pickup and delivery actions.
+ * Delivering asks for the customer's handover code or a photo.
+ */
+
+import { useEffect, useState } from 'react';
+import { AuthGuard } from '@/components/auth-guard';
+import { HttpError } from '@/lib/http';
+import {
+  acceptDeliveryOffer,
+  getCourierProfile,
+  issueLocationToken,
+  listCourierOffers,
+  confirmDelivery,
+  listCourierOrders,
+  markOrderPickedUp,
+  pushDeliveryLocation,
+  rejectDeliveryOffer,
+  setCourierDuty,
+  updateCourierPosition,
+  type CourierOrder,
+  type DeliveryConfirmation,
+  type DeliveryOffer,
+} from '@/lib/api';
+
+// Offers expire within a minute: poll for new ones often
+const REFRESH_MS = 10_000;
+
+// Minimum time between two position updates sent to the server
+const POSITION_INTERVAL_MS = 60_000;
+
+// While delivering, customers follow the rider: send the position more often
+const LIVE_POSITION_INTERVAL_MS = 15_000;
+
+const STATUS_LABELS: Record<string, string> = {
+  ACCEPTED: 'In attesa',
+  PREPARING: 'In preparazione',
+  READY: 'Pronto da ritirare',
+  PICKED_UP: 'Ritirato',
+  DELIVERING: 'In consegna',
+};
+
+function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleTimeString('it-IT', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Strip the "data:<type>;base64," prefix
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function DeliveryForm({
+  order,
+  submitting,
+  onSubmit,
+  onCancel,
+}: {
+  order: CourierOrder;
+  submitting: boolean;
+  onSubmit: (confirmation: DeliveryConfirmation) => void;
+  onCancel: () => void;
+}) {
+  const isCash = order.payment_method === 'CASH';
+  const [code, setCode] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [cash, setCash] = useState((order.total_cents / 100).toFixed(2));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (!/^\d{4}$/.test(code) && !photo) {
+      setFormError('Inserisci il codice a 4 cifre del cliente oppure scatta una foto');
+      return;
+    }
+
+    const cashCents = Math.round(parseFloat(cash.replace(',', '.')) * 100);
+    if (isCash && (isNaN(cashCents) || cashCents < 0)) {
+      setFormError("Inserisci l'importo incassato");
+      return;
+    }
+
+    setFormError(null);
+    onSubmit({
+      handover_code: code || undefined,
+      photo: photo ? { content_type: photo.type, data_base64: await readAsBase64(photo) } : undefined,
+      cash_collected_cents: isCash ? cashCents : undefined,
+    });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 border-t border-gray-200 pt-3">
+      <div>
+        <label className="block text-sm font-medium mb-1">Codice di consegna</label>
+        <input
+          type="text"
+          inputMode="numeric"
+          maxLength={4}
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          placeholder="Chiedilo al cliente"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md tracking-widest"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">Oppure una foto della consegna</label>
+        <input
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          capture="environment"
+          onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+          className="w-full text-sm"
+        />
+      </div>
+
+      {isCash && (
+        <div>
+          <label className="block text-sm font-medium mb-1">Contanti incassati (€)</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={cash}
+            onChange={(e) => setCash(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      )}
+
+      {formError && <p className="text-sm text-red-700">{formError}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          Conferma consegna
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={submitting}
+          className="px-4 py-3 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+        >
+          Annulla
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function CourierPage() {
+  const [orders, setOrders] = useState<CourierOrder[]>([]);
+  const [offers, setOffers] = useState<DeliveryOffer[]>([]);
+  const [onDuty, setOnDuty] = useState(false);
+  const [onDutyUntil, setOnDutyUntil] = useState<string | null>(null);
+  const [togglingDuty, setTogglingDuty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [forbidden, setForbidden] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOrders();
+    const timer = setInterval(fetchOrders, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Share the position while on duty, so the dispatcher can pick the closest rider
+  useEffect(() => {
+    if (!onDuty || !navigator.geolocation) return;
+
+    let lastSentAt = 0;
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        if (Date.now() - lastSentAt < POSITION_INTERVAL_MS) return;
+        lastSentAt = Date.now();
+        updateCourierPosition(position.coords.latitude, position.coords.longitude).catch(() => {
+          lastSentAt = 0;
+        });
+      },
+      () => {
+        // Without a position the rider still gets offers, after the nearby ones
+      },
+      { enableHighAccuracy: true }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [onDuty]);
+
+  // Live position for the customers of the orders on their way
+  const deliveringIds = orders
+    .filter((order) => order.status === 'DELIVERING')
+    .map((order) => order.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!deliveringIds || !navigator.geolocation) return;
+
+    const ids = deliveringIds.split(',');
+    const tokens: Record<string, string> = {};
+    let lastSentAt = 0;
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        if (Date.now() - lastSentAt < LIVE_POSITION_INTERVAL_MS) return;
+        lastSentAt = Date.now();
+
+        for (const id of ids) {
+          try {
+            tokens[id] = tokens[id] || (await issueLocationToken(id));
+            await pushDeliveryLocation(id, tokens[id], position.coords.latitude, position.coords.longitude);
+          } catch {
+            // Ask for a new token on the next position
+            delete tokens[id];
+          }
+        }
+      },
+      () => {
+        // The customer still sees the ETA from the restaurant
+      },
+      { enableHighAccuracy: true }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [deliveringIds]);
+
+  async function fetchOrders() {
+    try {
+      const [profile, assigned, open] = await Promise.all([
+        getCourierProfile(),
+        listCourierOrders(),
+        listCourierOffers(),
+      ]);
+      setOnDuty(profile.is_on_duty);
+      setOnDutyUntil(profile.on_duty_until);
+      setOrders(assigned);
+      setOffers(open);
+      setError(null);
+    } catch (err) {
+      if (err instanceof HttpError && err.status === 403) {
+        setForbidden(true);
+      } else {
+        setError(err instanceof Error ? err.message : 'Errore nel caricamento');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleToggleDuty() {
+    setTogglingDuty(true);
+
+    try {
+      const roster = await setCourierDuty(!onDuty);
+      setOnDuty(roster.is_on_duty);
+      setOnDutyUntil(roster.on_duty_until);
+      await fetchOrders();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Errore nel cambio di turno');
+    } finally {
+      setTogglingDuty(false);
+    }
+  }
+
+  async function handleOffer(offer: DeliveryOffer, accept: boolean) {
+    setUpdatingId(offer.id);
+
+    try {
+      if (accept) {
+        await acceptDeliveryOffer(offer.id);
+      } else {
+        await rejectDeliveryOffer(offer.id);
+      }
+    } catch (err) {
+      if (err instanceof HttpError && err.status === 409) {
+        alert("L'offerta è scaduta o è stata ritirata");
+      } else {
+        alert(err instanceof Error ? err.message : "Errore nella risposta all'offerta");
+      }
+    } finally {
+      await fetchOrders();
+      setUpdatingId(null);
+    }
+  }
+
+  async function handlePickUp(order: CourierOrder) {
+    setUpdatingId(order.id);
+
+    try {
+      await markOrderPickedUp(order.id);
+      await fetchOrders();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Errore nell'aggiornamento dell'ordine");
+      await fetchOrders();
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  async function handleDelivered(order: CourierOrder, confirmation: DeliveryConfirmation) {
+    setUpdatingId(order.id);
+
+    try {
+      await confirmDelivery(order.id, confirmation);
+      setConfirmingId(null);
+      await fetchOrders();
+    } catch (err) {
+      if (err instanceof HttpError && err.body?.error === 'INVALID_HANDOVER_CODE') {
+        alert('Codice errato: ricontrollalo con il cliente');
+      } else if (err instanceof HttpError && err.body?.error === 'HANDOVER_CODE_LOCKED') {
+        alert('Troppi codici errati: scatta una foto della consegna');
+      } else {
+        alert(err instanceof Error ? err.message : "Errore nell'aggiornamento dell'ordine");
+        await fetchOrders();
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p className="text-gray-600">Caricamento...</p>
+      </div>
+    );
+  }
+
+  if (forbidden) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-8">
+        <p className="text-gray-600 text-center">Questo account non è abilitato alle consegne.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center min-h-screen p-4">
+      <div className="w-full max-w-xl space-y-4">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-1">Le mie consegne</h1>
+          <p className="text-gray-600">{orders.length} ordini assegnati</p>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-800 text-sm">{error}</div>
+        )}
+
+        <div className="flex items-center justify-between bg-white rounded-lg shadow-md p-4 border border-gray-200">
+          <div>
+            <p className="font-semibold">{onDuty ? 'In servizio' : 'Fuori servizio'}</p>
+            <p className="text-sm text-gray-600">
+              {onDuty
+                ? onDutyUntil
+                  ? `Turno fino alle ${formatTime(onDutyUntil)}`
+                  : 'Ricevi le offerte di consegna'
+                : 'Entra in servizio per ricevere offerte'}
+            </p>
+          </div>
+          <button
+            onClick={handleToggleDuty}
+            disabled={togglingDuty}
+            className={`px-4 py-2 rounded-md font-medium transition-colors disabled:opacity-50 ${
+              onDuty
+                ? 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+                : 'bg-green-600 text-white hover:bg-green-700'
+            }`}
+          >
+            {onDuty ? 'Esci dal servizio' : 'Entra in servizio'}
+          </button>
+        </div>
+
+        {offers.map((offer) => (
+          <div key={offer.id} className="bg-amber-50 rounded-lg shadow-md p-4 border border-amber-300 space-y-3">
+            <div className="flex justify-between items-start">
+              <h3 className="font-semibold">Nuova consegna</h3>
+              <p className="text-sm text-amber-800">Rispondi entro le {formatTime(offer.expires_at)}</p>
+            </div>
+
+            <div className="text-sm">
+              <p className="font-medium">🍽️ {offer.restaurant.name}</p>
+              <p className="text-gray-600">
+                {offer.restaurant.address}, {offer.restaurant.city}
+              </p>
+            </div>
+
+            {offer.address_json && (
+              <p className="text-sm text-gray-600">
+                📍 {offer.address_json.street}, {offer.address_json.city}
+              </p>
+            )}
+
+            <p className="text-sm text-gray-600">
+              {offer.payment_status === 'PENDING'
+                ? `Da incassare: €${(offer.total_cents / 100).toFixed(2)}`
+                : 'Già pagato online'}
+              {offer.promised_to && ` · entro le ${formatTime(offer.promised_to)}`}
+            </p>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleOffer(offer, true)}
+                disabled={updatingId === offer.id}
+                className="flex-1 px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+              >
+                Accetta
+              </button>
+              <button
+                onClick={() => handleOffer(offer, false)}
+                disabled={updatingId === offer.id}
+                className="px-4 py-3 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+              >
+                Rifiuta
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {orders.length === 0 && (
+          <p className="text-center text-gray-500 py-8">Nessuna consegna assegnata al momento</p>
+        )}
+
+        {orders.map((order) => {
+          const canPickUp = order.status === 'READY';
+          const canDeliver = order.status === 'PICKED_UP' || order.status === 'DELIVERING';
+          const toCollect = order.payment_status === 'PENDING';
+
+          return (
+            <div key={order.id} className="bg-white rounded-lg shadow-md p-4 border border-gray-200 space-y-3">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="font-semibold">Ordine #{order.id.substring(0, 8)}</h3>
+                  <span className="inline-block mt-1 px-2 py-1 text-xs rounded-full font-medium bg-indigo-100 text-indigo-800">
+                    {STATUS_LABELS[order.status] || order.status}
+                  </span>
+                </div>
+                {order.promised_to && (
+                  <p className="text-sm text-gray-600">Entro le {formatTime(order.promised_to)}</p>
+                )}
+              </div>
+
+              <div className="text-sm">
+                <p className="font-medium">🍽️ {order.restaurant.name}</p>
+                <p className="text-gray-600">
+                  {order.restaurant.address}, {order.restaurant.city}
+                  {order.restaurant.phone && ` · ${order.restaurant.phone}`}
+                </p>
+              </div>
+
+              <div className="text-sm">
+                <p className="font-medium">📍 {order.customer.name}</p>
+                {order.address_json && (
+                  <p className="text-gray-600">
+                    {order.address_json.street}, {order.address_json.city}
+                    {order.address_json.notes && ` (${order.address_json.notes})`}
+                  </p>
+                )}
+                {order.customer.phone && <p className="text-gray-600">{order.customer.phone}</p>}
+                {order.notes && <p className="text-gray-600">📝 {order.notes}</p>}
+              </div>
+
+              <p className={`text-sm font-medium ${toCollect ? 'text-amber-700' : 'text-green-700'}`}>
+                {toCollect
+                  ? `Da incassare: €${(order.total_cents / 100).toFixed(2)}`
+                  : 'Già pagato online'}
+              </p>
+
+              {canDeliver && confirmingId === order.id ? (
+                <DeliveryForm
+                  order={order}
+                  submitting={updatingId === order.id}
+                  onSubmit={(confirmation) => handleDelivered(order, confirmation)}
+                  onCancel={() => setConfirmingId(null)}
+                />
+              ) : (
+                (canPickUp || canDeliver) && (
+                  <button
+                    onClick={() => (canPickUp ? handlePickUp(order) : setConfirmingId(order.id))}
+                    disabled={updatingId === order.id}
+                    className="w-full px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+                  >
+                    {canPickUp ? 'Ritirato, parto' : 'Consegnato'}
+                  </button>
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function Courier() {
+  return (
+    <AuthGuard>
+      <CourierPage />
+    </AuthGuard>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { requestOTP, verifyOTP } from '@/lib/api';
+import { getMe, requestOTP, verifyOTP } from '@/lib/api';
 import { getDeviceId } from '@/lib/device';
 
 export default function LoginPage() {
@@ -77,9 +77,12 @@ export default function LoginPage() {
       const deviceId = getDeviceId();
       await verifyOTP(email.trim(), otp, deviceId);
 
+      // Couriers land on their deliveries
+      const me = await getMe();
+
       setMessage('Login successful! Redirecting...');
       setTimeout(() => {
-        router.push('/');
+        router.push(me.user.role === 'courier' ? '/courier' : '/');
       }, 1000);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Invalid OTP code');
@@ -4,18 +4,44 @@ import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { AuthGuard } from '@/components/auth-guard';
-import { getOrder, type Order } from '@/lib/api';
+import { cancelOrder, getOrder, subscribeToOrder, type Order } from '@/lib/api';
+import { HttpError } from '@/lib/http';
 
-// Simple status timeline
+// Simple status timeline (backend order_status values)
 const STATUS_TIMELINE = [
-  { key: 'pending', label: 'In attesa' },
-  { key: 'confirmed', label: 'Confermato' },
-  { key: 'preparing', label: 'In preparazione' },
-  { key: 'ready', label: 'Pronto' },
-  { key: 'delivering', label: 'In consegna' },
-  { key: 'delivered', label: 'Consegnato' },
+  { key: 'CREATED', label: 'In attesa' },
+  { key: 'ACCEPTED', label: 'Confermato' },
+  { key: 'PREPARING', label: 'In preparazione' },
+  { key: 'READY', label: 'Pronto' },
+  { key: 'DELIVERING', label: 'In consegna' },
+  { key: 'DELIVERED', label: 'Consegnato' },
 ];
 
+// Pickup orders are collected at the restaurant once ready
+const PICKUP_STATUS_TIMELINE = [
+  { key: 'CREATED', label: 'In attesa' },
+  { key: 'ACCEPTED', label: 'Confermato' },
+  { key: 'PREPARING', label: 'In preparazione' },
+  { key: 'READY', label: 'Pronto per il ritiro' },
+  { key: 'COLLECTED', label: 'Ritirato' },
+];
+
+// Courier position is shared every 30 seconds at most: poll while on the way
+const TRACKING_REFRESH_MS = 30_000;
+
+const STATUS_LABELS: Record<string, string> = {
+  CREATED: 'In attesa',
+  PAID: 'Pagato',
+  ACCEPTED: 'Confermato',
+  PREPARING: 'In preparazione',
+  READY: 'Pronto',
+  PICKED_UP: 'Ritirato dal rider',
+  DELIVERING: 'In consegna',
+  DELIVERED: 'Consegnato',
+  COLLECTED: 'Ritirato',
+  CANCELLED: 'Annullato',
+};
+
 function OrderDetailPage() {
   const params = useParams();
   const orderId = params.id as string;
@@ -23,11 +49,31 @@ function OrderDetailPage() {
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showCancelForm, setShowCancelForm] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchOrder();
   }, [orderId]);
 
+  // Live updates: refresh the order whenever its status or payment changes
+  useEffect(() => {
+    const unsubscribe = subscribeToOrder(orderId, (event) => {
+      if (event.type !== 'snapshot') {
+        refreshOrder();
+      }
+    });
+    return unsubscribe;
+  }, [orderId]);
+
+  useEffect(() => {
+    if (order?.status !== 'DELIVERING') return;
+    const timer = setInterval(refreshOrder, TRACKING_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [orderId, order?.status]);
+
   async function fetchOrder() {
     setLoading(true);
     setError(null);
@@ -42,6 +88,37 @@ function OrderDetailPage() {
     }
   }
 
+  // Reload without showing the loading state
+  async function refreshOrder() {
+    try {
+      const response = await getOrder(orderId);
+      setOrder(response.order);
+    } catch (err) {
+      console.warn('Order refresh failed', err);
+    }
+  }
+
+  async function handleCancel() {
+    setCancelling(true);
+    setCancelError(null);
+
+    try {
+      await cancelOrder(orderId, cancelReason.trim() || undefined);
+      setShowCancelForm(false);
+      setCancelReason('');
+      await refreshOrder();
+    } catch (err) {
+      if (err instanceof HttpError && err.status === 409) {
+        setCancelError("L'ordine non può più essere annullato");
+        await refreshOrder();
+      } else {
+        setCancelError(err instanceof Error ? err.message : "Errore durante l'annullamento");
+      }
+    } finally {
+      setCancelling(false);
+    }
+  }
+
   function getShortId(id: string): string {
     return id.substring(0, 8);
   }
@@ -57,8 +134,23 @@ function OrderDetailPage() {
     });
   }
 
-  function getCurrentStatusIndex(status: string): number {
-    return STATUS_TIMELINE.findIndex((s) => s.key === status);
+  function formatTime(dateStr: string): string {
+    return new Date(dateStr).toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' });
+  }
+
+  function formatDistance(meters: number): string {
+    return meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1).replace('.', ',')} km`;
+  }
+
+  function getCurrentStatusIndex(status: string, timeline: typeof STATUS_TIMELINE): number {
+    // PAID sits between CREATED and ACCEPTED, PICKED_UP between READY and DELIVERING
+    const normalized =
+      status === 'PAID' ? 'CREATED' : status === 'PICKED_UP' ? 'READY' : status;
+    return timeline.findIndex((s) => s.key === normalized);
+  }
+
+  function getStatusLabel(status: string): string {
+    return STATUS_LABELS[status] || status;
   }
 
   if (loading) {
@@ -93,7 +185,10 @@ function OrderDetailPage() {
     );
   }
 
-  const currentStatusIndex = getCurrentStatusIndex(order.status);
+  const isPickup = order.fulfilment_type === 'PICKUP';
+  const timeline = isPickup ? PICKUP_STATUS_TIMELINE : STATUS_TIMELINE;
+  const currentStatusIndex = getCurrentStatusIndex(order.status, timeline);
+  const isCompleted = order.status === 'DELIVERED' || order.status === 'COLLECTED';
 
   return (
     <div className="flex flex-col items-center min-h-screen p-8">
@@ -102,6 +197,18 @@ function OrderDetailPage() {
         <div className="text-center">
           <h1 className="text-4xl font-bold mb-2">Ordine #{getShortId(order.id)}</h1>
           <p className="text-gray-600">{formatDate(order.created_at)}</p>
+          {order.scheduled_for && (
+            <p className="text-gray-900 font-medium mt-1">
+              {isPickup ? 'Ritiro programmato per' : 'Consegna programmata per'}{' '}
+              {formatDate(order.scheduled_for)}
+            </p>
+          )}
+          {!order.scheduled_for && order.promised_from && order.promised_to && (
+            <p className="text-gray-900 font-medium mt-1">
+              {isPickup ? 'Pronto tra le' : 'Consegna prevista tra le'} {formatTime(order.promised_from)} e le{' '}
+              {formatTime(order.promised_to)}
+            </p>
+          )}
         </div>
 
         {/* Status Badge */}
@@ -109,19 +216,55 @@ function OrderDetailPage() {
           <span
             className="inline-block px-4 py-2 text-lg rounded-full font-semibold"
             style={{
-              backgroundColor: order.status === 'delivered' ? '#dcfce7' : '#e0e7ff',
-              color: order.status === 'delivered' ? '#166534' : '#3730a3',
+              backgroundColor:
+                isCompleted
+                  ? '#dcfce7'
+                  : order.status === 'CANCELLED'
+                    ? '#fee2e2'
+                    : '#e0e7ff',
+              color:
+                isCompleted
+                  ? '#166534'
+                  : order.status === 'CANCELLED'
+                    ? '#991b1b'
+                    : '#3730a3',
             }}
           >
             {order.status}
           </span>
         </div>
 
+        {order.status === 'CANCELLED' && order.cancellation_reason && (
+          <p className="text-center text-sm text-gray-600">
+            Motivo:{' '}
+            {order.cancellation_reason === 'PAYMENT_TIMEOUT'
+              ? 'pagamento non completato in tempo'
+              : order.cancellation_reason}
+          </p>
+        )}
+
+        {order.status === 'CREATED' &&
+          order.payment_method === 'ONLINE' &&
+          order.payment_status === 'PENDING' && (
+            <p className="text-center text-sm text-gray-600">
+              In attesa di conferma del pagamento...
+            </p>
+          )}
+
+        {/* Handover code, asked by the courier at the door */}
+        {!isPickup && !isCompleted && order.status !== 'CANCELLED' && order.handover_code && (
+          <div className="bg-amber-50 rounded-lg border border-amber-200 p-4 text-center">
+            <p className="text-sm text-amber-900">Codice di consegna</p>
+            <p className="text-3xl font-bold tracking-widest text-amber-900">{order.handover_code}</p>
+            <p className="text-xs text-gray-600 mt-1">Comunicalo al rider solo quando ricevi l&apos;ordine</p>
+          </div>
+        )}
+
         {/* Timeline */}
         <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
           <h2 className="text-2xl font-semibold mb-4">Tracking</h2>
           <div className="space-y-2">
-            {STATUS_TIMELINE.map((status, index) => {
+            {timeline.map((status, index) => {
               const isActive = index <= currentStatusIndex;
               const isCurrent = index === currentStatusIndex;
 
@@ -153,13 +296,55 @@ function OrderDetailPage() {
               );
             })}
           </div>
+
+          {/* Courier on the way */}
+          {order.tracking && (
+            <div className="mt-4 p-4 bg-indigo-50 border border-indigo-200 rounded-md text-sm">
+              <p className="font-semibold text-indigo-900">🛵 Il rider è in arrivo</p>
+              {order.tracking.eta_at && order.tracking.eta_minutes !== null && (
+                <p className="text-indigo-900 mt-1">
+                  Arrivo previsto alle {formatTime(order.tracking.eta_at)} (circa {order.tracking.eta_minutes}{' '}
+                  min)
+                </p>
+              )}
+              {order.tracking.courier_position ? (
+                <p className="text-gray-600 mt-1">
+                  {order.tracking.distance_m !== null && `A ${formatDistance(order.tracking.distance_m)} da te · `}
+                  posizione aggiornata alle {formatTime(order.tracking.courier_position.updated_at)}
+                </p>
+              ) : (
+                <p className="text-gray-600 mt-1">In attesa della posizione del rider</p>
+              )}
+            </div>
+          )}
+
+          {/* Status history */}
+          {order.status_events && order.status_events.length > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-semibold mb-2">Cronologia</h3>
+              <ul className="space-y-1 text-sm text-gray-600">
+                {order.status_events.map((event) => (
+                  <li key={event.id}>
+                    <span className="font-medium">{formatDate(event.created_at)}</span>
+                    {' - '}
+                    {getStatusLabel(event.to_status)}
+                    {event.reason && <span> ({event.reason})</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Address */}
         <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
-          <h2 className="text-2xl font-semibold mb-4">Indirizzo di consegna</h2>
+          <h2 className="text-2xl font-semibold mb-4">
+            {isPickup ? 'Ritiro al ristorante' : 'Indirizzo di consegna'}
+          </h2>
           <div className="text-sm text-gray-600 space-y-1">
-            {order.address && typeof order.address === 'object' ? (
+            {isPickup ? (
+              <p>Ritira l&apos;ordine al ristorante quando è pronto.</p>
+            ) : order.address && typeof order.address === 'object' ? (
               <>
                 <p>
                   {order.address.street} {order.address.number}
@@ -230,8 +415,18 @@ function OrderDetailPage() {
             </div>
             <div className="flex justify-between">
               <span>Costo consegna:</span>
-              <span className="font-medium">€{(order.delivery_fee_cents / 100).toFixed(2)}</span>
+              <span className="font-medium">
+                {order.fee_breakdown?.delivery.free_delivery_applied
+                  ? 'Gratis'
+                  : `€${(order.delivery_fee_cents / 100).toFixed(2)}`}
+              </span>
             </div>
+            {(order.service_fee_cents ?? 0) > 0 && (
+              <div className="flex justify-between">
+                <span>Costi di servizio:</span>
+                <span className="font-medium">€{((order.service_fee_cents ?? 0) / 100).toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between pt-2 border-t border-gray-200">
               <span className="font-semibold">Totale:</span>
               <span className="font-bold text-lg">€{(order.total_cents / 100).toFixed(2)}</span>
@@ -255,6 +450,63 @@ function OrderDetailPage() {
           )}
         </div>
 
+        {/* Cancellation */}
+        {order.can_cancel && (
+          <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+            <h2 className="text-2xl font-semibold mb-4">Annulla ordine</h2>
+            {showCancelForm ? (
+              <div className="space-y-3">
+                <textarea
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Motivo (facoltativo)"
+                  maxLength={500}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleCancel}
+                    disabled={cancelling}
+                    className="px-4 py-3 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors font-medium disabled:opacity-50"
+                  >
+                    {cancelling ? 'Annullamento...' : 'Conferma annullamento'}
+                  </button>
+                  <button
+                    onClick={() => setShowCancelForm(false)}
+                    disabled={cancelling}
+                    className="px-4 py-3 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors font-medium"
+                  >
+                    Indietro
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowCancelForm(true)}
+                className="px-4 py-3 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors font-medium"
+              >
+                Annulla ordine
+              </button>
+            )}
+            {order.payment_method === 'ONLINE' && order.payment_status === 'PAID' && (
+              <p className="mt-3 text-sm text-gray-600">
+                L&apos;importo pagato verrà rimborsato.
+              </p>
+            )}
+          </div>
+        )}
+
+        {cancelError && (
+          <p className="text-center text-sm text-red-600">{cancelError}</p>
+        )}
+
+        {order.status === 'CANCELLED' && order.refund_due && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+            Ordine annullato: il rimborso del pagamento è in lavorazione.
+          </div>
+        )}
+
         {/* Back Button */}
         <div className="text-center">
           <Link
@@ -4,18 +4,49 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { AuthGuard } from '@/components/auth-guard';
-import { listOrders, type Order } from '@/lib/api';
+import {
+  getMe,
+  getNotificationPreferences,
+  listOrders,
+  updateNotificationPreferences,
+  type NotificationPreferences,
+  type Order,
+  type User,
+} from '@/lib/api';
 
 function OrdersPage() {
   const router = useRouter();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
 
   useEffect(() => {
     fetchOrders();
+    fetchPreferences();
   }, []);
 
+  async function fetchPreferences() {
+    try {
+      const [me, current] = await Promise.all([getMe(), getNotificationPreferences()]);
+      setUser(me.user);
+      setPreferences(current);
+    } catch {
+      // The orders list works without the preferences box
+    }
+  }
+
+  async function togglePreference(channel: keyof NotificationPreferences) {
+    if (!preferences) return;
+
+    try {
+      setPreferences(await updateNotificationPreferences({ [channel]: !preferences[channel] }));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Errore nel salvataggio delle preferenze');
+    }
+  }
+
   async function fetchOrders() {
     setLoading(true);
     setError(null);
@@ -99,6 +130,31 @@ function OrdersPage() {
           <p className="text-gray-600">Storico dei tuoi ordini</p>
         </div>
 
+        {/* Notification preferences: only the channels the account has a contact for */}
+        {preferences && user && (user.email || user.phone) && (
+          <div className="bg-white rounded-lg shadow-md p-4 border border-gray-200">
+            <h2 className="font-semibold mb-2">Aggiornamenti sugli ordini</h2>
+            <div className="flex flex-col space-y-2 text-sm">
+              {user.email && (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={preferences.email}
+                    onChange={() => togglePreference('email')}
+                  />
+                  <span>Email a {user.email}</span>
+                </label>
+              )}
+              {user.phone && (
+                <label className="flex items-center space-x-2">
+                  <input type="checkbox" checked={preferences.sms} onChange={() => togglePreference('sms')} />
+                  <span>SMS al {user.phone}</span>
+                </label>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Orders List */}
         <div className="space-y-3">
           {orders.map((order) => (
@@ -250,11 +250,17 @@ function RestaurantPage() {
                 Chiuso
               </span>
             )}
+            {(isOpen ? restaurant.closes_at : restaurant.next_open_at) && (
+              <span className="ml-2 text-sm text-gray-600">{restaurant.opening_label}</span>
+            )}
           </div>
 
           {/* Delivery Info */}
           <div className="text-sm text-gray-600 space-y-2">
-            <p>Consegna: {restaurant.eta_min}–{restaurant.eta_max} min</p>
+            <p>
+              Consegna: {restaurant.eta_min}–{restaurant.eta_max} min
+              {restaurant.is_busy && <span className="text-orange-600"> · Molto richiesto, tempi più lunghi</span>}
+            </p>
             <p>Costo consegna: €{(restaurant.delivery_fee / 100).toFixed(2)}</p>
             <p>Ordine minimo: €{(restaurant.min_order / 100).toFixed(2)}</p>
           </div>
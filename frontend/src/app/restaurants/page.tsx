@@ -3,7 +3,24 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { AuthGuard } from '@/components/auth-guard';
-import { getRestaurants, type Restaurant } from '@/lib/api';
+import {
+  geocodeAddress,
+  getRestaurants,
+  search,
+  type Restaurant,
+  type RestaurantSort,
+  type RestaurantTag,
+  type SearchResult,
+} from '@/lib/api';
+
+type Position = { lat: number; lng: number };
+
+function formatDistance(meters: number): string {
+  if (meters < 1000) {
+    return `${Math.round(meters / 10) * 10} m`;
+  }
+  return `${(meters / 1000).toFixed(1).replace('.', ',')} km`;
+}
 
 function RestaurantsPage() {
   const router = useRouter();
@@ -14,6 +31,23 @@ function RestaurantsPage() {
   // Filters
   const [openOnly, setOpenOnly] = useState(false);
   const [selectedZone, setSelectedZone] = useState<string>('');
+  const [sort, setSort] = useState<RestaurantSort>('name');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  // Tags seen so far: a filtered list only carries the tags of its restaurants
+  const [knownTags, setKnownTags] = useState<RestaurantTag[]>([]);
+
+  // Customer position: browser geolocation, or an address typed in as fallback
+  const [position, setPosition] = useState<Position | null>(null);
+  const [geolocationFailed, setGeolocationFailed] = useState(false);
+  const [manualAddress, setManualAddress] = useState({ street: '', postal_code: '', city: '' });
+  const [locating, setLocating] = useState(false);
+  const [positionError, setPositionError] = useState<string | null>(null);
+
+  // Search: restaurants and dishes, replaces the list while a query is typed
+  const [searchText, setSearchText] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
 
   // Safe array guard
   const safeRestaurants = Array.isArray(restaurants) ? restaurants : [];
@@ -23,13 +57,57 @@ function RestaurantsPage() {
     new Set(safeRestaurants.map((r) => r.zone).filter(Boolean))
   ) as string[];
 
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setGeolocationFailed(true);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (result) => {
+        setPosition({ lat: result.coords.latitude, lng: result.coords.longitude });
+        setSort('distance');
+      },
+      () => setGeolocationFailed(true),
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  }, []);
+
+  async function handleManualPosition(e: React.FormEvent) {
+    e.preventDefault();
+    setLocating(true);
+    setPositionError(null);
+
+    try {
+      const point = await geocodeAddress(manualAddress);
+      if (!point) {
+        setPositionError('Indirizzo non trovato');
+        return;
+      }
+      setPosition(point);
+      setSort('distance');
+    } catch {
+      setPositionError('Impossibile trovare la posizione');
+    } finally {
+      setLocating(false);
+    }
+  }
+
+  function clearPosition() {
+    setPosition(null);
+    setGeolocationFailed(true);
+    if (sort === 'distance') {
+      setSort('name');
+    }
+  }
+
   useEffect(() => {
     async function fetchRestaurants() {
       setLoading(true);
       setError(null);
 
       try {
-        const params: { open_now?: boolean; zone?: string } = {};
+        const params: Parameters<typeof getRestaurants>[0] = { sort };
 
         if (openOnly) {
           params.open_now = true;
@@ -39,8 +117,22 @@ function RestaurantsPage() {
           params.zone = selectedZone;
         }
 
+        if (selectedTags.length > 0) {
+          params.tags = selectedTags;
+        }
+
+        if (position) {
+          params.lat = position.lat;
+          params.lng = position.lng;
+        }
+
         const response = await getRestaurants(params);
         setRestaurants(response.restaurants);
+        setKnownTags((previous) => {
+          const tags = new Map(previous.map((tag) => [tag.slug, tag]));
+          response.restaurants.forEach((r) => r.tags.forEach((tag) => tags.set(tag.slug, tag)));
+          return Array.from(tags.values()).sort((a, b) => a.name.localeCompare(b.name));
+        });
       } catch (err) {
         setRestaurants([]);
         setError(err instanceof Error ? err.message : 'Errore nel caricamento');
@@ -50,7 +142,45 @@ function RestaurantsPage() {
     }
 
     fetchRestaurants();
-  }, [openOnly, selectedZone]);
+  }, [openOnly, selectedZone, selectedTags, sort, position]);
+
+  useEffect(() => {
+    const text = searchText.trim();
+    if (text.length < 2) {
+      setSearchResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const response = await search(text);
+        if (!cancelled) {
+          setSearchResults(response.results);
+        }
+      } catch {
+        if (!cancelled) {
+          setSearchResults([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchText]);
+
+  function toggleTag(slug: string) {
+    setSelectedTags((previous) =>
+      previous.includes(slug) ? previous.filter((s) => s !== slug) : [...previous, slug]
+    );
+  }
 
   function handleCardClick(slug: string) {
     router.push(`/restaurants/${slug}`);
@@ -85,53 +215,24 @@ function RestaurantsPage() {
           <p className="text-gray-600">Scegli il tuo ristorante preferito</p>
         </div>
 
-        {/* Filters */}
-        <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
-          <div className="flex flex-col space-y-3">
-            {/* Checkbox: Solo aperti */}
-            <label className="flex items-center">
-              <input
-                type="checkbox"
-                checked={openOnly}
-                onChange={(e) => setOpenOnly(e.target.checked)}
-                className="w-4 h-4"
-                style={{ width: '1rem', height: '1rem', marginRight: '0.5rem' }}
-              />
-              <span className="text-sm font-medium">Solo aperti</span>
-            </label>
-
-            {/* Select: Zone */}
-            {zones.length > 0 && (
-              <div>
-                <label className="block text-sm font-medium mb-2">Zona:</label>
-                <select
-                  value={selectedZone}
-                  onChange={(e) => setSelectedZone(e.target.value)}
-                  className="w-full"
-                >
-                  <option value="">Tutte le zone</option>
-                  {zones.map((zone) => (
-                    <option key={zone} value={zone}>
-                      {zone}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            )}
-          </div>
-        </div>
+        {/* Search */}
+        <input
+          type="search"
+          placeholder="Cerca ristoranti o piatti (es. carbonara, senza glutine)"
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          className="w-full"
+        />
 
-        {/* Restaurant List */}
-        {safeRestaurants.length === 0 ? (
-          <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
-            <p className="text-gray-600 text-center">Nessun ristorante disponibile</p>
-          </div>
-        ) : (
+        {searchResults !== null ? (
           <div className="space-y-3">
-            {safeRestaurants.map((restaurant) => {
-              const isOpen = restaurant.is_open ?? restaurant.status === 'active';
-
-              return (
+            {searching && <p className="text-sm text-gray-600">Ricerca…</p>}
+            {searchResults.length === 0 && !searching ? (
+              <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+                <p className="text-gray-600 text-center">Nessun risultato</p>
+              </div>
+            ) : (
+              searchResults.map(({ restaurant, products }) => (
                 <div
                   key={restaurant.id}
                   onClick={() => handleCardClick(restaurant.slug)}
@@ -139,58 +240,269 @@ function RestaurantsPage() {
                   style={{ cursor: 'pointer' }}
                 >
                   <div className="flex flex-col space-y-2">
-                    {/* Name */}
-                    <h2 className="text-2xl font-semibold">{restaurant.name}</h2>
-
-                    {/* Zone */}
-                    {restaurant.zone && (
-                      <p className="text-sm text-gray-600">Zona: {restaurant.zone}</p>
-                    )}
-
-                    {/* Status */}
-                    <div>
-                      {isOpen ? (
-                        <span
-                          className="inline-block px-2 py-1 text-xs rounded-full font-medium"
-                          style={{
-                            backgroundColor: '#dcfce7',
-                            color: '#166534',
-                          }}
-                        >
-                          Aperto ora
-                        </span>
-                      ) : (
-                        <span
-                          className="inline-block px-2 py-1 text-xs rounded-full font-medium"
-                          style={{
-                            backgroundColor: '#fee2e2',
-                            color: '#991b1b',
-                          }}
-                        >
-                          Chiuso
-                        </span>
-                      )}
+                    <div className="flex items-center justify-between">
+                      <h2 className="text-2xl font-semibold">{restaurant.name}</h2>
+                      <span
+                        className="inline-block px-2 py-1 text-xs rounded-full font-medium"
+                        style={
+                          restaurant.is_open
+                            ? { backgroundColor: '#dcfce7', color: '#166534' }
+                            : { backgroundColor: '#fee2e2', color: '#991b1b' }
+                        }
+                      >
+                        {restaurant.is_open
+                          ? 'Aperto ora'
+                          : restaurant.next_open_at
+                            ? restaurant.opening_label
+                            : 'Chiuso'}
+                      </span>
                     </div>
 
-                    {/* ETA */}
-                    <p className="text-sm text-gray-600">
-                      Consegna: {restaurant.eta_min}–{restaurant.eta_max} min
-                    </p>
+                    {products.map((product) => (
+                      <div key={product.id} className="flex justify-between text-sm">
+                        <span>
+                          {product.name}
+                          <span className="text-gray-600"> · {product.category_name}</span>
+                        </span>
+                        <span>€{(product.base_price_cents / 100).toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          <>
+            {/* Filters */}
+            <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+              <div className="flex flex-col space-y-3">
+                {/* Checkbox: Solo aperti */}
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={openOnly}
+                    onChange={(e) => setOpenOnly(e.target.checked)}
+                    className="w-4 h-4"
+                    style={{ width: '1rem', height: '1rem', marginRight: '0.5rem' }}
+                  />
+                  <span className="text-sm font-medium">Solo aperti</span>
+                </label>
 
-                    {/* Delivery Fee */}
-                    <p className="text-sm text-gray-600">
-                      Costo consegna: €{(restaurant.delivery_fee / 100).toFixed(2)}
-                    </p>
+                {/* Select: Zone */}
+                {zones.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Zona:</label>
+                    <select
+                      value={selectedZone}
+                      onChange={(e) => setSelectedZone(e.target.value)}
+                      className="w-full"
+                    >
+                      <option value="">Tutte le zone</option>
+                      {zones.map((zone) => (
+                        <option key={zone} value={zone}>
+                          {zone}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
 
-                    {/* Min Order */}
-                    <p className="text-sm text-gray-600">
-                      Ordine minimo: €{(restaurant.min_order / 100).toFixed(2)}
-                    </p>
+                {/* Tags: restaurants with any of the selected ones */}
+                {knownTags.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {knownTags.map((tag) => {
+                      const selected = selectedTags.includes(tag.slug);
+                      return (
+                        <button
+                          key={tag.slug}
+                          type="button"
+                          onClick={() => toggleTag(tag.slug)}
+                          className="px-3 py-1 text-sm rounded-full border"
+                          style={
+                            selected
+                              ? { backgroundColor: '#111827', color: '#fff', borderColor: '#111827' }
+                              : { backgroundColor: '#fff', color: '#374151', borderColor: '#d1d5db' }
+                          }
+                        >
+                          {tag.name}
+                        </button>
+                      );
+                    })}
                   </div>
+                )}
+
+                {/* Select: Sort */}
+                <div>
+                  <label className="block text-sm font-medium mb-2">Ordina per:</label>
+                  <select
+                    value={sort}
+                    onChange={(e) => setSort(e.target.value as RestaurantSort)}
+                    className="w-full"
+                  >
+                    {position && <option value="distance">Distanza</option>}
+                    <option value="eta">Tempo di consegna</option>
+                    <option value="name">Nome</option>
+                  </select>
                 </div>
-              );
-            })}
-          </div>
+
+                {/* Position */}
+                {position ? (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">
+                      Ristoranti che consegnano alla tua posizione
+                    </span>
+                    <button type="button" onClick={clearPosition} className="text-sm underline">
+                      Cambia posizione
+                    </button>
+                  </div>
+                ) : (
+                  geolocationFailed && (
+                    <form onSubmit={handleManualPosition} className="flex flex-col space-y-2">
+                      <label className="block text-sm font-medium">
+                        Inserisci il tuo indirizzo per vedere i ristoranti più vicini:
+                      </label>
+                      <input
+                        type="text"
+                        placeholder="Via e numero civico"
+                        value={manualAddress.street}
+                        onChange={(e) => setManualAddress({ ...manualAddress, street: e.target.value })}
+                        required
+                      />
+                      <div className="flex space-x-2">
+                        <input
+                          type="text"
+                          placeholder="CAP"
+                          value={manualAddress.postal_code}
+                          onChange={(e) =>
+                            setManualAddress({ ...manualAddress, postal_code: e.target.value })
+                          }
+                          required
+                        />
+                        <input
+                          type="text"
+                          placeholder="Città"
+                          value={manualAddress.city}
+                          onChange={(e) => setManualAddress({ ...manualAddress, city: e.target.value })}
+                          required
+                        />
+                      </div>
+                      {positionError && <p className="text-sm text-red-600">{positionError}</p>}
+                      <button type="submit" disabled={locating}>
+                        {locating ? 'Ricerca…' : 'Cerca vicino a me'}
+                      </button>
+                    </form>
+                  )
+                )}
+              </div>
+            </div>
+
+            {/* Restaurant List */}
+            {safeRestaurants.length === 0 ? (
+              <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200">
+                <p className="text-gray-600 text-center">Nessun ristorante disponibile</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {safeRestaurants.map((restaurant) => {
+                  const isOpen = restaurant.is_open ?? restaurant.status === 'active';
+
+                  return (
+                    <div
+                      key={restaurant.id}
+                      onClick={() => handleCardClick(restaurant.slug)}
+                      className="bg-white rounded-lg shadow-md p-6 border border-gray-200 hover:bg-gray-100 transition-colors"
+                      style={{ cursor: 'pointer' }}
+                    >
+                      <div className="flex flex-col space-y-2">
+                        {/* Name */}
+                        <h2 className="text-2xl font-semibold">{restaurant.name}</h2>
+
+                        {/* Zone */}
+                        {restaurant.zone && (
+                          <p className="text-sm text-gray-600">Zona: {restaurant.zone}</p>
+                        )}
+
+                        {/* Tags */}
+                        {restaurant.tags.length > 0 && (
+                          <p className="text-sm text-gray-600">
+                            {restaurant.tags.map((tag) => tag.name).join(' · ')}
+                          </p>
+                        )}
+
+                        {/* Distance */}
+                        {restaurant.distance_m != null && (
+                          <p className="text-sm text-gray-600">a {formatDistance(restaurant.distance_m)}</p>
+                        )}
+
+                        {/* Status */}
+                        <div>
+                          {isOpen ? (
+                            <span
+                              className="inline-block px-2 py-1 text-xs rounded-full font-medium"
+                              style={{
+                                backgroundColor: '#dcfce7',
+                                color: '#166534',
+                              }}
+                            >
+                              Aperto ora
+                            </span>
+                          ) : (
+                            <span
+                              className="inline-block px-2 py-1 text-xs rounded-full font-medium"
+                              style={{
+                                backgroundColor: '#fee2e2',
+                                color: '#991b1b',
+                              }}
+                            >
+                              Chiuso
+                            </span>
+                          )}
+                          {!isOpen && restaurant.next_open_at && (
+                            <span className="ml-2 text-sm text-gray-600">{restaurant.opening_label}</span>
+                          )}
+                        </div>
+
+                        {/* Fulfilment modes */}
+                        <div className="flex space-x-2">
+                          {restaurant.offers_delivery && (
+                            <span className="inline-block px-2 py-1 text-xs rounded-full font-medium bg-gray-100 text-gray-700">
+                              Consegna
+                            </span>
+                          )}
+                          {restaurant.offers_pickup && (
+                            <span className="inline-block px-2 py-1 text-xs rounded-full font-medium bg-gray-100 text-gray-700">
+                              Ritiro
+                            </span>
+                          )}
+                        </div>
+
+                        {restaurant.offers_delivery && (
+                          <>
+                            {/* ETA */}
+                            <p className="text-sm text-gray-600">
+                              Consegna: {restaurant.eta_min}–{restaurant.eta_max} min
+                              {restaurant.is_busy && <span className="text-orange-600"> · Molto richiesto</span>}
+                            </p>
+
+                            {/* Delivery Fee */}
+                            <p className="text-sm text-gray-600">
+                              Costo consegna: €{(restaurant.delivery_fee / 100).toFixed(2)}
+                            </p>
+
+                            {/* Min Order */}
+                            <p className="text-sm text-gray-600">
+                              Ordine minimo: €{(restaurant.min_order / 100).toFixed(2)}
+                            </p>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
         )}
       </div>
     </div>
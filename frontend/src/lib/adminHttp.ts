@@ -124,3 +124,99 @@ export const adminHttp = {
   delete: <T = any>(path: string, options?: Omit<AdminFetchOptions, 'method' | 'body'>) =>
     adminFetch<T>(path, { ...options, method: 'DELETE' }),
 };
+
+/**
+ * Download a binary admin resource (e.g. an uploaded photo).
+ * <img> tags cannot send the X-Admin-Key header: show it through an object URL.
+ */
+export async function adminBlob(path: string): Promise<Blob> {
+  const adminKey = sessionStorage.getItem(ADMIN_KEY_STORAGE);
+
+  if (!adminKey) {
+    throw new AdminHttpError(
+      401,
+      { error: 'UNAUTHORIZED', message: 'Admin key not found' },
+      'Admin key not found in sessionStorage'
+    );
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: { 'X-Admin-Key': adminKey },
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new AdminHttpError(response.status, null, `Request failed with status ${response.status}`);
+  }
+
+  return response.blob();
+}
+
+const STREAM_RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Subscribe to an admin Server-Sent Events endpoint.
+ * Uses fetch streaming instead of EventSource so the X-Admin-Key header
+ * can be sent (EventSource does not support custom headers).
+ * Reconnects automatically until the returned function is called.
+ */
+export function adminEventStream(
+  path: string,
+  onEvent: (event: string, data: any) => void
+): () => void {
+  const controller = new AbortController();
+  let stopped = false;
+
+  const connect = async () => {
+    const adminKey = sessionStorage.getItem(ADMIN_KEY_STORAGE);
+    if (!adminKey) return;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}${path}`, {
+        headers: { 'X-Admin-Key': adminKey, Accept: 'text/event-stream' },
+        credentials: 'include',
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Stream failed with status ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        for (const block of blocks) {
+          const lines = block.split('\n');
+          const eventLine = lines.find((l) => l.startsWith('event: '));
+          const dataLine = lines.find((l) => l.startsWith('data: '));
+          if (eventLine && dataLine) {
+            onEvent(eventLine.slice(7), JSON.parse(dataLine.slice(6)));
+          }
+        }
+      }
+    } catch (error) {
+      if (stopped) return;
+      console.warn('Admin event stream disconnected', error);
+    }
+
+    if (!stopped) {
+      setTimeout(connect, STREAM_RECONNECT_DELAY_MS);
+    }
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    controller.abort();
+  };
+}
@@ -2,7 +2,7 @@
  * API Client - Type-safe API calls to backend
  */
 
-import { httpClient } from './http';
+import { httpClient, HttpError, API_BASE_URL } from './http';
 
 // ============================================================================
 // Types
@@ -14,6 +14,7 @@ export interface User {
   name: string | null;
   email: string | null;
   status: string;
+  role: 'customer' | 'courier';
   createdAt: string;
   lastLoginAt: string | null;
 }
@@ -22,6 +23,8 @@ export interface MeResponse {
   user: User;
 }
 
+export type FulfilmentType = 'DELIVERY' | 'PICKUP';
+
 export interface Restaurant {
   id: string;
   name: string;
@@ -35,12 +38,49 @@ export interface Restaurant {
   min_order: number;
   status: string;
   is_open?: boolean;
+  next_open_at?: string | null; // ISO, when closed
+  closes_at?: string | null; // ISO, when open
+  opening_label?: string; // e.g. "Apre alle 19:00"
+  is_busy?: boolean; // ETA already extended by the busy mode
+  offers_delivery: boolean;
+  offers_pickup: boolean;
+  distance_m?: number | null; // only when listed from a position
+  tags: RestaurantTag[];
+}
+
+export interface RestaurantTag {
+  id: string;
+  slug: string;
+  name: string;
 }
 
+export type RestaurantSort = 'distance' | 'eta' | 'name';
+
 export interface GetRestaurantsResponse {
   restaurants: Restaurant[];
 }
 
+export interface SearchProduct {
+  id: string;
+  category_id: string;
+  category_name: string;
+  name: string;
+  description: string | null;
+  image_url: string | null;
+  base_price_cents: number;
+}
+
+export interface SearchResult {
+  restaurant: Restaurant;
+  restaurant_match: boolean;
+  products: SearchProduct[];
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
 export interface RestaurantDetail extends Restaurant {
   address?: string;
   city?: string;
@@ -102,6 +142,26 @@ export async function getMe(): Promise<MeResponse> {
   return httpClient.get<MeResponse>('/me');
 }
 
+/**
+ * Channels used to tell the user about their orders
+ */
+export interface NotificationPreferences {
+  email: boolean;
+  sms: boolean;
+}
+
+export async function getNotificationPreferences(): Promise<NotificationPreferences> {
+  const data = await httpClient.get<any>('/me/notification-preferences');
+  return data.data;
+}
+
+export async function updateNotificationPreferences(
+  preferences: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  const data = await httpClient.put<any>('/me/notification-preferences', preferences);
+  return data.data;
+}
+
 /**
  * Request OTP code via email
  */
@@ -139,16 +199,63 @@ export async function refreshToken(): Promise<{ ok: boolean }> {
 // Restaurant APIs
 // ============================================================================
 
+/**
+ * Map backend restaurant structure to frontend Restaurant type
+ */
+function mapRestaurant(r: any): Restaurant {
+  return {
+    id: r.id,
+    name: r.name,
+    slug: r.slug,
+    zone: r.zone,
+    open_time: r.open_time,
+    close_time: r.close_time,
+    eta_min: r.delivery_rules?.eta_min ?? r.eta_min ?? 20,
+    eta_max: r.delivery_rules?.eta_max ?? r.eta_max ?? 40,
+    delivery_fee: r.delivery_rules?.delivery_fee_cents ?? r.delivery_fee ?? 0,
+    min_order: r.delivery_rules?.min_order_cents ?? r.min_order ?? 0,
+    status: r.status ?? (r.is_active ? 'active' : 'inactive'),
+    is_open: r.is_open_now ?? r.is_open,
+    next_open_at: r.next_open_at ?? null,
+    closes_at: r.closes_at ?? null,
+    opening_label: r.opening_label,
+    is_busy: r.is_busy ?? false,
+    offers_delivery: r.offers_delivery ?? true,
+    offers_pickup: r.offers_pickup ?? false,
+    distance_m: r.distance_m ?? null,
+    tags: r.tags ?? [],
+  };
+}
+
 /**
  * Get list of restaurants
- * @param params - Optional filters (open_now, zone)
+ * @param params - Optional filters (open_now, zone, tags = any of these tag slugs,
+ * lat/lng = delivers to this position, radius_m = within this distance of it) and sort order
  */
 export async function getRestaurants(params?: {
   open_now?: boolean;
   zone?: string;
+  tags?: string[];
+  lat?: number;
+  lng?: number;
+  radius_m?: number;
+  sort?: RestaurantSort;
 }): Promise<GetRestaurantsResponse> {
   const queryParams = new URLSearchParams();
 
+  if (params?.lat !== undefined && params?.lng !== undefined) {
+    queryParams.append('lat', params.lat.toString());
+    queryParams.append('lng', params.lng.toString());
+
+    if (params.radius_m !== undefined) {
+      queryParams.append('radius_m', params.radius_m.toString());
+    }
+  }
+
+  if (params?.sort) {
+    queryParams.append('sort', params.sort);
+  }
+
   if (params?.open_now !== undefined) {
     queryParams.append('open_now', params.open_now.toString());
   }
@@ -157,6 +264,10 @@ export async function getRestaurants(params?: {
     queryParams.append('zone', params.zone);
   }
 
+  if (params?.tags && params.tags.length > 0) {
+    queryParams.append('tags', params.tags.join(','));
+  }
+
   const queryString = queryParams.toString();
   const path = queryString ? `/restaurants?${queryString}` : '/restaurants';
 
@@ -174,25 +285,52 @@ export async function getRestaurants(params?: {
     rawRestaurants = [];
   }
 
-  // Map backend structure to frontend Restaurant type
-  const restaurants: Restaurant[] = rawRestaurants.map((r) => ({
-    id: r.id,
-    name: r.name,
-    slug: r.slug,
-    zone: r.zone,
-    open_time: r.open_time,
-    close_time: r.close_time,
-    eta_min: r.delivery_rules?.eta_min ?? r.eta_min ?? 20,
-    eta_max: r.delivery_rules?.eta_max ?? r.eta_max ?? 40,
-    delivery_fee: r.delivery_rules?.delivery_fee_cents ?? r.delivery_fee ?? 0,
-    min_order: r.delivery_rules?.min_order_cents ?? r.min_order ?? 0,
-    status: r.status ?? (r.is_active ? 'active' : 'inactive'),
-    is_open: r.is_open_now ?? r.is_open,
-  }));
+  const restaurants = rawRestaurants.map(mapRestaurant);
 
   return { restaurants };
 }
 
+/**
+ * Search restaurants and dishes, grouped by restaurant
+ * @param q - Text to search (at least 2 characters)
+ */
+export async function search(q: string): Promise<SearchResponse> {
+  const queryParams = new URLSearchParams({ q });
+  const data = await httpClient.get<any>(`/search?${queryParams.toString()}`);
+  const payload = data && data.data ? data.data : data;
+
+  return {
+    query: payload.query,
+    results: (payload.results || []).map((result: any) => ({
+      restaurant: mapRestaurant(result.restaurant),
+      restaurant_match: result.restaurant_match,
+      products: result.products,
+    })),
+  };
+}
+
+/**
+ * Locate an address (manual fallback when browser geolocation is unavailable)
+ * @returns null if the address is unknown
+ */
+export async function geocodeAddress(address: {
+  street: string;
+  city: string;
+  postal_code: string;
+}): Promise<{ lat: number; lng: number } | null> {
+  const queryParams = new URLSearchParams(address);
+
+  try {
+    const data = await httpClient.get<any>(`/geocode?${queryParams.toString()}`);
+    return data && data.data ? data.data : data;
+  } catch (err) {
+    if (err instanceof HttpError && err.status === 404) {
+      return null;
+    }
+    throw err;
+  }
+}
+
 /**
  * Get restaurant detail by slug
  * @param slug - Restaurant slug
@@ -228,11 +366,40 @@ export async function getRestaurant(slug: string): Promise<GetRestaurantResponse
     min_order: restaurant.delivery_rules?.min_order_cents ?? restaurant.min_order ?? 0,
     status: restaurant.status ?? (restaurant.is_active ? 'active' : 'inactive'),
     is_open: restaurant.is_open_now ?? restaurant.is_open,
+    next_open_at: restaurant.next_open_at ?? null,
+    closes_at: restaurant.closes_at ?? null,
+    opening_label: restaurant.opening_label,
+    is_busy: restaurant.is_busy ?? false,
+    offers_delivery: restaurant.offers_delivery ?? true,
+    offers_pickup: restaurant.offers_pickup ?? false,
+    tags: restaurant.tags ?? [],
   };
 
   return { restaurant: detail };
 }
 
+export interface DeliverySlot {
+  start: string; // ISO 8601, Europe/Rome offset
+  end: string;
+}
+
+export interface RestaurantSlots {
+  slots: DeliverySlot[];
+  asap_available: boolean;
+  eta_min: number;
+  eta_max: number;
+  timezone: string;
+}
+
+/**
+ * Get delivery slots available for scheduled orders
+ * @param slug - Restaurant slug
+ */
+export async function getRestaurantSlots(slug: string): Promise<RestaurantSlots> {
+  const data = await httpClient.get<any>(`/restaurants/${slug}/slots`);
+  return data && data.data ? data.data : data;
+}
+
 /**
  * Get restaurant menu by slug
  * @param slug - Restaurant slug
@@ -291,22 +458,55 @@ export interface OrderItem {
   }>;
 }
 
+export interface DeliveryAddressInput {
+  street: string;
+  number: string;
+  city: string;
+  zip: string;
+  floor?: string;
+  intercom?: string;
+  note?: string;
+}
+
 export interface CreateOrderPayload {
   restaurant_id: string;
   payment_method: 'CASH' | 'ONLINE';
-  address: {
-    street: string;
-    number: string;
-    city: string;
-    zip: string;
-    floor?: string;
-    intercom?: string;
-    note?: string;
-  };
+  fulfilment_type?: FulfilmentType; // default DELIVERY
+  address?: DeliveryAddressInput; // omitted for pickup
   notes?: string;
+  scheduled_for?: string; // slot start, omitted for ASAP
   items: OrderItem[];
 }
 
+export interface OrderStatusEvent {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  actor_type: 'CUSTOMER' | 'ADMIN' | 'SYSTEM' | 'COURIER';
+  reason: string | null;
+  created_at: string;
+}
+
+export interface FeeBreakdown {
+  subtotal_cents: number;
+  delivery: {
+    base_fee_cents: number;
+    distance_m: number | null;
+    band_up_to_m: number | null;
+    free_delivery_threshold_cents: number | null;
+    free_delivery_applied: boolean;
+    fee_cents: number;
+  };
+  service: {
+    type: 'none' | 'flat' | 'percent';
+    value: number;
+    min_cents: number | null;
+    max_cents: number | null;
+    fee_cents: number;
+  };
+  total_cents: number;
+}
+
 export interface Order {
   id: string;
   user_id: string;
@@ -314,13 +514,49 @@ export interface Order {
   status: string;
   payment_method: string;
   payment_status: string;
+  fulfilment_type?: FulfilmentType;
   address: any;
   notes: string | null;
   subtotal_cents: number;
   delivery_fee_cents: number;
+  service_fee_cents?: number;
   total_cents: number;
+  fee_breakdown?: FeeBreakdown | null;
+  scheduled_for?: string | null;
+  promised_from?: string | null; // window promised when the order was placed
+  promised_to?: string | null;
+  courier_id?: string | null;
+  handover_code?: string; // given to the courier at the door
   created_at: string;
   items?: any[];
+  status_events?: OrderStatusEvent[];
+  can_cancel?: boolean;
+  refund_due?: boolean;
+  cancellation_reason?: string | null;
+  tracking?: OrderTracking | null; // only while DELIVERING
+}
+
+/**
+ * Courier position and arrival estimate of an order on its way
+ */
+export interface OrderTracking {
+  courier_position: {
+    lat: number;
+    lng: number;
+    updated_at: string;
+  } | null; // null until the courier shares a position
+  distance_m: number | null; // from the courier (or the restaurant) to the address
+  eta_minutes: number | null;
+  eta_at: string | null;
+}
+
+export interface OrderStreamEvent {
+  type: 'snapshot' | 'order.created' | 'order.status_changed' | 'order.payment_changed';
+  order_id: string;
+  status: string;
+  payment_status: string;
+  from_status?: string | null;
+  at?: string;
 }
 
 export interface CreateOrderResponse {
@@ -340,20 +576,78 @@ export interface PayOrderResponse {
   message?: string;
 }
 
+export interface CancelOrderResponse {
+  order: Order;
+}
+
+export interface CartQuoteLine {
+  line_index: number;
+  product_id: string;
+  name: string;
+  unit_price_cents: number;
+  qty: number;
+  total_cents: number;
+}
+
+export interface CartQuoteProblem {
+  line_index: number | null; // null for cart-level problems
+  code: string;
+  detail: string | null;
+  next_open_at?: string | null; // RESTAURANT_CLOSED only
+  next_slot_at?: string | null; // SLOT_FULL only
+}
+
+export interface CartQuote {
+  items: CartQuoteLine[];
+  subtotal_cents: number;
+  delivery_fee_cents: number;
+  service_fee_cents: number;
+  total_cents: number;
+  fee_breakdown: FeeBreakdown;
+  min_order_cents: number;
+  eta_min: number | null; // busy mode included, null when the restaurant cannot take the order
+  eta_max: number | null;
+  is_busy: boolean;
+  problems: CartQuoteProblem[];
+  can_order: boolean;
+}
+
+/**
+ * Price the cart on the server (same checks as order creation, nothing is written)
+ */
+export async function quoteCart(payload: {
+  restaurant_id: string;
+  items: OrderItem[];
+  fulfilment_type?: FulfilmentType;
+  scheduled_for?: string;
+  address?: DeliveryAddressInput; // checks the delivery area when given
+}): Promise<CartQuote> {
+  const { address, ...rest } = payload;
+  const backendPayload: Record<string, unknown> = { ...rest };
+  if (address) {
+    backendPayload.delivery_address = toBackendAddress(address);
+  }
+
+  const data = await httpClient.post<any>('/cart/quote', backendPayload);
+  return data && data.data ? data.data : data;
+}
+
+// Map frontend address fields to backend fields
+function toBackendAddress(address: DeliveryAddressInput) {
+  const { zip, ...addressFields } = address;
+  return { ...addressFields, postal_code: zip };
+}
+
 /**
  * Create a new order
  */
 export async function createOrder(payload: CreateOrderPayload): Promise<CreateOrderResponse> {
   // Map frontend fields to backend fields
-  const backendPayload = {
-    ...payload,
-    delivery_address: {
-      ...payload.address,
-      postal_code: payload.address.zip,
-    },
-  };
-  delete (backendPayload as any).address;
-  delete (backendPayload as any).delivery_address.zip;
+  const { address, ...rest } = payload;
+  const backendPayload: Record<string, unknown> = { ...rest };
+  if (address) {
+    backendPayload.delivery_address = toBackendAddress(address);
+  }
 
   const data = await httpClient.post<any>('/orders', backendPayload);
 
@@ -382,6 +676,15 @@ export async function payOrder(orderId: string): Promise<PayOrderResponse> {
   };
 }
 
+/**
+ * Cancel order (customer), allowed only while the restaurant policy permits it
+ */
+export async function cancelOrder(orderId: string, reason?: string): Promise<CancelOrderResponse> {
+  const data = await httpClient.post<any>(`/orders/${orderId}/cancel`, reason ? { reason } : {});
+
+  return { order: data && data.data ? data.data : data };
+}
+
 /**
  * Get order by ID
  */
@@ -421,3 +724,215 @@ export async function listOrders(): Promise<ListOrdersResponse> {
 
   return { orders };
 }
+
+/**
+ * Subscribe to live updates of an order (Server-Sent Events)
+ * Auth via access_token cookie; EventSource reconnects automatically
+ * @returns unsubscribe function
+ */
+export function subscribeToOrder(
+  orderId: string,
+  onEvent: (event: OrderStreamEvent) => void
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/orders/${orderId}/events`, {
+    withCredentials: true,
+  });
+
+  const eventTypes: OrderStreamEvent['type'][] = [
+    'snapshot',
+    'order.status_changed',
+    'order.payment_changed',
+  ];
+
+  eventTypes.forEach((type) => {
+    source.addEventListener(type, (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      onEvent({ ...data, type });
+    });
+  });
+
+  return () => source.close();
+}
+
+// ============================================================================
+// Courier APIs
+// ============================================================================
+
+export interface CourierOrder {
+  id: string;
+  status: string;
+  payment_method: string;
+  payment_status: string;
+  total_cents: number;
+  address_json: {
+    street?: string;
+    city?: string;
+    postal_code?: string;
+    notes?: string;
+  } | null;
+  notes: string | null;
+  scheduled_for: string | null;
+  promised_from: string | null;
+  promised_to: string | null;
+  courier_assigned_at: string;
+  restaurant: {
+    id: string;
+    name: string;
+    address: string;
+    city: string;
+    phone: string | null;
+  };
+  customer: {
+    name: string;
+    phone: string | null;
+  };
+}
+
+/**
+ * List the orders assigned to the logged-in courier
+ * @throws HttpError with status 403 if the user is not an active courier
+ */
+export async function listCourierOrders(): Promise<CourierOrder[]> {
+  const data = await httpClient.get<any>('/courier/orders');
+  return data.data || [];
+}
+
+/**
+ * Courier collected the order at the restaurant and is on the way
+ */
+export async function markOrderPickedUp(orderId: string): Promise<Order> {
+  const data = await httpClient.post<any>(`/courier/orders/${orderId}/picked-up`);
+  return data.data;
+}
+
+/**
+ * Proof of the handover: the code read out by the customer or a photo
+ */
+export interface DeliveryConfirmation {
+  handover_code?: string;
+  photo?: {
+    content_type: string;
+    data_base64: string;
+  };
+  cash_collected_cents?: number; // required for cash orders
+}
+
+/**
+ * Courier handed the order over to the customer
+ * @throws HttpError with status 400 if the code is wrong, 409 if too many wrong codes were entered
+ */
+export async function confirmDelivery(orderId: string, confirmation: DeliveryConfirmation): Promise<Order> {
+  const data = await httpClient.post<any>(`/courier/orders/${orderId}/delivery-confirmation`, confirmation);
+  return data.data;
+}
+
+export interface CourierRoster {
+  is_on_duty: boolean;
+  on_duty_until: string | null;
+  last_lat: number | null;
+  last_lng: number | null;
+  last_position_at: string | null;
+}
+
+export interface DeliveryOffer {
+  id: string;
+  order_id: string;
+  status: 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED' | 'CANCELLED';
+  offered_at: string;
+  expires_at: string;
+  restaurant: {
+    name: string;
+    address: string;
+    city: string;
+  };
+  address_json: CourierOrder['address_json'];
+  total_cents: number;
+  payment_status: string;
+  promised_to: string | null;
+}
+
+export interface CourierProfile extends CourierRoster {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string;
+}
+
+/**
+ * Get a token to push live positions while delivering the order
+ * @throws HttpError with status 409 if the order is not on its way
+ */
+export async function issueLocationToken(orderId: string): Promise<string> {
+  const data = await httpClient.post<any>(`/courier/orders/${orderId}/location-token`);
+  return data.data.token;
+}
+
+/**
+ * Push the courier's position for a delivery, authenticated with its location token
+ */
+export async function pushDeliveryLocation(
+  orderId: string,
+  token: string,
+  lat: number,
+  lng: number
+): Promise<void> {
+  await httpClient.post(
+    `/deliveries/${orderId}/location`,
+    { lat, lng },
+    { headers: { Authorization: `Bearer ${token}` } }
+  );
+}
+
+/**
+ * Get the logged-in courier with duty state and last position
+ * @throws HttpError with status 403 if the user is not an active courier
+ */
+export async function getCourierProfile(): Promise<CourierProfile> {
+  const data = await httpClient.get<any>('/courier/me');
+  return data.data;
+}
+
+/**
+ * Go on or off duty. Off duty, open offers are withdrawn.
+ * @param shiftMinutes - Length of the shift (omit for an open-ended shift)
+ */
+export async function setCourierDuty(onDuty: boolean, shiftMinutes?: number): Promise<CourierRoster> {
+  const data = await httpClient.post<any>('/courier/duty', {
+    on_duty: onDuty,
+    shift_minutes: shiftMinutes,
+  });
+  return data.data;
+}
+
+/**
+ * Report the courier's position, used to offer orders from nearby restaurants
+ */
+export async function updateCourierPosition(lat: number, lng: number): Promise<CourierRoster> {
+  const data = await httpClient.put<any>('/courier/position', { lat, lng });
+  return data.data;
+}
+
+/**
+ * List the open delivery offers of the logged-in courier
+ */
+export async function listCourierOffers(): Promise<DeliveryOffer[]> {
+  const data = await httpClient.get<any>('/courier/offers');
+  return data.data || [];
+}
+
+/**
+ * Accept an offer: the order is assigned to the courier
+ * @throws HttpError with status 409 if the offer has expired or was withdrawn
+ */
+export async function acceptDeliveryOffer(offerId: string): Promise<Order> {
+  const data = await httpClient.post<any>(`/courier/offers/${offerId}/accept`);
+  return data.data;
+}
+
+/**
+ * Reject an offer: the order goes to another courier
+ */
+export async function rejectDeliveryOffer(offerId: string): Promise<DeliveryOffer> {
+  const data = await httpClient.post<any>(`/courier/offers/${offerId}/reject`);
+  return data.data;
+}
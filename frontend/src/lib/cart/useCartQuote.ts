@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  quoteCart,
+  type CartQuote,
+  type CartQuoteProblem,
+  type DeliveryAddressInput,
+  type FulfilmentType,
+  type OrderItem,
+} from '../api';
+import type { CartState } from '../cartTypes';
+
+const QUOTE_DEBOUNCE_MS = 300;
+
+const ADDRESS_PROBLEM_CODES = [
+  'DELIVERY_OUT_OF_RANGE',
+  'DELIVERY_OUT_OF_AREA',
+  'ADDRESS_NOT_FOUND',
+  'DELIVERY_LOCATION_MISMATCH',
+];
+
+/**
+ * Cart lines in the shape expected by the backend (quote and order creation)
+ */
+export function toOrderItems(cart: CartState): OrderItem[] {
+  return cart.items.map((item) => ({
+    product_id: item.product_id,
+    qty: item.qty,
+    options: item.options.map((opt) => ({
+      group_id: opt.group_id,
+      item_id: opt.item_id,
+    })),
+  }));
+}
+
+/**
+ * "Riapre oggi alle 19:00" / "Riapre mer 19 mar alle 12:00" (Europe/Rome)
+ */
+export function formatNextOpenAt(nextOpenAt: string): string {
+  const date = new Date(nextOpenAt);
+  const time = date.toLocaleTimeString('it-IT', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/Rome',
+  });
+  const dayFormat: Intl.DateTimeFormatOptions = { timeZone: 'Europe/Rome', dateStyle: 'short' };
+  const isToday =
+    date.toLocaleDateString('it-IT', dayFormat) === new Date().toLocaleDateString('it-IT', dayFormat);
+
+  if (isToday) {
+    return `Riapre oggi alle ${time}`;
+  }
+
+  const day = date.toLocaleDateString('it-IT', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'Europe/Rome',
+  });
+  return `Riapre ${day} alle ${time}`;
+}
+
+/**
+ * "20:15" (Europe/Rome)
+ */
+export function formatSlotTime(start: string): string {
+  return new Date(start).toLocaleTimeString('it-IT', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/Rome',
+  });
+}
+
+/**
+ * "oggi 20:15" / "gio 13 mar 20:15" (Europe/Rome)
+ */
+export function formatSlot(start: string): string {
+  return `${formatSlotDay(start)} ${formatSlotTime(start)}`;
+}
+
+/**
+ * "oggi" / "domani" / "gio 13 mar" (Europe/Rome), used to group slots
+ */
+export function formatSlotDay(start: string): string {
+  const dayFormat: Intl.DateTimeFormatOptions = { timeZone: 'Europe/Rome', dateStyle: 'short' };
+  const day = new Date(start).toLocaleDateString('it-IT', dayFormat);
+  const now = new Date();
+
+  if (day === now.toLocaleDateString('it-IT', dayFormat)) {
+    return 'oggi';
+  }
+  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+  if (day === tomorrow.toLocaleDateString('it-IT', dayFormat)) {
+    return 'domani';
+  }
+  return new Date(start).toLocaleDateString('it-IT', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'Europe/Rome',
+  });
+}
+
+/**
+ * Whether the only thing blocking the quote is the delivery time (restaurant
+ * outside its opening hours, or slot fully booked): the order can still be
+ * scheduled for another slot.
+ */
+export function canPreOrder(quote: CartQuote): boolean {
+  return (
+    quote.problems.length > 0 &&
+    quote.problems.every(
+      (p) => (p.code === 'RESTAURANT_CLOSED' && p.detail === 'OUTSIDE_HOURS') || p.code === 'SLOT_FULL'
+    )
+  );
+}
+
+/**
+ * Whether the problem is fixed by changing the delivery address
+ */
+export function isAddressProblem(problem: CartQuoteProblem): boolean {
+  return ADDRESS_PROBLEM_CODES.includes(problem.code);
+}
+
+/**
+ * Italian message for a quote problem
+ */
+export function describeQuoteProblem(problem: CartQuoteProblem, quote: CartQuote): string {
+  switch (problem.code) {
+    case 'PRODUCT_NOT_FOUND':
+      return 'Prodotto non più disponibile';
+    case 'PRODUCT_NOT_ACTIVE':
+      return 'Prodotto al momento non disponibile';
+    case 'OPTION_NOT_FOUND':
+    case 'OPTION_NOT_ACTIVE':
+      return 'Una delle opzioni scelte non è più disponibile';
+    case 'OPTION_MIN_NOT_MET':
+    case 'OPTION_MAX_EXCEEDED':
+      return 'Le opzioni scelte non sono più valide';
+    case 'MIN_ORDER_NOT_MET':
+      return `Ordine minimo €${(quote.min_order_cents / 100).toFixed(2)}: aggiungi altri €${(
+        (quote.min_order_cents - quote.subtotal_cents) / 100
+      ).toFixed(2)}`;
+    case 'RESTAURANT_CLOSED':
+      return problem.next_open_at
+        ? `Il ristorante è chiuso. ${formatNextOpenAt(problem.next_open_at)}`
+        : 'Il ristorante è chiuso in questo momento';
+    case 'SLOT_FULL':
+      return problem.next_slot_at
+        ? `Orario al completo. Primo orario libero: ${formatSlot(problem.next_slot_at)}`
+        : 'Orario al completo, nessun altro orario libero nei prossimi giorni';
+    case 'SLOT_NOT_AVAILABLE':
+      return "L'orario di consegna scelto non è più disponibile";
+    case 'RESTAURANT_NOT_ACTIVE':
+      return 'Il ristorante non accetta ordini';
+    case 'FULFILMENT_NOT_AVAILABLE':
+      return problem.detail?.startsWith('PICKUP')
+        ? 'Il ritiro al ristorante non è disponibile'
+        : 'La consegna a domicilio non è disponibile';
+    case 'DELIVERY_OUT_OF_RANGE':
+    case 'DELIVERY_OUT_OF_AREA':
+      return 'Indirizzo fuori dalla zona di consegna';
+    case 'ADDRESS_NOT_FOUND':
+      return 'Indirizzo non trovato: controlla via, CAP e città';
+    case 'DELIVERY_LOCATION_MISMATCH':
+      return "La posizione indicata non corrisponde all'indirizzo";
+    case 'CART_EMPTY':
+      return 'Il carrello è vuoto';
+    default:
+      return problem.detail || problem.code;
+  }
+}
+
+/**
+ * Keep a server quote of the cart up to date.
+ * Prices shown to the user come from here, not from the cached menu data.
+ * Pass the chosen delivery slot to validate a scheduled order,
+ * the fulfilment type so pickup quotes leave out the delivery fee,
+ * and the delivery address (once complete) to check the delivery area.
+ * The caller debounces the address, each quote geocodes it.
+ */
+export function useCartQuote(
+  cart: CartState | null,
+  scheduledFor: string | null = null,
+  fulfilmentType: FulfilmentType = 'DELIVERY',
+  address: DeliveryAddressInput | null = null
+) {
+  const [quote, setQuote] = useState<CartQuote | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const restaurantId = cart?.restaurant_id;
+  const itemsKey = cart ? JSON.stringify(toOrderItems(cart)) : '';
+  const addressKey = address && fulfilmentType === 'DELIVERY' ? JSON.stringify(address) : '';
+
+  useEffect(() => {
+    if (!restaurantId || !itemsKey || itemsKey === '[]') {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await quoteCart({
+          restaurant_id: restaurantId,
+          items: JSON.parse(itemsKey),
+          fulfilment_type: fulfilmentType,
+          ...(scheduledFor && { scheduled_for: scheduledFor }),
+          ...(addressKey && { address: JSON.parse(addressKey) }),
+        });
+        if (!cancelled) {
+          setQuote(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Errore nel calcolo del totale');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [restaurantId, itemsKey, scheduledFor, fulfilmentType, addressKey]);
+
+  return { quote, loading, error };
+}
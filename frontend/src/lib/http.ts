@@ -5,7 +5,7 @@
  * - Throws errors with status + body for easy error handling
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
 export class HttpError extends Error {
   constructor(